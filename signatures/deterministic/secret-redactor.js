@@ -0,0 +1,52 @@
+/**
+ * API Key Redactor
+ * 
+ * Detects API keys and access tokens in server content.
+ * Responses are forwarded with the keys masked instead of being blocked.
+ * 
+ * @param {any} toolInput - The tool input/arguments to analyze
+ * @param {object} context - Additional context (toolName, userIntent, etc.)
+ * @returns {{allowed: boolean, reason: string, redact?: object[]}} - Verification result
+ */
+function redactSecrets(toolInput, context) {
+    try {
+        // Convert input to searchable string
+        const inputStr = typeof toolInput === 'string' ? toolInput : JSON.stringify(toolInput);
+
+        // Key patterns with the label shown in place of the masked key
+        const secretPatterns = [
+            { pattern: '\\bAKIA[0-9A-Z]{16}\\b', label: 'AWS access key' },
+            { pattern: '\\bgh[pousr]_[A-Za-z0-9]{36,}\\b', label: 'GitHub token' },
+            { pattern: '\\bsk-(proj-)?[A-Za-z0-9_-]{20,}\\b', label: 'OpenAI API key' },
+            { pattern: '\\bsk-ant-[A-Za-z0-9_-]{20,}\\b', label: 'Anthropic API key' },
+            { pattern: '\\bxox[abprs]-[A-Za-z0-9-]{10,}\\b', label: 'Slack token' },
+            { pattern: '\\bAIza[0-9A-Za-z_-]{35}\\b', label: 'Google API key' }
+        ];
+
+        // Only ask to mask the kinds of keys that are present
+        const detected = secretPatterns.filter(({ pattern }) => new RegExp(pattern).test(inputStr));
+
+        // Keys in tool calls were provided by the user, so they are allowed - only
+        // content returned by servers is masked
+        if (detected.length > 0) {
+            return {
+                allowed: true,
+                reason: `Detected ${detected.map(({ label }) => label).join(', ')}`,
+                redact: detected
+            };
+        }
+
+        return {
+            allowed: true,
+            reason: 'No API keys found'
+        };
+
+    } catch (error) {
+        return {
+            allowed: false,
+            reason: `API key detection error: ${error.message}`
+        };
+    }
+}
+
+module.exports = redactSecrets;
@@ -7,6 +7,11 @@ import fs from 'node:fs/promises';
 import fsSync from 'node:fs';  // Add synchronous fs for accessSync
 import path from 'node:path';
 import os from 'node:os';
+import type { Signature } from './services/signatures/types';
+import { createVerdictProvider, formatFixtureReport, runSignatureFixtures, VerdictProviderOptions } from './defender/utils/signature-fixtures';
+import { parseSignatureFile } from './services/signatures/validation';
+import { CONTENT_REQUEST_TYPES, getContentRequestName, TOOL_CALL_MAX_AGE } from './defender/utils/tool-call-tracker';
+import { SERVER_REQUEST_TYPES } from './defender/utils/server-requests';
 
 /**
  * MCP STDIO Proxy - Intercepts and verifies MCP tool calls and responses
@@ -107,12 +112,20 @@ const log = {
     }
 };
 
+// Log calls are not awaited, and the logger already reports what it can't write
+function ignoreLogFailure(): void {
+    // Nothing left to report
+}
+
 // Command arguments
 const cmdIndex = process.argv.indexOf('--debug') > -1 ?
     process.argv.indexOf('--debug') + 1 : 2;
 let command = process.argv[cmdIndex];
 const args = process.argv.slice(cmdIndex + 1);
 
+// `signatures test` runs the signature fixtures instead of proxying a server
+const isSignatureTest = command === 'signatures' && args[0] === 'test';
+
 // In production builds, resolve executable paths if needed
 if (command === 'node' || command === 'npx' || command === 'docker') {
     // Function to check if a path exists and is executable
@@ -187,13 +200,27 @@ if (command === 'node' || command === 'npx' || command === 'docker') {
     command = executablePath;
 }
 
+/**
+ * A tool call forwarded to the target server that is waiting for its response
+ * Resource reads, prompt fetches and completions are tracked the same way
+ */
+interface PendingToolCall {
+    toolName: string;              // Name of the tool being called (resource URI, prompt name or completion reference)
+    requestId: string | number;    // ID of the tool call request
+    args: any;                     // The arguments passed to the tool (without user_intent)
+    method: string;                // JSON-RPC method of the request
+    timestamp: number;             // When the call was made (for cleanup)
+    verified: boolean;             // Whether the call passed verification and was forwarded
+}
+
 // MCP protocol state
 const state = {
     protocolVersion: "2024-11-05",
-    currentToolName: null as string | null,
-    currentToolId: null as string | null,
+    // Tool calls waiting for a response, keyed by JSON-RPC request ID
+    pendingToolCalls: new Map<string, PendingToolCall>(),
     // New fields for tool discovery
-    pendingToolsListId: null as string | number | null,
+    // tools/list requests waiting for a response, keyed like tool calls
+    pendingToolsListKeys: new Set<string>(),
     discoveredTools: [] as any[],
     // App and server identification
     appName: process.env.MCP_DEFENDER_APP_NAME || 'unknown',
@@ -212,9 +239,11 @@ ensureLogDirectory().catch(err => {
 });
 
 // Initialize and log startup info
-log.debug(`Starting MCP STDIO Proxy - Process ID: ${process.pid}`);
-log.debug(`Command: ${command}`);
-log.debug(`Args: ${args.join(' ')}`);
+if (!isSignatureTest) {
+    log.debug(`Starting MCP STDIO Proxy - Process ID: ${process.pid}`);
+    log.debug(`Command: ${command}`);
+    log.debug(`Args: ${args.join(' ')}`);
+}
 if (CONFIG.discoveryMode) {
     log.info('Running in discovery mode - will exit after tools are discovered');
 
@@ -226,12 +255,74 @@ if (CONFIG.discoveryMode) {
     }, 5000);
 }
 
+/**
+ * Generate the key used to track a tool call
+ * JSON-RPC allows both string and numeric IDs, and 1 and "1" are different requests
+ *
+ * @param requestId The JSON-RPC request ID
+ * @returns A unique string key to track the tool call
+ */
+function getCallKey(requestId: string | number): string {
+    return `${typeof requestId}:${requestId}`;
+}
+
+/**
+ * Track a new tool call in the pending calls map
+ *
+ * @param toolName Name of the tool being called
+ * @param requestId Request ID from the JSON-RPC call
+ * @param args Tool arguments
+ * @param method JSON-RPC method of the request
+ * @returns The generated call key
+ */
+function trackToolCall(toolName: string, requestId: string | number, args: any, method = 'tools/call'): string {
+    const callKey = getCallKey(requestId);
+
+    state.pendingToolCalls.set(callKey, {
+        toolName,
+        requestId,
+        args,
+        method,
+        timestamp: Date.now(),
+        // Only tool calls are verified before being forwarded
+        verified: method !== 'tools/call'
+    });
+    log.debug(`Tracking tool call ${toolName} with id ${requestId} (${state.pendingToolCalls.size} pending)`).catch(ignoreLogFailure);
+
+    return callKey;
+}
+
+/**
+ * Clean up stale pending tool calls that never received responses
+ *
+ * @returns Number of calls cleaned up
+ */
+function cleanupStaleCalls(): number {
+    const now = Date.now();
+    let count = 0;
+
+    // Find and remove stale calls
+    state.pendingToolCalls.forEach((call, key) => {
+        if (now - call.timestamp > TOOL_CALL_MAX_AGE) {
+            state.pendingToolCalls.delete(key);
+            count++;
+        }
+    });
+
+    if (count > 0) {
+        log.debug(`Cleaned up ${count} stale tool calls`).catch(ignoreLogFailure);
+    }
+
+    return count;
+}
+
 /**
  * Interface for verification request data
  */
 interface VerificationData {
     message: any;
     toolName: string;
+    method?: string; // JSON-RPC method of the request being answered (responses only)
     serverInfo: any;
 }
 
@@ -342,8 +433,163 @@ async function extractServerInfo(message: any): Promise<void> {
     }
 }
 
+/**
+ * Send a tool call to MCP Defender for verification
+ *
+ * @param message The tools/call request from the client
+ * @param toolName Name of the tool being called
+ * @returns The original message if allowed, a modified request, or a block response for the client
+ */
+async function verifyToolCallRequest(message: any, toolName: string): Promise<any> {
+    // Send the tool call for verification
+    try {
+        // Add test signatures to the verification request if available
+        const verificationData: VerificationData = {
+            message,
+            toolName,
+            serverInfo: {
+                appName: state.appName,
+                name: state.serverName,
+                version: state.serverVersion
+            }
+        };
+
+        log.debug(`Sending tool call for verification: ${toolName}`).catch(ignoreLogFailure);
+        log.info(`Verifying tool call: ${toolName} - This may show a security alert if policy violations are detected`).catch(ignoreLogFailure);
+        const verificationResponse = await makeApiRequest(
+            `/verify/request`,
+            verificationData
+        );
+        log.debug(`Received verification response for ${toolName}: ${JSON.stringify(verificationResponse)}`).catch(ignoreLogFailure);
+
+        // Handle verification result
+        if (verificationResponse) {
+            // If tool call is blocked
+            if (verificationResponse.blocked) {
+                log.debug(`Tool call blocked: ${toolName} - Reason: ${verificationResponse.reason || 'Policy violation'}`).catch(ignoreLogFailure);
+
+                // Create a response that indicates the call was blocked
+                const blockResponse = {
+                    jsonrpc: "2.0",
+                    id: message.id,
+                    result: {
+                        content: [
+                            {
+                                type: "text",
+                                text: `MCP Defender blocked tool call to ${toolName} - ${verificationResponse.reason || 'Security policy violation'}`
+                            }
+                        ]
+                    }
+                };
+
+                return blockResponse;
+            }
+
+            // If tool call is modified
+            if (verificationResponse.modified && verificationResponse.message) {
+                log.debug(`Tool call modified: ${toolName}`).catch(ignoreLogFailure);
+                return verificationResponse.message;
+            }
+
+            // If verification response is valid but doesn't explicitly block or modify,
+            // and it's not explicitly allowed, treat as allowed
+            // (This handles the case where blocked: false, modified: false)
+        } else {
+            // Null or malformed verification response - block for security
+            log.error(`Received null or malformed verification response for ${toolName}`).catch(ignoreLogFailure);
+            log.error(`Blocking tool call ${toolName} due to malformed verification response`).catch(ignoreLogFailure);
+
+            const blockResponse = {
+                jsonrpc: "2.0",
+                id: message.id,
+                result: {
+                    content: [
+                        {
+                            type: "text",
+                            text: `MCP Defender blocked tool call to ${toolName} - Verification service returned invalid response. Tool calls are blocked when verification cannot be completed for security reasons.`
+                        }
+                    ]
+                }
+            };
+
+            return blockResponse;
+        }
+    } catch (error) {
+        log.error(`Tool call verification error: ${error.message}`, error).catch(() => { });
+
+        // On verification error, block the tool call for security
+        log.error(`Blocking tool call ${toolName} due to verification failure`).catch(ignoreLogFailure);
+
+        // Create a response that indicates the call was blocked due to verification error
+        const blockResponse = {
+            jsonrpc: "2.0",
+            id: message.id,
+            result: {
+                content: [
+                    {
+                        type: "text",
+                        text: `MCP Defender blocked tool call to ${toolName} - Verification service unavailable (${error.message}). Tool calls are blocked when verification cannot be completed for security reasons.`
+                    }
+                ]
+            }
+        };
+
+        return blockResponse;
+    }
+
+    return message;
+}
+
+/**
+ * Send a server-initiated request to MCP Defender for verification
+ *
+ * @param message The sampling, elicitation or roots request from the target server
+ * @returns The original message if allowed, or an error response for the target server
+ */
+async function verifyServerRequestMessage(message: any): Promise<any> {
+    // Server requests are rejected unless verification explicitly allows them
+    let reason = 'Security policy violation';
+
+    try {
+        log.info(`Verifying ${message.method} request from server - This may show a security alert`).catch(ignoreLogFailure);
+        const verificationResponse = await makeApiRequest(
+            `/verify/server-request`,
+            {
+                message,
+                serverInfo: {
+                    appName: state.appName,
+                    name: state.serverName,
+                    version: state.serverVersion
+                }
+            }
+        );
+        log.debug(`Received verification response for ${message.method}: ${JSON.stringify(verificationResponse)}`).catch(ignoreLogFailure);
+
+        if (verificationResponse && verificationResponse.blocked === false) {
+            return message;
+        }
+
+        reason = verificationResponse?.reason || reason;
+    } catch (error) {
+        log.error(`Server request verification error: ${error.message}`, error).catch(ignoreLogFailure);
+        reason = `Verification service unavailable (${error.message})`;
+    }
+
+    log.debug(`Server request blocked: ${message.method} (ID: ${message.id}) - Reason: ${reason}`).catch(ignoreLogFailure);
+
+    return {
+        jsonrpc: "2.0",
+        id: message.id,
+        error: {
+            code: -32000,
+            message: `MCP Defender blocked ${message.method} request - ${reason}`
+        }
+    };
+}
+
 /**
  * Process a JSON-RPC message from stdin before forwarding to target server
+ * Returns null when the message should be dropped without forwarding
  */
 async function processRequest(message: any): Promise<any> {
     try {
@@ -355,113 +601,70 @@ async function processRequest(message: any): Promise<any> {
         // Detect tools/list request - we'll track this to capture the response
         if (message.method === 'tools/list') {
             log.debug(`Detected tools list request with ID: ${message.id}`).catch(() => { });
-            state.pendingToolsListId = message.id;
+            if (message.id !== undefined && message.id !== null) {
+                state.pendingToolsListKeys.add(getCallKey(message.id));
+            }
+        }
+
+        // Forget calls the client has cancelled - no response will be verified for them
+        if (message.method === 'notifications/cancelled') {
+            const cancelledId = message.params?.requestId;
+            const cancelledKey = cancelledId !== undefined ? getCallKey(cancelledId) : null;
+            const cancelledCall = cancelledKey ? state.pendingToolCalls.get(cancelledKey) : undefined;
+
+            if (cancelledKey && cancelledCall) {
+                state.pendingToolCalls.delete(cancelledKey);
+                log.debug(`Tool call ${cancelledId} cancelled by client`).catch(ignoreLogFailure);
+
+                // A call still waiting on verification was never forwarded, so the
+                // target server has nothing to cancel
+                if (!cancelledCall.verified) {
+                    return null;
+                }
+            }
         }
 
         // Check if this is a tool call
         // The MCP specification uses "tools/call" for the method name
         if (message.method === 'tools/call') {
-            // Extract tool name and ID from message (params structure is different from what we expected)
+            // Extract tool name and arguments from message
             const params = message.params || {};
-            state.currentToolName = params.name || 'unknown';
-            state.currentToolId = message.id || null;
+            const toolName: string = params.name || 'unknown';
+            const { user_intent, ...toolArgs } = params.arguments || {};
 
-            log.debug(`Detected tool call: ${state.currentToolName} (ID: ${state.currentToolId})`).catch(() => { });
+            log.debug(`Detected tool call: ${toolName} (ID: ${message.id})`).catch(ignoreLogFailure);
 
-            // Send the tool call for verification
-            try {
-                // Add test signatures to the verification request if available
-                const verificationData: VerificationData = {
-                    message,
-                    toolName: state.currentToolName,
-                    serverInfo: {
-                        appName: state.appName,
-                        name: state.serverName,
-                        version: state.serverVersion
-                    }
-                };
+            // Drop calls that never got a response before tracking a new one
+            cleanupStaleCalls();
 
-                log.debug(`Sending tool call for verification: ${state.currentToolName}`).catch(() => { });
-                log.info(`Verifying tool call: ${state.currentToolName} - This may show a security alert if policy violations are detected`).catch(() => { });
-                const verificationResponse = await makeApiRequest(
-                    `/verify/request`,
-                    verificationData
-                );
-                log.debug(`Received verification response for ${state.currentToolName}: ${JSON.stringify(verificationResponse)}`).catch(() => { });
+            // Track the call before verification so a cancellation can reach it while it waits
+            const hasId = message.id !== undefined && message.id !== null;
+            const callKey = hasId ? trackToolCall(toolName, message.id, toolArgs) : null;
 
-                // Handle verification result
-                if (verificationResponse) {
-                    // If tool call is blocked
-                    if (verificationResponse.blocked) {
-                        log.debug(`Tool call blocked: ${state.currentToolName} - Reason: ${verificationResponse.reason || 'Policy violation'}`).catch(() => { });
+            const verifiedMessage = await verifyToolCallRequest(message, toolName);
 
-                        // Create a response that indicates the call was blocked
-                        const blockResponse = {
-                            jsonrpc: "2.0",
-                            id: message.id,
-                            result: {
-                                content: [
-                                    {
-                                        type: "text",
-                                        text: `MCP Defender blocked tool call to ${state.currentToolName} - ${verificationResponse.reason || 'Security policy violation'}`
-                                    }
-                                ]
-                            }
-                        };
-
-                        return blockResponse;
-                    }
-
-                    // If tool call is modified
-                    if (verificationResponse.modified && verificationResponse.message) {
-                        log.debug(`Tool call modified: ${state.currentToolName}`).catch(() => { });
-                        return verificationResponse.message;
-                    }
-
-                    // If verification response is valid but doesn't explicitly block or modify,
-                    // and it's not explicitly allowed, treat as allowed
-                    // (This handles the case where blocked: false, modified: false)
-                } else {
-                    // Null or malformed verification response - block for security
-                    log.error(`Received null or malformed verification response for ${state.currentToolName}`).catch(() => { });
-                    log.error(`Blocking tool call ${state.currentToolName} due to malformed verification response`).catch(() => { });
-
-                    const blockResponse = {
-                        jsonrpc: "2.0",
-                        id: message.id,
-                        result: {
-                            content: [
-                                {
-                                    type: "text",
-                                    text: `MCP Defender blocked tool call to ${state.currentToolName} - Verification service returned invalid response. Tool calls are blocked when verification cannot be completed for security reasons.`
-                                }
-                            ]
-                        }
-                    };
+            // The client cancelled the call while it was being verified - the target server
+            // never saw it, so drop it without forwarding anything
+            const pendingCall = callKey ? state.pendingToolCalls.get(callKey) : undefined;
+            if (callKey && !pendingCall) {
+                log.debug(`Dropping tool call ${toolName} (ID: ${message.id}) cancelled during verification`).catch(ignoreLogFailure);
+                return null;
+            }
 
-                    return blockResponse;
+            // Blocked calls are answered directly and will never get a response from the target
+            if (verifiedMessage.result) {
+                if (callKey) {
+                    state.pendingToolCalls.delete(callKey);
                 }
-            } catch (error) {
-                log.error(`Tool call verification error: ${error.message}`, error).catch(() => { });
-
-                // On verification error, block the tool call for security
-                log.error(`Blocking tool call ${state.currentToolName} due to verification failure`).catch(() => { });
+                return verifiedMessage;
+            }
 
-                // Create a response that indicates the call was blocked due to verification error
-                const blockResponse = {
-                    jsonrpc: "2.0",
-                    id: message.id,
-                    result: {
-                        content: [
-                            {
-                                type: "text",
-                                text: `MCP Defender blocked tool call to ${state.currentToolName} - Verification service unavailable (${error.message}). Tool calls are blocked when verification cannot be completed for security reasons.`
-                            }
-                        ]
-                    }
-                };
+            if (pendingCall) {
+                pendingCall.verified = true;
+            }
 
-                return blockResponse;
+            if (verifiedMessage !== message) {
+                return verifiedMessage;
             }
 
             // If verification passed, we need to strip user_intent before forwarding to target
@@ -484,6 +687,12 @@ async function processRequest(message: any): Promise<any> {
             }
         }
 
+        // Track resource reads, prompt fetches and completions so their results get verified
+        if (CONTENT_REQUEST_TYPES.has(message.method) && message.id !== undefined && message.id !== null) {
+            cleanupStaleCalls();
+            trackToolCall(getContentRequestName(message), message.id, message.params || {}, message.method);
+        }
+
         // Add this inside processRequest function right before returning the message:
         if (message.method && message.method.startsWith('tools/')) {
             log.debug(`Handling MCP method: ${message.method}, params: ${JSON.stringify(message.params)}`).catch(() => { });
@@ -503,18 +712,33 @@ async function processRequest(message: any): Promise<any> {
  */
 async function processResponse(message: any): Promise<any> {
     try {
-        // Add debug info about the message we're processing
-        if (state.currentToolName && message.id === state.currentToolId) {
-            log.debug(`Received potential response for tool ${state.currentToolName} with ID ${state.currentToolId}`).catch(() => { });
+        // Look up the tool call this message responds to, if any
+        const callKey = !message.method && message.id !== undefined && message.id !== null
+            ? getCallKey(message.id)
+            : null;
+        const pendingCall = callKey ? state.pendingToolCalls.get(callKey) : undefined;
+
+        if (callKey && pendingCall) {
+            // A request gets exactly one response, so stop tracking the call now
+            state.pendingToolCalls.delete(callKey);
+            log.debug(`Received response for tool ${pendingCall.toolName} with ID ${message.id}`).catch(ignoreLogFailure);
+        }
+
+        // Requests sent by the server to the client are verified before the client sees them
+        if (SERVER_REQUEST_TYPES.has(message.method) && message.id !== undefined && message.id !== null) {
+            log.debug(`Detected ${message.method} request from server (ID: ${message.id})`).catch(ignoreLogFailure);
+            return await verifyServerRequestMessage(message);
         }
 
         // Check for server info in initialize response
         if (message.id === 0 && message.result && message.result.serverInfo) {
-            extractServerInfo(message).catch(() => { }); // Non-blocking
+            extractServerInfo(message).catch(error => log.error('Failed to extract server info', error).catch(ignoreLogFailure)); // Non-blocking
         }
 
         // Check if this is a response to a tools/list request
-        if (state.pendingToolsListId !== null && message.id === state.pendingToolsListId && message.result) {
+        // Every tools/list response is checked, even when the client sent another list request meanwhile
+        const isToolsListResponse = callKey !== null && state.pendingToolsListKeys.delete(callKey);
+        if (isToolsListResponse && message.result) {
             log.debug('Received tools list response').catch(() => { }); // Non-blocking
 
             // Store the original tools locally
@@ -567,63 +791,72 @@ async function processResponse(message: any): Promise<any> {
             // Store both original and modified tools
             state.discoveredTools = originalTools; // Keep original for registration
 
-            // Register tools with defender in background (non-blocking)
-            setImmediate(async () => {
-                try {
-                    // Create enhanced registration data with explicit tool information
-                    const toolsWithDescriptions = originalTools.map((tool: any) => ({
-                        name: tool.name,
-                        description: tool.description || null,
-                        parameters: tool.inputSchema || null,
-                        // Preserve any additional tool properties
-                        ...tool
-                    }));
-
-                    const registrationData = {
-                        tools: toolsWithDescriptions,
-                        serverInfo: {
-                            appName: state.appName,
-                            name: state.serverName,
-                            version: state.serverVersion
-                        },
+            // Register tools with defender, which answers with the changed or flagged tools to hide
+            // The defender waits for the user to review changed tool definitions, and for the
+            // scan only when hiding flagged tools is enabled. Without an answer there's no telling
+            // which tools changed or were flagged, so none are listed.
+            let hiddenTools: string[] = originalTools.map((tool: any) => tool.name);
+            try {
+                // Create enhanced registration data with explicit tool information
+                const toolsWithDescriptions = originalTools.map((tool: any) => ({
+                    name: tool.name,
+                    description: tool.description || null,
+                    parameters: tool.inputSchema || null,
+                    // Preserve any additional tool properties
+                    ...tool
+                }));
+
+                const registrationData = {
+                    tools: toolsWithDescriptions,
+                    serverInfo: {
                         appName: state.appName,
-                        serverName: state.serverName
-                    };
+                        name: state.serverName,
+                        version: state.serverVersion
+                    },
+                    appName: state.appName,
+                    serverName: state.serverName
+                };
 
-                    await makeApiRequest('/register-tools', registrationData);
-                    log.debug('Successfully registered tools with defender').catch(() => { });
+                const registration = await makeApiRequest('/register-tools', registrationData);
+                hiddenTools = Array.isArray(registration?.hiddenTools) ? registration.hiddenTools : [];
+                log.debug('Successfully registered tools with defender').catch(() => { });
 
-                    // In discovery mode, exit after successfully registering tools
-                    if (state.exitAfterDiscovery) {
-                        log.info(`Discovery mode: Exiting after successful tool registration`).catch(() => { });
-                        setTimeout(() => {
-                            process.exit(0);
-                        }, 100); // Shorter delay since response is already sent
-                    }
-                } catch (error) {
-                    log.error('Failed to register tools with defender', error).catch(() => { });
-
-                    if (state.exitAfterDiscovery) {
-                        log.error('Discovery mode: Exiting after failed tool registration').catch(() => { });
-                        setTimeout(() => {
-                            process.exit(1);
-                        }, 100);
-                    }
+                // In discovery mode, exit after successfully registering tools
+                if (state.exitAfterDiscovery) {
+                    log.info(`Discovery mode: Exiting after successful tool registration`).catch(() => { });
+                    setTimeout(() => {
+                        process.exit(0);
+                    }, 100); // Short delay so the response is written first
                 }
-            });
+            } catch (error) {
+                log.error('Failed to register tools with defender, hiding all tools', error).catch(ignoreLogFailure);
+
+                if (state.exitAfterDiscovery) {
+                    log.error('Discovery mode: Exiting after failed tool registration').catch(() => { });
+                    setTimeout(() => {
+                        process.exit(1);
+                    }, 100);
+                }
+            }
 
-            // Clear pending ID
-            state.pendingToolsListId = null;
+            // Hide changed and flagged tools until they are approved
+            if (hiddenTools.length > 0) {
+                log.info(`Hiding tools: ${hiddenTools.join(', ')}`).catch(ignoreLogFailure);
+                message.result.tools = modifiedTools.filter((tool: any) => !hiddenTools.includes(tool.name));
+            }
         }
 
         // Check if this is a response to a tool call
-        // In MCP, tool responses have a result property and match our tracked currentToolId
-        if (message.result && state.currentToolName && message.id && message.id === state.currentToolId) {
-            log.debug(`Detected response for tool: ${state.currentToolName}`).catch(() => { });
+        // In MCP, tool responses have a result property and match a pending tool call
+        // Resource, prompt and completion results are tracked and verified the same way
+        if (message.result && pendingCall) {
+            const toolName = pendingCall.toolName;
+            log.debug(`Detected ${pendingCall.method} response for: ${toolName}`).catch(ignoreLogFailure);
 
             const verificationData: VerificationData = {
                 message,
-                toolName: state.currentToolName,
+                toolName,
+                method: pendingCall.method,
                 serverInfo: {
                     appName: state.appName,
                     name: state.serverName,
@@ -633,18 +866,31 @@ async function processResponse(message: any): Promise<any> {
 
             // Send the response for verification
             try {
-                log.debug(`Sending tool response for verification: ${state.currentToolName}`).catch(() => { });
+                log.debug(`Sending tool response for verification: ${toolName}`).catch(ignoreLogFailure);
                 const verificationResponse = await makeApiRequest(
                     `/verify/response`,
                     verificationData
                 );
-                log.debug(`Received verification response for ${state.currentToolName}: ${JSON.stringify(verificationResponse)}`).catch(() => { });
+                log.debug(`Received verification response for ${toolName}: ${JSON.stringify(verificationResponse)}`).catch(ignoreLogFailure);
 
                 // Handle verification result
                 if (verificationResponse) {
                     // If response is blocked
                     if (verificationResponse.blocked) {
-                        log.debug(`Tool response blocked: ${state.currentToolName} - Reason: ${verificationResponse.reason || 'Policy violation'}`).catch(() => { });
+                        log.debug(`Tool response blocked: ${toolName} - Reason: ${verificationResponse.reason || 'Policy violation'}`).catch(ignoreLogFailure);
+
+                        // Resource, prompt and completion results have no content field to carry
+                        // the block message, so those are answered with a JSON-RPC error instead
+                        if (pendingCall.method !== 'tools/call') {
+                            return {
+                                jsonrpc: "2.0",
+                                id: message.id,
+                                error: {
+                                    code: -32000,
+                                    message: `MCP Defender blocked ${pendingCall.method} response for ${toolName} - ${verificationResponse.reason || 'Security policy violation'}`
+                                }
+                            };
+                        }
 
                         // Create a response that indicates the result was blocked
                         const blockResponse = {
@@ -654,26 +900,18 @@ async function processResponse(message: any): Promise<any> {
                                 content: [
                                     {
                                         type: "text",
-                                        text: `MCP Defender blocked response from tool ${state.currentToolName} - ${verificationResponse.reason || 'Security policy violation'}`
+                                        text: `MCP Defender blocked response from tool ${toolName} - ${verificationResponse.reason || 'Security policy violation'}`
                                     }
                                 ]
                             }
                         };
 
-                        // Clear tool state
-                        state.currentToolName = null;
-                        state.currentToolId = null;
-
                         return blockResponse;
                     }
 
                     // If response is modified
                     if (verificationResponse.modified && verificationResponse.message) {
-                        log.debug(`Tool response modified: ${state.currentToolName}`).catch(() => { });
-
-                        // Clear tool state
-                        state.currentToolName = null;
-                        state.currentToolId = null;
+                        log.debug(`Tool response modified: ${toolName}`).catch(ignoreLogFailure);
 
                         return verificationResponse.message;
                     }
@@ -681,27 +919,162 @@ async function processResponse(message: any): Promise<any> {
             } catch (error) {
                 log.error('Tool response verification error', error).catch(() => { });
             }
-
-            // Clear tool info after processing the response
-            state.currentToolName = null;
-            state.currentToolId = null;
         }
 
         // For non-tool responses or verified responses, pass through
         return message;
     } catch (error) {
         log.error('Error processing response', error).catch(() => { });
-        state.currentToolName = null;
-        state.currentToolId = null;
         return message; // Pass through on error
     }
 }
 
+/**
+ * Create a pump that processes messages concurrently but writes them in arrival order
+ *
+ * Messages that need verification (which can wait on a security alert) are taken out of
+ * line: they never overtake earlier messages, but later messages don't wait for them.
+ * Everything else is written in the order it was received.
+ *
+ * @param processMessage Processes a message and returns what to write, or null to drop it
+ * @param needsVerification Whether a message may wait on verification
+ * @param writeMessage Writes a processed message to its destination
+ * @param direction Label used in error logs
+ * @returns push() accepts the next message read from the stream, drain() resolves once
+ *          every message pushed so far has been written or dropped
+ */
+function createMessagePump(
+    processMessage: (message: any) => Promise<any>,
+    needsVerification: (message: any) => boolean,
+    writeMessage: (original: any, processed: any) => void,
+    direction: string
+): { push: (message: any) => void; drain: () => Promise<void> } {
+    // Resolves once every message that is still in line has been written
+    let inLine: Promise<void> = Promise.resolve();
+    const inFlight = new Set<Promise<void>>();
+
+    const push = (message: any) => {
+        // Decide before processing starts, since processing updates the pending call state
+        const waitsOnVerification = needsVerification(message);
+        const previous = inLine;
+
+        const written = processMessage(message)
+            .then(async (processed) => {
+                await previous;
+                if (processed) {
+                    writeMessage(message, processed);
+                }
+            })
+            .catch(error => {
+                log.error(`Failed to process ${direction} message`, error).catch(ignoreLogFailure);
+            });
+
+        inFlight.add(written);
+        written.then(() => inFlight.delete(written));
+
+        if (!waitsOnVerification) {
+            inLine = written;
+        }
+    };
+
+    const drain = async () => {
+        await Promise.all(Array.from(inFlight));
+    };
+
+    return { push, drain };
+}
+
+/**
+ * Get the signatures directory of the MCP Defender app
+ */
+function getDefaultSignaturesDirectory(): string {
+    const appData = process.platform === 'darwin' ? path.join(os.homedir(), 'Library', 'Application Support') :
+        process.platform === 'win32' ? (process.env.APPDATA || path.join(os.homedir(), 'AppData', 'Roaming')) :
+            (process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config'));
+
+    return path.join(appData, 'MCP Defender', 'signatures');
+}
+
+/**
+ * Run the fixtures of the signatures and print a report
+ *
+ * Usage: cli signatures test [signature id...] [--dir <signatures directory>]
+ *        [--provider openai|anthropic|local --model <model> [--base-url <url>]]
+ *
+ * LLM signatures are sent to the provider when one is given, with the key from
+ * OPENAI_API_KEY or ANTHROPIC_API_KEY, otherwise the replies recorded in the fixtures are used.
+ *
+ * @param testArgs The arguments after `signatures test`
+ * @returns The exit code - 1 when a case failed or the signatures could not be loaded or are invalid
+ */
+async function runSignatureTestCommand(testArgs: string[]): Promise<number> {
+    const options: Record<string, string> = {};
+    const signatureIds: string[] = [];
+    for (let index = 0; index < testArgs.length; index++) {
+        if (testArgs[index].startsWith('--')) {
+            options[testArgs[index].slice(2)] = testArgs[++index] || '';
+        } else {
+            signatureIds.push(testArgs[index]);
+        }
+    }
+
+    const signaturesDirectory = path.resolve(options.dir || getDefaultSignaturesDirectory());
+
+    let signatures: Signature[];
+    try {
+        const validation = parseSignatureFile(await fs.readFile(path.join(signaturesDirectory, 'signatures.json'), 'utf8'), 'signatures.json');
+        if (validation.errors.length > 0) {
+            for (const error of validation.errors) {
+                const entry = error.index !== undefined ? ` entry ${error.index + 1}${error.signatureId ? ` (${error.signatureId})` : ''}` : '';
+                console.error(`${error.file}${entry}: ${error.message}`);
+            }
+            return 1;
+        }
+        signatures = validation.signatures;
+    } catch (error) {
+        console.error(`Failed to load signatures from ${signaturesDirectory}: ${error instanceof Error ? error.message : error}`);
+        return 1;
+    }
+
+    if (signatureIds.length > 0) {
+        signatures = signatures.filter(signature => signatureIds.includes(signature.id));
+    }
+
+    let providerOptions: VerdictProviderOptions | undefined;
+    if (options.provider) {
+        const provider = options.provider as VerdictProviderOptions['provider'];
+        if (!['openai', 'anthropic', 'local'].includes(provider) || !options.model) {
+            console.error('--provider must be openai, anthropic or local, and needs --model');
+            return 1;
+        }
+
+        providerOptions = {
+            provider,
+            model: options.model,
+            apiKey: provider === 'anthropic' ? process.env.ANTHROPIC_API_KEY : process.env.OPENAI_API_KEY,
+            baseUrl: options['base-url']
+        };
+    }
+
+    const report = await runSignatureFixtures(signatures, {
+        signaturesDirectory,
+        provider: providerOptions && createVerdictProvider(providerOptions)
+    });
+
+    console.log(formatFixtureReport(report));
+
+    return report.failed > 0 || report.errors.length > 0 ? 1 : 0;
+}
+
 // Main execution wrapped in async function
 (async function main() {
     // Ensure log directory exists
     await ensureLogDirectory();
 
+    if (isSignatureTest) {
+        process.exit(await runSignatureTestCommand(args.slice(1)));
+    }
+
     // Handle signals to ensure clean shutdown
     async function handleSignal(signal: NodeJS.Signals, targetServer: any): Promise<void> {
         await log.debug(`Received ${signal}, shutting down`);
@@ -775,19 +1148,68 @@ async function processResponse(message: any): Promise<any> {
         process.exit(code || 0);
     });
 
+    // Periodically drop tool calls whose responses never arrived
+    setInterval(cleanupStaleCalls, TOOL_CALL_MAX_AGE).unref();
+
     // Set up read buffers for processing JSON-RPC messages
     const stdinBuffer = new ReadBuffer();
     const targetStdoutBuffer = new ReadBuffer();
 
+    // Only tool calls wait on verification - everything else flows straight through
+    const pumpRequest = createMessagePump(
+        processRequest,
+        (message) => message.method === 'tools/call',
+        (original, processed) => {
+            // If the processed message is a block response (different from the original),
+            // send it directly to stdout instead of to the target server
+            if (processed !== original && processed.result) {
+                log.debug(`Sending block response directly to stdout`).catch(() => { });
+                process.stdout.write(serializeMessage(processed));
+                return;
+            }
+
+            // Otherwise, forward to target server's stdin
+            const serialized = serializeMessage(processed);
+            log.debug(`Forwarding message to target server: ${serialized.trim()}`).catch(() => { });
+            targetServer.stdin.write(serialized);
+        },
+        'stdin'
+    );
+
+    // Responses to tracked tool calls and tools/list, and server-initiated requests wait on verification
+    // Registering the listed tools can wait on the user approving changed tool definitions
+    const pumpResponse = createMessagePump(
+        processResponse,
+        (message) => message.id !== undefined && message.id !== null && (
+            SERVER_REQUEST_TYPES.has(message.method) ||
+            (!message.method && message.result !== undefined && (
+                state.pendingToolCalls.has(getCallKey(message.id)) ||
+                state.pendingToolsListKeys.has(getCallKey(message.id))
+            ))
+        ),
+        (original, processed) => {
+            // Blocked server requests are answered directly and never reach the MCP client
+            if (original.method && processed !== original && processed.error) {
+                log.debug(`Sending server request rejection back to target server`).catch(ignoreLogFailure);
+                targetServer.stdin.write(serializeMessage(processed));
+                return;
+            }
+
+            // Forward to our stdout (to MCP client)
+            process.stdout.write(serializeMessage(processed));
+        },
+        'server'
+    );
+
     // Handle messages from stdin (from MCP client)
-    process.stdin.on('data', async (chunk) => {
+    process.stdin.on('data', (chunk) => {
         // Non-blocking debug logging
         log.debug(`Received ${chunk.length} bytes from stdin`).catch(() => { });
 
         // Add data to buffer
         stdinBuffer.append(chunk);
 
-        // Process all complete messages in the buffer
+        // Hand every complete message in the buffer to the pump
         while (true) {
             try {
                 const message = stdinBuffer.readMessage();
@@ -796,22 +1218,7 @@ async function processResponse(message: any): Promise<any> {
                 // Non-blocking debug logging
                 log.debug(`Processing message from stdin: ${JSON.stringify(message)}`).catch(() => { });
 
-                // Process the message before forwarding
-                const processedMessage = await processRequest(message);
-
-                // If the processed message is a block response (different from the original),
-                // send it directly to stdout instead of to the target server
-                if (processedMessage !== message && processedMessage.result) {
-                    log.debug(`Sending block response directly to stdout`).catch(() => { });
-                    const serialized = serializeMessage(processedMessage);
-                    process.stdout.write(serialized);
-                    continue;
-                }
-
-                // Otherwise, forward to target server's stdin
-                const serialized = serializeMessage(processedMessage);
-                log.debug(`Forwarding message to target server: ${serialized.trim()}`).catch(() => { });
-                targetServer.stdin.write(serialized);
+                pumpRequest.push(message);
             } catch (error) {
                 log.error('Failed to process stdin message', error).catch(() => { });
             }
@@ -819,14 +1226,14 @@ async function processResponse(message: any): Promise<any> {
     });
 
     // Handle messages from target server's stdout (to MCP client)
-    targetServer.stdout.on('data', async (chunk) => {
+    targetServer.stdout.on('data', (chunk) => {
         // Non-blocking debug logging
         log.debug(`Received ${chunk.length} bytes from target server: ${chunk.toString()}`).catch(() => { });
 
         // Add data to buffer
         targetStdoutBuffer.append(chunk);
 
-        // Process all complete messages in the buffer
+        // Hand every complete message in the buffer to the pump
         while (true) {
             try {
                 const message = targetStdoutBuffer.readMessage();
@@ -835,12 +1242,7 @@ async function processResponse(message: any): Promise<any> {
                 // Non-blocking debug logging
                 log.debug(`Processing message from server: ${JSON.stringify(message)}`).catch(() => { });
 
-                // Process the message before forwarding
-                const processedMessage = await processResponse(message);
-
-                // Forward to our stdout (to MCP client)
-                const serialized = serializeMessage(processedMessage);
-                process.stdout.write(serialized);
+                pumpResponse.push(message);
             } catch (error) {
                 log.error('Failed to process server message', error).catch(() => { });
             }
@@ -858,7 +1260,8 @@ async function processResponse(message: any): Promise<any> {
             // Wait for the tools response or timeout
             log.debug('Discovery mode: keeping target server alive to receive tools response').catch(() => { });
         } else {
-            targetServer.stdin.end();
+            // Let messages still being verified reach the target server first
+            pumpRequest.drain().then(() => targetServer.stdin.end());
         }
     });
 
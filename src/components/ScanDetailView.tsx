@@ -9,6 +9,8 @@ import {
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { AppIcon } from "@/components/ui/app-icon";
+import { ScanTypeLabel, getScanTypeInfo } from "@/components/ui/scan-type";
+import { SeverityBadge, getActionLabel } from "@/components/ui/severity";
 import {
     Table,
     TableBody,
@@ -22,9 +24,9 @@ import {
     AlertTriangle,
     Clock,
     Check,
+    EyeOff,
     X,
-    ArrowUp,
-    ArrowDown
+    AlertCircle
 } from "lucide-react";
 import { ScanResult, SignatureVerification } from "@/services/scans/types";
 
@@ -182,7 +184,7 @@ export default function ScanDetailView() {
                 )}
                 <div>
                     <h1 className="text-2xl font-bold">
-                        {scan.allowed ? "Allowed" : "Blocked"} Tool {scan.isResponse ? "Response" : "Call"}
+                        {scan.allowed ? "Allowed" : "Blocked"} {getScanTypeInfo(scan).title}
                     </h1>
                     <h2 className="text-xl font-mono text-muted-foreground">
                         {scan.toolName}
@@ -225,33 +227,34 @@ export default function ScanDetailView() {
                         </div>
                         <div>
                             <h3 className="font-medium mb-2">Type</h3>
-                            <div className="flex items-center gap-1.5">
-                                {scan.isResponse ? (
-                                    <>
-                                        <ArrowDown className="h-4 w-4" />
-                                        <span>Response</span>
-                                    </>
-                                ) : (
-                                    <>
-                                        <ArrowUp className="h-4 w-4" />
-                                        <span>Request</span>
-                                    </>
-                                )}
-                            </div>
-                            <div className="mt-1">
+                            <ScanTypeLabel scan={scan} />
+                            <div className="mt-1 flex gap-1">
                                 <Badge variant={scan.allowed ? "success" : "destructive"}>
                                     {scan.allowed ? "Allowed" : "Blocked"}
                                 </Badge>
+                                {scan.severity && (
+                                    <SeverityBadge severity={scan.severity} />
+                                )}
+                                {scan.redactions && scan.redactions.length > 0 && (
+                                    <Badge variant="outline" className="border-yellow-300 bg-yellow-50 text-yellow-800">
+                                        Redacted
+                                    </Badge>
+                                )}
+                                {scan.cached && (
+                                    <Badge variant="outline">
+                                        Cached
+                                    </Badge>
+                                )}
                             </div>
                         </div>
                     </div>
                 </CardContent>
             </Card>
 
-            {/* Tool arguments */}
+            {/* Tool arguments or scanned content */}
             <Card className="mb-6">
                 <CardHeader>
-                    <CardTitle className="text-lg">Tool Arguments</CardTitle>
+                    <CardTitle className="text-lg">{getScanTypeInfo(scan).contentTitle}</CardTitle>
                 </CardHeader>
                 <CardContent>
                     <pre className="text-sm overflow-auto max-h-[300px] bg-muted p-4 rounded-md font-mono whitespace-pre-wrap break-words">
@@ -260,10 +263,59 @@ export default function ScanDetailView() {
                 </CardContent>
             </Card>
 
+            {/* Parts masked before the content was forwarded */}
+            {scan.redactions && scan.redactions.length > 0 && (
+                <Card className="mb-6">
+                    <CardHeader>
+                        <CardTitle className="text-lg">Redactions</CardTitle>
+                        <CardDescription>
+                            These values were masked before the content was forwarded. The original values are not stored.
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>Value</TableHead>
+                                    <TableHead>Signature</TableHead>
+                                    <TableHead className="w-[100px]">Occurrences</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {scan.redactions.map((redaction, idx) => (
+                                    <TableRow key={idx}>
+                                        <TableCell className="font-medium">{redaction.label}</TableCell>
+                                        <TableCell>{redaction.signatureName}</TableCell>
+                                        <TableCell>{redaction.count}</TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    </CardContent>
+                </Card>
+            )}
+
             {/* Signature verifications */}
             <Card>
                 <CardHeader>
                     <CardTitle className="text-lg">Signature Verifications</CardTitle>
+                    {scan.cached && (
+                        <CardDescription>
+                            Identical content was verified recently, so this result was reused
+                            {scan.cachedFromScanId && (
+                                <>
+                                    {" from "}
+                                    <Button
+                                        variant="link"
+                                        className="h-auto p-0"
+                                        onClick={() => window.scanAPI.openScanDetailWindow(scan.cachedFromScanId!)}
+                                    >
+                                        the original scan
+                                    </Button>
+                                </>
+                            )}
+                        </CardDescription>
+                    )}
                 </CardHeader>
                 <CardContent>
                     <div className="overflow-x-auto">
@@ -284,27 +336,69 @@ export default function ScanDetailView() {
                                             <div className="text-xs text-muted-foreground">
                                                 ID: {verification.signatureId}
                                             </div>
+                                            {verification.severity && (
+                                                <SeverityBadge severity={verification.severity} className="mt-1 text-xs" />
+                                            )}
                                         </TableCell>
                                         <TableCell>
                                             {verification.modelName || "Unknown"}
                                         </TableCell>
                                         <TableCell>
-                                            {verification.allowed ? (
+                                            {verification.error ? (
+                                                <div className={`flex items-center gap-1 font-medium ${verification.allowed ? "text-yellow-600" : "text-red-500"}`}>
+                                                    <AlertCircle className="h-4 w-4" />
+                                                    Error
+                                                </div>
+                                            ) : verification.redacted ? (
+                                                <div className="flex items-center gap-1 text-yellow-600 font-medium">
+                                                    <EyeOff className="h-4 w-4" />
+                                                    Redacted
+                                                </div>
+                                            ) : verification.allowed ? (
                                                 <div className="flex items-center gap-1 text-green-500 font-medium">
                                                     <Check className="h-4 w-4" />
                                                     Allowed
                                                 </div>
+                                            ) : verification.action === "warn" || verification.action === "log" ? (
+                                                <div className={`flex items-center gap-1 font-medium ${verification.action === "warn" ? "text-yellow-600" : "text-muted-foreground"}`}>
+                                                    <AlertTriangle className="h-4 w-4" />
+                                                    {getActionLabel(verification.action)}
+                                                </div>
                                             ) : (
                                                 <div className="flex items-center gap-1 text-red-500 font-medium">
                                                     <X className="h-4 w-4" />
                                                     Blocked
                                                 </div>
                                             )}
+                                            {verification.confidence !== undefined && (
+                                                <div className="text-xs text-muted-foreground">
+                                                    {Math.round(verification.confidence * 100)}% confidence
+                                                </div>
+                                            )}
                                         </TableCell>
                                         <TableCell className="max-w-[400px]">
                                             <div className="whitespace-normal break-words">
                                                 {verification.reason}
                                             </div>
+                                            {verification.evidence && verification.evidence.length > 0 && (
+                                                <div className="mt-1 space-y-1">
+                                                    {verification.evidence.map((excerpt, i) => (
+                                                        <code key={i} className="block text-xs bg-muted px-1 py-0.5 rounded whitespace-pre-wrap break-all">
+                                                            {excerpt}
+                                                        </code>
+                                                    ))}
+                                                </div>
+                                            )}
+                                            {verification.matches && verification.matches.length > 0 && (
+                                                <div className="mt-1 space-y-1">
+                                                    {verification.matches.map((match, i) => (
+                                                        <div key={i} className="text-xs text-muted-foreground">
+                                                            <code className="bg-muted px-1 py-0.5 rounded break-all">{match.path}</code>
+                                                            {" "}characters {match.start}–{match.end} ({match.rule})
+                                                        </div>
+                                                    ))}
+                                                </div>
+                                            )}
                                         </TableCell>
                                     </TableRow>
                                 ))}
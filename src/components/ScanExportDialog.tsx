@@ -0,0 +1,115 @@
+import { useState } from "react"
+import { toast } from "sonner"
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+    DialogDescription,
+    DialogFooter,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue
+} from "@/components/ui/select"
+import { ScanExportFormat, ScanQuery } from "@/services/scans/types"
+
+// Formats offered for export
+const FORMAT_OPTIONS: { value: ScanExportFormat; label: string; description: string }[] = [
+    { value: "csv", label: "CSV", description: "One row per scan, for spreadsheets." },
+    { value: "jsonl", label: "JSON Lines", description: "One full scan result per line." },
+    { value: "sarif", label: "SARIF 2.1.0", description: "Blocked scans as results of the signatures that blocked them, for code-scanning dashboards." }
+];
+
+interface ScanExportDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    query: ScanQuery;  // Filters of the scans to export
+    total: number;     // Scans matching the filters
+}
+
+/**
+ * Dialog that exports the scans matching the Threats tab filters to a file
+ */
+export function ScanExportDialog({ open, onOpenChange, query, total }: ScanExportDialogProps) {
+    const [format, setFormat] = useState<ScanExportFormat>("csv");
+    const [redactArguments, setRedactArguments] = useState(true);
+    const [isExporting, setIsExporting] = useState(false);
+
+    const exportScans = async () => {
+        setIsExporting(true);
+        try {
+            const result = await window.scanAPI.exportScans(query, { format, redactArguments });
+            if (result.filePath) {
+                toast.success(`Exported ${result.count} ${result.count === 1 ? "scan" : "scans"} to ${result.filePath}`);
+                onOpenChange(false);
+            }
+        } catch (error) {
+            console.error("Failed to export scan history:", error);
+            toast.error("Failed to export scan history");
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-[425px]">
+                <DialogHeader>
+                    <DialogTitle>Export Scan History</DialogTitle>
+                    <DialogDescription>
+                        Save the {total} {total === 1 ? "scan" : "scans"} matching the current filters to a file.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-4 py-2">
+                    <div className="space-y-2">
+                        <Label htmlFor="scan-export-format" className="text-sm">Format</Label>
+                        <Select value={format} onValueChange={(value) => setFormat(value as ScanExportFormat)}>
+                            <SelectTrigger id="scan-export-format">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {FORMAT_OPTIONS.map(option => (
+                                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        <p className="text-xs text-muted-foreground">
+                            {FORMAT_OPTIONS.find(option => option.value === format)?.description}
+                        </p>
+                    </div>
+
+                    <div className="flex items-center justify-between space-x-2">
+                        <div>
+                            <Label htmlFor="scan-export-redact" className="text-sm">Redact Tool Arguments</Label>
+                            <p className="text-xs text-muted-foreground">
+                                Leave out the arguments and responses that were scanned, and the evidence and reasons quoted from them.
+                            </p>
+                        </div>
+                        <Switch
+                            id="scan-export-redact"
+                            checked={redactArguments}
+                            onCheckedChange={setRedactArguments}
+                        />
+                    </div>
+                </div>
+
+                <DialogFooter>
+                    <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isExporting}>
+                        Cancel
+                    </Button>
+                    <Button onClick={exportScans} disabled={isExporting || total === 0}>
+                        {isExporting ? "Exporting..." : "Export"}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -29,6 +29,21 @@ import {
 } from "lucide-react";
 import { ScanResult, SignatureVerification } from "@/services/scans/types";
 import { Progress } from "@/components/ui/progress";
+import { getScanType } from "@/components/ui/scan-type";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue
+} from "@/components/ui/select";
+import {
+    DECISION_DURATION_OPTIONS,
+    DECISION_SCOPE_OPTIONS,
+    durationToValue,
+    valueToDuration
+} from "@/components/ui/decision-override";
+import { DecisionOverrideScope } from "@/services/settings/types";
 
 // Component for the security alert view in a new window
 export default function SecurityAlertView() {
@@ -37,6 +52,8 @@ export default function SecurityAlertView() {
     const [error, setError] = useState<string | null>(null);
     const [secondsRemaining, setSecondsRemaining] = useState(30);
     const [remember, setRemember] = useState(false);
+    const [rememberScope, setRememberScope] = useState<DecisionOverrideScope>('tool');
+    const [rememberDuration, setRememberDuration] = useState<number | null>(null);
 
     useEffect(() => {
         // Fetch the scan ID from the URL
@@ -119,7 +136,10 @@ export default function SecurityAlertView() {
         // Send the decision to the main process
         if (window.securityAPI) {
             console.log(`Sending decision for ${scanId}: ${allowed ? 'ALLOW' : 'BLOCK'}, remember: ${remember}`);
-            window.securityAPI.sendDecision(scanId, allowed, remember);
+            window.securityAPI.sendDecision(scanId, allowed, remember, {
+                scope: rememberScope,
+                duration: rememberDuration
+            });
 
             // Close the window immediately - the main process will also close it,
             // but this makes the UI feel more responsive
@@ -232,6 +252,16 @@ export default function SecurityAlertView() {
                         </div>
                     </div>
 
+                    {/* Changed tool definitions */}
+                    {getScanType(scan) === 'tool_change' && (
+                        <div className="mb-4">
+                            <h3 className="font-medium mb-1">Tool Definition Changes</h3>
+                            <pre className="text-xs font-mono bg-muted p-2 rounded max-h-[200px] overflow-auto whitespace-pre-wrap break-words">
+                                {scan.toolArgs}
+                            </pre>
+                        </div>
+                    )}
+
                     {/* Violation info */}
                     <div>
                         <h3 className="font-medium mb-2">Security Violations</h3>
@@ -274,19 +304,61 @@ export default function SecurityAlertView() {
                         <Progress value={(secondsRemaining / 30) * 100} className="h-2" />
                     </div>
 
-                    {/* Remember checkbox */}
-                    <div className="flex items-center w-full">
-                        <input
-                            type="checkbox"
-                            id="remember-decision"
-                            checked={remember}
-                            onChange={toggleRemember}
-                            className="mr-2"
-                        />
-                        <label htmlFor="remember-decision" className="text-sm">
-                            Remember decision for this tool
-                        </label>
-                    </div>
+                    {/* Remember checkbox, changed tool definitions are always reviewed */}
+                    {getScanType(scan) !== 'tool_change' && (
+                        <div className="flex items-center w-full">
+                            <input
+                                type="checkbox"
+                                id="remember-decision"
+                                checked={remember}
+                                onChange={toggleRemember}
+                                className="mr-2"
+                            />
+                            <label htmlFor="remember-decision" className="text-sm">
+                                Remember decision
+                            </label>
+                        </div>
+                    )}
+
+                    {/* What the remembered decision applies to and for how long */}
+                    {remember && (
+                        <div className="flex gap-2 w-full">
+                            <Select
+                                value={rememberScope}
+                                onValueChange={(value) => setRememberScope(value as DecisionOverrideScope)}
+                            >
+                                <SelectTrigger className="h-8 text-xs flex-1">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {DECISION_SCOPE_OPTIONS.map(option => (
+                                        <SelectItem key={option.value} value={option.value} className="text-xs">
+                                            {option.label}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                            <Select
+                                value={durationToValue(rememberDuration)}
+                                onValueChange={(value) => setRememberDuration(valueToDuration(value))}
+                            >
+                                <SelectTrigger className="h-8 text-xs w-36">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {DECISION_DURATION_OPTIONS.map(option => (
+                                        <SelectItem
+                                            key={durationToValue(option.value)}
+                                            value={durationToValue(option.value)}
+                                            className="text-xs"
+                                        >
+                                            {option.label}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    )}
 
                     {/* Action buttons */}
                     <div className="flex justify-between w-full">
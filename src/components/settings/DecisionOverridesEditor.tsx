@@ -0,0 +1,173 @@
+import { Button } from "@/components/ui/button"
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue
+} from "@/components/ui/select"
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow
+} from "@/components/ui/table"
+import { Trash2 } from "lucide-react"
+import { DecisionOverride, DecisionOverrideScope } from "@/services/settings/types"
+import {
+    DECISION_DURATION_OPTIONS,
+    DECISION_SCOPE_OPTIONS,
+    durationToValue,
+    isDecisionExpired,
+    valueToDuration
+} from "@/components/ui/decision-override"
+
+interface DecisionOverridesEditorProps {
+    overrides: DecisionOverride[];
+    onChange: (overrides: DecisionOverride[]) => void;
+}
+
+// Describe when a remembered decision expires
+const getExpiryLabel = (override: DecisionOverride) => {
+    if (override.expiresAt === null) {
+        return "Until revoked";
+    }
+    if (isDecisionExpired(override)) {
+        return "Expired";
+    }
+    return `Until ${new Date(override.expiresAt).toLocaleString()}`;
+};
+
+/**
+ * Editor for the decisions remembered from security alerts
+ * Decisions can be switched between allow and block, rescoped, given a new expiry or revoked
+ */
+export default function DecisionOverridesEditor({ overrides, onChange }: DecisionOverridesEditorProps) {
+    // Change a remembered decision and save all decisions
+    const saveOverride = (id: string, updates: Partial<DecisionOverride>) => {
+        onChange(overrides.map(override => override.id === id ? { ...override, ...updates } : override));
+    };
+
+    const revokeOverride = (id: string) => {
+        onChange(overrides.filter(override => override.id !== id));
+    };
+
+    if (overrides.length === 0) {
+        return (
+            <p className="text-sm text-muted-foreground">
+                No remembered decisions. Tick "Remember decision" on a security alert to stop being asked again.
+            </p>
+        );
+    }
+
+    // Newest decisions first
+    const sortedOverrides = [...overrides].sort((a, b) => b.createdAt - a.createdAt);
+
+    return (
+        <Table>
+            <TableHeader>
+                <TableRow>
+                    <TableHead>Traffic</TableHead>
+                    <TableHead>Applies to</TableHead>
+                    <TableHead>Decision</TableHead>
+                    <TableHead>Expires</TableHead>
+                    <TableHead className="w-10"></TableHead>
+                </TableRow>
+            </TableHeader>
+            <TableBody>
+                {sortedOverrides.map(override => (
+                    <TableRow key={override.id} className={isDecisionExpired(override) ? "opacity-50" : ""}>
+                        <TableCell className="text-xs">
+                            <div className="font-medium">{override.serverName}</div>
+                            <div className="text-muted-foreground">
+                                {override.appName} &middot; {override.toolName}
+                            </div>
+                            {override.scope === "exact" && (
+                                <div
+                                    className="font-mono text-muted-foreground truncate max-w-[200px]"
+                                    title={override.toolArgs}
+                                >
+                                    {override.toolArgs}
+                                </div>
+                            )}
+                            <div className="text-muted-foreground">
+                                Remembered {new Date(override.createdAt).toLocaleString()}
+                            </div>
+                        </TableCell>
+                        <TableCell>
+                            <Select
+                                value={override.scope}
+                                onValueChange={(value) => saveOverride(override.id, { scope: value as DecisionOverrideScope })}
+                            >
+                                <SelectTrigger className="h-8 text-xs">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {DECISION_SCOPE_OPTIONS.map(option => (
+                                        <SelectItem key={option.value} value={option.value} className="text-xs">
+                                            {option.label}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </TableCell>
+                        <TableCell>
+                            <Select
+                                value={override.allowed ? "allow" : "block"}
+                                onValueChange={(value) => saveOverride(override.id, { allowed: value === "allow" })}
+                            >
+                                <SelectTrigger className="h-8 text-xs w-24">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="allow" className="text-xs">Allow</SelectItem>
+                                    <SelectItem value="block" className="text-xs">Block</SelectItem>
+                                </SelectContent>
+                            </Select>
+                        </TableCell>
+                        <TableCell>
+                            {/* Choosing a duration restarts the expiry from now */}
+                            <Select
+                                value=""
+                                onValueChange={(value) => {
+                                    const duration = valueToDuration(value);
+                                    saveOverride(override.id, {
+                                        expiresAt: duration === null ? null : Date.now() + duration
+                                    });
+                                }}
+                            >
+                                <SelectTrigger className="h-8 text-xs w-44">
+                                    <SelectValue placeholder={getExpiryLabel(override)} />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {DECISION_DURATION_OPTIONS.map(option => (
+                                        <SelectItem
+                                            key={durationToValue(option.value)}
+                                            value={durationToValue(option.value)}
+                                            className="text-xs"
+                                        >
+                                            {option.value === null ? option.label : `${option.label} from now`}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </TableCell>
+                        <TableCell>
+                            <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8"
+                                onClick={() => revokeOverride(override.id)}
+                                title="Revoke decision"
+                            >
+                                <Trash2 className="h-4 w-4" />
+                            </Button>
+                        </TableCell>
+                    </TableRow>
+                ))}
+            </TableBody>
+        </Table>
+    );
+}
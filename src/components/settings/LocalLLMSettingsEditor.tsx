@@ -0,0 +1,141 @@
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { CheckCircle, Loader2, XCircle } from "lucide-react"
+import { useState, useEffect } from "react"
+import { LocalLLMSettings, LocalLLMTestResult } from "@/services/settings/types"
+
+interface LocalLLMSettingsEditorProps {
+    local: LocalLLMSettings;
+    onChange: (local: LocalLLMSettings) => void;
+}
+
+/**
+ * Editor for the connection to a local model server with an OpenAI-compatible API
+ * Fields are saved when they lose focus
+ */
+export default function LocalLLMSettingsEditor({ local, onChange }: LocalLLMSettingsEditorProps) {
+    const [draft, setDraft] = useState<LocalLLMSettings>(local);
+    const [isTesting, setIsTesting] = useState(false);
+    const [testResult, setTestResult] = useState<LocalLLMTestResult | null>(null);
+
+    // Keep the draft in sync with the saved settings
+    useEffect(() => {
+        setDraft(local);
+    }, [local]);
+
+    // Change a field without saving it (while typing)
+    const editField = (updates: Partial<LocalLLMSettings>) => {
+        setDraft({ ...draft, ...updates });
+        setTestResult(null);
+    };
+
+    // Save the fields edited while typing
+    const saveDraft = () => {
+        if (draft !== local) {
+            onChange(draft);
+        }
+    };
+
+    // Test the connection with the values currently shown, saved or not
+    const testConnection = async () => {
+        setIsTesting(true);
+        try {
+            setTestResult(await window.settingsAPI.testLocalLLM(draft));
+        } catch (error) {
+            setTestResult({
+                success: false,
+                models: [],
+                error: error instanceof Error ? error.message : String(error)
+            });
+        } finally {
+            setIsTesting(false);
+        }
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="space-y-2">
+                <Label htmlFor="local-base-url">Base URL</Label>
+                <Input
+                    id="local-base-url"
+                    placeholder="http://localhost:11434/v1"
+                    value={draft.baseUrl}
+                    onChange={(e) => editField({ baseUrl: e.target.value })}
+                    onBlur={saveDraft}
+                />
+                <p className="text-sm text-muted-foreground">
+                    OpenAI-compatible endpoint of llama.cpp, vLLM, Ollama or a similar server. Tool calls and
+                    responses are only sent to this server.
+                </p>
+            </div>
+            <div className="space-y-2">
+                <Label htmlFor="local-model">Model</Label>
+                <Input
+                    id="local-model"
+                    placeholder="e.g. llama3.1:8b"
+                    value={draft.model}
+                    onChange={(e) => editField({ model: e.target.value })}
+                    onBlur={saveDraft}
+                />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-2">
+                    <Label htmlFor="local-auth-header-name">Auth header (optional)</Label>
+                    <Input
+                        id="local-auth-header-name"
+                        placeholder="Authorization"
+                        value={draft.authHeaderName}
+                        onChange={(e) => editField({ authHeaderName: e.target.value })}
+                        onBlur={saveDraft}
+                    />
+                </div>
+                <div className="space-y-2">
+                    <Label htmlFor="local-auth-header-value">Header value</Label>
+                    <Input
+                        id="local-auth-header-value"
+                        type="password"
+                        placeholder="Bearer ..."
+                        value={draft.authHeaderValue}
+                        onChange={(e) => editField({ authHeaderValue: e.target.value })}
+                        onBlur={saveDraft}
+                    />
+                </div>
+            </div>
+            <div className="space-y-2">
+                <Label htmlFor="local-timeout">Request timeout (seconds)</Label>
+                <Input
+                    id="local-timeout"
+                    type="number"
+                    min={1}
+                    className="w-32"
+                    value={Math.round(draft.timeoutMs / 1000)}
+                    onChange={(e) => editField({ timeoutMs: Math.max(1, Number(e.target.value) || 1) * 1000 })}
+                    onBlur={saveDraft}
+                />
+            </div>
+            <div className="flex items-center gap-3">
+                <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={testConnection}
+                    disabled={isTesting || !draft.baseUrl}
+                >
+                    {isTesting && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+                    Test Connection
+                </Button>
+                {testResult && (testResult.success ? (
+                    <span className="flex items-center gap-1 text-sm text-green-600">
+                        <CheckCircle className="h-4 w-4" />
+                        Connected, {testResult.models.length} model{testResult.models.length === 1 ? "" : "s"} available
+                    </span>
+                ) : (
+                    <span className="flex items-center gap-1 text-sm text-red-500">
+                        <XCircle className="h-4 w-4" />
+                        {testResult.error}
+                    </span>
+                ))}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,289 @@
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Switch } from "@/components/ui/switch"
+import { Label } from "@/components/ui/label"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue
+} from "@/components/ui/select"
+import { ChevronDown, ChevronUp, Plus, Trash2 } from "lucide-react"
+import { useState, useEffect } from "react"
+import { PolicyAction, PolicyDirection, PolicyRule } from "@/services/settings/types"
+import { Signature } from "@/services/signatures/types"
+
+interface PolicyRulesEditorProps {
+    rules: PolicyRule[];
+    onChange: (rules: PolicyRule[]) => void;
+}
+
+// Options for the action taken when a rule matches
+const POLICY_ACTION_OPTIONS = [
+    { value: PolicyAction.ALLOW, label: "Allow without scanning" },
+    { value: PolicyAction.BLOCK, label: "Block" },
+    { value: PolicyAction.PROMPT, label: "Always ask" },
+    { value: PolicyAction.SCAN, label: "Scan with signatures" }
+];
+
+// Options for the traffic a rule applies to
+const POLICY_DIRECTION_OPTIONS: { value: PolicyDirection; label: string }[] = [
+    { value: "both", label: "Requests and responses" },
+    { value: "request", label: "Tool calls" },
+    { value: "response", label: "Responses" }
+];
+
+// Whether a rule's argument pattern is a valid regular expression
+const isValidPattern = (pattern: string) => {
+    try {
+        new RegExp(pattern);
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * Editor for the ordered policy rules
+ * Text fields are saved when they lose focus, every other change is saved immediately
+ */
+export default function PolicyRulesEditor({ rules, onChange }: PolicyRulesEditorProps) {
+    const [draftRules, setDraftRules] = useState<PolicyRule[]>(rules);
+    const [signatures, setSignatures] = useState<Signature[]>([]);
+
+    // Keep the drafts in sync with the saved rules
+    useEffect(() => {
+        setDraftRules(rules);
+    }, [rules]);
+
+    // Load the signatures a rule can scan with
+    useEffect(() => {
+        window.signaturesAPI.getSignatures()
+            .then(setSignatures)
+            .catch(error => {
+                console.error("Error fetching signatures:", error);
+            });
+    }, []);
+
+    // Change a rule without saving it (while typing)
+    const editRule = (id: string, updates: Partial<PolicyRule>) => {
+        setDraftRules(draftRules.map(rule => rule.id === id ? { ...rule, ...updates } : rule));
+    };
+
+    // Save the rules edited while typing
+    const saveDrafts = () => {
+        if (draftRules !== rules) {
+            onChange(draftRules);
+        }
+    };
+
+    // Change a rule and save all rules
+    const saveRule = (id: string, updates: Partial<PolicyRule>) => {
+        onChange(draftRules.map(rule => rule.id === id ? { ...rule, ...updates } : rule));
+    };
+
+    const addRule = () => {
+        onChange([
+            ...draftRules,
+            {
+                id: crypto.randomUUID(),
+                name: `Rule ${draftRules.length + 1}`,
+                enabled: true,
+                appPattern: "*",
+                serverPattern: "*",
+                toolPattern: "*",
+                argumentPattern: "",
+                direction: "both",
+                action: PolicyAction.PROMPT,
+                signatureIds: []
+            }
+        ]);
+    };
+
+    const removeRule = (id: string) => {
+        onChange(draftRules.filter(rule => rule.id !== id));
+    };
+
+    // Move a rule up or down, changing which rule matches first
+    const moveRule = (index: number, offset: number) => {
+        const reordered = [...draftRules];
+        const [rule] = reordered.splice(index, 1);
+        reordered.splice(index + offset, 0, rule);
+        onChange(reordered);
+    };
+
+    // Add or remove a signature from the set a rule scans with
+    const toggleSignature = (rule: PolicyRule, signatureId: string, checked: boolean) => {
+        const signatureIds = rule.signatureIds.filter(id => id !== signatureId);
+        saveRule(rule.id, { signatureIds: checked ? [...signatureIds, signatureId] : signatureIds });
+    };
+
+    return (
+        <div className="space-y-3">
+            {draftRules.length === 0 && (
+                <p className="text-sm text-muted-foreground">
+                    No policy rules. All traffic is verified according to the scan mode.
+                </p>
+            )}
+
+            {draftRules.map((rule, index) => (
+                <div key={rule.id} className="rounded-md border p-3 space-y-3">
+                    {/* Rule name, enabled switch and ordering */}
+                    <div className="flex items-center gap-2">
+                        <Switch
+                            checked={rule.enabled}
+                            onCheckedChange={(checked) => saveRule(rule.id, { enabled: checked })}
+                        />
+                        <Input
+                            className="h-8"
+                            value={rule.name}
+                            onChange={(e) => editRule(rule.id, { name: e.target.value })}
+                            onBlur={saveDrafts}
+                        />
+                        <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8 shrink-0"
+                            disabled={index === 0}
+                            onClick={() => moveRule(index, -1)}
+                            title="Move up"
+                        >
+                            <ChevronUp className="h-4 w-4" />
+                        </Button>
+                        <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8 shrink-0"
+                            disabled={index === draftRules.length - 1}
+                            onClick={() => moveRule(index, 1)}
+                            title="Move down"
+                        >
+                            <ChevronDown className="h-4 w-4" />
+                        </Button>
+                        <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8 shrink-0"
+                            onClick={() => removeRule(rule.id)}
+                            title="Delete rule"
+                        >
+                            <Trash2 className="h-4 w-4" />
+                        </Button>
+                    </div>
+
+                    {/* What the rule matches */}
+                    <div className="grid grid-cols-3 gap-2">
+                        <div className="space-y-1">
+                            <Label className="text-xs">Application</Label>
+                            <Input
+                                className="h-8 font-mono text-xs"
+                                value={rule.appPattern}
+                                onChange={(e) => editRule(rule.id, { appPattern: e.target.value })}
+                                onBlur={saveDrafts}
+                            />
+                        </div>
+                        <div className="space-y-1">
+                            <Label className="text-xs">Server</Label>
+                            <Input
+                                className="h-8 font-mono text-xs"
+                                value={rule.serverPattern}
+                                onChange={(e) => editRule(rule.id, { serverPattern: e.target.value })}
+                                onBlur={saveDrafts}
+                            />
+                        </div>
+                        <div className="space-y-1">
+                            <Label className="text-xs">Tool</Label>
+                            <Input
+                                className="h-8 font-mono text-xs"
+                                value={rule.toolPattern}
+                                onChange={(e) => editRule(rule.id, { toolPattern: e.target.value })}
+                                onBlur={saveDrafts}
+                            />
+                        </div>
+                    </div>
+                    <div className="space-y-1">
+                        <Label className="text-xs">Arguments (regular expression, optional)</Label>
+                        <Input
+                            className="h-8 font-mono text-xs"
+                            value={rule.argumentPattern}
+                            placeholder="e.g. \.env|id_rsa"
+                            onChange={(e) => editRule(rule.id, { argumentPattern: e.target.value })}
+                            onBlur={saveDrafts}
+                        />
+                        {!isValidPattern(rule.argumentPattern) && (
+                            <p className="text-xs text-red-500">Invalid regular expression - this rule will never match</p>
+                        )}
+                    </div>
+
+                    {/* What the rule does */}
+                    <div className="grid grid-cols-2 gap-2">
+                        <div className="space-y-1">
+                            <Label className="text-xs">Applies to</Label>
+                            <Select
+                                value={rule.direction}
+                                onValueChange={(value) => saveRule(rule.id, { direction: value as PolicyDirection })}
+                            >
+                                <SelectTrigger className="h-8 text-xs">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {POLICY_DIRECTION_OPTIONS.map(option => (
+                                        <SelectItem key={option.value} value={option.value} className="text-xs">
+                                            {option.label}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="space-y-1">
+                            <Label className="text-xs">Action</Label>
+                            <Select
+                                value={rule.action}
+                                onValueChange={(value) => saveRule(rule.id, { action: value as PolicyAction })}
+                            >
+                                <SelectTrigger className="h-8 text-xs">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {POLICY_ACTION_OPTIONS.map(option => (
+                                        <SelectItem key={option.value} value={option.value} className="text-xs">
+                                            {option.label}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    </div>
+
+                    {/* Signature set for the scan action */}
+                    {rule.action === PolicyAction.SCAN && (
+                        <div className="space-y-1">
+                            <Label className="text-xs">Signatures (none selected scans with all enabled signatures)</Label>
+                            <div className="grid grid-cols-2 gap-1">
+                                {signatures.map(signature => (
+                                    <div key={signature.id} className="flex items-center gap-2">
+                                        <Checkbox
+                                            id={`${rule.id}-${signature.id}`}
+                                            checked={rule.signatureIds.includes(signature.id)}
+                                            onCheckedChange={(checked) => toggleSignature(rule, signature.id, !!checked)}
+                                        />
+                                        <Label htmlFor={`${rule.id}-${signature.id}`} className="text-xs font-normal">
+                                            {signature.name}
+                                        </Label>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+                </div>
+            ))}
+
+            <Button variant="outline" size="sm" onClick={addRule}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add rule
+            </Button>
+        </div>
+    );
+}
@@ -0,0 +1,63 @@
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { useState, useEffect } from "react"
+import { ScanHistorySettings } from "@/services/settings/types"
+
+interface ScanHistoryEditorProps {
+    history: ScanHistorySettings;
+    onChange: (history: ScanHistorySettings) => void;
+}
+
+/**
+ * Editor for how long scan results are kept
+ * The limits are saved when they lose focus
+ */
+export default function ScanHistoryEditor({ history, onChange }: ScanHistoryEditorProps) {
+    const [draft, setDraft] = useState<ScanHistorySettings>(history);
+
+    // Keep the draft in sync with the saved settings
+    useEffect(() => {
+        setDraft(history);
+    }, [history]);
+
+    // Save the limits edited while typing
+    const saveDraft = () => {
+        if (draft !== history) {
+            onChange(draft);
+        }
+    };
+
+    return (
+        <div className="space-y-2">
+            <p className="text-xs text-muted-foreground">
+                The oldest scans are dropped once either limit is reached. Set a limit to 0 to keep scans without it.
+            </p>
+            <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-2">
+                    <Label htmlFor="scan-history-age" className="text-sm">Keep for (days)</Label>
+                    <Input
+                        id="scan-history-age"
+                        type="number"
+                        min={0}
+                        className="w-32"
+                        value={draft.maxAgeDays}
+                        onChange={(e) => setDraft({ ...draft, maxAgeDays: Math.max(0, Number(e.target.value) || 0) })}
+                        onBlur={saveDraft}
+                    />
+                </div>
+                <div className="space-y-2">
+                    <Label htmlFor="scan-history-count" className="text-sm">Scans kept</Label>
+                    <Input
+                        id="scan-history-count"
+                        type="number"
+                        min={0}
+                        className="w-32"
+                        value={draft.maxCount}
+                        onChange={(e) => setDraft({ ...draft, maxCount: Math.max(0, Number(e.target.value) || 0) })}
+                        onBlur={saveDraft}
+                    />
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -6,7 +6,7 @@ import {
     CardDescription,
 } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
-import { FolderOpen, Bug, Shield, Cog } from "lucide-react"
+import { FolderOpen, Bug, Shield, Cog, ListChecks, History } from "lucide-react"
 import { Input } from "@/components/ui/input"
 import { Switch } from "@/components/ui/switch"
 import { Label } from "@/components/ui/label"
@@ -14,13 +14,20 @@ import { Checkbox } from "@/components/ui/checkbox"
 import {
     Select,
     SelectContent,
+    SelectGroup,
     SelectItem,
+    SelectLabel,
     SelectTrigger,
     SelectValue
 } from "@/components/ui/select"
 import { useState, useEffect } from "react"
 import { ScanMode, Settings, NotificationSettings } from "../../services/settings/types"
 import { toast } from "sonner"
+import PolicyRulesEditor from "./PolicyRulesEditor"
+import DecisionOverridesEditor from "./DecisionOverridesEditor"
+import LocalLLMSettingsEditor from "./LocalLLMSettingsEditor"
+import VerificationCacheEditor from "./VerificationCacheEditor"
+import ScanHistoryEditor from "./ScanHistoryEditor"
 
 
 // Props interface
@@ -33,8 +40,18 @@ const SUPPORTED_MODELS = [
     { value: "gpt-5", label: "GPT-5", provider: "OpenAI" },
     { value: "gpt-4.1-2025-04-14", label: "GPT-4.1", provider: "OpenAI" },
     { value: "gpt-4o-mini-2024-07-18", label: "GPT-4o Mini", provider: "OpenAI" },
+    { value: "claude-sonnet-4-5", label: "Claude Sonnet 4.5", provider: "Anthropic" },
+    { value: "claude-opus-4-1", label: "Claude Opus 4.1", provider: "Anthropic" },
+    { value: "claude-haiku-4-5", label: "Claude Haiku 4.5", provider: "Anthropic" },
+    { value: "local", label: "Local model (OpenAI-compatible)", provider: "local" },
 ];
 
+// Providers the model picker groups the models by
+const MODEL_PROVIDERS = [
+    { value: "OpenAI", label: "OpenAI" },
+    { value: "Anthropic", label: "Anthropic" },
+    { value: "local", label: "Local" },
+];
 
 // Main SettingsView component
 export default function SettingsView({ standalone = false }: SettingsViewProps) {
@@ -67,6 +84,21 @@ export default function SettingsView({ standalone = false }: SettingsViewProps)
         loadSettings();
     }, []);
 
+    // Reload remembered decisions when the window regains focus, as security alerts add them
+    useEffect(() => {
+        const handleFocus = async () => {
+            try {
+                const { decisionOverrides } = await window.settingsAPI.getAll();
+                setSettings(current => current && { ...current, decisionOverrides });
+            } catch (error) {
+                console.error('Failed to reload remembered decisions:', error);
+            }
+        };
+
+        window.addEventListener('focus', handleFocus);
+        return () => window.removeEventListener('focus', handleFocus);
+    }, []);
+
 
 
     // Handle model selection
@@ -77,11 +109,18 @@ export default function SettingsView({ standalone = false }: SettingsViewProps)
         const selectedModel = SUPPORTED_MODELS.find(m => m.value === model);
         const provider = selectedModel?.provider || '';
 
+        // API keys belong to one provider, never send them to another
+        const providerChanged = provider !== settings.llm.provider;
+        if (providerChanged) {
+            setApiKeyInputValue("");
+        }
+
         updateSettings({
             llm: {
                 ...settings.llm,
                 model,
-                provider
+                provider,
+                ...(providerChanged ? { apiKey: "" } : {})
             }
         });
     };
@@ -251,10 +290,15 @@ export default function SettingsView({ standalone = false }: SettingsViewProps)
                                         <SelectValue placeholder="Select a model for verification" />
                                     </SelectTrigger>
                                     <SelectContent>
-                                        {SUPPORTED_MODELS.map(model => (
-                                            <SelectItem key={model.value} value={model.value}>
-                                                {model.label}
-                                            </SelectItem>
+                                        {MODEL_PROVIDERS.map(provider => (
+                                            <SelectGroup key={provider.value}>
+                                                <SelectLabel>{provider.label}</SelectLabel>
+                                                {SUPPORTED_MODELS.filter(model => model.provider === provider.value).map(model => (
+                                                    <SelectItem key={model.value} value={model.value}>
+                                                        {model.label}
+                                                    </SelectItem>
+                                                ))}
+                                            </SelectGroup>
                                         ))}
                                     </SelectContent>
                                 </Select>
@@ -263,15 +307,25 @@ export default function SettingsView({ standalone = false }: SettingsViewProps)
                                 </p>
                             </div>
 
+                            {/* Local model server settings */}
+                            {settings.llm.provider === 'local' && (
+                                <div className="border-t pt-4">
+                                    <LocalLLMSettingsEditor
+                                        local={settings.llm.local}
+                                        onChange={(local) => updateSettings({ llm: { ...settings.llm, local } })}
+                                    />
+                                </div>
+                            )}
+
                             {/* Provider-specific settings */}
-                            {settings.llm.provider && (
+                            {settings.llm.provider && settings.llm.provider !== 'local' && (
                                 <div className="border-t pt-4">
                                     <div className="space-y-2">
                                         <Label htmlFor="api-key">{settings.llm.provider} API Key</Label>
                                         <Input
                                             id="api-key"
                                             type="password"
-                                            placeholder="sk-..."
+                                            placeholder={settings.llm.provider === 'Anthropic' ? "sk-ant-..." : "sk-..."}
                                             value={apiKeyInputValue}
                                             onChange={(e) => handleApiKeyInputChange(e.target.value)}
                                             className="flex-1"
@@ -318,6 +372,80 @@ export default function SettingsView({ standalone = false }: SettingsViewProps)
                             )}
                         </div>
 
+                        {/* Tool Poisoning Section */}
+                        <div className="border-t pt-4 space-y-4">
+                            <div>
+                                <Label className="text-base">Tool Poisoning</Label>
+                                <p className="text-sm text-muted-foreground">
+                                    Tool names, descriptions and parameters are scanned when servers list their tools
+                                </p>
+                            </div>
+                            <div className="flex items-center justify-between space-x-2">
+                                <div>
+                                    <Label htmlFor="hide-flagged-tools" className="text-sm">Hide Flagged Tools</Label>
+                                    <p className="text-xs text-muted-foreground">
+                                        Remove flagged tools from the tool list sent to applications until you approve them
+                                        in the Apps tab. Tool lists are delayed until their tools have been scanned.
+                                    </p>
+                                </div>
+                                <Switch
+                                    id="hide-flagged-tools"
+                                    checked={settings.hideFlaggedTools}
+                                    onCheckedChange={(checked) => {
+                                        updateSettings({ hideFlaggedTools: checked });
+                                    }}
+                                />
+                            </div>
+                            <div className="flex items-center justify-between space-x-2">
+                                <div>
+                                    <Label htmlFor="block-shadowing-servers" className="text-sm">Block Shadowing Servers</Label>
+                                    <p className="text-xs text-muted-foreground">
+                                        Block tool calls to a server whose tools imitate or refer to another server's tools
+                                        in the same application, unless you trust the server in the Apps tab.
+                                    </p>
+                                </div>
+                                <Switch
+                                    id="block-shadowing-servers"
+                                    checked={settings.blockShadowingServers}
+                                    onCheckedChange={(checked) => {
+                                        updateSettings({ blockShadowingServers: checked });
+                                    }}
+                                />
+                            </div>
+                        </div>
+
+                        {/* Verification Cache Section */}
+                        {settings.verificationCache && (
+                            <div className="border-t pt-4 space-y-4">
+                                <div>
+                                    <Label className="text-base">Verification Cache</Label>
+                                    <p className="text-sm text-muted-foreground">
+                                        Avoid verifying the same content again when agents repeat a call
+                                    </p>
+                                </div>
+                                <VerificationCacheEditor
+                                    cache={settings.verificationCache}
+                                    onChange={(verificationCache) => updateSettings({ verificationCache })}
+                                />
+                            </div>
+                        )}
+
+                        {/* Scan History Section */}
+                        {settings.scanHistory && (
+                            <div className="border-t pt-4 space-y-4">
+                                <div>
+                                    <Label className="text-base">Scan History</Label>
+                                    <p className="text-sm text-muted-foreground">
+                                        How long scan results are kept in the Threats tab
+                                    </p>
+                                </div>
+                                <ScanHistoryEditor
+                                    history={settings.scanHistory}
+                                    onChange={(scanHistory) => updateSettings({ scanHistory })}
+                                />
+                            </div>
+                        )}
+
                         {/* Transport Settings Section - commenting this out for now*/}
                         {/* <div className="border-t pt-4 space-y-4">
                             <div>
@@ -353,6 +481,50 @@ export default function SettingsView({ standalone = false }: SettingsViewProps)
                 </CardContent>
             </Card>
 
+            {/* Policy Rules Card */}
+            <Card className="mb-4">
+                <CardHeader>
+                    <div className="flex items-start gap-3">
+                        <ListChecks className="h-6 w-6 text-primary mt-0.5" />
+                        <div>
+                            <CardTitle>Policy Rules</CardTitle>
+                            <CardDescription>
+                                Decide how traffic is verified per application, server and tool. Patterns accept * and ?
+                                wildcards, and the first enabled rule that matches applies
+                            </CardDescription>
+                        </div>
+                    </div>
+                </CardHeader>
+                <CardContent>
+                    <PolicyRulesEditor
+                        rules={settings.policyRules || []}
+                        onChange={(policyRules) => updateSettings({ policyRules })}
+                    />
+                </CardContent>
+            </Card>
+
+            {/* Remembered Decisions Card */}
+            <Card className="mb-4">
+                <CardHeader>
+                    <div className="flex items-start gap-3">
+                        <History className="h-6 w-6 text-primary mt-0.5" />
+                        <div>
+                            <CardTitle>Remembered Decisions</CardTitle>
+                            <CardDescription>
+                                Decisions remembered from security alerts are applied to matching traffic instead of
+                                asking you again
+                            </CardDescription>
+                        </div>
+                    </div>
+                </CardHeader>
+                <CardContent>
+                    <DecisionOverridesEditor
+                        overrides={settings.decisionOverrides || []}
+                        onChange={(decisionOverrides) => updateSettings({ decisionOverrides })}
+                    />
+                </CardContent>
+            </Card>
+
             {/* MCP Secure Tools Card */}
             <Card className="mb-4">
                 <CardHeader>
@@ -427,6 +599,25 @@ export default function SettingsView({ standalone = false }: SettingsViewProps)
                                     }}
                                 />
                             </div>
+                            <div className="flex items-center justify-between space-x-2">
+                                <div>
+                                    <Label htmlFor="notify-signature-warnings" className="text-sm">Signature Warnings</Label>
+                                    <p className="text-xs text-muted-foreground">
+                                        Show notifications when traffic is allowed although a signature set to warn flagged it
+                                    </p>
+                                </div>
+                                <Switch
+                                    id="notify-signature-warnings"
+                                    checked={!!(settings.notificationSettings & NotificationSettings.SIGNATURE_WARNINGS)}
+                                    onCheckedChange={(checked) => {
+                                        const newSettings = checked
+                                            ? settings.notificationSettings | NotificationSettings.SIGNATURE_WARNINGS
+                                            : settings.notificationSettings & ~NotificationSettings.SIGNATURE_WARNINGS;
+
+                                        updateSettings({ notificationSettings: newSettings });
+                                    }}
+                                />
+                            </div>
                         </div>
 
                         {/* System Integration Section */}
@@ -0,0 +1,77 @@
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { useState, useEffect } from "react"
+import { VerificationCacheSettings } from "@/services/settings/types"
+
+interface VerificationCacheEditorProps {
+    cache: VerificationCacheSettings;
+    onChange: (cache: VerificationCacheSettings) => void;
+}
+
+/**
+ * Editor for the reuse of verification results for identical content
+ * The switch is saved immediately, the limits when they lose focus
+ */
+export default function VerificationCacheEditor({ cache, onChange }: VerificationCacheEditorProps) {
+    const [draft, setDraft] = useState<VerificationCacheSettings>(cache);
+
+    // Keep the draft in sync with the saved settings
+    useEffect(() => {
+        setDraft(cache);
+    }, [cache]);
+
+    // Save the limits edited while typing
+    const saveDraft = () => {
+        if (draft !== cache) {
+            onChange(draft);
+        }
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-center justify-between space-x-2">
+                <div>
+                    <Label htmlFor="verification-cache-enabled" className="text-sm">Reuse Verification Results</Label>
+                    <p className="text-xs text-muted-foreground">
+                        Repeated tool calls and responses with identical content reuse the earlier verdict instead of
+                        asking the model again. Results are discarded when signatures or settings change.
+                    </p>
+                </div>
+                <Switch
+                    id="verification-cache-enabled"
+                    checked={cache.enabled}
+                    onCheckedChange={(enabled) => onChange({ ...draft, enabled })}
+                />
+            </div>
+            {cache.enabled && (
+                <div className="grid grid-cols-2 gap-2">
+                    <div className="space-y-2">
+                        <Label htmlFor="verification-cache-ttl" className="text-sm">Reuse for (seconds)</Label>
+                        <Input
+                            id="verification-cache-ttl"
+                            type="number"
+                            min={1}
+                            className="w-32"
+                            value={draft.ttlSeconds}
+                            onChange={(e) => setDraft({ ...draft, ttlSeconds: Math.max(1, Number(e.target.value) || 1) })}
+                            onBlur={saveDraft}
+                        />
+                    </div>
+                    <div className="space-y-2">
+                        <Label htmlFor="verification-cache-size" className="text-sm">Results kept</Label>
+                        <Input
+                            id="verification-cache-size"
+                            type="number"
+                            min={1}
+                            className="w-32"
+                            value={draft.maxEntries}
+                            onChange={(e) => setDraft({ ...draft, maxEntries: Math.max(1, Number(e.target.value) || 1) })}
+                            onBlur={saveDraft}
+                        />
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,196 @@
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Plus, RefreshCw, RotateCcw, Trash2 } from "lucide-react"
+import { useState, useEffect } from "react"
+import { toast } from "sonner"
+import { SignatureFeed, SignatureFeedSettings } from "@/services/settings/types"
+import { SignatureFeedStatus } from "@/services/signatures/types"
+
+/**
+ * Subscriptions to signed signature feeds, with the installed version of each
+ * Changes are saved immediately and the feeds are fetched again when they are
+ */
+export function SignatureFeeds() {
+    const [feedSettings, setFeedSettings] = useState<SignatureFeedSettings | null>(null)
+    const [status, setStatus] = useState<SignatureFeedStatus[]>([])
+    const [draft, setDraft] = useState({ name: "", url: "", publicKey: "" })
+    const [isRefreshing, setIsRefreshing] = useState(false)
+
+    // Load the subscriptions and the state of the feeds
+    useEffect(() => {
+        Promise.all([window.settingsAPI.getAll(), window.signaturesAPI.getFeedStatus()])
+            .then(([settings, feedStatus]) => {
+                setFeedSettings(settings.signatureFeeds);
+                setStatus(feedStatus);
+            })
+            .catch(error => {
+                console.error("Failed to load signature feeds:", error);
+                toast.error("Failed to load signature feeds");
+            });
+
+        return window.signaturesAPI.onFeedsUpdate(setStatus);
+    }, []);
+
+    // Save the subscriptions, the feeds are fetched again by the app
+    const saveFeeds = async (feeds: SignatureFeed[]) => {
+        const signatureFeeds = { ...feedSettings, feeds };
+        setFeedSettings(signatureFeeds);
+        try {
+            await window.settingsAPI.update({ signatureFeeds });
+        } catch (error) {
+            console.error("Failed to save signature feeds:", error);
+            toast.error("Failed to save signature feeds");
+        }
+    };
+
+    const addFeed = () => {
+        saveFeeds([
+            ...feedSettings.feeds,
+            {
+                id: crypto.randomUUID(),
+                name: draft.name.trim(),
+                url: draft.url.trim(),
+                publicKeys: [draft.publicKey.trim()],
+                enabled: true
+            }
+        ]);
+        setDraft({ name: "", url: "", publicKey: "" });
+    };
+
+    const refreshFeeds = async () => {
+        setIsRefreshing(true);
+        try {
+            setStatus(await window.signaturesAPI.refreshFeeds());
+        } catch (error) {
+            console.error("Failed to refresh signature feeds:", error);
+            toast.error("Failed to refresh signature feeds");
+        } finally {
+            setIsRefreshing(false);
+        }
+    };
+
+    const rollbackFeed = async (feed: SignatureFeedStatus) => {
+        try {
+            setStatus(await window.signaturesAPI.rollbackFeed(feed.feedId));
+            toast.success(`${feed.name} rolled back to version ${feed.rollbackVersion}`);
+        } catch (error) {
+            console.error("Failed to roll back signature feed:", error);
+            toast.error("Failed to roll back signature feed");
+        }
+    };
+
+    if (!feedSettings) {
+        return null;
+    }
+
+    const canAdd = draft.name.trim() && draft.url.trim() && draft.publicKey.trim();
+
+    return (
+        <div className="space-y-3">
+            <div className="flex items-center justify-between">
+                <div>
+                    <h3 className="text-sm font-medium">Signature Feeds</h3>
+                    <p className="text-xs text-muted-foreground">
+                        Signatures published by feeds are fetched every {feedSettings.refreshMinutes} minutes and only
+                        used when signed with a pinned key. Your own signatures override feeds, and earlier feeds
+                        override later ones.
+                    </p>
+                </div>
+                <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={refreshFeeds}
+                    disabled={isRefreshing || feedSettings.feeds.length === 0}
+                    className="flex items-center gap-2 shrink-0"
+                >
+                    <RefreshCw size={14} className={isRefreshing ? "animate-spin" : ""} />
+                    Refresh
+                </Button>
+            </div>
+
+            {feedSettings.feeds.map(feed => {
+                const feedStatus = status.find(s => s.feedId === feed.id);
+                return (
+                    <div key={feed.id} className="rounded-md border p-3 flex items-start gap-3">
+                        <Switch
+                            checked={feed.enabled}
+                            onCheckedChange={(enabled) => saveFeeds(feedSettings.feeds.map(f => f.id === feed.id ? { ...f, enabled } : f))}
+                        />
+                        <div className="flex-1 min-w-0 space-y-1">
+                            <div className="text-sm font-medium">{feed.name}</div>
+                            <div className="text-xs text-muted-foreground font-mono truncate" title={feed.url}>{feed.url}</div>
+                            <div className="text-xs text-muted-foreground">
+                                {feedStatus?.activeVersion ?
+                                    `Version ${feedStatus.activeVersion} · ${feedStatus.signatureCount} signature(s)` :
+                                    "No version installed"}
+                                {feedStatus?.fetchedAt && ` · Checked ${new Date(feedStatus.fetchedAt).toLocaleString()}`}
+                            </div>
+                            {feedStatus?.error && (
+                                <div className="text-xs text-red-600">{feedStatus.error}</div>
+                            )}
+                        </div>
+                        <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8 shrink-0"
+                            disabled={!feedStatus?.rollbackVersion}
+                            onClick={() => rollbackFeed(feedStatus)}
+                            title={feedStatus?.rollbackVersion ? `Roll back to version ${feedStatus.rollbackVersion}` : "No older version to roll back to"}
+                        >
+                            <RotateCcw className="h-4 w-4" />
+                        </Button>
+                        <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8 shrink-0"
+                            onClick={() => saveFeeds(feedSettings.feeds.filter(f => f.id !== feed.id))}
+                            title="Remove feed"
+                        >
+                            <Trash2 className="h-4 w-4" />
+                        </Button>
+                    </div>
+                );
+            })}
+
+            {/* Subscribe to a feed */}
+            <div className="grid grid-cols-3 gap-2 items-end">
+                <div className="space-y-1">
+                    <Label htmlFor="feed-name" className="text-xs">Name</Label>
+                    <Input
+                        id="feed-name"
+                        className="h-8"
+                        value={draft.name}
+                        onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                    />
+                </div>
+                <div className="space-y-1">
+                    <Label htmlFor="feed-url" className="text-xs">URL</Label>
+                    <Input
+                        id="feed-url"
+                        className="h-8 font-mono text-xs"
+                        placeholder="https://"
+                        value={draft.url}
+                        onChange={(e) => setDraft({ ...draft, url: e.target.value })}
+                    />
+                </div>
+                <div className="space-y-1">
+                    <Label htmlFor="feed-key" className="text-xs">Public key (ed25519)</Label>
+                    <div className="flex gap-2">
+                        <Input
+                            id="feed-key"
+                            className="h-8 font-mono text-xs"
+                            placeholder="Base64 or PEM"
+                            value={draft.publicKey}
+                            onChange={(e) => setDraft({ ...draft, publicKey: e.target.value })}
+                        />
+                        <Button size="sm" className="h-8 shrink-0" disabled={!canAdd} onClick={addFeed} title="Subscribe">
+                            <Plus className="h-4 w-4" />
+                        </Button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,63 @@
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { AlertTriangle } from "lucide-react"
+import { useState, useEffect } from "react"
+import { SignatureValidationError } from "@/services/signatures/types"
+
+/**
+ * Problems found in the signature files and feeds, grouped by file and entry
+ * Hidden when every signature is valid
+ */
+export function SignatureValidationErrors() {
+    const [errors, setErrors] = useState<SignatureValidationError[]>([])
+
+    // Load the problems found at the last load and follow the next ones
+    useEffect(() => {
+        window.signaturesAPI.getValidationErrors()
+            .then(setErrors)
+            .catch(error => {
+                console.error("Failed to load signature validation errors:", error);
+            });
+
+        return window.signaturesAPI.onValidationUpdate(setErrors);
+    }, []);
+
+    if (errors.length === 0) {
+        return null;
+    }
+
+    // Group the problems by file, in the order they were found
+    const files = new Map<string, SignatureValidationError[]>();
+    for (const error of errors) {
+        files.set(error.file, [...(files.get(error.file) || []), error]);
+    }
+
+    return (
+        <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Invalid signatures</AlertTitle>
+            <AlertDescription className="space-y-3">
+                <p className="text-xs">
+                    The entries below don't match the signature schema and are not used. When signatures.json
+                    was valid before, the last valid version stays in use until it's fixed.
+                </p>
+                {[...files.entries()].map(([file, fileErrors]) => (
+                    <div key={file} className="space-y-1">
+                        <div className="text-xs font-medium font-mono">{file}</div>
+                        <ul className="text-xs space-y-0.5">
+                            {fileErrors.map((error, index) => (
+                                <li key={index}>
+                                    {error.index !== undefined && (
+                                        <span className="font-medium">
+                                            Entry {error.index + 1}{error.signatureId && ` (${error.signatureId})`}:{" "}
+                                        </span>
+                                    )}
+                                    {error.message}
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                ))}
+            </AlertDescription>
+        </Alert>
+    );
+}
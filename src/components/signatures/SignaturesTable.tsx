@@ -1,8 +1,8 @@
 import { useState, useEffect, useCallback } from "react"
-import { Signature, isLLMSignature, isDeterministicSignature } from "@/services/signatures/types"
+import { Signature, SignatureScope, SignatureSource, isLLMSignature, isDeterministicSignature, isPatternSignature } from "@/services/signatures/types"
 import { Input } from "@/components/ui/input"
 import { Checkbox } from "@/components/ui/checkbox"
-import { Search, Code, Brain } from "lucide-react"
+import { Search, Code, Brain, Regex } from "lucide-react"
 import { toast } from "sonner"
 import {
     Table,
@@ -18,6 +18,47 @@ interface SignaturesTableProps {
     onDisabledSaved?: (disabledIds: string[]) => void;
 }
 
+// Labels for the traffic a signature applies to
+const DIRECTION_LABELS = {
+    request: "Tool calls",
+    response: "Server responses",
+    both: "All traffic"
+};
+
+/**
+ * Describe where a signature applies, one line per limit
+ */
+function describeScope(scope?: SignatureScope): string[] {
+    const lines = [DIRECTION_LABELS[scope?.direction || "both"]];
+    const patterns: [string, string[] | undefined][] = [
+        ["Tools", scope?.includeTools],
+        ["Not tools", scope?.excludeTools],
+        ["Servers", scope?.includeServers],
+        ["Not servers", scope?.excludeServers],
+        ["Apps", scope?.includeApps],
+        ["Not apps", scope?.excludeApps]
+    ];
+
+    patterns.forEach(([label, globs]) => {
+        if (globs && globs.length > 0) {
+            lines.push(`${label}: ${globs.join(", ")}`);
+        }
+    });
+
+    return lines;
+}
+
+/**
+ * Describe where a signature was loaded from, with the feed version
+ */
+function describeSource(source?: SignatureSource): string[] {
+    if (source?.kind === "feed") {
+        return [source.feedName || "Feed", ...(source.version ? [`v${source.version}`] : [])];
+    }
+
+    return [source?.kind === "user" ? "Custom" : "Built-in"];
+}
+
 /**
  * A table for displaying and selecting signatures
  */
@@ -33,7 +74,7 @@ export function SignaturesTable({ onDisabledSaved }: SignaturesTableProps) {
     const filteredSignatures = signatures.filter(sig => {
         if (!searchQuery) return true;
         const query = searchQuery.toLowerCase();
-        const signatureType = isLLMSignature(sig) ? 'llm' : isDeterministicSignature(sig) ? 'deterministic' : 'unknown';
+        const signatureType = isLLMSignature(sig) ? 'llm' : isDeterministicSignature(sig) ? 'deterministic' : isPatternSignature(sig) ? 'pattern' : 'unknown';
         return (
             sig.name.toLowerCase().includes(query) ||
             sig.category.toLowerCase().includes(query) ||
@@ -120,6 +161,11 @@ export function SignaturesTable({ onDisabledSaved }: SignaturesTableProps) {
         fetchSignaturesAndSettings();
     }, []);
 
+    // Follow signatures added or updated by feeds and file changes
+    useEffect(() => {
+        return window.signaturesAPI.onSignaturesUpdate(setSignatures);
+    }, []);
+
     // Save when signature selection changes, but only if it differs from initial state
     useEffect(() => {
         // Skip if we're still loading or don't have initial state to compare against
@@ -214,6 +260,8 @@ export function SignaturesTable({ onDisabledSaved }: SignaturesTableProps) {
                             <TableHead>Name</TableHead>
                             <TableHead>Type</TableHead>
                             <TableHead>Category</TableHead>
+                            <TableHead>Applies To</TableHead>
+                            <TableHead>Source</TableHead>
                             <TableHead>Description</TableHead>
                         </TableRow>
                     </TableHeader>
@@ -244,12 +292,37 @@ export function SignaturesTable({ onDisabledSaved }: SignaturesTableProps) {
                                                     <Code className="h-4 w-4 text-green-500" />
                                                     <span className="text-sm text-green-700">Deterministic</span>
                                                 </>
+                                            ) : isPatternSignature(signature) ? (
+                                                <>
+                                                    <Regex className="h-4 w-4 text-purple-500" />
+                                                    <span className="text-sm text-purple-700">Pattern</span>
+                                                </>
                                             ) : (
                                                 <span className="text-sm text-gray-500">Unknown</span>
                                             )}
                                         </div>
                                     </TableCell>
                                     <TableCell>{signature.category}</TableCell>
+                                    <TableCell>
+                                        {describeScope(signature.scope).map((line, index) => (
+                                            <div
+                                                key={line}
+                                                className={index === 0 ? "text-sm" : "text-xs text-muted-foreground font-mono"}
+                                            >
+                                                {line}
+                                            </div>
+                                        ))}
+                                    </TableCell>
+                                    <TableCell>
+                                        {describeSource(signature.source).map((line, index) => (
+                                            <div
+                                                key={line}
+                                                className={index === 0 ? "text-sm" : "text-xs text-muted-foreground font-mono"}
+                                            >
+                                                {line}
+                                            </div>
+                                        ))}
+                                    </TableCell>
                                     <TableCell className="max-w-md truncate" title={signature.description}>
                                         {signature.description}
                                     </TableCell>
@@ -257,7 +330,7 @@ export function SignaturesTable({ onDisabledSaved }: SignaturesTableProps) {
                             ))
                         ) : (
                             <TableRow>
-                                <TableCell colSpan={5} className="h-24 text-center">
+                                <TableCell colSpan={7} className="h-24 text-center">
                                     {searchQuery ? "No matching signatures found." : "No signatures available."}
                                 </TableCell>
                             </TableRow>
@@ -20,14 +20,24 @@ import {
     CardDescription,
 } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue
+} from "@/components/ui/select"
+import { toast } from "sonner"
 import { useState, useEffect, useCallback, useRef } from "react"
 import {
     MCPApplication,
     ProtectionStatus,
     ProtectedServerConfig,
     ServerTool,
+    ToolShadowingFinding,
     MCPDefenderEnvVar
 } from "@/services/configurations/types"
+import { ServerRequestPolicy } from "@/services/settings/types"
 
 import { AppIcon } from "@/components/ui/app-icon"
 import { TextShimmer } from "@/components/ui/text-shimmer"
@@ -37,6 +47,9 @@ export default function AppTab() {
     // Add state for MCP applications
     const [applications, setApplications] = useState<MCPApplication[]>([]);
     const [isLoading, setIsLoading] = useState(true);
+    const [serverRequestPolicies, setServerRequestPolicies] = useState<Record<string, ServerRequestPolicy>>({});
+    const [approvedTools, setApprovedTools] = useState<Record<string, string[]>>({});
+    const [trustedShadowingServers, setTrustedShadowingServers] = useState<Record<string, string[]>>({});
 
     // Track if we've already triggered discovery to prevent loops
     const discoveryTriggeredRef = useRef(false);
@@ -111,6 +124,70 @@ export default function AppTab() {
         };
     }, []);
 
+    // Load the policies for server-initiated requests, the approved flagged tools and the trusted shadowing servers
+    useEffect(() => {
+        window.settingsAPI.getAll()
+            .then(settings => {
+                setServerRequestPolicies(settings.serverRequestPolicies || {});
+                setApprovedTools(settings.approvedTools || {});
+                setTrustedShadowingServers(settings.trustedShadowingServers || {});
+            })
+            .catch(error => {
+                console.error("Error fetching settings:", error);
+            });
+    }, []);
+
+    // Save the policy for requests sent by one server
+    const handleServerRequestPolicyChange = async (appName: string, serverName: string, policy: ServerRequestPolicy) => {
+        const updatedPolicies = {
+            ...serverRequestPolicies,
+            [`${appName}:${serverName}`]: policy
+        };
+
+        try {
+            await window.settingsAPI.update({ serverRequestPolicies: updatedPolicies });
+            setServerRequestPolicies(updatedPolicies);
+        } catch (error) {
+            console.error("Error saving server request policy:", error);
+            toast.error("Failed to save server request policy");
+        }
+    };
+
+    // Approve a flagged tool, or revoke its approval
+    const handleToolApprovalChange = async (appName: string, serverName: string, toolName: string, approved: boolean) => {
+        const key = `${appName}:${serverName}`;
+        const serverApprovals = (approvedTools[key] || []).filter(name => name !== toolName);
+        const updatedApprovals = {
+            ...approvedTools,
+            [key]: approved ? [...serverApprovals, toolName] : serverApprovals
+        };
+
+        try {
+            await window.settingsAPI.update({ approvedTools: updatedApprovals });
+            setApprovedTools(updatedApprovals);
+        } catch (error) {
+            console.error("Error saving tool approval:", error);
+            toast.error("Failed to save tool approval");
+        }
+    };
+
+    // Trust a server that shadows other servers' tools, or revoke the trust
+    const handleShadowingTrustChange = async (appName: string, serverName: string, trusted: boolean) => {
+        const appTrust = (trustedShadowingServers[appName] || []).filter(name => name !== serverName);
+        const updatedTrust = {
+            ...trustedShadowingServers,
+            [appName]: trusted ? [...appTrust, serverName] : appTrust
+        };
+
+        try {
+            await window.settingsAPI.update({ trustedShadowingServers: updatedTrust });
+            setTrustedShadowingServers(updatedTrust);
+        } catch (error) {
+            console.error("Error saving shadowing trust:", error);
+            toast.error("Failed to save shadowing trust");
+        }
+    };
+
     // Trigger tool discovery only once when applications are initially loaded
     useEffect(() => {
         if (!isLoading && !discoveryTriggeredRef.current) {
@@ -161,8 +238,23 @@ export default function AppTab() {
                                         </div>
                                     </div>
                                 </CardHeader>
+                                {app.toolShadowing && app.toolShadowing.length > 0 && (
+                                    <ToolShadowingFindings
+                                        appName={app.name}
+                                        findings={app.toolShadowing}
+                                        trustedServers={trustedShadowingServers[app.name] || []}
+                                        onTrustChange={handleShadowingTrustChange}
+                                    />
+                                )}
                                 {app.servers.length > 0 && (
-                                    <MCPServerCards servers={app.servers} />
+                                    <MCPServerCards
+                                        appName={app.name}
+                                        servers={app.servers}
+                                        serverRequestPolicies={serverRequestPolicies}
+                                        onServerRequestPolicyChange={handleServerRequestPolicyChange}
+                                        approvedTools={approvedTools}
+                                        onToolApprovalChange={handleToolApprovalChange}
+                                    />
                                 )}
                             </Card>
                         ))
@@ -194,7 +286,119 @@ const StatusBadge = ({ status, message }: { status: ProtectionStatus, message?:
     </div>
 );
 
-const MCPServerCards = ({ servers }: { servers: ProtectedServerConfig[] }) => {
+// Tool badge showing the result of the tool definition scan
+const ToolBadge = ({ tool, approved }: { tool: ServerTool, approved: boolean }) => {
+    if (!tool.scanVerdict || tool.scanVerdict.allowed) {
+        return (
+            <Badge variant="outline" className="text-xs bg-muted/50">
+                {tool.name}
+            </Badge>
+        );
+    }
+
+    return (
+        <Badge
+            variant="outline"
+            className={approved ?
+                "text-xs gap-1 border-yellow-300 bg-yellow-50 text-yellow-800" :
+                "text-xs gap-1 border-red-300 bg-red-50 text-red-700"}
+            title={approved ? "Flagged tool approved by you" : tool.scanVerdict.reason}
+        >
+            {approved ? <ShieldCheck className="h-3 w-3" /> : <ShieldAlert className="h-3 w-3" />}
+            {tool.name}
+        </Badge>
+    );
+};
+
+interface ToolShadowingFindingsProps {
+    appName: string;
+    findings: ToolShadowingFinding[];
+    trustedServers: string[];
+    onTrustChange: (appName: string, serverName: string, trusted: boolean) => void;
+}
+
+// Tools of one server that shadow the tools of another server, grouped by the shadowing server
+const ToolShadowingFindings = ({
+    appName,
+    findings,
+    trustedServers,
+    onTrustChange
+}: ToolShadowingFindingsProps) => {
+    const serverNames = [...new Set(findings.map(finding => finding.serverName))];
+
+    return (
+        <CardContent>
+            <div className="flex flex-col gap-2">
+                {serverNames.map(serverName => {
+                    const trusted = trustedServers.includes(serverName);
+
+                    return (
+                        <div
+                            key={serverName}
+                            className={trusted ?
+                                "flex items-start justify-between gap-3 rounded-md border border-yellow-200 bg-yellow-50 p-2" :
+                                "flex items-start justify-between gap-3 rounded-md border border-red-200 bg-red-50 p-2"}
+                        >
+                            <div className="flex items-start gap-2 min-w-0">
+                                <AlertTriangle className={trusted ?
+                                    "h-4 w-4 text-yellow-500 mt-0.5 shrink-0" :
+                                    "h-4 w-4 text-red-500 mt-0.5 shrink-0"} />
+                                <div className="min-w-0">
+                                    <div className="text-xs font-semibold">
+                                        {serverName} shadows tools of other servers
+                                    </div>
+                                    {findings
+                                        .filter(finding => finding.serverName === serverName)
+                                        .map(finding => (
+                                            <p
+                                                key={`${finding.kind}:${finding.toolName}:${finding.shadowedServerName}:${finding.shadowedToolName}`}
+                                                className="text-xs text-muted-foreground break-words"
+                                            >
+                                                {finding.reason}
+                                            </p>
+                                        ))}
+                                </div>
+                            </div>
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                className="h-7 text-xs shrink-0"
+                                onClick={() => onTrustChange(appName, serverName, !trusted)}
+                            >
+                                {trusted ? "Revoke trust" : "Trust"}
+                            </Button>
+                        </div>
+                    );
+                })}
+            </div>
+        </CardContent>
+    );
+};
+
+// Options for requests a server sends to the client (sampling, elicitation, roots)
+const SERVER_REQUEST_POLICY_OPTIONS = [
+    { value: ServerRequestPolicy.ALLOW, label: "Allow if scan passes" },
+    { value: ServerRequestPolicy.PROMPT, label: "Always ask" },
+    { value: ServerRequestPolicy.BLOCK, label: "Block" }
+];
+
+interface MCPServerCardsProps {
+    appName: string;
+    servers: ProtectedServerConfig[];
+    serverRequestPolicies: Record<string, ServerRequestPolicy>;
+    onServerRequestPolicyChange: (appName: string, serverName: string, policy: ServerRequestPolicy) => void;
+    approvedTools: Record<string, string[]>;
+    onToolApprovalChange: (appName: string, serverName: string, toolName: string, approved: boolean) => void;
+}
+
+const MCPServerCards = ({
+    appName,
+    servers,
+    serverRequestPolicies,
+    onServerRequestPolicyChange,
+    approvedTools,
+    onToolApprovalChange
+}: MCPServerCardsProps) => {
     // Skip if no servers
     if (servers.length === 0) {
         return null;
@@ -222,6 +426,10 @@ const MCPServerCards = ({ servers }: { servers: ProtectedServerConfig[] }) => {
                         }
                     };
 
+                    // Tools whose definitions were flagged for tool poisoning
+                    const serverApprovals = approvedTools[`${appName}:${server.serverName}`] || [];
+                    const flaggedTools = (server.tools || []).filter(tool => tool.scanVerdict && !tool.scanVerdict.allowed);
+
                     return (
                         <Card key={server.serverName} className="bg-muted/30">
                             <CardHeader className="py-3">
@@ -239,6 +447,25 @@ const MCPServerCards = ({ servers }: { servers: ProtectedServerConfig[] }) => {
                                             </div>
                                         </CardDescription>
                                     </div>
+                                    {/* Policy for sampling, elicitation and roots requests from this server */}
+                                    <div className="flex flex-col items-end gap-1 shrink-0">
+                                        <span className="text-xs text-muted-foreground">Server requests</span>
+                                        <Select
+                                            value={serverRequestPolicies[`${appName}:${server.serverName}`] || ServerRequestPolicy.ALLOW}
+                                            onValueChange={(value) => onServerRequestPolicyChange(appName, server.serverName, value as ServerRequestPolicy)}
+                                        >
+                                            <SelectTrigger className="h-7 w-[160px] text-xs">
+                                                <SelectValue />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                {SERVER_REQUEST_POLICY_OPTIONS.map(option => (
+                                                    <SelectItem key={option.value} value={option.value} className="text-xs">
+                                                        {option.label}
+                                                    </SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
+                                    </div>
                                 </div>
                             </CardHeader>
                             <CardContent className="">
@@ -256,14 +483,57 @@ const MCPServerCards = ({ servers }: { servers: ProtectedServerConfig[] }) => {
                                     <div className="">
                                         <div className="flex flex-wrap items-center gap-1">
                                             {server.tools.map((tool: ServerTool) => (
-                                                <Badge key={tool.name} variant="outline" className="text-xs bg-muted/50">
-                                                    {tool.name}
-                                                </Badge>
+                                                <ToolBadge
+                                                    key={tool.name}
+                                                    tool={tool}
+                                                    approved={serverApprovals.includes(tool.name)}
+                                                />
                                             ))}
                                         </div>
                                     </div>
                                 )}
 
+                                {/* Show flagged tools with the reason and an approval toggle */}
+                                {flaggedTools.length > 0 && (
+                                    <div className="mt-3 flex flex-col gap-2">
+                                        {flaggedTools.map((tool: ServerTool) => {
+                                            const approved = serverApprovals.includes(tool.name);
+
+                                            return (
+                                                <div
+                                                    key={tool.name}
+                                                    className="flex items-start justify-between gap-3 rounded-md border border-red-200 bg-red-50 p-2"
+                                                >
+                                                    <div className="flex items-start gap-2 min-w-0">
+                                                        <ShieldAlert className="h-4 w-4 text-red-500 mt-0.5 shrink-0" />
+                                                        <div className="min-w-0">
+                                                            <div className="text-xs font-semibold">
+                                                                {tool.name}
+                                                                {tool.scanVerdict!.signatureNames.length > 0 && (
+                                                                    <span className="font-normal text-muted-foreground">
+                                                                        {' '}- {tool.scanVerdict!.signatureNames.join(', ')}
+                                                                    </span>
+                                                                )}
+                                                            </div>
+                                                            <p className="text-xs text-muted-foreground break-words">
+                                                                {tool.scanVerdict!.reason || "Tool definition flagged for tool poisoning"}
+                                                            </p>
+                                                        </div>
+                                                    </div>
+                                                    <Button
+                                                        variant="outline"
+                                                        size="sm"
+                                                        className="h-7 text-xs shrink-0"
+                                                        onClick={() => onToolApprovalChange(appName, server.serverName, tool.name, !approved)}
+                                                    >
+                                                        {approved ? "Revoke approval" : "Approve"}
+                                                    </Button>
+                                                </div>
+                                            );
+                                        })}
+                                    </div>
+                                )}
+
                                 {/* Show message if no tools and not discovering */}
                                 {(!server.tools || server.tools.length === 0) && !server.isDiscovering && (
                                     <div className="text-sm text-muted-foreground">
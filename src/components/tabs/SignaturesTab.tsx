@@ -9,6 +9,8 @@ import { Button } from "@/components/ui/button"
 import { FolderOpen, ShieldCheck } from "lucide-react"
 import { useState } from "react"
 import { SignaturesTable } from "../signatures/SignaturesTable"
+import { SignatureFeeds } from "../signatures/SignatureFeeds"
+import { SignatureValidationErrors } from "../signatures/SignatureValidationErrors"
 import { toast } from "sonner"
 
 export default function SignaturesTab() {
@@ -53,7 +55,11 @@ export default function SignaturesTab() {
                             checked against tool calls and responses based on your verification mode.
                         </p>
 
+                        <SignatureValidationErrors />
+
                         <SignaturesTable />
+
+                        <SignatureFeeds />
                     </div>
                 </CardContent>
             </Card>
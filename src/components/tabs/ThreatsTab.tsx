@@ -8,8 +8,17 @@ import {
 } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Separator } from "@/components/ui/separator"
-import { useState, useEffect, useMemo, useCallback } from "react"
-import { ScanResult, SignatureVerification, SignatureVerificationMap } from "@/services/scans/types"
+import { useState, useEffect, useMemo, useCallback, useRef } from "react"
+import {
+    ScanFilterValues,
+    ScanPage,
+    ScanQuery,
+    ScanResult,
+    ScanTimelineBucket,
+    ScanVerdict,
+    SignatureVerification,
+    SignatureVerificationMap
+} from "@/services/scans/types"
 import {
     Table,
     TableBody,
@@ -33,8 +42,9 @@ import {
     X,
     Clock,
     TrendingUp,
-    ArrowDown,
-    ArrowUp
+    ChevronLeft,
+    ChevronRight,
+    Download
 } from "lucide-react"
 import {
     Dialog,
@@ -47,8 +57,18 @@ import {
     DialogClose,
 } from "@/components/ui/dialog"
 import { Button } from "@/components/ui/button"
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue
+} from "@/components/ui/select"
 import { AppIcon } from "@/components/ui/app-icon"
 import { TextShimmer } from "@/components/ui/text-shimmer"
+import { ScanTypeLabel } from "@/components/ui/scan-type"
+import { SeverityBadge } from "@/components/ui/severity"
+import { ScanExportDialog } from "@/components/ScanExportDialog"
 import {
     CartesianGrid,
     Line,
@@ -68,12 +88,35 @@ import {
     ChartTooltipContent,
 } from "@/components/ui/chart"
 
+// Scans shown per page of the activity table
+const PAGE_SIZE = 50;
+
+// Period of the traffic chart, and the length of its points
+const TIMELINE_PERIOD = 7 * 24 * 60 * 60 * 1000;
+const TIMELINE_BUCKET = 15 * 60 * 1000;
+
+// Value of the filter selects that don't filter
+const ANY = "any";
+
+// Options of the verdict filter
+const VERDICT_OPTIONS: { value: ScanVerdict; label: string }[] = [
+    { value: "blocked", label: "Blocked" },
+    { value: "warned", label: "Warned" },
+    { value: "allowed", label: "Allowed" },
+    { value: "in_progress", label: "In progress" }
+];
+
 export default function ThreatsTab() {
-    // Add state for scan results
-    const [scanResults, setScanResults] = useState<ScanResult[]>([]);
+    // The page of the scan history shown, and the traffic over time
+    const [page, setPage] = useState<ScanPage>({ scans: [], total: 0, offset: 0, limit: PAGE_SIZE });
+    const [timeline, setTimeline] = useState<ScanTimelineBucket[]>([]);
+    const [filterValues, setFilterValues] = useState<ScanFilterValues>({ appNames: [], serverNames: [], toolNames: [], signatureIds: [] });
+    const [filters, setFilters] = useState<ScanQuery>({});
+    const [offset, setOffset] = useState(0);
     const [isLoading, setIsLoading] = useState(true);
     const [selectedScan, setSelectedScan] = useState<ScanResult | null>(null);
     const [openWindowsCount, setOpenWindowsCount] = useState(0);
+    const [isExportOpen, setIsExportOpen] = useState(false);
 
     // Format date for display (full)
     const formatDate = (date: Date) => {
@@ -151,10 +194,13 @@ export default function ThreatsTab() {
     };
 
     // Get row style based on verification result
-    const getRowStyle = (allowed: boolean) => {
-        if (!allowed) {
+    const getRowStyle = (scan: ScanResult) => {
+        if (!scan.allowed) {
             return "bg-red-50 dark:bg-red-950/30";
         }
+        if (scan.action === 'warn') {
+            return "bg-yellow-50 dark:bg-yellow-950/30";
+        }
         return "";
     };
 
@@ -225,36 +271,58 @@ export default function ThreatsTab() {
         return text.substring(0, maxLength) + "...";
     };
 
-    // Subscribe to scan results updates
+    // Query the page shown and the traffic chart
+    const loadScans = useCallback(async () => {
+        if (!window.scanAPI) return;
+
+        try {
+            const [scanPage, scanTimeline, values] = await Promise.all([
+                window.scanAPI.queryScans({ ...filters, offset, limit: PAGE_SIZE }),
+                window.scanAPI.getScanTimeline({ ...filters, from: Date.now() - TIMELINE_PERIOD }, TIMELINE_BUCKET),
+                window.scanAPI.getScanFilterValues()
+            ]);
+            setPage(scanPage);
+            setTimeline(scanTimeline);
+            setFilterValues(values);
+        } catch (error) {
+            console.error("Error getting scan results:", error);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [filters, offset]);
+
+    // The latest query, for the updates pushed by the scan service
+    const loadScansRef = useRef(loadScans);
     useEffect(() => {
-        let scanResultsUnsubscribe: (() => void) | undefined;
+        loadScansRef.current = loadScans;
+        loadScans();
+    }, [loadScans]);
 
-        if (window.scanAPI) {
-            // Get initial scan results
-            window.scanAPI.getScanResults()
-                .then(results => {
-                    console.log("Initial scan results:", results);
-                    setScanResults(results);
-                    setIsLoading(false);
-                })
-                .catch(error => {
-                    console.error("Error getting scan results:", error);
-                    setIsLoading(false);
-                });
+    // Query again when scans are added or updated, once per burst of updates
+    useEffect(() => {
+        if (!window.scanAPI) return;
 
-            // Subscribe to scan results updates
-            scanResultsUnsubscribe = window.scanAPI.onScanResultsUpdate((results) => {
-                console.log("Scan results update:", results);
-                setScanResults(results);
-            });
-        }
+        let reloadTimer: ReturnType<typeof setTimeout> | undefined;
+        const unsubscribe = window.scanAPI.onScanResultUpdate(() => {
+            clearTimeout(reloadTimer);
+            reloadTimer = setTimeout(() => loadScansRef.current(), 500);
+        });
 
         // Cleanup on unmount
         return () => {
-            if (scanResultsUnsubscribe) scanResultsUnsubscribe();
+            clearTimeout(reloadTimer);
+            unsubscribe();
         };
     }, []);
 
+    // Change a filter and go back to the first page
+    const updateFilter = (key: keyof ScanQuery, value: string) => {
+        setFilters({ ...filters, [key]: value === ANY ? undefined : value });
+        setOffset(0);
+    };
+
+    const hasFilters = Object.values(filters).some(value => value !== undefined);
+
     // Extract all signature verifications from the map for display
     const extractSignatureVerifications = (scan: ScanResult): SignatureVerification[] => {
         if (!scan.signatureVerifications) return [];
@@ -281,81 +349,42 @@ export default function ThreatsTab() {
         data: [];
         timeFrameDescription: string;
     } => {
-        if (!scanResults.length) return { data: [], timeFrameDescription: "" };
+        if (!timeline.length) return { data: [], timeFrameDescription: "" };
 
         // Get the time range of the scans
         const now = new Date();
-        const scanDates = scanResults.map(r => new Date(r.date).getTime());
-        const oldestScanDate = new Date(Math.min(...scanDates));
-        const newestScanDate = new Date(Math.max(...scanDates));
+        const oldestScanDate = new Date(timeline[0].timestamp);
+        const newestScanDate = new Date(timeline[timeline.length - 1].timestamp);
 
         // Determine the appropriate time description
         const timeDiff = now.getTime() - oldestScanDate.getTime();
         const oneDay = 24 * 60 * 60 * 1000;
-        const oneWeek = 7 * oneDay;
 
         let timeFrameDescription: string;
 
         if (timeDiff <= oneDay) {
             timeFrameDescription = 'Last 24 hours';
-        } else if (timeDiff <= oneWeek) {
-            timeFrameDescription = 'Last 7 days';
         } else {
-            timeFrameDescription = 'Last few weeks';
+            timeFrameDescription = 'Last 7 days';
         }
 
-        // For sparse data, directly use scan events rather than fixed intervals
-        // Group by unique timestamps rounded to the nearest 15 minutes
-        const timeAggregation = 15 * 60 * 1000; // 15 minutes
-        const buckets: Map<number, { allowed: number, blocked: number, time: Date }> = new Map();
-
-        // Group scan results by timestamp
-        scanResults.forEach(scan => {
-            const date = new Date(scan.date);
-            // Round to the nearest timeAggregation
-            const timestamp = Math.floor(date.getTime() / timeAggregation) * timeAggregation;
-
-            // Get or create bucket
-            if (!buckets.has(timestamp)) {
-                buckets.set(timestamp, {
-                    allowed: 0,
-                    blocked: 0,
-                    time: new Date(timestamp)
-                });
-            }
-
-            // Add scan to bucket
-            const bucket = buckets.get(timestamp)!;
-            if (scan.allowed) {
-                bucket.allowed++;
-            } else {
-                bucket.blocked++;
-            }
-        });
-
-        // Convert buckets to chart data
-        let data = Array.from(buckets.entries())
-            .sort(([a], [b]) => a - b)
-            .map(([timestamp, bucket]) => {
-                const timeLabel = formatTimeLabel(new Date(timestamp), oldestScanDate, newestScanDate);
-
-                return {
-                    time: timeLabel,
-                    allowed: bucket.allowed,
-                    blocked: bucket.blocked,
-                    total: bucket.allowed + bucket.blocked,
-                    timestamp: timestamp
-                };
-            });
+        // Scans are counted by the scan service in periods of 15 minutes
+        let data = timeline.map(bucket => ({
+            time: formatTimeLabel(new Date(bucket.timestamp), oldestScanDate, newestScanDate),
+            allowed: bucket.allowed,
+            blocked: bucket.blocked,
+            total: bucket.allowed + bucket.blocked,
+            timestamp: bucket.timestamp
+        }));
 
         // For very sparse data (few points), we might want to ensure we have enough points
         // by adding empty points between wide gaps
         if (data.length >= 2 && data.length < 5) {
-            data = fillDataGaps(data, timeAggregation);
+            data = fillDataGaps(data, TIMELINE_BUCKET);
         }
 
         return { data, timeFrameDescription };
-    }, [scanResults]);
+    }, [timeline]);
 
     // Chart configuration
     const chartConfig = {
@@ -434,7 +463,7 @@ export default function ThreatsTab() {
                             <div className="animate-spin text-2xl">⟳</div>
                             <span className="ml-2">Loading threat data...</span>
                         </div>
-                    ) : scanResults.length === 0 ? (
+                    ) : timeline.length === 0 ? (
                         <div className="flex flex-col items-center justify-center h-[200px] text-muted-foreground">
                             <AlertTriangle className="h-12 w-12 mb-2 opacity-50" />
                             <p>No threat data available</p>
@@ -553,42 +582,93 @@ export default function ThreatsTab() {
                             </div>
                         </div>
 
-                        {openWindowsCount > 0 && (
-                            <div className="flex items-center gap-2">
-                                <Badge variant="outline" className="h-7">
-                                    {openWindowsCount} {openWindowsCount === 1 ? 'window' : 'windows'} open
-                                </Badge>
-                                <Button
-                                    variant="ghost"
-                                    size="sm"
-                                    className="h-7 px-2"
-                                    onClick={focusAllWindows}
-                                >
-                                    <Eye className="h-3.5 w-3.5 mr-1" />
-                                    Focus
-                                </Button>
-                                <Button
-                                    variant="ghost"
-                                    size="sm"
-                                    className="h-7 px-2 text-destructive"
-                                    onClick={closeAllWindows}
-                                >
-                                    <X className="h-3.5 w-3.5 mr-1" />
-                                    Close All
-                                </Button>
-                            </div>
-                        )}
+                        <div className="flex items-center gap-2">
+                            {openWindowsCount > 0 && (
+                                <>
+                                    <Badge variant="outline" className="h-7">
+                                        {openWindowsCount} {openWindowsCount === 1 ? 'window' : 'windows'} open
+                                    </Badge>
+                                    <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        className="h-7 px-2"
+                                        onClick={focusAllWindows}
+                                    >
+                                        <Eye className="h-3.5 w-3.5 mr-1" />
+                                        Focus
+                                    </Button>
+                                    <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        className="h-7 px-2 text-destructive"
+                                        onClick={closeAllWindows}
+                                    >
+                                        <X className="h-3.5 w-3.5 mr-1" />
+                                        Close All
+                                    </Button>
+                                </>
+                            )}
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                className="h-7 px-2"
+                                onClick={() => setIsExportOpen(true)}
+                                disabled={page.total === 0}
+                            >
+                                <Download className="h-3.5 w-3.5 mr-1" />
+                                Export
+                            </Button>
+                        </div>
                     </div>
                 </CardHeader>
                 <CardContent>
+                    {/* Filters */}
+                    <div className="grid grid-cols-3 gap-2 mb-4">
+                        <Select value={filters.verdict || ANY} onValueChange={(value) => updateFilter("verdict", value)}>
+                            <SelectTrigger className="h-8 text-xs">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value={ANY} className="text-xs">All statuses</SelectItem>
+                                {VERDICT_OPTIONS.map(option => (
+                                    <SelectItem key={option.value} value={option.value} className="text-xs">
+                                        {option.label}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        <Select value={filters.appName || ANY} onValueChange={(value) => updateFilter("appName", value)}>
+                            <SelectTrigger className="h-8 text-xs">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value={ANY} className="text-xs">All apps</SelectItem>
+                                {filterValues.appNames.map(appName => (
+                                    <SelectItem key={appName} value={appName} className="text-xs">{appName}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        <Select value={filters.serverName || ANY} onValueChange={(value) => updateFilter("serverName", value)}>
+                            <SelectTrigger className="h-8 text-xs">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value={ANY} className="text-xs">All servers</SelectItem>
+                                {filterValues.serverNames.map(serverName => (
+                                    <SelectItem key={serverName} value={serverName} className="text-xs">{serverName}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+
                     {isLoading ? (
                         <div className="flex justify-center items-center h-32">
                             <div className="animate-spin text-2xl">⟳</div>
                             <span className="ml-2">Loading scan results...</span>
                         </div>
-                    ) : scanResults.length === 0 ? (
+                    ) : page.total === 0 ? (
                         <div className="text-center py-8 text-muted-foreground">
-                            No scan activity recorded yet.
+                            {hasFilters ? "No scans match the filters." : "No scan activity recorded yet."}
                         </div>
                     ) : (
                         <Table>
@@ -598,15 +678,16 @@ export default function ThreatsTab() {
                                     <TableHead className="w-[100px]">App</TableHead>
                                     <TableHead className="w-[120px]">Server</TableHead>
                                     <TableHead>Tool</TableHead>
-                                    <TableHead className="w-[90px]">Type</TableHead>
+                                    <TableHead className="w-[110px]">Type</TableHead>
+                                    <TableHead className="w-[90px]">Severity</TableHead>
                                     <TableHead className="w-[110px]">Status</TableHead>
                                 </TableRow>
                             </TableHeader>
                             <TableBody>
-                                {scanResults.map((scan, index) => (
+                                {page.scans.map((scan, index) => (
                                     <TableRow
-                                        key={index}
-                                        className={`${getRowStyle(scan.allowed)} cursor-pointer hover:bg-accent/50`}
+                                        key={scan.id || index}
+                                        className={`${getRowStyle(scan)} cursor-pointer hover:bg-accent/50`}
                                         onClick={() => handleRowClick(scan.id)}
                                     >
                                         <TableCell className="text-xs text-muted-foreground">
@@ -635,19 +716,16 @@ export default function ThreatsTab() {
                                             </span>
                                         </TableCell>
                                         <TableCell>
-                                            <div className="flex items-center gap-1.5">
-                                                {scan.isResponse ? (
-                                                    <>
-                                                        <ArrowDown className="h-4 w-4 text-muted-foreground" />
-                                                        <span className="text-xs text-muted-foreground">Response</span>
-                                                    </>
-                                                ) : (
-                                                    <>
-                                                        <ArrowUp className="h-4 w-4 text-muted-foreground" />
-                                                        <span className="text-xs text-muted-foreground">Request</span>
-                                                    </>
-                                                )}
-                                            </div>
+                                            <ScanTypeLabel
+                                                scan={scan}
+                                                className="text-xs text-muted-foreground"
+                                                iconClassName="text-muted-foreground"
+                                            />
+                                        </TableCell>
+                                        <TableCell>
+                                            {scan.severity && (
+                                                <SeverityBadge severity={scan.severity} className="text-xs" />
+                                            )}
                                         </TableCell>
                                         <TableCell>
                                             {scan.state === 'in_progress' ? (
@@ -656,6 +734,8 @@ export default function ThreatsTab() {
                                                 </TextShimmer>
                                             ) : !scan.allowed ? (
                                                 <span className="text-red-500 font-medium text-sm">Blocked</span>
+                                            ) : scan.action === 'warn' ? (
+                                                <span className="text-yellow-600 font-medium text-sm">Warned</span>
                                             ) : (
                                                 <span className="text-green-500 font-medium text-sm">Allowed</span>
                                             )}
@@ -665,8 +745,46 @@ export default function ThreatsTab() {
                             </TableBody>
                         </Table>
                     )}
+
+                    {/* Pagination */}
+                    {page.total > PAGE_SIZE && (
+                        <div className="flex items-center justify-between mt-4 text-xs text-muted-foreground">
+                            <span>
+                                {page.offset + 1}-{Math.min(page.offset + page.scans.length, page.total)} of {page.total} scans
+                            </span>
+                            <div className="flex items-center gap-2">
+                                <Button
+                                    variant="outline"
+                                    size="sm"
+                                    className="h-7 px-2"
+                                    disabled={offset === 0}
+                                    onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+                                >
+                                    <ChevronLeft className="h-3.5 w-3.5 mr-1" />
+                                    Newer
+                                </Button>
+                                <Button
+                                    variant="outline"
+                                    size="sm"
+                                    className="h-7 px-2"
+                                    disabled={offset + PAGE_SIZE >= page.total}
+                                    onClick={() => setOffset(offset + PAGE_SIZE)}
+                                >
+                                    Older
+                                    <ChevronRight className="h-3.5 w-3.5 ml-1" />
+                                </Button>
+                            </div>
+                        </div>
+                    )}
                 </CardContent>
             </Card>
+
+            <ScanExportDialog
+                open={isExportOpen}
+                onOpenChange={setIsExportOpen}
+                query={filters}
+                total={page.total}
+            />
         </div>
     );
 }
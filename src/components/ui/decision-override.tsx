@@ -0,0 +1,48 @@
+import { DecisionOverride, DecisionOverrideScope } from '@/services/settings/types';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+// What a remembered decision can apply to
+export const DECISION_SCOPE_OPTIONS: { value: DecisionOverrideScope; label: string }[] = [
+    { value: 'exact', label: 'This tool with the same arguments' },
+    { value: 'tool', label: 'This tool with any arguments' },
+    { value: 'server', label: 'Everything of this kind from this server' }
+];
+
+// How long a remembered decision can be kept, null keeps it until revoked
+export const DECISION_DURATION_OPTIONS: { value: number | null; label: string }[] = [
+    { value: HOUR, label: '1 hour' },
+    { value: DAY, label: '1 day' },
+    { value: 7 * DAY, label: '7 days' },
+    { value: 30 * DAY, label: '30 days' },
+    { value: null, label: 'Until revoked' }
+];
+
+/**
+ * Convert a duration to the value of a select item, which must be a string
+ */
+export function durationToValue(duration: number | null): string {
+    return duration === null ? 'forever' : String(duration);
+}
+
+/**
+ * Convert the value of a select item back to a duration
+ */
+export function valueToDuration(value: string): number | null {
+    return value === 'forever' ? null : Number(value);
+}
+
+/**
+ * Get the label for what a remembered decision applies to
+ */
+export function getDecisionScopeLabel(scope: DecisionOverrideScope): string {
+    return DECISION_SCOPE_OPTIONS.find(option => option.value === scope)?.label || scope;
+}
+
+/**
+ * Whether a remembered decision has expired
+ */
+export function isDecisionExpired(override: DecisionOverride, now: number = Date.now()): boolean {
+    return override.expiresAt !== null && override.expiresAt <= now;
+}
@@ -0,0 +1,76 @@
+import React from 'react';
+import {
+    ArrowDown,
+    ArrowUp,
+    Bot,
+    ClipboardPen,
+    FileDiff,
+    FileText,
+    FolderTree,
+    MessageSquareText,
+    TextCursorInput,
+    Wrench,
+    LucideIcon
+} from 'lucide-react';
+import { ScanResult, ScanType } from '@/services/scans/types';
+import { cn } from '@/lib/utils';
+
+interface ScanTypeInfo {
+    label: string;        // Short label used in tables
+    title: string;        // Title used in headings
+    contentTitle: string; // Title for the scanned content
+    icon: LucideIcon;
+}
+
+// Display information for each kind of scanned traffic
+const SCAN_TYPE_INFO: Record<ScanType, ScanTypeInfo> = {
+    tool_call: { label: 'Request', title: 'Tool Call', contentTitle: 'Tool Arguments', icon: ArrowUp },
+    tool_response: { label: 'Response', title: 'Tool Response', contentTitle: 'Tool Response', icon: ArrowDown },
+    resource_read: { label: 'Resource', title: 'Resource Read', contentTitle: 'Resource Contents', icon: FileText },
+    prompt_get: { label: 'Prompt', title: 'Prompt Template', contentTitle: 'Prompt Messages', icon: MessageSquareText },
+    completion: { label: 'Completion', title: 'Completion', contentTitle: 'Completion Values', icon: TextCursorInput },
+    sampling: { label: 'Sampling', title: 'Sampling Request', contentTitle: 'Sampling Request', icon: Bot },
+    elicitation: { label: 'Elicitation', title: 'Elicitation Request', contentTitle: 'Elicitation Request', icon: ClipboardPen },
+    roots_list: { label: 'Roots', title: 'Roots Request', contentTitle: 'Roots Request', icon: FolderTree },
+    tool_definition: { label: 'Tool', title: 'Tool Definition', contentTitle: 'Tool Definition', icon: Wrench },
+    tool_change: { label: 'Tool Change', title: 'Tool Definition Change', contentTitle: 'Definition Changes', icon: FileDiff }
+};
+
+/**
+ * Get the kind of traffic a scan was performed on
+ * Scans recorded before scan types existed only know whether they were a response
+ */
+export function getScanType(scan: ScanResult): ScanType {
+    return scan.scanType || (scan.isResponse ? 'tool_response' : 'tool_call');
+}
+
+/**
+ * Get display information for the kind of traffic a scan was performed on
+ */
+export function getScanTypeInfo(scan: ScanResult): ScanTypeInfo {
+    return SCAN_TYPE_INFO[getScanType(scan)];
+}
+
+interface ScanTypeLabelProps {
+    scan: ScanResult;
+    className?: string;
+    iconClassName?: string;
+}
+
+/**
+ * Component for displaying the scan type icon and label consistently
+ */
+export function ScanTypeLabel({
+    scan,
+    className = '',
+    iconClassName = ''
+}: ScanTypeLabelProps) {
+    const { label, icon: Icon } = getScanTypeInfo(scan);
+
+    return (
+        <div className="flex items-center gap-1.5">
+            <Icon className={cn('h-4 w-4', iconClassName)} />
+            <span className={className}>{label}</span>
+        </div>
+    );
+}
@@ -0,0 +1,45 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { SignatureAction, SignatureSeverity } from '@/services/signatures/types';
+import { cn } from '@/lib/utils';
+
+// Display information for each severity, from the least to the most serious
+const SEVERITY_INFO: Record<SignatureSeverity, { label: string; className: string }> = {
+    low: { label: 'Low', className: 'border-transparent bg-slate-100 text-slate-700' },
+    medium: { label: 'Medium', className: 'border-transparent bg-yellow-100 text-yellow-800' },
+    high: { label: 'High', className: 'border-transparent bg-orange-100 text-orange-800' },
+    critical: { label: 'Critical', className: 'border-transparent bg-red-100 text-red-800' }
+};
+
+// Past tense labels for what a signature did with the content it flagged
+const ACTION_LABELS: Record<SignatureAction, string> = {
+    block: 'Blocked',
+    prompt: 'Blocked',
+    warn: 'Warned',
+    log: 'Logged'
+};
+
+/**
+ * Get the label for what a signature did with the content it flagged
+ */
+export function getActionLabel(action?: SignatureAction): string {
+    return ACTION_LABELS[action || 'prompt'] || ACTION_LABELS.prompt;
+}
+
+interface SeverityBadgeProps {
+    severity: SignatureSeverity;
+    className?: string;
+}
+
+/**
+ * Component for displaying the severity of a signature or scan consistently
+ */
+export function SeverityBadge({ severity, className = '' }: SeverityBadgeProps) {
+    const info = SEVERITY_INFO[severity] || SEVERITY_INFO.medium;
+
+    return (
+        <Badge variant="outline" className={cn(info.className, className)}>
+            {info.label}
+        </Badge>
+    );
+}
@@ -2,8 +2,10 @@ import http from 'node:http';
 import { EventEmitter } from 'node:events';
 import { ScanResult } from '../../services/scans/types';
 import { Signature } from '../../services/signatures/types';
-import { ProtectedServerConfig } from '../../services/configurations/types';
-import { ScanMode } from '../../services/settings/types';
+import { ProtectedServerConfig, ToolPin, ToolScanVerdict, ToolShadowingFinding } from '../../services/configurations/types';
+import { DecisionOverride, LocalLLMSettings, PolicyRule, ScanMode, ServerRequestPolicy, VerificationCacheSettings } from '../../services/settings/types';
+import type { CachedVerification } from '../utils/verification-cache.js';
+import type { VerificationResult } from '../verification-utils.js';
 
 /**
  * Interface for scan settings that control verification behavior
@@ -15,8 +17,17 @@ export interface ScanSettings {
         model: string;
         apiKey: string | null;
         provider: string;
+        local: LocalLLMSettings | null;
     };
     disabledSignatures: Set<string>;
+    serverRequestPolicies: Record<string, ServerRequestPolicy>; // Policy for server-initiated requests by "app:server" key
+    hideFlaggedTools: boolean;     // Remove flagged tools from tools/list responses until approved
+    approvedTools: Record<string, string[]>; // Flagged tools the user approved, by "app:server" key
+    blockShadowingServers: boolean; // Block tool calls to servers that shadow another server's tools
+    trustedShadowingServers: Record<string, string[]>; // Servers allowed to shadow other servers, by app name
+    policyRules: PolicyRule[]; // Ordered rules evaluated before signatures
+    decisionOverrides: DecisionOverride[]; // Decisions remembered from security alerts
+    verificationCache: VerificationCacheSettings; // Reuse of results for identical content
     appVersion: string;
     appPlatform: string;
 }
@@ -31,6 +42,8 @@ export interface SSEConnection {
     targetUrl: string;             // URL of the target MCP server
     emitter: EventEmitter;         // Event emitter for internal communication
     proxyRequest: http.ClientRequest | null; // HTTP request to target server
+    targetMessageEndpoint?: string; // Target server's message endpoint from its endpoint event
+    toolsListIds: Set<string | number>; // IDs of the client's tools/list requests awaiting a response
     // Fields for tracking tool call context
     currentToolName?: string | null;
     currentToolId?: string | number | null;
@@ -38,6 +51,20 @@ export interface SSEConnection {
     appName?: string;
 }
 
+/**
+ * Represents a Streamable HTTP session (2025-03-26 spec)
+ * Keyed by the Mcp-Session-Id assigned by the target server
+ */
+export interface StreamableHttpSession {
+    sessionId: string;             // Mcp-Session-Id assigned by the target server
+    serverName: string;            // Name of MCP server being proxied
+    appName: string;               // Name of the application using this session
+    targetUrl: string;             // URL of the target MCP endpoint
+    streams: Set<http.ServerResponse>; // Open client SSE streams (GET and POST) for this session
+    createdAt: number;             // When the session was established
+    lastActivity: number;          // Last time a message was exchanged (for cleanup)
+}
+
 /**
  * Represents a pending tool call that's waiting for a response
  * Used to track tool calls across all connections for verification
@@ -49,6 +76,7 @@ export interface PendingToolCall {
     appName: string;               // Name of the application this call was made to
     timestamp: number;             // When the call was made (for cleanup)
     args: any;                     // The arguments passed to the tool
+    method?: string;               // JSON-RPC method of the request (tools/call if not set)
 }
 
 /**
@@ -92,9 +120,16 @@ export interface DefenderState {
     signatures: Signature[];
     signaturesDirectory?: string; // Path to the signatures directory from main process
     sseConnections: Map<string, SSEConnection>;
+    streamableSessions: Map<string, StreamableHttpSession>; // Active Streamable HTTP sessions by session ID
     pendingToolCalls: Map<string, PendingToolCall>; // Track pending tool calls across connections
     running: boolean;
     serverTools?: Map<string, ServerToolsInfo>; // Store tool information by app:server key
+    toolScans: Map<string, ToolScan>; // Tool definition scans by app:server:tool key
+    verificationCache: Map<string, CachedVerification<VerificationResult>>; // Verification results by content key
+    toolPinsLoaded: boolean; // Whether the persisted tool pins were received from the main process
+    toolPinChecks: Map<string, Promise<string[]>>; // Tool definition changes awaiting user approval, by server and changed hashes
+    unapprovedTools: Map<string, Set<string>>; // Tools whose changed definition awaits or was refused approval, by app:server key
+    toolShadowing: Map<string, ToolShadowingFinding[]>; // Cross-server tool shadowing findings by app name
     protectedServers: Map<string, ProtectedServerConfig[]>; // Store server configs by app name
     settings: ScanSettings;
 }
@@ -106,6 +141,15 @@ export interface ServerToolsInfo {
     tools: any[];         // The tools available on this server
     serverInfo: any;      // Information about the server
     lastUpdated: Date;    // When this information was last updated
+    pinnedTools?: Record<string, ToolPin>; // Approved tool definitions by tool name
+}
+
+/**
+ * A tool definition scan, reused while the definition and signatures are unchanged
+ */
+export interface ToolScan {
+    definition: string;               // Serialized name, description and schema that were scanned
+    verdict: Promise<ToolScanVerdict>; // Verdict of the scan (pending while the scan runs)
 }
 
 /**
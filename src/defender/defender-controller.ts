@@ -15,14 +15,19 @@ import {
   verifyToolCall,
   verifyToolResponse,
   initVerification,
+  initLocalVerification,
+  analyzeToolShadowing,
+  setToolPinsLoaded,
+  VerificationResult,
 } from './verification-utils.js';
-import { DefenderState, SSEConnection, PendingToolCall, sendMessageToParent, ScanSettings } from './common/types.js';
-import { ProtectedServerConfig, MCPApplication, MCPDefenderEnvVar } from '../services/configurations/types.js';
+import { DefenderState, SSEConnection, StreamableHttpSession, PendingToolCall, ToolScan, sendMessageToParent, ScanSettings } from './common/types.js';
+import { ProtectedServerConfig, MCPApplication, MCPDefenderEnvVar, ToolPin, ToolShadowingFinding } from '../services/configurations/types.js';
+import { CachedVerification } from './utils/verification-cache.js';
 
 // Import transport handlers
 import { handleSseConnection, handleMessageEndpoint } from './transports/http-sse-transport.js';
-// import { handleStreamableHttpConnection, handleStreamableHttpMessage } from './transports/streamable-http-transport.js';
-import { handleVerifyRequest, handleVerifyResponse, handleRegisterTools } from './transports/stdio-transport.js';
+import { handleStreamableHttpConnection, handleStreamableHttpMessage, handleStreamableHttpDelete } from './transports/streamable-http-transport.js';
+import { handleVerifyRequest, handleVerifyResponse, handleVerifyServerRequest, handleRegisterTools } from './transports/stdio-transport.js';
 import { ScanMode } from '../services/settings/types';
 
 // Server configuration
@@ -40,18 +45,38 @@ const state: DefenderState = {
   server: null as http.Server | null,
   signatures: [] as Signature[],
   sseConnections: new Map<string, SSEConnection>(), // Active SSE connections
+  streamableSessions: new Map<string, StreamableHttpSession>(), // Active Streamable HTTP sessions
   pendingToolCalls: new Map<string, PendingToolCall>(), // Pending tool calls waiting for responses
   running: false,                 // Server running state
   protectedServers: new Map<string, ProtectedServerConfig[]>(), // Protected server configurations by app name
+  toolScans: new Map<string, ToolScan>(), // Tool definition scans by app:server:tool key
+  verificationCache: new Map<string, CachedVerification<VerificationResult>>(), // Verification results by content key
+  toolPinsLoaded: false,          // Persisted tool pins received from the main process
+  toolPinChecks: new Map<string, Promise<string[]>>(), // Tool definition changes awaiting approval
+  unapprovedTools: new Map<string, Set<string>>(), // Changed tools awaiting or refused approval by app:server key
+  toolShadowing: new Map<string, ToolShadowingFinding[]>(), // Cross-server tool shadowing findings by app name
   settings: {
     scanMode: ScanMode.REQUEST_RESPONSE,
     loginToken: null,
     llm: {
       model: "",
       apiKey: null,
-      provider: ""
+      provider: "",
+      local: null
     },
     disabledSignatures: new Set<string>(),
+    serverRequestPolicies: {},
+    hideFlaggedTools: false,
+    approvedTools: {},
+    blockShadowingServers: false,
+    trustedShadowingServers: {},
+    policyRules: [],
+    decisionOverrides: [],
+    verificationCache: {
+      enabled: true,
+      ttlSeconds: 300,
+      maxEntries: 500
+    },
     appVersion: "",
     appPlatform: ""
   }
@@ -131,6 +156,7 @@ function stopServer() {
  * API endpoints:
  * - /verify/request         - API for CLI helper to verify tool requests (POST)
  * - /verify/response        - API for CLI helper to verify tool responses (POST)
+ * - /verify/server-request  - API for CLI helper to verify server-initiated requests (POST)
  * - /register-tools         - API for CLI helper to register available tools (POST)
  * - /scan-results           - Retrieve scan results (GET)
  * 
@@ -140,7 +166,7 @@ function stopServer() {
  * - /message                - Root message fallback (POST)
  * 
  * Streamable HTTP transport (2025-03-26 spec):
- * - /{appName}/{serverName}           - Single MCP endpoint for both GET (SSE) and POST (messages)
+ * - /{appName}/{serverName}           - Single MCP endpoint for GET (SSE), POST (messages) and DELETE (end session)
  */
 function handleRequest(req: http.IncomingMessage, res: http.ServerResponse) {
   const url = new URL(req.url || '/', `http://${req.headers.host}`);
@@ -175,6 +201,8 @@ function handleRequest(req: http.IncomingMessage, res: http.ServerResponse) {
             await handleVerifyRequest(data, res, state);
           } else if (pathname.startsWith('/verify/response')) {
             await handleVerifyResponse(data, res, state);
+          } else if (pathname.startsWith('/verify/server-request')) {
+            await handleVerifyServerRequest(data, res, state);
           } else {
             res.statusCode = 404;
             res.setHeader('Content-Type', 'application/json');
@@ -341,58 +369,47 @@ function handleRequest(req: http.IncomingMessage, res: http.ServerResponse) {
     }
 
     // Handle Streamable HTTP transport (2025-03-26)
-    // This handles both GET and POST to the same endpoint (not ending with /sse or /message)
-    /*
+    // This handles GET, POST and DELETE to the same endpoint (not ending with /sse or /message)
     if (pathname.split('/').length >= 2 && pathname !== '/') {
       const pathParts = pathname.split('/').filter(part => part.length > 0);
 
+      let serverName: string;
       if (pathParts.length >= 2) {
         // New format: /{appName}/{serverName}
         const appName = pathParts[0];
-        const serverName = pathParts[1];
+        serverName = pathParts[1];
 
         console.log(`Streamable HTTP request with app name: ${appName}, server name: ${serverName}`);
 
         // Add app name to request headers for downstream handlers
         req.headers['mcp_defender_app_name'] = appName;
-
-        if (req.method === 'GET') {
-          // Handle GET for SSE stream connection
-          handleStreamableHttpConnection(req, res, serverName, state);
-          return;
-        } else if (req.method === 'POST') {
-          // Handle POST for JSON-RPC messages
-          handleStreamableHttpMessage(req, res, serverName, state);
-          return;
-        } else {
-          // Only GET and POST are allowed for this endpoint
-          res.statusCode = 405; // Method Not Allowed
-          res.setHeader('Content-Type', 'application/json');
-          res.setHeader('Allow', 'GET, POST');
-          res.end(JSON.stringify({ error: 'Method not allowed' }));
-          return;
-        }
       } else {
         // Legacy format: /{serverName}
-        const serverName = pathParts[0];
+        serverName = pathParts[0];
         console.log(`Legacy Streamable HTTP request for server: ${serverName}`);
+      }
 
-        if (req.method === 'GET') {
-          handleStreamableHttpConnection(req, res, serverName, state);
-          return;
-        } else if (req.method === 'POST') {
-          handleStreamableHttpMessage(req, res, serverName, state);
-          return;
-        } else {
-          res.statusCode = 405;
-          res.setHeader('Content-Type', 'application/json');
-          res.setHeader('Allow', 'GET, POST');
-          res.end(JSON.stringify({ error: 'Method not allowed' }));
-          return;
-        }
+      if (req.method === 'GET') {
+        // Handle GET for SSE stream connection
+        handleStreamableHttpConnection(req, res, serverName, state);
+        return;
+      } else if (req.method === 'POST') {
+        // Handle POST for JSON-RPC messages
+        handleStreamableHttpMessage(req, res, serverName, state);
+        return;
+      } else if (req.method === 'DELETE') {
+        // Handle DELETE for session termination
+        handleStreamableHttpDelete(req, res, serverName, state);
+        return;
+      } else {
+        // Only GET, POST and DELETE are allowed for this endpoint
+        res.statusCode = 405; // Method Not Allowed
+        res.setHeader('Content-Type', 'application/json');
+        res.setHeader('Allow', 'GET, POST, DELETE');
+        res.end(JSON.stringify({ error: 'Method not allowed' }));
+        return;
       }
     }
-    */
 
     // Default 404 handler
     res.statusCode = 404;
@@ -511,6 +528,10 @@ process.parentPort.on('message', (message: any) => {
       // Update signatures and directory path in state
       state.signatures = signatures;
       state.signaturesDirectory = signaturesDirectory;
+
+      // Tool definitions and cached content have to be verified again against the new signatures
+      state.toolScans.clear();
+      state.verificationCache.clear();
       break;
 
     case DefenderServiceEvent.UPDATE_SETTINGS:
@@ -520,6 +541,12 @@ process.parentPort.on('message', (message: any) => {
       try {
         const settings = messageData;
 
+        // Cached results may not match the new model, signatures or policies
+        if (state.verificationCache.size > 0) {
+          console.log(`Clearing ${state.verificationCache.size} cached verification results`);
+          state.verificationCache.clear();
+        }
+
         // Update state with new settings
         if (settings.scanMode) {
           console.log(`Updating scan mode to: ${settings.scanMode}`);
@@ -534,7 +561,8 @@ process.parentPort.on('message', (message: any) => {
           state.settings.llm = {
             model: settings.llm.model || "",
             apiKey: settings.llm.apiKey || null,
-            provider: settings.llm.provider || ""
+            provider: settings.llm.provider || "",
+            local: settings.llm.local || null
           };
 
           // Initialize verification with new key if provided
@@ -542,6 +570,12 @@ process.parentPort.on('message', (message: any) => {
             console.log(`Initializing verification with ${settings.llm.provider} model: ${settings.llm.model}`);
             initVerification(settings.llm.apiKey);
           }
+
+          // Initialize verification with the local model server if selected
+          if (settings.llm.local && settings.llm.provider === 'local') {
+            console.log(`Initializing verification with local model ${settings.llm.local.model} at ${settings.llm.local.baseUrl}`);
+            initLocalVerification(settings.llm.local);
+          }
         }
 
         // Set the login token if available
@@ -561,9 +595,56 @@ process.parentPort.on('message', (message: any) => {
             ? new Set(settings.disabledSignatures)
             : settings.disabledSignatures;
 
+          // Tool definitions have to be scanned again when the enabled signatures change
+          const previousIds = state.settings.disabledSignatures;
+          if (disabledIds.size !== previousIds.size || [...disabledIds].some(id => !previousIds.has(id))) {
+            state.toolScans.clear();
+          }
+
           state.settings.disabledSignatures = disabledIds;
         }
 
+        // Update server request policies if provided
+        if (settings.serverRequestPolicies) {
+          console.log(`Updating server request policies`);
+          state.settings.serverRequestPolicies = settings.serverRequestPolicies;
+        }
+
+        // Update flagged tool handling if provided
+        if (settings.hideFlaggedTools !== undefined) {
+          state.settings.hideFlaggedTools = settings.hideFlaggedTools;
+        }
+        if (settings.approvedTools) {
+          console.log(`Updating approved tools`);
+          state.settings.approvedTools = settings.approvedTools;
+        }
+
+        // Update the tool shadowing policy if provided
+        if (settings.blockShadowingServers !== undefined) {
+          state.settings.blockShadowingServers = settings.blockShadowingServers;
+        }
+        if (settings.trustedShadowingServers) {
+          console.log(`Updating servers trusted to shadow other servers`);
+          state.settings.trustedShadowingServers = settings.trustedShadowingServers;
+        }
+
+        // Update policy rules if provided
+        if (Array.isArray(settings.policyRules)) {
+          console.log(`Updating ${settings.policyRules.length} policy rules`);
+          state.settings.policyRules = settings.policyRules;
+        }
+
+        // Update remembered decisions if provided
+        if (Array.isArray(settings.decisionOverrides)) {
+          console.log(`Updating ${settings.decisionOverrides.length} remembered decisions`);
+          state.settings.decisionOverrides = settings.decisionOverrides;
+        }
+
+        // Update the verification cache settings if provided
+        if (settings.verificationCache) {
+          state.settings.verificationCache = settings.verificationCache;
+        }
+
       } catch (err) {
         console.error('Error updating settings:', err);
       }
@@ -578,6 +659,11 @@ process.parentPort.on('message', (message: any) => {
           // Update protected servers state
           updateProtectedServers(applications);
           console.log(`Updated protected servers data with ${applications.length} applications`);
+
+          // Tool inventories may have changed, so look for shadowing again
+          for (const app of applications) {
+            analyzeToolShadowing(app.name);
+          }
         } else {
           console.error('Invalid protected servers data:', messageData);
         }
@@ -603,6 +689,39 @@ process.parentPort.on('message', (message: any) => {
       }
       break;
 
+    case DefenderServiceEvent.UPDATE_TOOL_PINS:
+      console.log('Received tool pins update');
+
+      try {
+        const pins: Record<string, Record<string, ToolPin>> = messageData?.pins || {};
+
+        if (!state.serverTools) {
+          state.serverTools = new Map();
+        }
+
+        // Pins are keyed by app:server, like the tool registry
+        for (const [key, pinnedTools] of Object.entries(pins)) {
+          const serverToolsInfo = state.serverTools.get(key);
+          if (serverToolsInfo) {
+            serverToolsInfo.pinnedTools = pinnedTools;
+          } else {
+            const [appName, ...serverNameParts] = key.split(':');
+            state.serverTools.set(key, {
+              tools: [],
+              serverInfo: { name: serverNameParts.join(':'), appName },
+              lastUpdated: new Date(),
+              pinnedTools
+            });
+          }
+        }
+
+        setToolPinsLoaded();
+        console.log(`Loaded tool pins for ${Object.keys(pins).length} servers`);
+      } catch (err) {
+        console.error('Error updating tool pins:', err);
+      }
+      break;
+
     case 'defender-server:discover-tools':
       console.log('Received request to discover tools');
 
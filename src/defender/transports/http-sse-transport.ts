@@ -40,12 +40,20 @@
  *    - Proxy verifies the tool call against security policies
  *    - If allowed, proxy stores call details in pendingToolCalls Map with key "{serverName}:{requestId}"
  *    - Proxy forwards request to target MCP server
+ *    - resources/read, prompts/get and completion/complete requests are tracked the same
+ *      way (without request verification) so their results can be verified
  * 
- * 3. Tool Call Response Handling:
+ * 3. Server Request Handling:
+ *    - sampling/createMessage, elicitation/create and roots/list requests arriving on the
+ *      SSE stream are checked against the server request policy and signatures
+ *    - Allowed requests are forwarded to the client
+ *    - Blocked requests are answered with a JSON-RPC error posted to the target server
+ * 
+ * 4. Tool Call Response Handling:
  *    - If response comes directly via HTTP:
  *      * Proxy looks up request ID in pendingToolCalls
  *      * Proxy verifies the response against security policies
- *      * If allowed, proxy forwards to client
+ *      * If allowed, proxy forwards to client (redacted if signatures masked parts of it)
  *      * Entry is removed from pendingToolCalls
  * 
  *    - If response comes via SSE event:
@@ -54,10 +62,16 @@
  *      * Proxy intercepts event, extracts request ID
  *      * Proxy looks up request ID in pendingToolCalls
  *      * Proxy verifies response against security policies
- *      * If allowed, proxy forwards event to client
+ *      * If allowed, proxy forwards event to client (redacted if signatures masked parts of it)
  *      * Entry is removed from pendingToolCalls
  * 
- * 4. Cleanup:
+ * 5. Tool Discovery:
+ *    - The proxy queries the target's tools, checks their definitions against the pinned
+ *      definitions and scans them for tool poisoning
+ *    - tools/list responses sent to the client have tools removed whose definitions changed
+ *      without the user's approval, and flagged tools when hiding flagged tools is enabled
+ * 
+ * 6. Cleanup:
  *    - Stale pending tool calls are periodically removed
  *    - SSE connections are closed when clients disconnect
  */
@@ -69,12 +83,23 @@ import { EventEmitter } from 'node:events';
 import { ScanResult } from '../../services/scans/types';
 import {
     verifyToolCall,
-    verifyToolResponse
+    verifyServerContent,
+    verifyServerRequest,
+    getHiddenTools
 } from '../verification-utils.js';
 import { SSEConnection, DefenderState, PendingToolCall, sendMessageToParent } from '../common/types.js';
 
 // Import the new utility functions for tool call tracking
-import { getCallKey, trackToolCall, cleanupStaleCalls, TOOL_CALL_MAX_AGE } from '../utils/tool-call-tracker.js';
+import {
+    getCallKey,
+    trackToolCall,
+    cleanupStaleCalls,
+    TOOL_CALL_MAX_AGE,
+    CONTENT_REQUEST_TYPES,
+    getContentRequestName,
+    getResponseVerificationType
+} from '../utils/tool-call-tracker.js';
+import { SERVER_REQUEST_TYPES, isServerRequest, createServerRequestRejection } from '../utils/server-requests.js';
 
 // Import utility function for finding target URLs
 import { findTargetUrlForServer } from '../defender-controller.js';
@@ -154,6 +179,9 @@ export async function queryServerTools(
                 }
             });
 
+            // Check the tool definitions against their pins and scan them in the background
+            getHiddenTools(appName, serverName, tools);
+
             // Signal discovery success
             sendMessageToParent({
                 type: DefenderServerEvent.TOOLS_DISCOVERY_COMPLETE,
@@ -184,6 +212,91 @@ export async function queryServerTools(
     }
 }
 
+/**
+ * Forward a tools/list response to the client without the changed or flagged tools it must not see
+ * 
+ * @param message The tools/list response from the target server
+ * @param connection The SSE connection the response arrived on
+ * @param res Client HTTP response
+ */
+async function forwardSseToolList(
+    message: any,
+    connection: SSEConnection,
+    res: http.ServerResponse
+) {
+    const tools: any[] = message.result.tools;
+    const hiddenTools = await getHiddenTools(connection.appName || 'unknown', connection.serverName, tools);
+
+    const filteredMessage = {
+        ...message,
+        result: {
+            ...message.result,
+            tools: tools.filter(tool => !hiddenTools.includes(tool.name))
+        }
+    };
+
+    res.write(`event: message\ndata: ${JSON.stringify(filteredMessage)}\n\n`);
+}
+
+/**
+ * Verify a request sent by the target server over the SSE stream before the client sees it
+ * 
+ * Allowed requests are forwarded to the client. Blocked requests never reach the client;
+ * instead the proxy answers them by posting a JSON-RPC error to the target's message endpoint.
+ * 
+ * @param message The sampling, elicitation or roots request from the target server
+ * @param dataStr The raw SSE event carrying the request
+ * @param connection The SSE connection the request arrived on
+ * @param res Client HTTP response
+ */
+async function verifySseServerRequest(
+    message: any,
+    dataStr: string,
+    connection: SSEConnection,
+    res: http.ServerResponse
+) {
+    const type = SERVER_REQUEST_TYPES.get(message.method);
+    let allowed = false;
+
+    try {
+        // Server info for scan result
+        const serverInfo = {
+            serverName: connection.serverName,
+            serverVersion: '',
+            appName: connection.appName || 'unknown'
+        };
+
+        if (type) {
+            const verificationResult = await verifyServerRequest(type, message.method, message.params, serverInfo);
+            allowed = verificationResult.allowed;
+        }
+    } catch (error) {
+        console.error('Error verifying SSE server request:', error);
+    }
+
+    if (allowed) {
+        res.write(dataStr);
+        return;
+    }
+
+    console.warn(`SSE server request rejected: ${message.method} not allowed`);
+
+    if (!connection.targetMessageEndpoint) {
+        console.error(`No target message endpoint known for ${connection.serverName}, cannot answer blocked request`);
+        return;
+    }
+
+    try {
+        await fetch(connection.targetMessageEndpoint, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(createServerRequestRejection(message))
+        });
+    } catch (error) {
+        console.error('Error sending server request rejection to target server:', error);
+    }
+}
+
 /**
  * Handler for SSE connections (HTTP+SSE Transport from MCP spec version 2024-11-05)
  * 
@@ -309,6 +422,7 @@ export async function handleSseConnection(
             targetUrl,
             emitter: new EventEmitter(),
             proxyRequest: null,
+            toolsListIds: new Set(),
             appName  // Store the app name with the connection
         };
 
@@ -364,6 +478,15 @@ export async function handleSseConnection(
                 return;
             }
 
+            // Events are handled one at a time, so an event waiting on verification holds up the
+            // later events and the client receives them in stream order
+            let clientEvents = Promise.resolve();
+            const handleInOrder = (handleEvent: () => void | Promise<void>) => {
+                clientEvents = clientEvents
+                    .then(handleEvent)
+                    .catch(error => console.error('Error forwarding SSE event:', error));
+            };
+
             // Forward SSE events from target to client
             proxyRes.on('data', (chunk) => {
                 // Get the data as string
@@ -381,6 +504,12 @@ export async function handleSseConnection(
                         sessionId = `?sessionId=${sessionMatch[1]}`;
                     }
 
+                    // Remember the target's message endpoint so the proxy can answer server requests itself
+                    const endpointMatch = dataStr.match(/data: (\S+)/);
+                    if (endpointMatch) {
+                        connection.targetMessageEndpoint = new URL(endpointMatch[1], targetUrl).toString();
+                    }
+
                     // Get the app name from the connection
                     const connectionAppName = connection.appName || appName;
 
@@ -392,7 +521,7 @@ export async function handleSseConnection(
 
                     // Send the modified event
                     console.log(`Sending modified endpoint event: ${newEvent}`);
-                    res.write(newEvent);
+                    handleInOrder(() => { res.write(newEvent); });
                 } else if (dataStr.includes('event: message') && dataStr.includes('data:')) {
                     // This is a message event that might contain a tool response
                     // Per MCP spec, tool responses in SSE have the format:
@@ -413,6 +542,13 @@ export async function handleSseConnection(
                         if (dataMatch && dataMatch[1]) {
                             const messageData = JSON.parse(dataMatch[1]);
 
+                            // Requests sent by the server to the client are verified before the client sees them
+                            if (isServerRequest(messageData)) {
+                                shouldForward = false;
+                                handleInOrder(() => verifySseServerRequest(messageData, dataStr, connection, res));
+                                return;
+                            }
+
                             // Check if this is a JSON-RPC response with an ID and result
                             // According to MCP spec, responses must have id and result fields
                             if (messageData.jsonrpc === '2.0' && messageData.id !== undefined && messageData.result) {
@@ -458,6 +594,9 @@ export async function handleSseConnection(
                                                 serverName
                                             }
                                         });
+
+                                        // Check the tool definitions against their pins and scan them in the background
+                                        getHiddenTools(appName, serverName, messageData.result.tools);
                                     }
 
                                     // Don't forward this internal response to the client
@@ -469,6 +608,14 @@ export async function handleSseConnection(
                                 // This simplifies the code and ensures we rely on our active approach
                                 // which gives us more reliable app name information
 
+                                // Tool listings for the client may need changed or flagged tools removed first
+                                const isToolsListResponse = connection.toolsListIds.delete(messageData.id);
+                                if (isToolsListResponse && Array.isArray(messageData.result.tools)) {
+                                    shouldForward = false;
+                                    handleInOrder(() => forwardSseToolList(messageData, connection, res));
+                                    return;
+                                }
+
                                 // Look up the associated tool call in the pending calls map
                                 const connectionAppName = connection.appName || appName;
                                 const callKey = getCallKey(messageData.id, serverName, connectionAppName);
@@ -490,8 +637,13 @@ export async function handleSseConnection(
                                         appName: connection?.appName || 'unknown'
                                     };
 
-                                    // Verify the response
-                                    verifyToolResponse(toolName, messageData.result, serverInfo)
+                                    // Verify the response as the content type of the original request
+                                    handleInOrder(() => verifyServerContent(
+                                        getResponseVerificationType(pendingCall.method),
+                                        toolName,
+                                        messageData.result,
+                                        serverInfo
+                                    )
                                         .then(verificationResult => {
                                             console.log(`SSE response verification result:`, JSON.stringify(verificationResult, null, 2));
 
@@ -521,8 +673,15 @@ export async function handleSseConnection(
                                             // Remove from pending calls
                                             state.pendingToolCalls.delete(callKey);
 
-                                            // Forward the verified response
-                                            res.write(dataStr);
+                                            // Forward the verified response, with sensitive parts masked if requested
+                                            if (verificationResult.redactedContent !== undefined) {
+                                                res.write(`event: message\ndata: ${JSON.stringify({
+                                                    ...messageData,
+                                                    result: verificationResult.redactedContent
+                                                })}\n\n`);
+                                            } else {
+                                                res.write(dataStr);
+                                            }
                                         })
                                         .catch(error => {
                                             console.error('Error verifying SSE response:', error);
@@ -531,7 +690,7 @@ export async function handleSseConnection(
 
                                             // Remove from pending calls map on error too
                                             state.pendingToolCalls.delete(callKey);
-                                        });
+                                        }));
                                 } else {
                                     // No matching tool call found, forward without verification
                                     console.warn(`No matching tool request found for SSE response, id: ${messageData.id}`);
@@ -545,11 +704,11 @@ export async function handleSseConnection(
 
                     // Forward the event if we didn't handle it with verification
                     if (shouldForward) {
-                        res.write(dataStr);
+                        handleInOrder(() => { res.write(dataStr); });
                     }
                 } else {
                     // Forward other events directly to the client
-                    res.write(dataStr);
+                    handleInOrder(() => { res.write(dataStr); });
 
                     // Log informational message about the data being forwarded
                     if (dataStr.includes('event:')) {
@@ -562,9 +721,11 @@ export async function handleSseConnection(
             proxyRes.on('end', () => {
                 console.log('Target server closed the connection');
                 // We'll leave the client connection open as the client can still send messages
-                res.write(`event: error\ndata: ${JSON.stringify({
-                    error: 'Target server closed the connection'
-                })}\n\n`);
+                handleInOrder(() => {
+                    res.write(`event: error\ndata: ${JSON.stringify({
+                        error: 'Target server closed the connection'
+                    })}\n\n`);
+                });
             });
         });
 
@@ -689,6 +850,11 @@ export async function handleMessageEndpoint(
                 return;
             }
 
+            // Remember tools/list requests so only their responses are handled as tool listings
+            if (message.method === 'tools/list' && message.id !== undefined) {
+                connection.toolsListIds.add(message.id);
+            }
+
             // Verify the request if it's a tool call (tools/call method as per MCP spec)
             if (message.method === 'tools/call' && message.params && message.params.name) {
                 try {
@@ -752,6 +918,12 @@ export async function handleMessageEndpoint(
                 }
             }
 
+            // Track resource reads, prompt fetches and completions so their results are verified
+            if (CONTENT_REQUEST_TYPES.has(message.method) && message.id !== undefined) {
+                const contentName = getContentRequestName(message);
+                trackToolCall(state, contentName, message.id, serverName, appName, message.params || {}, message.method);
+            }
+
             // Construct target message endpoint - converting /sse to /message per MCP spec
             const messageEndpoint = targetUrl.replace('/sse', '/message');
             console.log(`Forwarding message to target server at ${messageEndpoint}`);
@@ -814,8 +986,9 @@ export async function handleMessageEndpoint(
                             appName: connection?.appName || 'unknown'
                         };
 
-                        // Verify the tool response
-                        const verificationResult = await verifyToolResponse(
+                        // Verify the response as the content type of the original request
+                        const verificationResult = await verifyServerContent(
+                            getResponseVerificationType(pendingCall.method),
                             toolName,
                             responseData.result,
                             serverInfo
@@ -841,6 +1014,11 @@ export async function handleMessageEndpoint(
                             return;
                         }
 
+                        // Forward the response with sensitive parts masked if requested
+                        if (verificationResult.redactedContent !== undefined) {
+                            responseData.result = verificationResult.redactedContent;
+                        }
+
                         // Remove from pending calls
                         state.pendingToolCalls.delete(callKey);
                     } catch (error) {
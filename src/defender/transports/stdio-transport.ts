@@ -6,9 +6,11 @@
  */
 
 import http from 'node:http';
-import { verifyToolCall, verifyToolResponse } from '../verification-utils.js';
+import { verifyToolCall, verifyServerContent, verifyServerRequest, getHiddenTools } from '../verification-utils.js';
 import { DefenderState, sendMessageToParent } from '../common/types.js';
 import { DefenderServerEvent } from '../../services/defender/types.js';
+import { getResponseVerificationType } from '../utils/tool-call-tracker.js';
+import { SERVER_REQUEST_TYPES } from '../utils/server-requests.js';
 
 /**
  * Handle verification request for a tool call
@@ -76,9 +78,13 @@ export async function handleVerifyRequest(
  * Handle verification request for a tool response
  * 
  * This API endpoint is used by the CLI helper for STDIO transport verification
- * It verifies tool responses against security policies for the STDIO transport
+ * It verifies tool responses against security policies for the STDIO transport.
+ * Results of resources/read, prompts/get and completion/complete requests are also
+ * verified here - the CLI passes the request method and the resource URI, prompt name
+ * or completion reference as toolName. When signatures mask parts of the response, the
+ * redacted message is returned for the CLI to forward instead.
  * 
- * @param data Request data containing message and tool information
+ * @param data Request data containing message, tool information and the request method
  * @param res HTTP response object
  * @param state Global defender state
  */
@@ -104,19 +110,21 @@ export async function handleVerifyResponse(
             appName: data.serverInfo?.appName || 'unknown'
         };
 
-        // Verify the tool response
-        const verification = await verifyToolResponse(
+        // Verify the response as the content type of the original request
+        const verification = await verifyServerContent(
+            getResponseVerificationType(data.method),
             toolName,
             message,
             serverInfo
         );
 
-        // Response with verification result
+        // Response with verification result - a redacted response replaces the original message
         res.setHeader('Content-Type', 'application/json');
         res.end(JSON.stringify({
             blocked: !verification.allowed,
             reason: !verification.allowed ? 'Security policy violation' : null,
-            modified: false // No modification support yet
+            modified: verification.redactedContent !== undefined,
+            message: verification.redactedContent
         }));
     } catch (error) {
         console.error('Error verifying tool response:', error);
@@ -128,12 +136,67 @@ export async function handleVerifyResponse(
     }
 }
 
+/**
+ * Handle verification request for a server-initiated request
+ * 
+ * This API endpoint is used by the CLI helper for STDIO transport verification
+ * It applies the server request policy and verifies sampling/createMessage,
+ * elicitation/create and roots/list requests before they reach the client
+ * 
+ * @param data Request data containing the server's message and server information
+ * @param res HTTP response object
+ * @param state Global defender state
+ */
+export async function handleVerifyServerRequest(
+    data: any,
+    res: http.ServerResponse,
+    state: DefenderState
+) {
+    const { message } = data;
+    const type = SERVER_REQUEST_TYPES.get(message?.method);
+
+    if (!message || !type) {
+        res.statusCode = 400;
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify({ error: 'Missing required fields' }));
+        return;
+    }
+
+    try {
+        // Server info for scan result
+        const serverInfo = {
+            serverName: data.serverInfo?.name || 'unknown',
+            serverVersion: data.serverInfo?.version || 'unknown',
+            appName: data.serverInfo?.appName || 'unknown'
+        };
+
+        // Verify the server request
+        const verification = await verifyServerRequest(type, message.method, message.params, serverInfo);
+
+        // Response with verification result
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify({
+            blocked: !verification.allowed,
+            reason: !verification.allowed ? 'Security policy violation' : null
+        }));
+    } catch (error) {
+        console.error('Error verifying server request:', error);
+
+        // Return error
+        res.statusCode = 500;
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify({ error: 'Verification error', blocked: true }));
+    }
+}
+
 /**
  * Handle tool registration from CLI helper
  * 
  * This API endpoint receives tool information from the CLI helper when it 
  * intercepts a tools/list response. The tools are stored in the defender state
- * and a notification is sent to the main process.
+ * and a notification is sent to the main process. The tool definitions are then
+ * checked against their pins and scanned for tool poisoning, and the response lists
+ * the changed or flagged tools the CLI must hide from the client.
  * 
  * @param data Request data containing tools and server information
  * @param res HTTP response object
@@ -192,7 +255,8 @@ export async function handleRegisterTools(
                 appName: effectiveAppName,
                 ...serverInfo
             },
-            lastUpdated: new Date()
+            lastUpdated: new Date(),
+            pinnedTools: state.serverTools.get(key)?.pinnedTools
         });
 
         console.log(`Successfully registered ${tools.length} tools for ${key}`);
@@ -224,6 +288,9 @@ export async function handleRegisterTools(
             }
         });
 
+        // Check the tool definitions against their pins and scan them for tool poisoning
+        const hiddenTools = await getHiddenTools(effectiveAppName, effectiveServerName, processedTools);
+
         // Return success with detailed information
         res.statusCode = 200;
         res.setHeader('Content-Type', 'application/json');
@@ -234,7 +301,8 @@ export async function handleRegisterTools(
                 total: processedTools.length,
                 withDescriptions: toolsWithDescriptions.length,
                 withoutDescriptions: toolsWithoutDescriptions.length
-            }
+            },
+            hiddenTools
         }));
     } catch (error) {
         console.error('Error registering tools:', error);
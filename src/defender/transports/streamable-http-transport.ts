@@ -0,0 +1,971 @@
+/**
+ * Streamable HTTP Transport Handler (2025-03-26 spec)
+ *
+ * Implements a proxy for the MCP Streamable HTTP transport as defined in the specification:
+ * https://modelcontextprotocol.io/specification/2025-03-26/basic/transports.md
+ *
+ * Unlike the older HTTP+SSE transport, Streamable HTTP uses a single MCP endpoint:
+ * 1. POST - Client sends JSON-RPC messages (single or batched). The server answers with
+ *    either a JSON body or an SSE stream carrying the responses.
+ * 2. GET  - Client opens an optional SSE stream for server-initiated messages.
+ * 3. DELETE - Client explicitly terminates its session.
+ *
+ * Sessions are tracked with the Mcp-Session-Id header. The target server assigns the
+ * session ID in its response to the initialize request, and the client echoes it on
+ * every subsequent request.
+ *
+ * MCP DEFENDER PROXY IMPLEMENTATION:
+ * -------------------------------
+ * 1. Session Tracking:
+ *    - The Mcp-Session-Id assigned by the target server is passed through unchanged
+ *    - The proxy records each session so DELETE can tear down its open streams
+ *
+ * 2. Tool Call Request (POST):
+ *    - Every tools/call request in the POST body is verified against security policies
+ *    - Allowed calls are stored in pendingToolCalls and forwarded to the target server
+ *    - Blocked calls are answered directly with a JSON-RPC error and never forwarded
+ *    - resources/read, prompts/get and completion/complete requests are tracked too, so
+ *      resource contents, prompt messages and completions are verified like tool results
+ *
+ * 3. Server Request Handling:
+ *    - sampling/createMessage, elicitation/create and roots/list requests on any stream are
+ *      checked against the server request policy and signatures before reaching the client
+ *    - Blocked requests are dropped from the stream and answered with a JSON-RPC error
+ *      posted to the target server
+ *
+ * 4. Tool Call Response Handling:
+ *    - JSON responses are verified before being returned to the client
+ *    - SSE responses are parsed event by event; each response to a pending tool call is
+ *      verified before its event is forwarded, preserving event order
+ *    - Responses whose sensitive parts were masked by signatures are forwarded redacted
+ *
+ * 5. Tool Listing:
+ *    - tools/list responses update the tool registry, and the tool definitions are checked
+ *      against the pinned definitions and scanned for tool poisoning
+ *    - Tools whose definitions changed without the user's approval are removed from the
+ *      response, as are flagged tools when hiding flagged tools is enabled
+ *
+ * 6. Cleanup:
+ *    - DELETE forwards the termination to the target server and closes the session's streams
+ *    - Idle sessions and stale pending tool calls are periodically removed
+ */
+
+import http from 'node:http';
+import {
+    verifyToolCall,
+    verifyServerContent,
+    verifyServerRequest,
+    getHiddenTools
+} from '../verification-utils.js';
+import { DefenderState, StreamableHttpSession, sendMessageToParent } from '../common/types.js';
+import {
+    getCallKey,
+    trackToolCall,
+    cleanupStaleCalls,
+    CONTENT_REQUEST_TYPES,
+    getContentRequestName,
+    getResponseVerificationType
+} from '../utils/tool-call-tracker.js';
+import { SERVER_REQUEST_TYPES, isServerRequest, createServerRequestRejection } from '../utils/server-requests.js';
+import { findTargetUrlForServer } from '../defender-controller.js';
+import { DefenderServerEvent } from '../../services/defender/types.js';
+import { MCPDefenderEnvVar } from '../../services/configurations/types.js';
+
+// Constants
+const SESSION_HEADER = 'mcp-session-id';
+const SESSION_MAX_AGE = 60 * 60 * 1000; // 1 hour of inactivity
+
+// Client headers that are forwarded to the target server
+const FORWARDED_HEADERS = [
+    'authorization',
+    'mcp-protocol-version',
+    'last-event-id',
+    'origin'
+];
+
+/**
+ * Context shared by the verification helpers for a single proxied exchange
+ */
+interface MessageContext {
+    state: DefenderState;
+    serverName: string;
+    appName: string;
+    // IDs of tools/list requests sent in this exchange, used to refresh the tool registry
+    toolsListIds: Set<string | number>;
+    // Target endpoint and headers used to answer blocked server requests on the client's behalf
+    targetUrl: string;
+    targetHeaders: Record<string, string>;
+}
+
+/**
+ * Resolve the target MCP endpoint for a server
+ * Looks up the app state first, then falls back to headers and environment variables
+ *
+ * @param req Client HTTP request
+ * @param appName The application name
+ * @param serverName The MCP server name
+ * @returns The target URL if found, undefined otherwise
+ */
+function resolveTargetUrl(
+    req: http.IncomingMessage,
+    appName: string,
+    serverName: string
+): string | undefined {
+    const stateTargetUrl = findTargetUrlForServer(appName, serverName);
+    if (stateTargetUrl) {
+        return stateTargetUrl;
+    }
+
+    console.log(`No target URL found in app state for ${appName}/${serverName}, trying fallback methods`);
+
+    const envKey = MCPDefenderEnvVar.OriginalUrl;
+    const headerValue = req.headers[envKey.toLowerCase()];
+
+    if (typeof headerValue === 'string') {
+        return headerValue;
+    } else if (Array.isArray(headerValue) && headerValue.length > 0) {
+        return headerValue[0];
+    }
+
+    return process.env[envKey] || undefined;
+}
+
+/**
+ * Get the session ID sent by the client, if any
+ */
+function getSessionId(req: http.IncomingMessage): string | undefined {
+    const value = req.headers[SESSION_HEADER];
+    return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Build the headers for a request to the target server
+ *
+ * @param req Client HTTP request
+ * @param headers Additional headers for this request
+ * @returns Headers to send to the target server
+ */
+function buildTargetHeaders(
+    req: http.IncomingMessage,
+    headers: Record<string, string>
+): Record<string, string> {
+    const targetHeaders: Record<string, string> = {
+        'User-Agent': req.headers['user-agent'] || 'MCP-Defender-Proxy'
+    };
+
+    // Forward original headers that may be relevant
+    for (const name of FORWARDED_HEADERS) {
+        const value = req.headers[name];
+        if (typeof value === 'string' && value.length > 0) {
+            targetHeaders[name] = value;
+        }
+    }
+
+    const sessionId = getSessionId(req);
+    if (sessionId) {
+        targetHeaders[SESSION_HEADER] = sessionId;
+    }
+
+    return { ...targetHeaders, ...headers };
+}
+
+/**
+ * Record a session or refresh its activity timestamp
+ *
+ * @param state Global defender state
+ * @param sessionId The Mcp-Session-Id assigned by the target server
+ * @param serverName The MCP server name
+ * @param appName The application name
+ * @param targetUrl The target MCP endpoint
+ * @returns The tracked session
+ */
+function touchSession(
+    state: DefenderState,
+    sessionId: string,
+    serverName: string,
+    appName: string,
+    targetUrl: string
+): StreamableHttpSession {
+    let session = state.streamableSessions.get(sessionId);
+
+    if (!session) {
+        session = {
+            sessionId,
+            serverName,
+            appName,
+            targetUrl,
+            streams: new Set(),
+            createdAt: Date.now(),
+            lastActivity: Date.now()
+        };
+        state.streamableSessions.set(sessionId, session);
+        console.log(`Tracking Streamable HTTP session ${sessionId} for ${appName}/${serverName}`);
+    }
+
+    session.lastActivity = Date.now();
+    return session;
+}
+
+/**
+ * Close a session's open streams and stop tracking it
+ *
+ * @param state Global defender state
+ * @param sessionId The session to close
+ */
+function closeSession(state: DefenderState, sessionId: string) {
+    const session = state.streamableSessions.get(sessionId);
+    if (!session) {
+        return;
+    }
+
+    for (const stream of session.streams) {
+        if (!stream.writableEnded) {
+            stream.end();
+        }
+    }
+
+    state.streamableSessions.delete(sessionId);
+    console.log(`Closed Streamable HTTP session ${sessionId}`);
+}
+
+/**
+ * Remove sessions that have been idle for longer than SESSION_MAX_AGE
+ *
+ * @param state Global defender state
+ * @returns Number of sessions cleaned up
+ */
+function cleanupStaleSessions(state: DefenderState): number {
+    const now = Date.now();
+    let count = 0;
+
+    state.streamableSessions.forEach((session, sessionId) => {
+        if (session.streams.size === 0 && now - session.lastActivity > SESSION_MAX_AGE) {
+            state.streamableSessions.delete(sessionId);
+            count++;
+        }
+    });
+
+    if (count > 0) {
+        console.log(`Cleaned up ${count} stale Streamable HTTP sessions`);
+    }
+
+    return count;
+}
+
+/**
+ * Format a JSON-RPC message as an SSE message event
+ */
+function formatSseEvent(message: any): string {
+    return `event: message\ndata: ${JSON.stringify(message)}\n\n`;
+}
+
+/**
+ * Verify a client-to-server message before it is forwarded
+ *
+ * @param message JSON-RPC message sent by the client
+ * @param context Verification context for this exchange
+ * @returns A JSON-RPC error response if the message was blocked, null otherwise
+ */
+async function verifyClientMessage(message: any, context: MessageContext): Promise<any | null> {
+    const { state, serverName, appName } = context;
+
+    if (message?.method === 'tools/list' && message.id !== undefined) {
+        context.toolsListIds.add(message.id);
+        return null;
+    }
+
+    // Track resource reads, prompt fetches and completions so their results are verified
+    if (CONTENT_REQUEST_TYPES.has(message?.method) && message.id !== undefined) {
+        const contentName = getContentRequestName(message);
+        trackToolCall(state, contentName, message.id, serverName, appName, message.params || {}, message.method);
+        return null;
+    }
+
+    // Verify the request if it's a tool call (tools/call method as per MCP spec)
+    if (message?.method !== 'tools/call' || !message.params?.name || message.id === undefined) {
+        return null;
+    }
+
+    const toolName = message.params.name;
+    const toolArgs = message.params.arguments || {};
+
+    // Store the tool call in the global pending calls map
+    const callKey = trackToolCall(state, toolName, message.id, serverName, appName, toolArgs);
+
+    try {
+        // Server info for scan result
+        const serverInfo = {
+            serverName,
+            serverVersion: '',
+            appName
+        };
+
+        const verificationResult = await verifyToolCall(
+            toolName,
+            toolArgs,
+            serverInfo,
+            '' // Streamable HTTP transport doesn't have user intent - only STDIO proxy adds this
+        );
+
+        if (!verificationResult.allowed) {
+            console.warn(`Request rejected: Tool call ${toolName} not allowed`);
+
+            // Remove from pending calls if rejected
+            state.pendingToolCalls.delete(callKey);
+
+            return {
+                jsonrpc: '2.0',
+                id: message.id,
+                error: {
+                    code: -32000,
+                    message: `Tool call not allowed: Security policy violation`,
+                }
+            };
+        }
+    } catch (error) {
+        console.error('Error during request verification:', error);
+    }
+
+    return null;
+}
+
+/**
+ * Verify a request sent by the target server before it reaches the client
+ * Blocked requests are answered with a JSON-RPC error posted to the target server
+ *
+ * @param message The sampling, elicitation or roots request from the target server
+ * @param context Verification context for this exchange
+ * @returns True if the request may be forwarded to the client
+ */
+async function verifyServerRequestMessage(message: any, context: MessageContext): Promise<boolean> {
+    const { serverName, appName } = context;
+    const type = SERVER_REQUEST_TYPES.get(message.method);
+
+    try {
+        // Server info for scan result
+        const serverInfo = {
+            serverName,
+            serverVersion: '',
+            appName
+        };
+
+        if (type) {
+            const verificationResult = await verifyServerRequest(type, message.method, message.params, serverInfo);
+            if (verificationResult.allowed) {
+                return true;
+            }
+        }
+    } catch (error) {
+        console.error('Error during server request verification:', error);
+    }
+
+    console.warn(`Server request rejected: ${message.method} from ${appName}/${serverName} not allowed`);
+
+    try {
+        await fetch(context.targetUrl, {
+            method: 'POST',
+            headers: {
+                ...context.targetHeaders,
+                'Content-Type': 'application/json',
+                'Accept': 'application/json, text/event-stream'
+            },
+            body: JSON.stringify(createServerRequestRejection(message))
+        });
+    } catch (error) {
+        console.error('Error sending server request rejection to target server:', error);
+    }
+
+    return false;
+}
+
+/**
+ * Verify a server-to-client message before it is returned to the client
+ *
+ * @param message JSON-RPC message sent by the target server
+ * @param context Verification context for this exchange
+ * @returns The message to forward - the original, a JSON-RPC error replacing it, or null
+ *          if a blocked server request must be dropped
+ */
+async function verifyServerMessage(message: any, context: MessageContext): Promise<any | null> {
+    const { state, serverName, appName } = context;
+
+    // Requests sent by the server to the client are verified before the client sees them
+    if (isServerRequest(message)) {
+        return await verifyServerRequestMessage(message, context) ? message : null;
+    }
+
+    // Only JSON-RPC responses can answer a pending call
+    if (!message || message.method || message.id === undefined || message.id === null) {
+        return message;
+    }
+
+    // Keep the tool registry up to date from tools/list responses
+    if (context.toolsListIds.has(message.id)) {
+        if (Array.isArray(message.result?.tools)) {
+            const tools: any[] = message.result.tools;
+            console.log(`Found tools/list response with ${tools.length} tools for ${appName}/${serverName}`);
+            sendMessageToParent({
+                type: DefenderServerEvent.TOOLS_UPDATE,
+                data: {
+                    tools,
+                    appName,
+                    serverName
+                }
+            });
+
+            // Remove changed and flagged tools until they are approved
+            const hiddenTools = await getHiddenTools(appName, serverName, tools);
+            if (hiddenTools.length > 0) {
+                return {
+                    ...message,
+                    result: {
+                        ...message.result,
+                        tools: tools.filter(tool => !hiddenTools.includes(tool.name))
+                    }
+                };
+            }
+        }
+        return message;
+    }
+
+    // Look up the associated tool call in the pending calls map
+    const callKey = getCallKey(message.id, serverName, appName);
+    const pendingCall = state.pendingToolCalls.get(callKey);
+    if (!pendingCall) {
+        return message;
+    }
+
+    // Remove from pending calls - this is the only response for the call
+    state.pendingToolCalls.delete(callKey);
+
+    if (!message.result) {
+        return message;
+    }
+
+    try {
+        // Server info for scan result
+        const serverInfo = {
+            serverName,
+            serverVersion: '',
+            appName
+        };
+
+        // Verify the response as the content type of the original request
+        const verificationResult = await verifyServerContent(
+            getResponseVerificationType(pendingCall.method),
+            pendingCall.toolName,
+            message.result,
+            serverInfo
+        );
+
+        if (!verificationResult.allowed) {
+            console.warn(`Response rejected: ${pendingCall.method || 'tools/call'} response for ${pendingCall.toolName} not allowed`);
+            return {
+                jsonrpc: '2.0',
+                id: message.id,
+                error: {
+                    code: -32000,
+                    message: `Tool response not allowed: Security policy violation`,
+                }
+            };
+        }
+
+        // Forward the response with sensitive parts masked if requested
+        if (verificationResult.redactedContent !== undefined) {
+            return { ...message, result: verificationResult.redactedContent };
+        }
+    } catch (error) {
+        // On error, we'll still forward the response for better UX
+        console.error('Error during response verification:', error);
+    }
+
+    return message;
+}
+
+/**
+ * Verify a single SSE event from the target server
+ *
+ * @param rawEvent The raw event text without the trailing blank line
+ * @param context Verification context for this exchange
+ * @returns The event text to forward to the client
+ */
+async function processSseEvent(rawEvent: string, context: MessageContext): Promise<string> {
+    const lines = rawEvent.split('\n');
+    const dataLines = lines.filter(line => line.startsWith('data:'));
+
+    // Events without data (comments, retry hints) are forwarded as-is
+    if (dataLines.length === 0) {
+        return `${rawEvent}\n\n`;
+    }
+
+    let payload: any;
+    try {
+        payload = JSON.parse(dataLines.map(line => line.replace(/^data: ?/, '')).join('\n'));
+    } catch (error) {
+        console.warn('Could not parse SSE event data, forwarding without verification');
+        return `${rawEvent}\n\n`;
+    }
+
+    const messages = Array.isArray(payload) ? payload : [payload];
+    const verified = [];
+    for (const message of messages) {
+        verified.push(await verifyServerMessage(message, context));
+    }
+
+    // Forward the original bytes when nothing was replaced
+    if (verified.every((message, index) => message === messages[index])) {
+        return `${rawEvent}\n\n`;
+    }
+
+    // Drop blocked server requests - an event left without messages is not forwarded
+    const forwarded = verified.filter(message => message !== null);
+    if (forwarded.length === 0) {
+        return '';
+    }
+
+    // Keep the event's other fields (event type, id for resumability) and replace its data
+    const otherLines = lines.filter(line => !line.startsWith('data:'));
+    const data = JSON.stringify(Array.isArray(payload) ? forwarded : forwarded[0]);
+    return `${[...otherLines, `data: ${data}`].join('\n')}\n\n`;
+}
+
+/**
+ * Relay an SSE stream from the target server to the client, verifying each event in order
+ *
+ * @param response The target server response carrying the SSE stream
+ * @param res Client HTTP response
+ * @param context Verification context for this exchange
+ */
+async function relayEventStream(
+    response: Response,
+    res: http.ServerResponse,
+    context: MessageContext
+): Promise<void> {
+    if (!response.body) {
+        return;
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    let chunk = await reader.read();
+    while (!chunk.done) {
+        // Normalize line endings on the buffered text so events can be split on a single blank
+        // line, a CRLF split across two chunks is only complete once both are buffered
+        buffer += decoder.decode(chunk.value, { stream: true });
+        buffer = buffer.replace(/\r\n/g, '\n');
+
+        let boundary = buffer.indexOf('\n\n');
+        while (boundary !== -1) {
+            const rawEvent = buffer.slice(0, boundary);
+            buffer = buffer.slice(boundary + 2);
+
+            // Verification is awaited per event so responses keep their original order
+            const event = await processSseEvent(rawEvent, context);
+            if (res.writableEnded) {
+                // The session was closed while we were verifying
+                return;
+            }
+            if (event) {
+                res.write(event);
+            }
+            boundary = buffer.indexOf('\n\n');
+        }
+
+        chunk = await reader.read();
+    }
+
+    buffer += decoder.decode();
+    if (buffer.trim().length > 0) {
+        const event = await processSseEvent(buffer, context);
+        if (event && !res.writableEnded) {
+            res.write(event);
+        }
+    }
+}
+
+/**
+ * Handle GET requests to the MCP endpoint (Streamable HTTP Transport, 2025-03-26 spec)
+ *
+ * Opens an SSE stream for server-initiated messages. If the target server does not offer
+ * a stream at this endpoint, its response (typically 405) is passed through to the client.
+ *
+ * @param req Client HTTP request
+ * @param res Client HTTP response
+ * @param serverName Name of the target MCP server
+ * @param state Global defender state
+ */
+export async function handleStreamableHttpConnection(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    serverName: string,
+    state: DefenderState
+) {
+    const appName = req.headers['mcp_defender_app_name'] as string || 'unknown';
+
+    console.log(`New Streamable HTTP stream for app: ${appName}, server: ${serverName}`);
+
+    // Check Accept header for SSE support - required by MCP spec
+    const acceptHeader = req.headers.accept || '';
+    if (!acceptHeader.includes('text/event-stream')) {
+        console.error(`Client does not accept text/event-stream, got: ${acceptHeader}`);
+        res.statusCode = 406; // Not Acceptable
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify({ error: 'Client must accept text/event-stream' }));
+        return;
+    }
+
+    const targetUrl = resolveTargetUrl(req, appName, serverName);
+    if (!targetUrl) {
+        res.statusCode = 500;
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify({ error: 'Target server URL not configured' }));
+        return;
+    }
+
+    // Abort the target stream when the client goes away
+    const controller = new AbortController();
+    res.on('close', () => controller.abort());
+
+    const sessionId = getSessionId(req);
+    let session: StreamableHttpSession | undefined;
+
+    try {
+        const response = await fetch(targetUrl, {
+            method: 'GET',
+            headers: buildTargetHeaders(req, { 'Accept': 'text/event-stream' }),
+            signal: controller.signal
+        });
+
+        const contentType = response.headers.get('content-type') || '';
+        if (!response.ok || !contentType.includes('text/event-stream')) {
+            console.log(`Target server did not open a stream (${response.status}) for ${appName}/${serverName}`);
+            res.statusCode = response.status;
+            if (contentType) {
+                res.setHeader('Content-Type', contentType);
+            }
+            const allow = response.headers.get('allow');
+            if (allow) {
+                res.setHeader('Allow', allow);
+            }
+            res.end(await response.text());
+            return;
+        }
+
+        res.writeHead(200, {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache, no-transform',
+            'Connection': 'keep-alive',
+        });
+
+        if (sessionId) {
+            session = touchSession(state, sessionId, serverName, appName, targetUrl);
+            session.streams.add(res);
+        }
+
+        await relayEventStream(response, res, {
+            state,
+            serverName,
+            appName,
+            toolsListIds: new Set(),
+            targetUrl,
+            targetHeaders: buildTargetHeaders(req, {})
+        });
+
+        console.log(`Target server closed the Streamable HTTP stream for ${appName}/${serverName}`);
+        if (!res.writableEnded) {
+            res.end();
+        }
+    } catch (error: any) {
+        if (error.name === 'AbortError') {
+            console.log(`Streamable HTTP stream for ${appName}/${serverName} closed by client`);
+        } else {
+            console.error(`Error relaying Streamable HTTP stream: ${error.message}`);
+            if (!res.headersSent) {
+                res.statusCode = 502;
+                res.setHeader('Content-Type', 'application/json');
+                res.end(JSON.stringify({ error: `Error connecting to target server: ${error.message}` }));
+            } else if (!res.writableEnded) {
+                res.end();
+            }
+        }
+    } finally {
+        session?.streams.delete(res);
+    }
+}
+
+/**
+ * Handle POST requests to the MCP endpoint (Streamable HTTP Transport, 2025-03-26 spec)
+ *
+ * According to the MCP spec:
+ * - The body is a single JSON-RPC message or a batch of messages
+ * - If the body contains only notifications or responses, the server returns 202 Accepted
+ * - If it contains requests, the server returns either application/json or an SSE stream
+ *
+ * @param req Client HTTP request
+ * @param res Client HTTP response
+ * @param serverName Name of the target MCP server
+ * @param state Global defender state
+ */
+export async function handleStreamableHttpMessage(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    serverName: string,
+    state: DefenderState
+) {
+    const appName = req.headers['mcp_defender_app_name'] as string || 'unknown';
+
+    console.log(`Handling Streamable HTTP message for app: ${appName}, server: ${serverName}`);
+
+    // Get the request body
+    let body = '';
+    req.on('data', chunk => { body += chunk.toString(); });
+    req.on('end', async () => {
+        let payload: any;
+        try {
+            payload = JSON.parse(body);
+        } catch (error) {
+            console.error('Error parsing Streamable HTTP message:', error);
+            res.statusCode = 400;
+            res.setHeader('Content-Type', 'application/json');
+            res.end(JSON.stringify({ error: 'Invalid message format' }));
+            return;
+        }
+
+        const isBatch = Array.isArray(payload);
+        const messages: any[] = isBatch ? payload : [payload];
+
+        const targetUrl = resolveTargetUrl(req, appName, serverName);
+        if (!targetUrl) {
+            res.statusCode = 500;
+            res.setHeader('Content-Type', 'application/json');
+            res.end(JSON.stringify({ error: 'Target server URL not configured' }));
+            return;
+        }
+
+        const sessionId = getSessionId(req);
+        const context: MessageContext = {
+            state,
+            serverName,
+            appName,
+            toolsListIds: new Set(),
+            targetUrl,
+            targetHeaders: buildTargetHeaders(req, {})
+        };
+
+        // Verify client messages - blocked requests are answered here and never forwarded
+        const blockedResponses: any[] = [];
+        const forwardedMessages: any[] = [];
+        for (const message of messages) {
+            const blockedResponse = await verifyClientMessage(message, context);
+            if (blockedResponse) {
+                blockedResponses.push(blockedResponse);
+            } else {
+                forwardedMessages.push(message);
+            }
+        }
+
+        // Periodically clean up stale pending tool calls and idle sessions
+        cleanupStaleCalls(state);
+        cleanupStaleSessions(state);
+
+        if (sessionId) {
+            res.setHeader('Mcp-Session-Id', sessionId);
+        }
+
+        // Nothing left to forward - answer the client directly
+        if (forwardedMessages.length === 0) {
+            res.statusCode = 200;
+            res.setHeader('Content-Type', 'application/json');
+            res.end(JSON.stringify(isBatch ? blockedResponses : blockedResponses[0]));
+            return;
+        }
+
+        // Abort the target request when the client goes away
+        const controller = new AbortController();
+        res.on('close', () => controller.abort());
+
+        try {
+            console.log(`Forwarding ${forwardedMessages.length} message(s) to target server at ${targetUrl}`);
+            const response = await fetch(targetUrl, {
+                method: 'POST',
+                headers: buildTargetHeaders(req, {
+                    'Content-Type': 'application/json',
+                    'Accept': req.headers.accept || 'application/json, text/event-stream'
+                }),
+                body: blockedResponses.length === 0
+                    ? body
+                    : JSON.stringify(isBatch ? forwardedMessages : forwardedMessages[0]),
+                signal: controller.signal
+            });
+
+            // Track the session assigned by the target server (returned on initialize)
+            const targetSessionId = response.headers.get(SESSION_HEADER) || sessionId;
+            let session: StreamableHttpSession | undefined;
+            if (targetSessionId) {
+                res.setHeader('Mcp-Session-Id', targetSessionId);
+                session = touchSession(state, targetSessionId, serverName, appName, targetUrl);
+            }
+
+            // Per spec, 404 for a known session ID means the session has expired
+            if (response.status === 404 && sessionId) {
+                closeSession(state, sessionId);
+            }
+
+            const contentType = response.headers.get('content-type') || '';
+
+            if (response.ok && contentType.includes('text/event-stream')) {
+                res.writeHead(200, {
+                    'Content-Type': 'text/event-stream',
+                    'Cache-Control': 'no-cache, no-transform',
+                    'Connection': 'keep-alive',
+                });
+
+                // Blocked responses go out first, then the verified target stream
+                for (const blockedResponse of blockedResponses) {
+                    res.write(formatSseEvent(blockedResponse));
+                }
+
+                session?.streams.add(res);
+                try {
+                    await relayEventStream(response, res, context);
+                } finally {
+                    session?.streams.delete(res);
+                }
+                if (!res.writableEnded) {
+                    res.end();
+                }
+                return;
+            }
+
+            if (response.ok && contentType.includes('application/json')) {
+                const responseData = await response.json();
+                const responses: any[] = Array.isArray(responseData) ? responseData : [responseData];
+
+                const verifiedResponses = [...blockedResponses];
+                for (const message of responses) {
+                    const verifiedMessage = await verifyServerMessage(message, context);
+                    if (verifiedMessage !== null) {
+                        verifiedResponses.push(verifiedMessage);
+                    }
+                }
+
+                // Every message was a blocked server request - there is nothing left to return
+                if (verifiedResponses.length === 0) {
+                    res.statusCode = 202;
+                    res.end();
+                    return;
+                }
+
+                res.statusCode = 200;
+                res.setHeader('Content-Type', 'application/json');
+                res.end(JSON.stringify(
+                    isBatch || verifiedResponses.length > 1 ? verifiedResponses : verifiedResponses[0]
+                ));
+                return;
+            }
+
+            // Accepted notifications still need answers for any requests we blocked
+            if (response.status === 202 && blockedResponses.length > 0) {
+                res.statusCode = 200;
+                res.setHeader('Content-Type', 'application/json');
+                res.end(JSON.stringify(isBatch ? blockedResponses : blockedResponses[0]));
+                return;
+            }
+
+            // 202 Accepted, errors and anything else are passed through unchanged
+            console.log(`Passing through ${response.status} response from target server`);
+            res.statusCode = response.status;
+            if (contentType) {
+                res.setHeader('Content-Type', contentType);
+            }
+            res.end(await response.text());
+        } catch (error: any) {
+            if (error.name === 'AbortError') {
+                console.log(`Streamable HTTP request for ${appName}/${serverName} closed by client`);
+                return;
+            }
+
+            console.error('Error forwarding message to target server:', error);
+            if (!res.headersSent) {
+                res.statusCode = 502;
+                res.setHeader('Content-Type', 'application/json');
+                res.end(JSON.stringify({
+                    jsonrpc: '2.0',
+                    id: isBatch ? null : payload?.id ?? null,
+                    error: {
+                        code: -32000,
+                        message: `Error communicating with target server: ${error.message}`,
+                    }
+                }));
+            } else if (!res.writableEnded) {
+                res.end();
+            }
+        }
+    });
+}
+
+/**
+ * Handle DELETE requests to the MCP endpoint (Streamable HTTP Transport, 2025-03-26 spec)
+ *
+ * Clients send DELETE with their Mcp-Session-Id to terminate a session. The request is
+ * forwarded to the target server and the proxy closes any streams open for the session.
+ *
+ * @param req Client HTTP request
+ * @param res Client HTTP response
+ * @param serverName Name of the target MCP server
+ * @param state Global defender state
+ */
+export async function handleStreamableHttpDelete(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    serverName: string,
+    state: DefenderState
+) {
+    const appName = req.headers['mcp_defender_app_name'] as string || 'unknown';
+    const sessionId = getSessionId(req);
+
+    if (!sessionId) {
+        res.statusCode = 400;
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify({ error: 'Missing Mcp-Session-Id header' }));
+        return;
+    }
+
+    console.log(`Terminating Streamable HTTP session ${sessionId} for ${appName}/${serverName}`);
+
+    const targetUrl = state.streamableSessions.get(sessionId)?.targetUrl
+        || resolveTargetUrl(req, appName, serverName);
+
+    try {
+        if (!targetUrl) {
+            res.statusCode = 500;
+            res.setHeader('Content-Type', 'application/json');
+            res.end(JSON.stringify({ error: 'Target server URL not configured' }));
+            return;
+        }
+
+        const response = await fetch(targetUrl, {
+            method: 'DELETE',
+            headers: buildTargetHeaders(req, {})
+        });
+
+        // Pass through the target's answer (405 means it doesn't allow client termination)
+        res.statusCode = response.status;
+        const contentType = response.headers.get('content-type');
+        if (contentType) {
+            res.setHeader('Content-Type', contentType);
+        }
+        res.end(await response.text());
+
+        if (response.ok || response.status === 404) {
+            closeSession(state, sessionId);
+        }
+    } catch (error: any) {
+        console.error('Error forwarding session termination to target server:', error);
+        res.statusCode = 502;
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify({ error: `Error communicating with target server: ${error.message}` }));
+    }
+}
@@ -0,0 +1,110 @@
+/**
+ * Anthropic Messages API
+ *
+ * Verification with Anthropic models uses the same instructions and input as the other
+ * providers: the instructions are sent as the system prompt and the input as the only user
+ * message. When a tool is given, the model is made to call it, which is how the Messages
+ * API returns output that follows a JSON schema. Requests are made with fetch, so no
+ * additional SDK is bundled.
+ */
+
+// Base URL of the Anthropic API
+export const ANTHROPIC_API_URL = 'https://api.anthropic.com';
+
+// API version sent with every request
+const ANTHROPIC_VERSION = '2023-06-01';
+
+// Upper bound on the length of the reply, verdicts for many signatures stay far below it
+const MAX_TOKENS = 4096;
+
+// Time a verification request may take before it fails (ms)
+const REQUEST_TIMEOUT = 120000;
+
+/**
+ * A tool the model must call to answer, described by the JSON schema of its input
+ */
+export interface AnthropicTool {
+    name: string;
+    description: string;
+    inputSchema: Record<string, any>;
+}
+
+/**
+ * A verification request to an Anthropic model
+ */
+export interface AnthropicMessageRequest {
+    apiKey: string;
+    model: string;
+    system: string;       // Verification instructions
+    input: string;        // Verification input
+    tool?: AnthropicTool; // Tool the model must answer with
+    baseUrl?: string;     // Defaults to the Anthropic API, set for proxies and tests
+    timeoutMs?: number;
+}
+
+/**
+ * Send a verification request with the Messages API
+ *
+ * @param request The model, key, instructions and input
+ * @returns The input of the tool call serialized as JSON if a tool was given and called,
+ * otherwise the text of the model's reply
+ * @throws If the request fails or the API returns an error
+ */
+export async function createAnthropicMessage(request: AnthropicMessageRequest): Promise<string> {
+    const baseUrl = (request.baseUrl || ANTHROPIC_API_URL).replace(/\/+$/, '');
+
+    const response = await fetch(`${baseUrl}/v1/messages`, {
+        method: 'POST',
+        headers: {
+            'content-type': 'application/json',
+            'x-api-key': request.apiKey,
+            'anthropic-version': ANTHROPIC_VERSION
+        },
+        body: JSON.stringify({
+            model: request.model,
+            max_tokens: MAX_TOKENS,
+            system: request.system,
+            messages: [{ role: 'user', content: request.input }],
+            ...(request.tool && {
+                tools: [{
+                    name: request.tool.name,
+                    description: request.tool.description,
+                    input_schema: request.tool.inputSchema
+                }],
+                tool_choice: { type: 'tool', name: request.tool.name }
+            })
+        }),
+        signal: AbortSignal.timeout(request.timeoutMs ?? REQUEST_TIMEOUT)
+    });
+
+    if (!response.ok) {
+        // Errors are described as { type: 'error', error: { type, message } }
+        let message = `Anthropic request failed with status: ${response.status}`;
+        try {
+            const data = await response.json();
+            if (data?.error?.message) {
+                message += ` (${data.error.message})`;
+            }
+        } catch {
+            // The body isn't JSON, the status is all we have
+        }
+        throw new Error(message);
+    }
+
+    const data = await response.json();
+
+    // The reply is a list of content blocks, verification uses the tool call or the text
+    const content: any[] = Array.isArray(data?.content) ? data.content : [];
+
+    const toolUse = request.tool && content.find(block =>
+        block?.type === 'tool_use' && block.name === request.tool.name
+    );
+    if (toolUse) {
+        return JSON.stringify(toolUse.input);
+    }
+
+    return content
+        .filter(block => block?.type === 'text' && typeof block.text === 'string')
+        .map(block => block.text)
+        .join('');
+}
@@ -0,0 +1,75 @@
+/**
+ * Remembered Decision Matching
+ *
+ * When the user ticks "remember" on a security alert, the decision is stored with the
+ * traffic it applies to: the same arguments, any arguments for the same tool, or anything
+ * from the same server. Only traffic of the kind the decision was made on matches, so
+ * allowing a server's tool calls doesn't allow its sampling requests. Changed tool
+ * definitions are always reviewed, a remembered decision never approves them.
+ * Matching traffic then gets the decision without a new alert.
+ */
+
+import type { DecisionOverride, DecisionOverrideScope } from '../../services/settings/types.js';
+import type { ScanResult } from '../../services/scans/types.js';
+
+// More specific scopes take precedence over broader ones
+const SCOPE_PRECEDENCE: DecisionOverrideScope[] = ['exact', 'tool', 'server'];
+
+/**
+ * Whether a remembered decision applies to a scan
+ */
+function matchesScan(override: DecisionOverride, scanResult: ScanResult): boolean {
+    if (override.appName !== scanResult.appName || override.serverName !== scanResult.serverName) {
+        return false;
+    }
+
+    // Scans without a scan type are tool calls or tool responses
+    const scanType = scanResult.scanType || (scanResult.isResponse ? 'tool_response' : 'tool_call');
+
+    if (scanType === 'tool_change' || override.scanType !== scanType) {
+        return false;
+    }
+
+    switch (override.scope) {
+        case 'server':
+            return true;
+        case 'tool':
+            return override.toolName === scanResult.toolName;
+        case 'exact':
+            return override.toolName === scanResult.toolName &&
+                override.toolArgs === scanResult.toolArgs;
+        default:
+            return false;
+    }
+}
+
+/**
+ * Find the remembered decision that applies to a scan
+ *
+ * @param overrides The remembered decisions
+ * @param scanResult The scan the user would otherwise be asked about
+ * @param now The current time in milliseconds since the epoch
+ * @returns The most specific unexpired decision, the newest one if several are equally
+ * specific, or null if none applies
+ */
+export function findDecisionOverride(
+    overrides: DecisionOverride[] | undefined,
+    scanResult: ScanResult,
+    now: number = Date.now()
+): DecisionOverride | null {
+    const matches = (overrides || []).filter(override =>
+        (override.expiresAt === null || override.expiresAt > now) &&
+        matchesScan(override, scanResult)
+    );
+
+    for (const scope of SCOPE_PRECEDENCE) {
+        const [newest] = matches
+            .filter(override => override.scope === scope)
+            .sort((a, b) => b.createdAt - a.createdAt);
+        if (newest) {
+            return newest;
+        }
+    }
+
+    return null;
+}
@@ -0,0 +1,292 @@
+/**
+ * Pattern Rule Evaluation
+ *
+ * Pattern signatures declare their check in signatures.json instead of a JavaScript file:
+ * regular expressions, keywords, entropy and length limits on values selected by JSONPath,
+ * combined with all, any and not. Every match is reported with the JSONPath of the value
+ * and the offsets of the matched characters in it.
+ */
+
+import type { PatternRule } from '../../services/signatures/types.js';
+import type { PatternMatch } from '../../services/scans/types.js';
+
+/**
+ * A value selected from the content, with its JSONPath
+ */
+interface SelectedValue {
+    path: string;
+    value: any;
+}
+
+/**
+ * A step of a JSONPath - a property name, an array index or * for every child
+ */
+interface PathSegment {
+    key: string | number;
+    recursive: boolean; // Whether the step applies to every descendant (..)
+}
+
+/**
+ * Result of evaluating a pattern rule
+ */
+export interface PatternRuleResult {
+    matched: boolean;
+    matches: PatternMatch[];
+}
+
+// Most matches reported for a single rule, so a broad pattern can't flood the scan history
+const MAX_MATCHES = 50;
+
+// Tokens the entropy rule measures - runs of the characters keys and tokens are made of
+const TOKEN_PATTERN = /[A-Za-z0-9+/=_\-.~]+/g;
+
+// Shortest token the entropy rule measures by default
+const DEFAULT_MIN_TOKEN_LENGTH = 20;
+
+// .name, .*, ..name, ..* and [0], [*], ['name'], ["name"], optionally preceded by ..
+const SEGMENT_PATTERN = /(\.\.?)(\*|[^.[\]]+)|(\.\.)?\[(\*|-?\d+|'[^']*'|"[^"]*")\]/y;
+
+/**
+ * Parse the supported subset of JSONPath
+ * @throws Error if the path is not supported
+ */
+function parseJsonPath(path: string): PathSegment[] {
+    if (!path.startsWith('$')) {
+        throw new Error(`JSONPath must start with $: ${path}`);
+    }
+
+    const segments: PathSegment[] = [];
+    let index = 1;
+    while (index < path.length) {
+        SEGMENT_PATTERN.lastIndex = index;
+        const match = SEGMENT_PATTERN.exec(path);
+        if (!match) {
+            throw new Error(`Unsupported JSONPath at position ${index}: ${path}`);
+        }
+
+        if (match[2] !== undefined) {
+            segments.push({ key: match[2], recursive: match[1] === '..' });
+        } else {
+            const key = match[4];
+            segments.push({
+                key: key === '*' ? '*' : /^-?\d+$/.test(key) ? Number(key) : key.slice(1, -1),
+                recursive: match[3] === '..'
+            });
+        }
+
+        index = SEGMENT_PATTERN.lastIndex;
+    }
+
+    return segments;
+}
+
+/**
+ * Get the JSONPath of a child value
+ */
+function childPath(path: string, key: string | number): string {
+    if (typeof key === 'number') {
+        return `${path}[${key}]`;
+    }
+
+    return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}['${key.replace(/'/g, "\\'")}']`;
+}
+
+/**
+ * Get the children of an object or array
+ */
+function getChildren(node: SelectedValue): SelectedValue[] {
+    if (Array.isArray(node.value)) {
+        return node.value.map((value, index) => ({ path: childPath(node.path, index), value }));
+    }
+
+    if (typeof node.value === 'object' && node.value !== null) {
+        return Object.entries(node.value).map(([key, value]) => ({ path: childPath(node.path, key), value }));
+    }
+
+    return [];
+}
+
+/**
+ * Get a value and every value nested in it
+ */
+function getDescendants(node: SelectedValue): SelectedValue[] {
+    return [node, ...getChildren(node).flatMap(getDescendants)];
+}
+
+/**
+ * Select values from the content with a JSONPath
+ *
+ * Supports the root ($), properties (.name, ['name']), array indexes ([0], [-1] from the
+ * end), wildcards (.*, [*]) and recursive descent (..name).
+ *
+ * @param content The tool input or response
+ * @param path The JSONPath
+ * @returns The selected values with their paths
+ * @throws Error if the path is not supported
+ */
+export function selectJsonPath(content: any, path: string): SelectedValue[] {
+    let nodes: SelectedValue[] = [{ path: '$', value: content }];
+
+    for (const segment of parseJsonPath(path)) {
+        nodes = nodes.flatMap(node => (segment.recursive ? getDescendants(node) : [node]).flatMap(parent => {
+            if (segment.key === '*') {
+                return getChildren(parent);
+            }
+
+            if (typeof segment.key === 'number') {
+                if (!Array.isArray(parent.value)) {
+                    return [];
+                }
+                const index = segment.key < 0 ? parent.value.length + segment.key : segment.key;
+                return index >= 0 && index < parent.value.length ?
+                    [{ path: childPath(parent.path, index), value: parent.value[index] }] :
+                    [];
+            }
+
+            if (typeof parent.value === 'object' && parent.value !== null && !Array.isArray(parent.value) &&
+                Object.prototype.hasOwnProperty.call(parent.value, segment.key)) {
+                return [{ path: childPath(parent.path, segment.key), value: parent.value[segment.key] }];
+            }
+
+            return [];
+        }));
+    }
+
+    return nodes;
+}
+
+/**
+ * Get the text of the strings, numbers and booleans in the selected values
+ */
+function getTextValues(nodes: SelectedValue[]): { path: string; text: string }[] {
+    return nodes.flatMap(getDescendants).flatMap(node => {
+        if (typeof node.value === 'string') {
+            return [{ path: node.path, text: node.value }];
+        }
+        if (typeof node.value === 'number' || typeof node.value === 'boolean') {
+            return [{ path: node.path, text: String(node.value) }];
+        }
+        return [];
+    });
+}
+
+/**
+ * Shannon entropy of a text in bits per character
+ */
+export function getEntropy(text: string): number {
+    const counts = new Map<string, number>();
+    for (const char of text) {
+        counts.set(char, (counts.get(char) || 0) + 1);
+    }
+
+    const length = [...text].length;
+    let entropy = 0;
+    for (const count of counts.values()) {
+        const probability = count / length;
+        entropy -= probability * Math.log2(probability);
+    }
+
+    return entropy;
+}
+
+/**
+ * Find every match of a regular expression in a text
+ * @param accept Decides which matched text counts, every non-empty match by default
+ */
+function findAll(
+    text: string,
+    regex: RegExp,
+    path: string,
+    rule: PatternMatch['rule'],
+    accept: (matched: string) => boolean = () => true
+): PatternMatch[] {
+    const matches: PatternMatch[] = [];
+    for (const match of text.matchAll(regex)) {
+        if (match[0].length > 0 && accept(match[0])) {
+            matches.push({ path, start: match.index ?? 0, end: (match.index ?? 0) + match[0].length, rule });
+        }
+        if (matches.length >= MAX_MATCHES) {
+            break;
+        }
+    }
+    return matches;
+}
+
+/**
+ * Find the matches of a text rule in every selected value
+ */
+function findMatches(
+    content: any,
+    path: string | undefined,
+    find: (text: string, path: string) => PatternMatch[]
+): PatternMatch[] {
+    const nodes = path ? selectJsonPath(content, path) : [{ path: '$', value: content }];
+    return getTextValues(nodes).flatMap(({ path, text }) => find(text, path)).slice(0, MAX_MATCHES);
+}
+
+/**
+ * Evaluate a pattern rule against some content
+ *
+ * @param rule The rule
+ * @param content The tool input or response
+ * @returns Whether the rule matched, and where
+ * @throws Error if the rule is invalid
+ */
+export function evaluatePatternRule(rule: PatternRule, content: any): PatternRuleResult {
+    let matches: PatternMatch[];
+
+    switch (rule.kind) {
+        case 'regex': {
+            // Every match is needed for the positions, and sticky matching would skip some
+            const flags = [...new Set(`${rule.flags || ''}g`.replace('y', ''))].join('');
+            const regex = new RegExp(rule.pattern, flags);
+            matches = findMatches(content, rule.path, (text, path) => findAll(text, regex, path, 'regex'));
+            break;
+        }
+        case 'keywords': {
+            const keywords = (rule.keywords || []).filter(keyword => keyword.length > 0);
+            if (keywords.length === 0) {
+                throw new Error('A keywords rule needs at least one keyword');
+            }
+            const regex = new RegExp(
+                keywords.map(keyword => keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|'),
+                rule.caseSensitive ? 'g' : 'gi'
+            );
+            matches = findMatches(content, rule.path, (text, path) => findAll(text, regex, path, 'keywords'));
+            break;
+        }
+        case 'entropy': {
+            const minLength = rule.minLength ?? DEFAULT_MIN_TOKEN_LENGTH;
+            matches = findMatches(content, rule.path, (text, path) => findAll(text, TOKEN_PATTERN, path, 'entropy', token =>
+                token.length >= minLength && getEntropy(token) >= rule.minEntropy));
+            break;
+        }
+        case 'length':
+            // The characters beyond the limit are reported
+            matches = findMatches(content, rule.path, (text, path) => text.length > rule.maxLength ?
+                [{ path, start: rule.maxLength, end: text.length, rule: 'length' }] :
+                []);
+            break;
+        case 'all':
+        case 'any': {
+            if (!rule.rules || rule.rules.length === 0) {
+                throw new Error(`An ${rule.kind} rule needs at least one rule`);
+            }
+            const results = rule.rules.map(child => evaluatePatternRule(child, content));
+            const matched = rule.kind === 'all' ?
+                results.every(result => result.matched) :
+                results.some(result => result.matched);
+            return {
+                matched,
+                matches: matched ? results.flatMap(result => result.matches).slice(0, MAX_MATCHES) : []
+            };
+        }
+        case 'not':
+            // Absence has no position
+            return { matched: !evaluatePatternRule(rule.rule, content).matched, matches: [] };
+        default:
+            throw new Error(`Unknown pattern rule kind: ${(rule as { kind?: string }).kind}`);
+    }
+
+    return { matched: matches.length > 0, matches };
+}
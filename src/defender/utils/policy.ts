@@ -0,0 +1,77 @@
+/**
+ * Policy Rule Matching
+ *
+ * Policy rules let the user decide per application, server and tool how traffic is
+ * verified, for example never scanning one tool or always blocking another. Rules are kept
+ * in order and the first enabled rule that matches the traffic applies.
+ */
+
+import type { PolicyDirection, PolicyRule } from '../../services/settings/types.js';
+
+/**
+ * The traffic a policy rule is matched against
+ */
+export interface PolicyContext {
+    appName: string;
+    serverName: string;
+    toolName: string;
+    content: any;                           // Tool arguments or returned content
+    direction: Exclude<PolicyDirection, 'both'>;
+}
+
+/**
+ * Whether a name matches a case-insensitive glob where * matches any text and ? one character
+ * An empty pattern matches any name
+ */
+export function matchesGlob(name: string, pattern: string): boolean {
+    if (!pattern || pattern === '*') {
+        return true;
+    }
+
+    const source = pattern
+        .split('')
+        .map(char => char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+        .join('');
+
+    return new RegExp(`^${source}$`, 'i').test(name);
+}
+
+/**
+ * Whether the serialized content matches a rule's argument pattern
+ * An invalid pattern never matches, so a typo can't widen a rule
+ */
+function matchesArguments(content: any, pattern: string): boolean {
+    if (!pattern) {
+        return true;
+    }
+
+    try {
+        const serialized = typeof content === 'string' ? content : JSON.stringify(content ?? {});
+        return new RegExp(pattern).test(serialized);
+    } catch (error) {
+        console.warn(`Ignoring policy rule with invalid argument pattern ${pattern}:`, error);
+        return false;
+    }
+}
+
+/**
+ * Find the policy rule that applies to some traffic
+ *
+ * @param rules The ordered policy rules
+ * @param context The traffic being verified
+ * @returns The first enabled rule that matches, or null if none does
+ */
+export function findPolicyRule(rules: PolicyRule[] | undefined, context: PolicyContext): PolicyRule | null {
+    for (const rule of rules || []) {
+        if (rule.enabled &&
+            (rule.direction === 'both' || rule.direction === context.direction) &&
+            matchesGlob(context.appName, rule.appPattern) &&
+            matchesGlob(context.serverName, rule.serverPattern) &&
+            matchesGlob(context.toolName, rule.toolPattern) &&
+            matchesArguments(context.content, rule.argumentPattern)) {
+            return rule;
+        }
+    }
+
+    return null;
+}
@@ -0,0 +1,208 @@
+/**
+ * Redaction Utilities
+ *
+ * Instead of blocking returned content outright, a signature can ask for the sensitive
+ * parts of it (secrets, keys, personal data) to be masked. A part is named either by its
+ * exact text or by a regular expression. These helpers mask the parts in every string of
+ * the content and summarize what was masked without keeping the masked values.
+ */
+
+import type { Redaction, SignatureVerificationMap } from '../../services/scans/types.js';
+
+/**
+ * A part of the content a signature asks to mask
+ */
+export interface RedactionTarget {
+    text?: string;     // Exact text to mask
+    pattern?: string;  // Regular expression matching the text to mask
+    flags?: string;    // Flags for the pattern (g is always added)
+    label?: string;    // What the text is, shown in the placeholder (e.g. "AWS access key")
+}
+
+/**
+ * The parts one signature asks to mask
+ */
+export interface SignatureRedaction {
+    signatureId: string;
+    signatureName: string;
+    targets: RedactionTarget[];
+}
+
+// Exact texts shorter than this would mask unrelated parts of the content
+const MIN_REDACTION_TEXT_LENGTH = 4;
+
+/**
+ * Read the parts to mask from a signature result
+ * Accepts exact texts as plain strings, or objects with text or pattern and an optional label
+ *
+ * @param value The redact field returned by a signature
+ * @returns The valid targets, invalid entries are dropped
+ */
+export function parseRedactionTargets(value: unknown): RedactionTarget[] {
+    if (!Array.isArray(value)) {
+        return [];
+    }
+
+    const targets: RedactionTarget[] = [];
+    for (const entry of value) {
+        const target = typeof entry === 'string' ? { text: entry } : entry;
+        if (!target || typeof target !== 'object') {
+            continue;
+        }
+
+        const label = typeof target.label === 'string' && target.label ? target.label : undefined;
+        if (typeof target.text === 'string' && target.text.length >= MIN_REDACTION_TEXT_LENGTH) {
+            targets.push({ text: target.text, label });
+        } else if (typeof target.pattern === 'string' && target.pattern) {
+            targets.push({
+                pattern: target.pattern,
+                flags: typeof target.flags === 'string' ? target.flags : undefined,
+                label
+            });
+        }
+    }
+
+    return targets;
+}
+
+/**
+ * Get the text that replaces a masked part
+ */
+export function getRedactionPlaceholder(label?: string): string {
+    return label ? `[REDACTED: ${label}]` : '[REDACTED]';
+}
+
+/**
+ * Build a global regular expression for a target
+ * @returns The expression, or null if the pattern is invalid
+ */
+function createTargetRegex(target: RedactionTarget): RegExp | null {
+    try {
+        const source = target.text !== undefined ?
+            target.text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&') :
+            target.pattern;
+        const flags = target.flags || '';
+
+        return new RegExp(source, flags.includes('g') ? flags : `${flags}g`);
+    } catch (error) {
+        console.warn(`Ignoring invalid redaction pattern ${target.pattern}:`, error);
+        return null;
+    }
+}
+
+/**
+ * Apply a function to every string in a JSON value, leaving object keys untouched
+ */
+function mapStrings(value: any, transform: (text: string) => string): any {
+    if (typeof value === 'string') {
+        return transform(value);
+    }
+    if (Array.isArray(value)) {
+        return value.map(item => mapStrings(item, transform));
+    }
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(
+            Object.entries(value).map(([key, item]) => [key, mapStrings(item, transform)])
+        );
+    }
+    return value;
+}
+
+/**
+ * Mask the parts the signatures asked for
+ *
+ * A signature's concern is only resolved when each of its targets masked something. A
+ * target that matches nothing, such as a value the model quoted in another form than the
+ * content holds it, leaves the sensitive part in place.
+ *
+ * @param content The content returned by the server (left unchanged)
+ * @param signatureRedactions The parts to mask, by signature
+ * @returns A masked copy of the content, a summary of what was masked and the signatures
+ *          with a target that masked nothing
+ */
+export function redactContent(
+    content: any,
+    signatureRedactions: SignatureRedaction[]
+): { content: any; redactions: Redaction[]; unmaskedSignatureIds: string[] } {
+    const redactions: Redaction[] = [];
+    const unmaskedSignatureIds: string[] = [];
+    let redacted = content;
+
+    for (const { signatureId, signatureName, targets } of signatureRedactions) {
+        let masked = true;
+
+        for (const target of targets) {
+            const regex = createTargetRegex(target);
+            if (!regex) {
+                masked = false;
+                continue;
+            }
+
+            const placeholder = getRedactionPlaceholder(target.label);
+            let count = 0;
+
+            redacted = mapStrings(redacted, text => text.replace(regex, match => {
+                if (!match) {
+                    return match;
+                }
+                count++;
+                return placeholder;
+            }));
+
+            if (count > 0) {
+                redactions.push({
+                    signatureId,
+                    signatureName,
+                    label: target.label || 'Sensitive value',
+                    count
+                });
+            } else {
+                masked = false;
+            }
+        }
+
+        if (!masked && !unmaskedSignatureIds.includes(signatureId)) {
+            unmaskedSignatureIds.push(signatureId);
+        }
+    }
+
+    return { content: redacted, redactions, unmaskedSignatureIds };
+}
+
+/**
+ * Flag the content again for signatures whose redaction masked nothing
+ *
+ * @param verificationMap Results by signature and model (left unchanged)
+ * @param signatureIds Signatures with a target that masked nothing
+ * @returns A copy of the results where those signatures flag the content
+ */
+export function flagUnmaskedRedactions(
+    verificationMap: SignatureVerificationMap,
+    signatureIds: string[]
+): SignatureVerificationMap {
+    const flagged: SignatureVerificationMap = { ...verificationMap };
+
+    for (const signatureId of signatureIds) {
+        if (!flagged[signatureId]) {
+            continue;
+        }
+
+        flagged[signatureId] = Object.fromEntries(
+            Object.entries(flagged[signatureId]).map(([model, verification]) => {
+                if (!verification.redacted) {
+                    return [model, verification];
+                }
+
+                const unmasked = {
+                    ...verification,
+                    allowed: false,
+                    reason: `${verification.reason} (the parts to mask were not found in the content)`
+                };
+                delete unmasked.redacted;
+                return [model, unmasked];
+            })
+        );
+    }
+
+    return flagged;
+}
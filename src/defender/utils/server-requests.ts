@@ -0,0 +1,47 @@
+/**
+ * Server Request Utilities
+ *
+ * MCP servers can send requests back to the client: sampling/createMessage runs a prompt
+ * through the client's model, elicitation/create asks the user for data and roots/list
+ * asks for the client's filesystem roots. These utilities are shared by the transports
+ * that intercept such requests before they reach the client.
+ */
+
+import type { ServerRequestVerificationType } from '../verification-utils.js';
+
+// Server-initiated request methods mapped to their verification type
+export const SERVER_REQUEST_TYPES = new Map<string, ServerRequestVerificationType>([
+    ['sampling/createMessage', 'sampling'],
+    ['elicitation/create', 'elicitation'],
+    ['roots/list', 'roots_list']
+]);
+
+/**
+ * Check whether a message is a server-initiated request that must be verified
+ *
+ * @param message JSON-RPC message sent by the server
+ * @returns True if the message is a sampling, elicitation or roots request
+ */
+export function isServerRequest(message: any): boolean {
+    return !!message &&
+        SERVER_REQUEST_TYPES.has(message.method) &&
+        message.id !== undefined &&
+        message.id !== null;
+}
+
+/**
+ * Create the JSON-RPC error sent back to the server when one of its requests is blocked
+ *
+ * @param message The blocked server request
+ * @returns JSON-RPC error response for the request
+ */
+export function createServerRequestRejection(message: any): any {
+    return {
+        jsonrpc: '2.0',
+        id: message.id,
+        error: {
+            code: -32000,
+            message: `${message.method} request not allowed: Security policy violation`,
+        }
+    };
+}
@@ -0,0 +1,109 @@
+/**
+ * Signature Actions
+ *
+ * Each signature says how serious its matches are and what happens when it flags content:
+ * block outright, ask the user, warn or only log. When several signatures flag the same
+ * content the strictest action decides, so a noisy heuristic set to warn can't weaken a
+ * signature that blocks.
+ */
+
+import type { SignatureVerificationMap } from '../../services/scans/types.js';
+import type { Signature, SignatureAction, SignatureSeverity } from '../../services/signatures/types.js';
+
+/**
+ * Severity and action of a signature that flagged the content
+ */
+export interface FlaggedSignature {
+    severity: SignatureSeverity;
+    action: SignatureAction;
+    error?: boolean; // Whether the signature produced no verdict rather than matching
+}
+
+/**
+ * The decision for content given the signatures that flagged it
+ */
+export interface SignatureDecision {
+    allowed: boolean;             // False when a blocking or prompting signature flagged the content
+    action?: SignatureAction;     // Strictest action, when any signature flagged the content
+    severity?: SignatureSeverity; // Highest severity, when any signature flagged the content
+}
+
+// Actions and severities from the least to the most strict
+const ACTION_ORDER: SignatureAction[] = ['log', 'warn', 'prompt', 'block'];
+const SEVERITY_ORDER: SignatureSeverity[] = ['low', 'medium', 'high', 'critical'];
+
+// Values for signatures that don't set them - flagged content is blocked unless the user allows it
+const DEFAULT_SEVERITY: SignatureSeverity = 'medium';
+const DEFAULT_ACTION: SignatureAction = 'prompt';
+
+// Least strict action for a signature that produced no verdict and doesn't fail open
+const ERROR_ACTION: SignatureAction = 'prompt';
+
+/**
+ * Get how serious a signature's matches are
+ * @param signature The signature, if it's still loaded
+ * @returns Its severity, or medium when it's missing or invalid
+ */
+export function getSignatureSeverity(signature?: Pick<Signature, 'severity'>): SignatureSeverity {
+    return signature?.severity && SEVERITY_ORDER.includes(signature.severity) ? signature.severity : DEFAULT_SEVERITY;
+}
+
+/**
+ * Get what happens when a signature flags content
+ * @param signature The signature, if it's still loaded
+ * @returns Its action, or prompt when it's missing or invalid
+ */
+export function getSignatureAction(signature?: Pick<Signature, 'action'>): SignatureAction {
+    return signature?.action && ACTION_ORDER.includes(signature.action) ? signature.action : DEFAULT_ACTION;
+}
+
+/**
+ * Get the action that applies to a signature that flagged content
+ * A signature that produced no verdict didn't match anything its action was chosen for, and
+ * only fails open when it says so, so its error is at least held for the user.
+ */
+function getEffectiveAction(signature: FlaggedSignature): SignatureAction {
+    if (signature.error && ACTION_ORDER.indexOf(signature.action) < ACTION_ORDER.indexOf(ERROR_ACTION)) {
+        return ERROR_ACTION;
+    }
+    return signature.action;
+}
+
+/**
+ * Decide on content from the signatures that flagged it
+ *
+ * @param flagged The signatures that flagged the content
+ * @returns The strictest action and highest severity, and whether the content is allowed
+ */
+export function aggregateSignatureDecision(flagged: FlaggedSignature[]): SignatureDecision {
+    if (flagged.length === 0) {
+        return { allowed: true };
+    }
+
+    const action = ACTION_ORDER[Math.max(...flagged.map(signature => ACTION_ORDER.indexOf(getEffectiveAction(signature))))];
+    const severity = SEVERITY_ORDER[Math.max(...flagged.map(signature => SEVERITY_ORDER.indexOf(signature.severity)))];
+
+    return {
+        allowed: action === 'warn' || action === 'log',
+        action,
+        severity
+    };
+}
+
+/**
+ * Get the signatures that flagged content from its verification results
+ * Signatures the content passed, or whose concern was resolved by masking, didn't flag it.
+ *
+ * @param verificationMap Results by signature and model
+ * @returns Severity and action of each result that flagged the content
+ */
+export function getFlaggedSignatures(verificationMap: SignatureVerificationMap): FlaggedSignature[] {
+    return Object.values(verificationMap)
+        .flatMap(models => Object.values(models))
+        .filter(verification => !verification.allowed)
+        .map(verification => ({
+            severity: getSignatureSeverity(verification),
+            action: getSignatureAction(verification),
+            ...(verification.error && { error: true })
+        }));
+}
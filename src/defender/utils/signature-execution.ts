@@ -0,0 +1,132 @@
+/**
+ * Signature Execution
+ *
+ * Runs deterministic signature functions in the sandbox and evaluates pattern signatures,
+ * turning what they return into a standard result. Both the defender and the signature
+ * tests of the CLI run signatures through here.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import type { PatternMatch } from '../../services/scans/types.js';
+import type { DeterministicSignature, PatternSignature } from '../../services/signatures/types.js';
+import { DEFAULT_SANDBOX_LIMITS, runInSandbox } from './signature-sandbox';
+import { parseRedactionTargets, RedactionTarget } from './redaction';
+import { evaluatePatternRule } from './pattern-rules';
+
+/**
+ * Result of running a deterministic signature function or evaluating a pattern signature
+ */
+export interface DeterministicSignatureResult {
+    allowed: boolean;
+    reason: string;
+    redact?: RedactionTarget[]; // Parts of the content the signature asks to mask
+    error?: boolean;            // Whether the function produced no result (timed out, crashed or missing)
+    matches?: PatternMatch[];   // Where a pattern signature's rule matched
+}
+
+// Most match positions named in the reason of a pattern signature
+const MAX_REASON_MATCHES = 3;
+
+/**
+ * Get the result of a deterministic signature that couldn't produce one
+ * Signatures fail closed unless they are marked to fail open
+ */
+export function createDeterministicErrorResult(signature: DeterministicSignature, error: string): DeterministicSignatureResult {
+    console.error(`Deterministic signature ${signature.name} failed: ${error}`);
+    return {
+        allowed: Boolean(signature.failOpen),
+        reason: `Signature error: ${error}${signature.failOpen ? ' (allowed, the signature fails open)' : ''}`,
+        error: true
+    };
+}
+
+/**
+ * Load a deterministic signature function from file and execute it in the sandbox
+ * @param signature The deterministic signature containing the function file reference
+ * @param toolName The name of the tool being called
+ * @param toolInput The input/arguments for the tool
+ * @param signaturesDirectory The signatures directory
+ * @param userIntent Optional user intent context
+ * @param toolDescription Optional tool description
+ * @returns Object with allowed status, reason and the parts to mask
+ */
+export async function executeDeterministicSignature(
+    signature: DeterministicSignature,
+    toolName: string,
+    toolInput: any,
+    signaturesDirectory: string,
+    userIntent?: string,
+    toolDescription?: string | null
+): Promise<DeterministicSignatureResult> {
+    // Construct the function file path in the signatures directory
+    const functionFilePath = path.join(signaturesDirectory, 'deterministic', signature.functionFile);
+
+    let source: string;
+    try {
+        source = fs.readFileSync(functionFilePath, 'utf8');
+    } catch {
+        return createDeterministicErrorResult(signature, `Function file not found: ${signature.functionFile} at ${functionFilePath}`);
+    }
+
+    // The function only gets the input and the SignatureContext, it can't reach the defender
+    const outcome = await runInSandbox({
+        source,
+        filename: signature.functionFile,
+        readRoot: signaturesDirectory,
+        toolInput,
+        context: { toolName, userIntent, toolDescription }
+    }, {
+        ...DEFAULT_SANDBOX_LIMITS,
+        timeoutMs: signature.timeoutMs && signature.timeoutMs > 0 ? signature.timeoutMs : DEFAULT_SANDBOX_LIMITS.timeoutMs
+    });
+
+    if (outcome.ok === false) {
+        return createDeterministicErrorResult(signature, outcome.error);
+    }
+
+    // Return standardized result
+    const result = outcome.result;
+    if (typeof result === 'boolean') {
+        return { allowed: result, reason: result ? 'Deterministic check passed' : 'Deterministic check failed' };
+    } else if (typeof result === 'object' && result !== null && 'allowed' in result) {
+        return {
+            allowed: Boolean(result.allowed),
+            reason: result.reason || (result.allowed ? 'Deterministic check passed' : 'Deterministic check failed'),
+            redact: parseRedactionTargets(result.redact)
+        };
+    } else {
+        return createDeterministicErrorResult(signature, 'Invalid signature function return type');
+    }
+}
+
+/**
+ * Evaluate a pattern signature's rule against the content
+ * Content matching the rule is blocked, and a rule that can't be evaluated blocks too
+ * @param signature The pattern signature
+ * @param content The tool input or response
+ * @returns Object with allowed status, reason and where the rule matched
+ */
+export function executePatternSignature(signature: PatternSignature, content: any): DeterministicSignatureResult {
+    try {
+        const { matched, matches } = evaluatePatternRule(signature.rule, content);
+        if (!matched) {
+            return { allowed: true, reason: 'Pattern not found' };
+        }
+
+        const locations = matches.slice(0, MAX_REASON_MATCHES).map(match => `${match.path} [${match.start}-${match.end}]`);
+        if (matches.length > MAX_REASON_MATCHES) {
+            locations.push(`${matches.length - MAX_REASON_MATCHES} more`);
+        }
+
+        return {
+            allowed: false,
+            reason: locations.length > 0 ? `Pattern found at ${locations.join(', ')}` : 'Pattern matched',
+            matches
+        };
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`Pattern signature ${signature.name} failed: ${message}`);
+        return { allowed: false, reason: `Signature error: ${message}`, error: true };
+    }
+}
@@ -0,0 +1,379 @@
+/**
+ * Signature Fixtures
+ *
+ * A signature can have a fixture file with sample traffic and the verdict expected for each
+ * sample, at fixtures/<signature id>.json in the signatures directory. Deterministic and
+ * pattern signatures are run on the samples as the defender runs them. LLM signatures are
+ * sent to a model with the prompt the defender uses, or answered with a reply recorded in
+ * the fixture, so they can be tested without a model.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { OpenAI } from 'openai';
+import type { ScanType } from '../../services/scans/types.js';
+import { isDeterministicSignature, isLLMSignature, isPatternSignature, LLMSignature, Signature } from '../../services/signatures/types';
+import { DeterministicSignatureResult, executeDeterministicSignature, executePatternSignature } from './signature-execution';
+import { formatContent, formatVerificationInput, generateVerificationInstructions, REDACTABLE_VERIFICATION_TYPES } from './verification-prompt';
+import { getVerdictSchema, parseVerdicts, VERDICT_SCHEMA_NAME } from './verdicts';
+import { parseRedactionTargets } from './redaction';
+import { signatureAppliesTo } from './signature-scope';
+import { createAnthropicMessage } from './anthropic';
+
+/**
+ * What a signature does with a sample: let it through, flag it, or mask parts of it
+ */
+export type FixtureVerdict = 'allow' | 'block' | 'redact';
+
+/**
+ * A sample of traffic and the verdict the signature must give
+ */
+export interface SignatureFixtureCase {
+    name: string;
+    type?: ScanType;          // Kind of traffic, a tool call by default
+    toolName: string;         // Tool name (resource URI, prompt name or server method for other traffic)
+    serverName?: string;
+    appName?: string;
+    userIntent?: string;
+    toolDescription?: string;
+    input: any;               // Tool arguments, or the content for other traffic
+    expect: FixtureVerdict;
+    reason?: string;          // Text the reason of the signature must contain
+    recordedReply?: any;      // Model reply for an LLM signature, used when no provider is given
+}
+
+/**
+ * Contents of a fixture file
+ */
+export interface SignatureFixtureFile {
+    cases: SignatureFixtureCase[];
+}
+
+/**
+ * Asks a model for verdicts with the verification instructions, input and verdict schema
+ * @returns The model's reply
+ */
+export type VerdictProvider = (instructions: string, input: string, verdictSchema: Record<string, any>) => Promise<string>;
+
+/**
+ * Model to test LLM signatures with
+ */
+export interface VerdictProviderOptions {
+    provider: 'openai' | 'anthropic' | 'local';
+    model: string;
+    apiKey?: string;  // Not needed by most local model servers
+    baseUrl?: string; // Required for local model servers
+}
+
+/**
+ * Result of one fixture case
+ */
+export interface FixtureCaseResult {
+    signatureId: string;
+    signatureName: string;
+    caseName: string;
+    status: 'pass' | 'fail' | 'skip';
+    expected: FixtureVerdict;
+    actual?: FixtureVerdict; // Missing when the signature failed to give a verdict
+    reason: string;          // Reason of the signature, or why the case failed or was skipped
+}
+
+/**
+ * Results of every fixture of the tested signatures
+ */
+export interface FixtureReport {
+    results: FixtureCaseResult[];
+    untested: string[]; // Names of the signatures without fixtures
+    errors: string[];   // Fixture files that could not be read
+    passed: number;
+    failed: number;
+    skipped: number;
+}
+
+/**
+ * Options for running fixtures
+ */
+export interface FixtureRunOptions {
+    signaturesDirectory: string;
+    provider?: VerdictProvider; // Model for LLM signatures, recorded replies are used without one
+}
+
+// Directory of the fixture files in the signatures directory
+const FIXTURES_DIRECTORY = 'fixtures';
+
+// Verdicts a fixture case can expect
+const FIXTURE_VERDICTS: FixtureVerdict[] = ['allow', 'block', 'redact'];
+
+/**
+ * Get the path of the fixture file of a signature
+ */
+export function getFixturePath(signaturesDirectory: string, signatureId: string): string {
+    return path.join(signaturesDirectory, FIXTURES_DIRECTORY, `${signatureId}.json`);
+}
+
+/**
+ * Read and validate a fixture file
+ * @param filePath The fixture file
+ * @returns Its cases
+ * @throws Error if the file can't be read or a case is invalid
+ */
+export function loadSignatureFixtures(filePath: string): SignatureFixtureCase[] {
+    const fixtures = JSON.parse(fs.readFileSync(filePath, 'utf8')) as SignatureFixtureFile;
+    if (!fixtures || !Array.isArray(fixtures.cases)) {
+        throw new Error('Fixture file must have a cases array');
+    }
+
+    fixtures.cases.forEach((fixtureCase, index) => {
+        if (!fixtureCase || typeof fixtureCase.name !== 'string' || typeof fixtureCase.toolName !== 'string') {
+            throw new Error(`Case ${index + 1} must have a name and a toolName`);
+        }
+        if (!FIXTURE_VERDICTS.includes(fixtureCase.expect)) {
+            throw new Error(`Case "${fixtureCase.name}" must expect one of ${FIXTURE_VERDICTS.join(', ')}`);
+        }
+    });
+
+    return fixtures.cases;
+}
+
+/**
+ * Get the verdict of a signature from its result
+ */
+function getFixtureVerdict(result: DeterministicSignatureResult, redactable: boolean): FixtureVerdict {
+    if (redactable && result.redact && result.redact.length > 0) {
+        return 'redact';
+    }
+
+    return result.allowed ? 'allow' : 'block';
+}
+
+/**
+ * Get the result of a signature the model gave no verdict for
+ */
+function createLLMErrorResult(error: string): DeterministicSignatureResult {
+    return { allowed: false, reason: error, error: true };
+}
+
+/**
+ * Verify a sample with an LLM signature, the same way the defender asks the model
+ */
+async function executeLLMSignature(
+    signature: LLMSignature,
+    fixtureCase: SignatureFixtureCase,
+    type: ScanType,
+    provider: VerdictProvider | undefined
+): Promise<DeterministicSignatureResult | null> {
+    const redactable = REDACTABLE_VERIFICATION_TYPES.has(type);
+    const verdictSchema = getVerdictSchema([signature.id], redactable);
+
+    let reply: string;
+    if (provider) {
+        const instructions = generateVerificationInstructions(type, fixtureCase.userIntent);
+        const input = formatVerificationInput(
+            type,
+            fixtureCase.toolName,
+            formatContent(fixtureCase.input),
+            [signature],
+            fixtureCase.userIntent,
+            fixtureCase.toolDescription
+        );
+
+        try {
+            reply = await provider(instructions, input, verdictSchema);
+        } catch (error) {
+            return createLLMErrorResult(`Model request failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    } else if (fixtureCase.recordedReply !== undefined) {
+        reply = typeof fixtureCase.recordedReply === 'string' ? fixtureCase.recordedReply : JSON.stringify(fixtureCase.recordedReply);
+    } else {
+        return null;
+    }
+
+    const parsed = parseVerdicts(reply, [signature.id], redactable);
+    const verdict = parsed.verdicts.get(signature.id);
+    if (!verdict) {
+        return createLLMErrorResult(`No valid verdict from the model: ${parsed.errors.join('; ')}`);
+    }
+
+    return {
+        allowed: verdict.allowed,
+        reason: verdict.reason,
+        redact: parseRedactionTargets(verdict.redact)
+    };
+}
+
+/**
+ * Run one fixture case against its signature
+ *
+ * @param signature The signature
+ * @param fixtureCase The sample and the expected verdict
+ * @param options The signatures directory and the model for LLM signatures
+ * @returns Whether the signature gave the expected verdict
+ */
+export async function runFixtureCase(
+    signature: Signature,
+    fixtureCase: SignatureFixtureCase,
+    options: FixtureRunOptions
+): Promise<FixtureCaseResult> {
+    const type = fixtureCase.type || 'tool_call';
+    const base = {
+        signatureId: signature.id,
+        signatureName: signature.name,
+        caseName: fixtureCase.name,
+        expected: fixtureCase.expect
+    };
+
+    let result: DeterministicSignatureResult | null;
+    if (!signatureAppliesTo(signature, {
+        appName: fixtureCase.appName || 'unknown',
+        serverName: fixtureCase.serverName || 'unknown',
+        toolName: fixtureCase.toolName,
+        direction: type === 'tool_call' ? 'request' : 'response'
+    })) {
+        // The defender doesn't run signatures on traffic outside their scope
+        result = { allowed: true, reason: 'Signature does not apply to this traffic' };
+    } else if (isDeterministicSignature(signature)) {
+        result = await executeDeterministicSignature(
+            signature,
+            fixtureCase.toolName,
+            fixtureCase.input,
+            options.signaturesDirectory,
+            fixtureCase.userIntent,
+            fixtureCase.toolDescription
+        );
+    } else if (isPatternSignature(signature)) {
+        result = executePatternSignature(signature, fixtureCase.input);
+    } else if (isLLMSignature(signature)) {
+        result = await executeLLMSignature(signature, fixtureCase, type, options.provider);
+    } else {
+        result = { allowed: false, reason: 'Unknown signature type', error: true };
+    }
+
+    if (!result) {
+        return { ...base, status: 'skip', reason: 'No model provider or recorded reply' };
+    }
+
+    // A signature that failed to run blocks the traffic, but that's not the verdict under test
+    if (result.error) {
+        return { ...base, status: 'fail', reason: result.reason };
+    }
+
+    const actual = getFixtureVerdict(result, REDACTABLE_VERIFICATION_TYPES.has(type));
+    if (actual !== fixtureCase.expect) {
+        return { ...base, status: 'fail', actual, reason: `Expected ${fixtureCase.expect}, got ${actual}: ${result.reason}` };
+    }
+
+    if (fixtureCase.reason && !result.reason.includes(fixtureCase.reason)) {
+        return { ...base, status: 'fail', actual, reason: `Reason does not contain "${fixtureCase.reason}": ${result.reason}` };
+    }
+
+    return { ...base, status: 'pass', actual, reason: result.reason };
+}
+
+/**
+ * Run the fixtures of signatures
+ *
+ * @param signatures The signatures to test
+ * @param options The signatures directory and the model for LLM signatures
+ * @returns The result of every case, and the signatures without fixtures
+ */
+export async function runSignatureFixtures(signatures: Signature[], options: FixtureRunOptions): Promise<FixtureReport> {
+    const report: FixtureReport = { results: [], untested: [], errors: [], passed: 0, failed: 0, skipped: 0 };
+
+    for (const signature of signatures) {
+        const fixturePath = getFixturePath(options.signaturesDirectory, signature.id);
+        if (!fs.existsSync(fixturePath)) {
+            report.untested.push(signature.name);
+            continue;
+        }
+
+        let cases: SignatureFixtureCase[];
+        try {
+            cases = loadSignatureFixtures(fixturePath);
+        } catch (error) {
+            report.errors.push(`${fixturePath}: ${error instanceof Error ? error.message : String(error)}`);
+            continue;
+        }
+
+        // Cases run one at a time so a model provider isn't flooded
+        for (const fixtureCase of cases) {
+            report.results.push(await runFixtureCase(signature, fixtureCase, options));
+        }
+    }
+
+    report.passed = report.results.filter(result => result.status === 'pass').length;
+    report.failed = report.results.filter(result => result.status === 'fail').length;
+    report.skipped = report.results.filter(result => result.status === 'skip').length;
+
+    return report;
+}
+
+/**
+ * Format a fixture report for the terminal
+ */
+export function formatFixtureReport(report: FixtureReport): string {
+    const lines = report.results.map(result => {
+        const label = { pass: 'PASS', fail: 'FAIL', skip: 'SKIP' }[result.status];
+        const detail = result.status === 'pass' ? '' : ` - ${result.reason}`;
+        return `${label} ${result.signatureName}: ${result.caseName}${detail}`;
+    });
+
+    report.errors.forEach(error => lines.push(`ERROR ${error}`));
+
+    if (report.untested.length > 0) {
+        lines.push('', `No fixtures for: ${report.untested.join(', ')}`);
+    }
+
+    lines.push('', `${report.passed} passed, ${report.failed} failed, ${report.skipped} skipped`);
+
+    return lines.join('\n');
+}
+
+/**
+ * Create a provider that asks a model for verdicts
+ * OpenAI and local model servers get the schema as a structured output, Anthropic models as a tool
+ *
+ * @param options The provider, model and credentials
+ * @returns The provider
+ */
+export function createVerdictProvider(options: VerdictProviderOptions): VerdictProvider {
+    if (options.provider === 'anthropic') {
+        return (instructions, input, verdictSchema) => createAnthropicMessage({
+            apiKey: options.apiKey || '',
+            model: options.model,
+            system: instructions,
+            input,
+            baseUrl: options.baseUrl,
+            tool: {
+                name: VERDICT_SCHEMA_NAME,
+                description: 'Report the verdict for each verification signature',
+                inputSchema: verdictSchema
+            }
+        });
+    }
+
+    // Local model servers take the same requests as OpenAI
+    const client = new OpenAI({
+        apiKey: options.apiKey || 'local',
+        ...(options.baseUrl && { baseURL: options.baseUrl })
+    });
+
+    return async (instructions, input, verdictSchema) => {
+        const response = await client.chat.completions.create({
+            model: options.model,
+            messages: [
+                { role: 'system', content: instructions },
+                { role: 'user', content: input }
+            ],
+            response_format: {
+                type: 'json_schema',
+                json_schema: {
+                    name: VERDICT_SCHEMA_NAME,
+                    strict: true,
+                    schema: verdictSchema
+                }
+            }
+        });
+
+        return response.choices[0]?.message.content || '';
+    };
+}
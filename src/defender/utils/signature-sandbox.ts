@@ -0,0 +1,442 @@
+/**
+ * Deterministic Signature Sandbox
+ *
+ * Deterministic signatures are JavaScript files the user can add or edit, so they are not
+ * trusted with the defender's privileges. They run in a worker thread with a memory limit,
+ * each in a fresh vm context that only holds the SignatureContext documented in
+ * signatures/deterministic/PROTOCOL.md: no require, process, timers or code generation
+ * from strings. Input and results cross into and out of the context as JSON, so no object
+ * of the worker is reachable from signature code.
+ *
+ * Signatures may be async. The few things they can do outside the context (resolving
+ * symlinks, reading files next to the signatures, calling services on this machine) are
+ * async helpers that ask the worker through a bridge taking and returning strings only.
+ * Each run has a time limit covering both its CPU time and the time until its result
+ * resolves, and a worker that stops responding or runs out of memory is replaced. Runs
+ * wait their turn while another signature has the worker, their time only counts once
+ * the worker starts them.
+ */
+
+import { Worker } from 'node:worker_threads';
+
+/**
+ * Limits for running a signature
+ */
+export interface SandboxLimits {
+    timeoutMs: number;   // Time until the signature's result resolves
+    maxMemoryMb: number; // Heap size of the worker running the signatures
+}
+
+export const DEFAULT_SANDBOX_LIMITS: SandboxLimits = {
+    timeoutMs: 1000,
+    maxMemoryMb: 64
+};
+
+// Time the worker has to report a timeout itself before it is considered unresponsive (ms)
+const UNRESPONSIVE_GRACE_PERIOD = 1000;
+
+/**
+ * A signature to run and its input
+ */
+export interface SandboxRun {
+    source: string;     // Source of the signature file
+    filename: string;   // Name of the signature file, used in stack traces
+    readRoot: string;   // Directory whose files the signature may read
+    toolInput: any;
+    context: {
+        toolName: string;
+        userIntent?: string;
+        toolDescription?: string | null;
+    };
+}
+
+/**
+ * Result of a sandboxed run: the value the signature returned, or why it produced none
+ */
+export type SandboxOutcome =
+    | { ok: true; result: any }
+    | { ok: false; error: string };
+
+/**
+ * A run as posted to the worker
+ */
+interface WorkerRun {
+    id: number;
+    source: string;
+    filename: string;
+    readRoot: string;
+    inputJson: string;
+    contextJson: string;
+    timeoutMs: number;
+}
+
+/**
+ * What the worker reports about a run: that it started, or its outcome
+ */
+type WorkerMessage =
+    | { id: number; started: true }
+    | { id: number; ok: boolean; resultJson?: string; error?: string };
+
+/**
+ * Code of the worker thread
+ *
+ * The function is serialized and evaluated in the worker, so it may only use what it
+ * requires itself.
+ */
+function sandboxWorker() {
+    // Imports aren't available to evaluated code
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const { parentPort } = require('node:worker_threads');
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const vm = require('node:vm');
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const fs = require('node:fs');
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const path = require('node:path');
+
+    // Largest file or response body a signature can read
+    const MAX_READ_BYTES = 1024 * 1024;
+
+    // Hosts a signature can send requests to
+    const LOCAL_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+    // SignatureContext helpers, evaluated inside each context so they belong to it
+    // The bridge to the worker and the completion callback are only reachable from the
+    // helpers, and only ever receive and return strings and numbers
+    const HELPERS = `
+        var __helpers = (function (bridge, complete) {
+            var pending = {};
+
+            globalThis.__settle = function (requestId, ok, valueJson) {
+                var request = pending[requestId];
+                if (!request) return;
+                delete pending[requestId];
+                if (ok) request.resolve(JSON.parse(valueJson));
+                else request.reject(new Error(valueJson));
+            };
+
+            globalThis.__complete = function (ok, value) {
+                complete(ok, value);
+            };
+
+            function call(operation, args) {
+                return new Promise(function (resolve, reject) {
+                    var requestId = bridge(operation, JSON.stringify(args));
+                    if (requestId < 0) {
+                        reject(new Error(operation + ' is not available'));
+                        return;
+                    }
+                    pending[requestId] = { resolve: resolve, reject: reject };
+                });
+            }
+
+            return {
+                isString: function (value) { return typeof value === 'string'; },
+                isObject: function (value) { return typeof value === 'object' && value !== null; },
+                isArray: Array.isArray,
+                hasProperty: function (obj, prop) { return !!obj && typeof obj === 'object' && prop in obj; },
+                matchesRegex: function (str, pattern, flags) {
+                    try {
+                        return new RegExp(pattern, flags).test(str);
+                    } catch (error) {
+                        return false;
+                    }
+                },
+                containsKeywords: function (text, keywords) {
+                    var lowerText = String(text).toLowerCase();
+                    return keywords.some(function (keyword) { return lowerText.includes(String(keyword).toLowerCase()); });
+                },
+                realpath: function (filePath) { return call('realpath', [String(filePath)]); },
+                readFile: function (filePath) { return call('readFile', [String(filePath)]); },
+                fetch: function (url, options) { return call('fetch', [String(url), options || {}]); }
+            };
+        })(__bridge, __completeRun);
+        delete globalThis.__bridge;
+        delete globalThis.__completeRun;
+    `;
+
+    // Run the signature and complete the run with its result as JSON
+    const RUN = `
+        (function () {
+            var signatureFunction = module.exports;
+            if (typeof signatureFunction !== 'function') {
+                throw new Error('Invalid function export in ' + __filename + ' - must export a function');
+            }
+            var context = JSON.parse(__contextJson);
+            Object.keys(__helpers).forEach(function (name) { context[name] = __helpers[name]; });
+            Promise.resolve(signatureFunction(JSON.parse(__inputJson), context)).then(function (result) {
+                try {
+                    __complete(true, JSON.stringify(result === undefined ? null : result));
+                } catch (error) {
+                    __complete(false, 'returned a result that is not serializable');
+                }
+            }, function (error) {
+                __complete(false, String(error && error.message || error));
+            });
+        })()
+    `;
+
+    // Describe an error thrown in the context or by the worker
+    function describeError(error: any, timeoutMs: number): string {
+        if (error?.code === 'ERR_SCRIPT_EXECUTION_TIMEOUT') {
+            return `timed out after ${timeoutMs}ms`;
+        }
+        return error && typeof error === 'object' && 'message' in error ? String(error.message) : String(error);
+    }
+
+    // Operations the helpers ask the worker for, each resolving to a JSON-serializable value
+    const operations: Record<string, (readRoot: string, args: any[], signal: AbortSignal) => Promise<any>> = {
+        realpath: (readRoot, [filePath]) => fs.promises.realpath(filePath),
+
+        readFile: async (readRoot, [filePath]) => {
+            const resolvedPath = await fs.promises.realpath(path.resolve(readRoot, filePath));
+            const resolvedRoot = await fs.promises.realpath(readRoot);
+            if (resolvedPath !== resolvedRoot && !resolvedPath.startsWith(resolvedRoot + path.sep)) {
+                throw new Error(`${filePath} is outside the signatures directory`);
+            }
+            const stats = await fs.promises.stat(resolvedPath);
+            if (stats.size > MAX_READ_BYTES) {
+                throw new Error(`${filePath} is larger than ${MAX_READ_BYTES} bytes`);
+            }
+            return fs.promises.readFile(resolvedPath, 'utf8');
+        },
+
+        fetch: async (readRoot, [url, options], signal) => {
+            const target = new URL(url);
+            if (!['http:', 'https:'].includes(target.protocol) || !LOCAL_HOSTS.includes(target.hostname)) {
+                throw new Error(`${url} is not a service on this machine`);
+            }
+            const response = await fetch(target, {
+                method: typeof options.method === 'string' ? options.method : 'GET',
+                headers: options.headers && typeof options.headers === 'object' ? options.headers : undefined,
+                body: typeof options.body === 'string' ? options.body : undefined,
+                redirect: 'error',
+                signal
+            });
+            const body = await response.text();
+            return {
+                status: response.status,
+                ok: response.ok,
+                body: body.length > MAX_READ_BYTES ? body.slice(0, MAX_READ_BYTES) : body
+            };
+        }
+    };
+
+    parentPort.on('message', (message: any) => {
+        const { id, source, filename, readRoot, inputJson, contextJson, timeoutMs } = message;
+
+        // The time limit starts now, not when the run was queued behind other signatures
+        parentPort.postMessage({ id, started: true });
+
+        const abort = new AbortController();
+        let finished = false;
+        let nextRequestId = 1;
+
+        // Report the outcome of the run once, later results of the signature are ignored
+        const finish = (ok: boolean, value: string) => {
+            if (finished) {
+                return;
+            }
+            finished = true;
+            clearTimeout(timer);
+            abort.abort();
+            parentPort.postMessage(ok ? { id, ok, resultJson: value } : { id, ok, error: value });
+        };
+
+        // Async signatures have the same time limit until their result resolves
+        const timer = setTimeout(() => finish(false, `timed out after ${timeoutMs}ms`), timeoutMs);
+
+        const sandbox = vm.createContext(Object.create(null), {
+            name: filename,
+            codeGeneration: { strings: false, wasm: false },
+            microtaskMode: 'afterEvaluate'
+        });
+
+        // Evaluate code in the context, its promise callbacks run within the same time limit
+        const evaluate = (code: string) => vm.runInContext(code, sandbox, { filename, timeout: timeoutMs });
+
+        sandbox.__filename = filename;
+        sandbox.__inputJson = inputJson;
+        sandbox.__contextJson = contextJson;
+        sandbox.__completeRun = (ok: unknown, value: unknown) => {
+            finish(ok === true, String(value));
+        };
+        sandbox.__bridge = (operation: unknown, argsJson: unknown) => {
+            if (finished || typeof operation !== 'string' || typeof argsJson !== 'string' ||
+                !Object.prototype.hasOwnProperty.call(operations, operation)) {
+                return -1;
+            }
+
+            const requestId = nextRequestId++;
+            Promise.resolve()
+                .then(() => operations[operation](readRoot, JSON.parse(argsJson), abort.signal))
+                .then(
+                    value => ({ ok: true, valueJson: JSON.stringify(value) }),
+                    error => ({ ok: false, valueJson: describeError(error, timeoutMs) })
+                )
+                .then(({ ok, valueJson }) => {
+                    if (finished) {
+                        return;
+                    }
+                    try {
+                        evaluate(`__settle(${requestId}, ${ok}, ${JSON.stringify(valueJson)})`);
+                    } catch (error) {
+                        finish(false, describeError(error, timeoutMs));
+                    }
+                });
+            return requestId;
+        };
+
+        try {
+            evaluate(HELPERS);
+            evaluate('var module = { exports: {} }; var exports = module.exports;');
+            evaluate(source);
+            evaluate(RUN);
+        } catch (error) {
+            finish(false, describeError(error, timeoutMs));
+        }
+    });
+}
+
+// Worker running the signatures, started on first use
+let worker: Worker | null = null;
+
+// Runs posted to the worker and waiting for their outcome, by run ID
+// Runs only get an unresponsiveness timer once the worker reports starting them.
+const pendingRuns = new Map<number, {
+    run: WorkerRun;
+    resolve: (outcome: SandboxOutcome) => void;
+    timer: NodeJS.Timeout | null;
+}>();
+
+let nextRunId = 1;
+
+/**
+ * Discard the worker, failing the runs it started
+ * Runs it hadn't started yet are posted to a new worker, unless it never started any.
+ */
+function discardWorker(error: string, limits: SandboxLimits) {
+    const discarded = worker;
+    worker = null;
+    discarded?.removeAllListeners();
+    discarded?.terminate().catch(() => undefined);
+
+    const started = [...pendingRuns.values()].filter(pending => pending.timer);
+    const failed = started.length > 0 ? started : [...pendingRuns.values()];
+    failed.forEach(pending => {
+        clearTimeout(pending.timer);
+        pendingRuns.delete(pending.run.id);
+        pending.resolve({ ok: false, error });
+    });
+
+    if (pendingRuns.size > 0) {
+        const restarted = getWorker(limits);
+        restarted.ref();
+        pendingRuns.forEach(pending => restarted.postMessage(pending.run));
+    }
+}
+
+/**
+ * Get the worker, starting it if needed
+ */
+function getWorker(limits: SandboxLimits): Worker {
+    if (worker) {
+        return worker;
+    }
+
+    const started = new Worker(`(${sandboxWorker.toString()})()`, {
+        eval: true,
+        env: {},
+        resourceLimits: {
+            maxOldGenerationSizeMb: limits.maxMemoryMb,
+            maxYoungGenerationSizeMb: Math.max(1, Math.floor(limits.maxMemoryMb / 8))
+        }
+    });
+
+    started.on('message', (message: WorkerMessage) => {
+        const pending = pendingRuns.get(message.id);
+        if (!pending) {
+            return;
+        }
+
+        // The worker enforces the time limit, it only misses it when it is stuck
+        if ('started' in message) {
+            pending.timer = setTimeout(() => {
+                console.error(`Signature sandbox did not respond to ${pending.run.filename}, restarting it`);
+                discardWorker(`timed out after ${pending.run.timeoutMs}ms`, limits);
+            }, pending.run.timeoutMs + UNRESPONSIVE_GRACE_PERIOD);
+            return;
+        }
+
+        pendingRuns.delete(message.id);
+        clearTimeout(pending.timer);
+        if (pendingRuns.size === 0) {
+            started.unref();
+        }
+
+        if (!message.ok) {
+            pending.resolve({ ok: false, error: message.error || 'unknown error' });
+            return;
+        }
+        try {
+            pending.resolve({ ok: true, result: JSON.parse(message.resultJson) });
+        } catch {
+            pending.resolve({ ok: false, error: 'returned a result that is not serializable' });
+        }
+    });
+
+    // Running out of memory ends the worker with an error
+    started.on('error', (error: Error & { code?: string }) => {
+        console.error('Signature sandbox worker failed:', error);
+        discardWorker(error.code === 'ERR_WORKER_OUT_OF_MEMORY' ?
+            `exceeded the memory limit of ${limits.maxMemoryMb}MB` :
+            `crashed: ${error.message}`, limits);
+    });
+    started.on('exit', code => {
+        if (worker === started) {
+            discardWorker(`sandbox exited with code ${code}`, limits);
+        }
+    });
+
+    // The worker only keeps the defender running while runs wait for their outcome
+    started.unref();
+
+    worker = started;
+    return started;
+}
+
+/**
+ * Run a deterministic signature in the sandbox
+ *
+ * @param run The signature source and its input
+ * @param limits Time and memory limits
+ * @returns The value the signature returned, or the error that prevented it
+ */
+export function runInSandbox(run: SandboxRun, limits: SandboxLimits = DEFAULT_SANDBOX_LIMITS): Promise<SandboxOutcome> {
+    return new Promise(resolve => {
+        let inputJson: string;
+        let contextJson: string;
+        try {
+            inputJson = JSON.stringify(run.toolInput ?? null);
+            contextJson = JSON.stringify(run.context);
+        } catch (error) {
+            resolve({ ok: false, error: `input is not serializable: ${error instanceof Error ? error.message : error}` });
+            return;
+        }
+
+        const sandboxWorkerThread = getWorker(limits);
+        const workerRun: WorkerRun = {
+            id: nextRunId++,
+            source: run.source,
+            filename: run.filename,
+            readRoot: run.readRoot,
+            inputJson,
+            contextJson,
+            timeoutMs: limits.timeoutMs
+        };
+
+        pendingRuns.set(workerRun.id, { run: workerRun, resolve, timer: null });
+        sandboxWorkerThread.ref();
+        sandboxWorkerThread.postMessage(workerRun);
+    });
+}
@@ -0,0 +1,53 @@
+/**
+ * Signature Scoping
+ *
+ * A signature can be limited to requests or responses, and to the tools, servers and
+ * applications it is meaningful for, for example a command injection check that only runs
+ * on shell tools or a prompt injection check that skips a trusted internal server.
+ */
+
+import type { Signature } from '../../services/signatures/types.js';
+import { matchesGlob } from './policy';
+
+/**
+ * The traffic a signature's scope is matched against
+ */
+export interface SignatureTraffic {
+    appName: string;
+    serverName: string;
+    toolName: string;
+    direction: 'request' | 'response';
+}
+
+/**
+ * Whether a name is allowed by include and exclude glob lists
+ * Without include patterns every name is included
+ */
+function matchesPatterns(name: string, include?: string[], exclude?: string[]): boolean {
+    if (include && include.length > 0 && !include.some(pattern => matchesGlob(name, pattern))) {
+        return false;
+    }
+
+    return !(exclude || []).some(pattern => matchesGlob(name, pattern));
+}
+
+/**
+ * Check whether a signature applies to some traffic
+ *
+ * @param signature The signature
+ * @param traffic The traffic being verified
+ * @returns True when the signature has no scope or its scope matches the traffic
+ */
+export function signatureAppliesTo(signature: Signature, traffic: SignatureTraffic): boolean {
+    const scope = signature.scope;
+    if (!scope) {
+        return true;
+    }
+
+    const direction = scope.direction || 'both';
+
+    return (direction === 'both' || direction === traffic.direction) &&
+        matchesPatterns(traffic.toolName, scope.includeTools, scope.excludeTools) &&
+        matchesPatterns(traffic.serverName, scope.includeServers, scope.excludeServers) &&
+        matchesPatterns(traffic.appName, scope.includeApps, scope.excludeApps);
+}
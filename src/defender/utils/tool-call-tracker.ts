@@ -6,10 +6,43 @@
  */
 
 import { DefenderState, PendingToolCall } from '../common/types.js';
+import type { ResponseVerificationType } from '../verification-utils.js';
 
 // Constants
 export const TOOL_CALL_MAX_AGE = 10 * 60 * 1000; // 10 minutes
 
+// Requests whose results are placed in the model context and verified like tool responses
+export const CONTENT_REQUEST_TYPES = new Map<string, ResponseVerificationType>([
+    ['resources/read', 'resource_read'],
+    ['prompts/get', 'prompt_get'],
+    ['completion/complete', 'completion']
+]);
+
+/**
+ * Get the verification type for the response to a tracked request
+ * 
+ * @param method JSON-RPC method of the tracked request
+ * @returns The verification type for the response
+ */
+export function getResponseVerificationType(method?: string): ResponseVerificationType {
+    return (method && CONTENT_REQUEST_TYPES.get(method)) || 'tool_response';
+}
+
+/**
+ * Get the name recorded for a content request in scan results
+ * Resources are identified by URI, prompts by name and completions by their reference
+ * 
+ * @param message The resources/read, prompts/get or completion/complete request
+ * @returns The resource URI, prompt name or completion reference
+ */
+export function getContentRequestName(message: any): string {
+    const params = message?.params || {};
+    if (message?.method === 'completion/complete') {
+        return params.ref?.name || params.ref?.uri || 'unknown';
+    }
+    return params.uri || params.name || 'unknown';
+}
+
 /**
  * Generate a unique tool call ID for tracking
  * Combines the app name, server name, and request ID to ensure uniqueness
@@ -32,6 +65,7 @@ export function getCallKey(requestId: string | number, serverName: string, appNa
  * @param serverName MCP server name
  * @param appName Application name
  * @param args Tool arguments
+ * @param method JSON-RPC method of the request
  * @returns The generated call key
  */
 export function trackToolCall(
@@ -40,7 +74,8 @@ export function trackToolCall(
     requestId: string | number,
     serverName: string,
     appName: string,
-    args: any
+    args: any,
+    method = 'tools/call'
 ): string {
     // Generate a unique key for this call
     const callKey = getCallKey(requestId, serverName, appName);
@@ -52,7 +87,8 @@ export function trackToolCall(
         serverName,
         appName,
         timestamp: Date.now(),
-        args
+        args,
+        method
     };
 
     // Store in the global pending calls map
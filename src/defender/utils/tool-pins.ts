@@ -0,0 +1,133 @@
+/**
+ * Tool Pinning Utilities
+ *
+ * A server can advertise harmless tool definitions at first and swap in malicious ones
+ * later (a "rug pull"). Every tool definition the user has accepted is pinned with a hash
+ * of its canonical form, and later tools/list results are compared against the pins.
+ * These helpers create pins and describe the differences in a form the user can review.
+ */
+
+import crypto from 'node:crypto';
+import type { ToolPin } from '../../services/configurations/types.js';
+
+/**
+ * Result of comparing a tools/list result with the pinned definitions
+ */
+export interface ToolPinDiff {
+    changedTools: string[];              // Tools that are new or whose definition changed
+    removedTools: string[];              // Pinned tools the server no longer lists
+    diff: string;                        // Readable description of the differences
+    pins: Record<string, ToolPin>;       // Pins for the tools as currently listed
+}
+
+/**
+ * Serialize a value as JSON with object keys sorted, so equal definitions hash equally
+ */
+export function canonicalJson(value: any): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(canonicalJson).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+        return `{${Object.keys(value).sort()
+            .filter(key => value[key] !== undefined)
+            .map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`)
+            .join(',')}}`;
+    }
+    return JSON.stringify(value ?? null);
+}
+
+/**
+ * Flatten a definition into leaf values keyed by their path, e.g. "inputSchema.properties.path.description"
+ */
+function flattenDefinition(value: any, path: string, leaves: Map<string, string>): Map<string, string> {
+    if (value && typeof value === 'object' && Object.keys(value).length > 0) {
+        for (const key of Object.keys(value).sort()) {
+            const childPath = Array.isArray(value) ? `${path}[${key}]` : (path ? `${path}.${key}` : key);
+            flattenDefinition(value[key], childPath, leaves);
+        }
+    } else if (path) {
+        leaves.set(path, typeof value === 'string' ? value : canonicalJson(value));
+    }
+    return leaves;
+}
+
+/**
+ * Create the pin for a tool from its name, description and input schema
+ *
+ * @param tool Tool as returned by tools/list
+ * @returns Pin holding the definition and its canonical hash
+ */
+export function createToolPin(tool: any): ToolPin {
+    const definition = {
+        name: tool.name,
+        description: tool.description ?? null,
+        inputSchema: tool.inputSchema ?? tool.parameters ?? null
+    };
+
+    return {
+        hash: crypto.createHash('sha256').update(canonicalJson(definition)).digest('hex'),
+        definition,
+        pinnedAt: new Date().toISOString()
+    };
+}
+
+/**
+ * Compare the tools a server lists now with its pinned definitions
+ *
+ * @param pinnedTools Pinned definitions by tool name
+ * @param tools Tools as returned by tools/list
+ * @returns The new or changed tools, the removed tools and a readable diff
+ */
+export function diffToolPins(pinnedTools: Record<string, ToolPin>, tools: any[]): ToolPinDiff {
+    const pins: Record<string, ToolPin> = {};
+    const changedTools: string[] = [];
+    const lines: string[] = [];
+
+    for (const tool of tools) {
+        if (!tool?.name) {
+            continue;
+        }
+
+        const pin = createToolPin(tool);
+        const pinned = pinnedTools[tool.name];
+        pins[tool.name] = pinned && pinned.hash === pin.hash ? pinned : pin;
+
+        if (!pinned) {
+            changedTools.push(tool.name);
+            lines.push(`+ Tool "${tool.name}" was added`);
+            for (const [path, value] of flattenDefinition(pin.definition, '', new Map())) {
+                lines.push(`    ${path}: ${value}`);
+            }
+        } else if (pinned.hash !== pin.hash) {
+            changedTools.push(tool.name);
+            lines.push(`~ Tool "${tool.name}" was changed`);
+
+            const before = flattenDefinition(pinned.definition, '', new Map());
+            const after = flattenDefinition(pin.definition, '', new Map());
+            for (const path of new Set([...before.keys(), ...after.keys()])) {
+                if (before.get(path) === after.get(path)) {
+                    continue;
+                }
+                lines.push(`    ${path}:`);
+                if (before.has(path)) {
+                    lines.push(`      - ${before.get(path)}`);
+                }
+                if (after.has(path)) {
+                    lines.push(`      + ${after.get(path)}`);
+                }
+            }
+        }
+    }
+
+    const removedTools = Object.keys(pinnedTools).filter(name => !pins[name]);
+    for (const name of removedTools) {
+        lines.push(`- Tool "${name}" was removed`);
+    }
+
+    return {
+        changedTools,
+        removedTools,
+        diff: lines.join('\n'),
+        pins
+    };
+}
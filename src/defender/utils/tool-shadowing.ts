@@ -0,0 +1,187 @@
+/**
+ * Tool Shadowing Utilities
+ *
+ * When an application uses several servers, a tool of one server can steer the model away
+ * from a tool of another: by taking the same or a confusingly similar name, or by telling
+ * the model how the other server's tool must be used ("before calling send_email, always
+ * BCC ..."). These helpers find such tools across the servers of one application.
+ */
+
+import type { ToolShadowingFinding, ToolShadowingKind } from '../../services/configurations/types.js';
+
+/**
+ * Tools listed by one server of an application
+ */
+export interface ServerToolInventory {
+    serverName: string;
+    tools: any[];
+}
+
+// Look-alike characters (Cyrillic, Greek, digits) mapped to the ASCII letter they imitate
+const CONFUSABLES: Record<string, string> = {
+    'а': 'a', 'в': 'b', 'е': 'e', 'к': 'k', 'м': 'm', 'н': 'h', 'о': 'o', 'р': 'p', 'с': 'c',
+    'т': 't', 'у': 'y', 'х': 'x', 'һ': 'h', 'і': 'i', 'ј': 'j', 'ѕ': 's', 'ԁ': 'd', 'ӏ': 'l',
+    'α': 'a', 'β': 'b', 'ε': 'e', 'ι': 'i', 'κ': 'k', 'ν': 'v', 'ο': 'o', 'ρ': 'p', 'τ': 't',
+    'υ': 'u', 'χ': 'x', 'ı': 'i', 'ɡ': 'g', '0': 'o', '1': 'l'
+};
+
+// Names shorter than this are too generic to compare by edit distance
+const MIN_SIMILAR_NAME_LENGTH = 5;
+
+/**
+ * Reduce a tool name to the form a reader perceives: compatibility-normalized, lower case,
+ * look-alike characters replaced and separators removed
+ */
+function getNameSkeleton(name: string): string {
+    return Array.from(name.normalize('NFKC').toLowerCase())
+        .map(char => CONFUSABLES[char] ?? char)
+        .join('')
+        .replace(/[\s_.-]/g, '');
+}
+
+/**
+ * Whether two strings are at most one insertion, deletion or substitution apart
+ */
+function isSingleEdit(a: string, b: string): boolean {
+    if (Math.abs(a.length - b.length) > 1) {
+        return false;
+    }
+
+    let i = 0;
+    while (i < a.length && i < b.length && a[i] === b[i]) {
+        i++;
+    }
+
+    // Compare what is left after skipping the differing character in one or both strings
+    return a.slice(i + 1) === b.slice(i + 1) ||
+        a.slice(i) === b.slice(i + 1) ||
+        a.slice(i + 1) === b.slice(i);
+}
+
+/**
+ * Classify how the name of one tool imitates the name of another
+ * @returns The kind of shadowing, or null if the names are unrelated
+ */
+function compareToolNames(name: string, otherName: string): ToolShadowingKind | null {
+    if (name === otherName) {
+        return 'name_collision';
+    }
+
+    const skeleton = getNameSkeleton(name);
+    const otherSkeleton = getNameSkeleton(otherName);
+    if (skeleton === otherSkeleton) {
+        // eslint-disable-next-line no-control-regex
+        return /[^\x00-\x7F]/.test(name + otherName) ? 'homoglyph' : 'similar_name';
+    }
+
+    if (Math.min(skeleton.length, otherSkeleton.length) >= MIN_SIMILAR_NAME_LENGTH &&
+        isSingleEdit(skeleton, otherSkeleton)) {
+        return 'similar_name';
+    }
+
+    return null;
+}
+
+/**
+ * Whether a tool description mentions a tool by name
+ * Names that read like identifiers (send_email, sendEmail) are matched anywhere as a whole
+ * word, plain words (search) only when quoted, so ordinary prose is not reported
+ */
+function mentionsTool(description: string, toolName: string): boolean {
+    const escaped = toolName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+    if (/[_.-]|[a-z][A-Z]/.test(toolName)) {
+        return new RegExp(`(?<![\\w-])${escaped}(?![\\w-])`, 'i').test(description);
+    }
+
+    return new RegExp(`[\`'"]${escaped}[\`'"]`, 'i').test(description);
+}
+
+/**
+ * Build the explanation shown for a finding
+ */
+function describeFinding(finding: Omit<ToolShadowingFinding, 'reason'>): string {
+    const tool = `"${finding.toolName}" of ${finding.serverName}`;
+    const shadowed = `"${finding.shadowedToolName}" of ${finding.shadowedServerName}`;
+
+    switch (finding.kind) {
+        case 'name_collision':
+            return `Tool ${tool} has the same name as ${shadowed}`;
+        case 'homoglyph':
+            return `Tool ${tool} uses look-alike characters to imitate ${shadowed}`;
+        case 'similar_name':
+            return `Tool ${tool} has a name confusingly similar to ${shadowed}`;
+        case 'description_reference':
+            return `The description of ${tool} refers to ${shadowed}`;
+    }
+}
+
+/**
+ * Find tools that shadow the tools of other servers in the same application
+ *
+ * For name collisions and similar names the server listed later is reported as the one
+ * doing the shadowing, since the earlier server is usually the one the user added first.
+ * A description that mentions another server's tool is reported against the server whose
+ * description it is.
+ *
+ * @param servers The servers of one application with the tools they list, in configuration order
+ * @returns The findings, one per pair of tools
+ */
+export function findToolShadowing(servers: ServerToolInventory[]): ToolShadowingFinding[] {
+    const findings: ToolShadowingFinding[] = [];
+
+    const addFinding = (finding: Omit<ToolShadowingFinding, 'reason'>) => {
+        findings.push({ ...finding, reason: describeFinding(finding) });
+    };
+
+    for (let index = 0; index < servers.length; index++) {
+        const server = servers[index];
+        const serverToolNames = new Set(server.tools.map(tool => tool?.name));
+
+        for (let otherIndex = 0; otherIndex < servers.length; otherIndex++) {
+            const otherServer = servers[otherIndex];
+            if (otherIndex === index) {
+                continue;
+            }
+
+            for (const tool of server.tools) {
+                if (!tool?.name) {
+                    continue;
+                }
+
+                for (const otherTool of otherServer.tools) {
+                    if (!otherTool?.name) {
+                        continue;
+                    }
+
+                    // Each pair of names is compared once, blaming the later server
+                    const kind = otherIndex < index ? compareToolNames(tool.name, otherTool.name) : null;
+                    if (kind) {
+                        addFinding({
+                            kind,
+                            serverName: server.serverName,
+                            toolName: tool.name,
+                            shadowedServerName: otherServer.serverName,
+                            shadowedToolName: otherTool.name
+                        });
+                    }
+
+                    // Mentions of a name this server lists itself refer to its own tool
+                    if (typeof tool.description === 'string' &&
+                        !serverToolNames.has(otherTool.name) &&
+                        mentionsTool(tool.description, otherTool.name)) {
+                        addFinding({
+                            kind: 'description_reference',
+                            serverName: server.serverName,
+                            toolName: tool.name,
+                            shadowedServerName: otherServer.serverName,
+                            shadowedToolName: otherTool.name
+                        });
+                    }
+                }
+            }
+        }
+    }
+
+    return findings;
+}
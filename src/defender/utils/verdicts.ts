@@ -0,0 +1,202 @@
+/**
+ * Structured Verification Verdicts
+ *
+ * LLM signatures are answered with one JSON object holding a verdict per signature. The
+ * same JSON schema is given to providers that enforce it (structured outputs, tool calling)
+ * and described in the instructions for those that don't. Replies are validated against it,
+ * so a signature the model skipped or answered malformed is reported instead of passing.
+ */
+
+// Name of the verdict schema given to providers that enforce it
+export const VERDICT_SCHEMA_NAME = 'verification_verdicts';
+
+/**
+ * The model's verdict for one signature
+ */
+export interface LLMVerdict {
+    signatureId: string;
+    allowed: boolean;
+    confidence: number;   // How certain the model is, from 0 to 1
+    reason: string;
+    evidence: string[];   // Excerpts of the content the verdict is based on
+    redact: string[];     // Exact values to mask, only asked for content that can be redacted
+}
+
+/**
+ * Verdicts read from a reply
+ */
+export interface ParsedVerdicts {
+    verdicts: Map<string, LLMVerdict>; // Valid verdicts by signature ID
+    errors: string[];                  // Problems with the reply, empty if it is complete and valid
+}
+
+/**
+ * Build the JSON schema of a reply
+ *
+ * All properties are required and no others are allowed, as providers that enforce a
+ * schema strictly require.
+ *
+ * @param signatureIds The signatures that need a verdict
+ * @param redactable Whether verdicts can ask for values to be masked
+ */
+export function getVerdictSchema(signatureIds: string[], redactable: boolean): Record<string, any> {
+    const properties: Record<string, any> = {
+        signatureId: { type: 'string', enum: signatureIds },
+        allowed: { type: 'boolean' },
+        confidence: { type: 'number', minimum: 0, maximum: 1 },
+        reason: { type: 'string' },
+        evidence: { type: 'array', items: { type: 'string' } }
+    };
+    if (redactable) {
+        properties.redact = { type: 'array', items: { type: 'string' } };
+    }
+
+    return {
+        type: 'object',
+        properties: {
+            verdicts: {
+                type: 'array',
+                items: {
+                    type: 'object',
+                    properties,
+                    required: Object.keys(properties),
+                    additionalProperties: false
+                }
+            }
+        },
+        required: ['verdicts'],
+        additionalProperties: false
+    };
+}
+
+/**
+ * Describe the reply format in the verification instructions
+ *
+ * @param subject What is verified (e.g. "tool call")
+ * @param redactable Whether verdicts can ask for values to be masked
+ */
+export function getVerdictFormatInstructions(subject: string, redactable: boolean): string {
+    const redactField = redactable ?
+        `,\n      "redact": [exact values to mask, empty if nothing needs masking]` : '';
+
+    return `Your response MUST be a single JSON object in the format below, without any other text, with exactly one verdict for EACH signature:
+
+{
+  "verdicts": [
+    {
+      "signatureId": "[id of the signature]",
+      "allowed": [true/false],
+      "confidence": [number from 0 to 1, how certain you are of the verdict],
+      "reason": "[short explanation of why the ${subject} is allowed or blocked]",
+      "evidence": [exact excerpts of the ${subject} the verdict is based on, empty if there are none]${redactField}
+    }
+  ]
+}`;
+}
+
+/**
+ * Extract the JSON object from a reply
+ * Models without an enforced schema sometimes wrap it in a code block or add text around it
+ */
+function extractJson(output: string): string {
+    const fenced = output.match(/```(?:json)?\s*([\s\S]*?)```/i);
+    const text = fenced ? fenced[1] : output;
+
+    const start = text.indexOf('{');
+    const end = text.lastIndexOf('}');
+    return start === -1 || end < start ? text : text.slice(start, end + 1);
+}
+
+/**
+ * Whether a value is an array of strings
+ */
+function isStringArray(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+/**
+ * Validate one verdict of a reply
+ * @returns A description of the problem, or null if the verdict is valid
+ */
+function validateVerdict(verdict: any, signatureIds: string[], redactable: boolean): string | null {
+    if (!verdict || typeof verdict !== 'object') {
+        return 'a verdict is not an object';
+    }
+    if (typeof verdict.signatureId !== 'string' || !signatureIds.includes(verdict.signatureId)) {
+        return `verdict for unknown signature ${JSON.stringify(verdict.signatureId)}`;
+    }
+
+    const label = `verdict for ${verdict.signatureId}`;
+    if (typeof verdict.allowed !== 'boolean') {
+        return `${label} has no boolean "allowed"`;
+    }
+    if (typeof verdict.confidence !== 'number' || verdict.confidence < 0 || verdict.confidence > 1) {
+        return `${label} has no "confidence" between 0 and 1`;
+    }
+    if (typeof verdict.reason !== 'string') {
+        return `${label} has no "reason"`;
+    }
+    if (!isStringArray(verdict.evidence)) {
+        return `${label} has no "evidence" list`;
+    }
+    if (redactable && verdict.redact !== undefined && !isStringArray(verdict.redact)) {
+        return `${label} has an invalid "redact" list`;
+    }
+
+    return null;
+}
+
+/**
+ * Read and validate the verdicts of a reply
+ *
+ * Valid verdicts are kept even if others are invalid or missing, so the caller can decide
+ * whether to ask again and can report exactly which signatures lack a verdict.
+ *
+ * @param output The model's reply
+ * @param signatureIds The signatures that need a verdict
+ * @param redactable Whether verdicts can ask for values to be masked
+ */
+export function parseVerdicts(output: string, signatureIds: string[], redactable: boolean): ParsedVerdicts {
+    const verdicts = new Map<string, LLMVerdict>();
+    const errors: string[] = [];
+
+    let reply: any;
+    try {
+        reply = JSON.parse(extractJson(output));
+    } catch (error) {
+        return { verdicts, errors: [`the reply is not valid JSON (${error instanceof Error ? error.message : error})`] };
+    }
+
+    if (!reply || !Array.isArray(reply.verdicts)) {
+        return { verdicts, errors: ['the reply has no "verdicts" list'] };
+    }
+
+    for (const verdict of reply.verdicts) {
+        const error = validateVerdict(verdict, signatureIds, redactable);
+        if (error) {
+            errors.push(error);
+            continue;
+        }
+        if (verdicts.has(verdict.signatureId)) {
+            errors.push(`more than one verdict for ${verdict.signatureId}`);
+            continue;
+        }
+
+        verdicts.set(verdict.signatureId, {
+            signatureId: verdict.signatureId,
+            allowed: verdict.allowed,
+            confidence: verdict.confidence,
+            reason: verdict.reason.trim(),
+            evidence: verdict.evidence,
+            redact: redactable && verdict.redact ? verdict.redact : []
+        });
+    }
+
+    for (const signatureId of signatureIds) {
+        if (!verdicts.has(signatureId)) {
+            errors.push(`no verdict for ${signatureId}`);
+        }
+    }
+
+    return { verdicts, errors };
+}
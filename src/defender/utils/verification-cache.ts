@@ -0,0 +1,129 @@
+/**
+ * Verification Cache
+ *
+ * Agents often repeat a tool call with the same arguments (polling, re-reading a file) or
+ * receive the same response again. The verification of such content is reused instead of
+ * asking the model again. Entries are addressed by everything the verdict depends on, so a
+ * different tool description or signature set never hits an older entry, and they expire
+ * after the configured TTL. The least recently used entries are dropped beyond the size limit.
+ */
+
+import crypto from 'node:crypto';
+import type { Signature } from '../../services/signatures/types.js';
+import type { VerificationCacheSettings } from '../../services/settings/types.js';
+import { canonicalJson } from './tool-pins';
+
+/**
+ * A cached verification result
+ */
+export interface CachedVerification<T> {
+    result: T;
+    scanId?: string;   // Scan that ran the verification
+    expiresAt: number; // When the entry stops being used (ms since epoch)
+}
+
+/**
+ * What a verification result depends on
+ */
+export interface VerificationCacheKeyParts {
+    type: string;                     // Verification type
+    toolName: string;
+    content: any;                     // Arguments or response, compared in canonical form
+    userIntent?: string;
+    toolDescription?: string | null;
+    signatures: Signature[];          // Signatures the content is verified with
+}
+
+/**
+ * Hash a string with SHA-256
+ */
+function sha256(value: string): string {
+    return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+/**
+ * Get the version of a signature set, which changes when any signature is added,
+ * removed or edited
+ *
+ * @param signatures The signatures the content is verified with
+ */
+export function getSignatureSetVersion(signatures: Signature[]): string {
+    return sha256(canonicalJson([...signatures].sort((a, b) => a.id.localeCompare(b.id))));
+}
+
+/**
+ * Build the cache key of a verification
+ *
+ * @param parts What the verification result depends on
+ * @returns A hash of the parts
+ */
+export function getVerificationCacheKey(parts: VerificationCacheKeyParts): string {
+    return sha256(canonicalJson({
+        type: parts.type,
+        toolName: parts.toolName,
+        content: parts.content,
+        userIntent: parts.userIntent || null,
+        toolDescriptionHash: parts.toolDescription ? sha256(parts.toolDescription) : null,
+        signatureSetVersion: getSignatureSetVersion(parts.signatures)
+    }));
+}
+
+/**
+ * Look up a cached verification
+ * Expired entries are removed, and a hit becomes the most recently used entry. The result
+ * is a copy, as scan results built from it are changed later (e.g. by a user override).
+ *
+ * @param cache The cache
+ * @param key Cache key of the verification
+ * @param now Current time (ms since epoch)
+ * @returns The entry, or null if there is no valid entry
+ */
+export function getCachedVerification<T>(
+    cache: Map<string, CachedVerification<T>>,
+    key: string,
+    now: number = Date.now()
+): CachedVerification<T> | null {
+    const entry = cache.get(key);
+    if (!entry) {
+        return null;
+    }
+
+    cache.delete(key);
+    if (entry.expiresAt <= now) {
+        return null;
+    }
+
+    // Maps keep insertion order, so re-inserting moves the entry to the end
+    cache.set(key, entry);
+    return { ...entry, result: structuredClone(entry.result) };
+}
+
+/**
+ * Add a copy of a verification to the cache, dropping the least recently used entries
+ * beyond the size limit
+ *
+ * @param cache The cache
+ * @param key Cache key of the verification
+ * @param result The verification result
+ * @param scanId Scan that ran the verification
+ * @param settings TTL and size limit
+ * @param now Current time (ms since epoch)
+ */
+export function cacheVerification<T>(
+    cache: Map<string, CachedVerification<T>>,
+    key: string,
+    result: T,
+    scanId: string | undefined,
+    settings: VerificationCacheSettings,
+    now: number = Date.now()
+): void {
+    cache.delete(key);
+    cache.set(key, { result: structuredClone(result), scanId, expiresAt: now + settings.ttlSeconds * 1000 });
+
+    for (const oldestKey of cache.keys()) {
+        if (cache.size <= settings.maxEntries) {
+            break;
+        }
+        cache.delete(oldestKey);
+    }
+}
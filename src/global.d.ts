@@ -1,8 +1,8 @@
 import { DefenderState } from './services/defender/types';
 import { MCPApplication, ConfigOperationResult } from './services/configurations/types';
-import { ScanResult } from './services/scans/types';
-import { Settings, OnboardingStatus } from './services/settings/types';
-import { Signature } from './services/signatures/types';
+import { ScanExportOptions, ScanExportResult, ScanFilterValues, ScanPage, ScanQuery, ScanResult, ScanTimelineBucket } from './services/scans/types';
+import { Settings, OnboardingStatus, RememberDecisionOptions, LocalLLMSettings, LocalLLMTestResult } from './services/settings/types';
+import { Signature, SignatureFeedStatus, SignatureValidationError } from './services/signatures/types';
 
 // Define the LLM settings interface
 interface LLMSettings {
@@ -29,8 +29,17 @@ declare global {
   interface Window {
     // Scan API
     scanAPI: {
-      // Get scan results
-      getScanResults: () => Promise<ScanResult[]>;
+      // Get a page of the scan history, newest first
+      queryScans: (query: ScanQuery) => Promise<ScanPage>;
+
+      // Get the allowed and blocked scans over time
+      getScanTimeline: (query: ScanQuery, bucketMs: number) => Promise<ScanTimelineBucket[]>;
+
+      // Get the values the scan history can be filtered on
+      getScanFilterValues: () => Promise<ScanFilterValues>;
+
+      // Export the scans matching a query to a file the user chooses
+      exportScans: (query: ScanQuery, options: ScanExportOptions) => Promise<ScanExportResult>;
 
       // Get scan by ID
       getScanById: (scanId: string) => Promise<ScanResult | null>;
@@ -47,8 +56,8 @@ declare global {
       // Close all scan detail windows
       closeAllScanDetailWindows: () => Promise<boolean>;
 
-      // Listen for updates to scan results
-      onScanResultsUpdate: (callback: (results: ScanResult[]) => void) => () => void;
+      // Listen for new and updated scan results
+      onScanResultUpdate: (callback: (result: ScanResult) => void) => () => void;
 
       // Get temporary scan by ID (for security alerts)
       getTemporaryScanById: (scanId: string) => Promise<ScanResult | null>;
@@ -57,7 +66,7 @@ declare global {
     // Security API for security alert decision handling
     securityAPI: {
       // Send user decision from security alert
-      sendDecision: (scanId: string, allowed: boolean, remember: boolean) => void;
+      sendDecision: (scanId: string, allowed: boolean, remember: boolean, rememberOptions?: RememberDecisionOptions) => void;
     }
 
     // Tray API for app navigation and window management
@@ -153,6 +162,9 @@ declare global {
       // Get login item settings from system
       getLoginItemSettings: () => Promise<{ openAtLogin: boolean; openAsHidden: boolean }>;
 
+      // Test the connection to a local model server
+      testLocalLLM: (local: LocalLLMSettings) => Promise<LocalLLMTestResult>;
+
       // Trigger test security alert
       triggerTestSecurityAlert: () => Promise<{ success: boolean; allowed?: boolean; error?: string }>;
     }
@@ -188,6 +200,27 @@ declare global {
 
       // Open signatures directory
       openSignaturesDirectory: () => Promise<boolean>;
+
+      // Get the state of the subscribed feeds
+      getFeedStatus: () => Promise<SignatureFeedStatus[]>;
+
+      // Fetch the subscribed feeds now
+      refreshFeeds: () => Promise<SignatureFeedStatus[]>;
+
+      // Go back to the last good version of a feed
+      rollbackFeed: (feedId: string) => Promise<SignatureFeedStatus[]>;
+
+      // Get the problems found in the signature files
+      getValidationErrors: () => Promise<SignatureValidationError[]>;
+
+      // Listen for signature updates
+      onSignaturesUpdate: (callback: (signatures: Signature[]) => void) => () => void;
+
+      // Listen for feed state updates
+      onFeedsUpdate: (callback: (status: SignatureFeedStatus[]) => void) => () => void;
+
+      // Listen for problems found in the signature files
+      onValidationUpdate: (callback: (errors: SignatureValidationError[]) => void) => () => void;
     }
 
     // Defender API
@@ -4,16 +4,25 @@
 import { contextBridge, ipcRenderer } from 'electron';
 import { DefenderServiceEvent, DefenderState } from './services/defender/types';
 import { MCPApplication } from './services/configurations/types';
-import { ScanResult } from './services/scans/types';
-import { Settings } from './services/settings/types';
+import { ScanExportOptions, ScanQuery, ScanResult } from './services/scans/types';
+import { Settings, RememberDecisionOptions, LocalLLMSettings } from './services/settings/types';
 
 // Define TypeScript interfaces for our APIs
 // This ensures type safety and consistency with the main process
 
 // Scan API
 contextBridge.exposeInMainWorld('scanAPI', {
-  // Get scan results
-  getScanResults: () => ipcRenderer.invoke('scanAPI:getScanResults'),
+  // Get a page of the scan history
+  queryScans: (query: ScanQuery) => ipcRenderer.invoke('scanAPI:queryScans', query),
+
+  // Get the allowed and blocked scans over time
+  getScanTimeline: (query: ScanQuery, bucketMs: number) => ipcRenderer.invoke('scanAPI:getScanTimeline', query, bucketMs),
+
+  // Get the values the scan history can be filtered on
+  getScanFilterValues: () => ipcRenderer.invoke('scanAPI:getScanFilterValues'),
+
+  // Export the scans matching a query to a file the user chooses
+  exportScans: (query: ScanQuery, options: ScanExportOptions) => ipcRenderer.invoke('scanAPI:exportScans', query, options),
 
   // Get scan by ID
   getScanById: (scanId: string) => ipcRenderer.invoke('scanAPI:getScanById', scanId),
@@ -30,12 +39,12 @@ contextBridge.exposeInMainWorld('scanAPI', {
   // Close all scan detail windows
   closeAllScanDetailWindows: () => ipcRenderer.invoke('scanAPI:closeAllScanDetailWindows'),
 
-  // Listen for updates to scan results
-  onScanResultsUpdate: (callback: (results: ScanResult[]) => void) => {
-    const subscription = (_: any, results: ScanResult[]) => callback(results);
-    ipcRenderer.on('scan:results-update', subscription);
+  // Listen for new and updated scan results
+  onScanResultUpdate: (callback: (result: ScanResult) => void) => {
+    const subscription = (_: any, result: ScanResult) => callback(result);
+    ipcRenderer.on('scan:result-update', subscription);
     return () => {
-      ipcRenderer.removeListener('scan:results-update', subscription);
+      ipcRenderer.removeListener('scan:result-update', subscription);
     };
   },
 
@@ -175,6 +184,9 @@ contextBridge.exposeInMainWorld('settingsAPI', {
 
   getLoginItemSettings: () => ipcRenderer.invoke('settingsAPI:getLoginItemSettings'),
 
+  // Test the connection to a local model server
+  testLocalLLM: (local: LocalLLMSettings) => ipcRenderer.invoke('settingsAPI:testLocalLLM', local),
+
   // Trigger test security alert
   triggerTestSecurityAlert: () => ipcRenderer.invoke('settingsAPI:triggerTestSecurityAlert'),
 });
@@ -220,6 +232,18 @@ contextBridge.exposeInMainWorld('signaturesAPI', {
   // Open signatures directory
   openSignaturesDirectory: () => ipcRenderer.invoke('signaturesAPI:openSignaturesDirectory'),
 
+  // Get the state of the subscribed feeds
+  getFeedStatus: () => ipcRenderer.invoke('signaturesAPI:getFeedStatus'),
+
+  // Fetch the subscribed feeds now
+  refreshFeeds: () => ipcRenderer.invoke('signaturesAPI:refreshFeeds'),
+
+  // Go back to the last good version of a feed
+  rollbackFeed: (feedId: string) => ipcRenderer.invoke('signaturesAPI:rollbackFeed', feedId),
+
+  // Get the problems found in the signature files
+  getValidationErrors: () => ipcRenderer.invoke('signaturesAPI:getValidationErrors'),
+
   // Listen for signature updates
   onSignaturesUpdate: (callback: (signatures: any[]) => void) => {
     const subscription = (_: any, signatures: any[]) => callback(signatures);
@@ -227,14 +251,32 @@ contextBridge.exposeInMainWorld('signaturesAPI', {
     return () => {
       ipcRenderer.removeListener('signatures:update', subscription);
     };
+  },
+
+  // Listen for feed state updates
+  onFeedsUpdate: (callback: (status: any[]) => void) => {
+    const subscription = (_: any, status: any[]) => callback(status);
+    ipcRenderer.on('signatures:feeds-update', subscription);
+    return () => {
+      ipcRenderer.removeListener('signatures:feeds-update', subscription);
+    };
+  },
+
+  // Listen for problems found in the signature files
+  onValidationUpdate: (callback: (errors: any[]) => void) => {
+    const subscription = (_: any, errors: any[]) => callback(errors);
+    ipcRenderer.on('signatures:validation-update', subscription);
+    return () => {
+      ipcRenderer.removeListener('signatures:validation-update', subscription);
+    };
   }
 });
 
 // Create SecurityAPI for responding to security alerts
 contextBridge.exposeInMainWorld('securityAPI', {
   // Send decision from the security alert window
-  sendDecision: (scanId: string, allowed: boolean, remember: boolean) => {
-    return ipcRenderer.send('security-alert-decision', { scanId, allowed, remember });
+  sendDecision: (scanId: string, allowed: boolean, remember: boolean, rememberOptions?: RememberDecisionOptions) => {
+    return ipcRenderer.send('security-alert-decision', { scanId, allowed, remember, rememberOptions });
   }
 });
 
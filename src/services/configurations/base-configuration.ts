@@ -284,7 +284,12 @@ export abstract class BaseMCPConfiguration {
 
                     // Update to use our proxy endpoint - include app name in path
                     // Use original key (not new key) for the URL path to maintain consistency
-                    server.url = `http://localhost:${this.proxyPort}/${effectiveAppName}/${key}/sse`;
+                    // Servers exposing an /sse endpoint use the HTTP+SSE transport (2024-11-05),
+                    // anything else is proxied as a single Streamable HTTP endpoint (2025-03-26)
+                    const usesLegacySse = this.isLegacySseUrl(originalUrl);
+                    server.url = usesLegacySse
+                        ? `http://localhost:${this.proxyPort}/${effectiveAppName}/${key}/sse`
+                        : `http://localhost:${this.proxyPort}/${effectiveAppName}/${key}`;
 
                     // Add metadata - store the original server name
                     server.env = {
@@ -554,6 +559,20 @@ export abstract class BaseMCPConfiguration {
         }
     }
 
+    /**
+     * Check whether a server URL points at an HTTP+SSE (2024-11-05) endpoint
+     * @param url Original server URL
+     * @returns True if the URL path ends with /sse
+     */
+    protected isLegacySseUrl(url: string): boolean {
+        try {
+            return new URL(url).pathname.replace(/\/$/, '').endsWith('/sse');
+        } catch (error) {
+            // Unparseable URLs keep the previous behaviour
+            return true;
+        }
+    }
+
     /**
      * Save a backup of the unprotected configuration
      * @param config Original configuration
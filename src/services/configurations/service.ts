@@ -13,6 +13,9 @@ import {
     StatusChangeCallback,
     MCPApplication,
     MCPDefenderEnvVar,
+    ToolScanVerdict,
+    ToolPin,
+    ToolShadowingFinding,
 } from './types';
 import { notification } from '../../utils/notification';
 import { NotificationSettings } from '../settings/types';
@@ -21,6 +24,9 @@ import { getTmpCliPath } from '../../main';
 // Create a logger for the configurations service
 const logger = createLogger('ConfigurationsService');
 
+// File storing the pinned tool definitions used for rug pull detection
+const TOOL_PINS_FILE = path.join(app.getPath('userData'), 'tool-pins.json');
+
 // Global set to track files we've recently modified ourselves
 // This helps prevent infinite loops with file watchers
 export const recentlyModifiedByUs = new Set<string>();
@@ -69,6 +75,9 @@ export class ConfigurationsService extends BaseService {
     // Debounce timer for consolidated notifications
     private notificationDebounceTimer: NodeJS.Timeout | null = null;
 
+    // Pinned tool definitions by "app:server" key, persisted across restarts
+    private toolPins: Record<string, Record<string, ToolPin>> = {};
+
     /**
      * Create a new ConfigurationsService instance
      */
@@ -100,11 +109,17 @@ export class ConfigurationsService extends BaseService {
             }
         }
 
+        // Load the pinned tool definitions before the defender can ask for them
+        this.loadToolPins();
+
         // Listen for defender ready event
         const serviceManager = ServiceManager.getInstance();
         serviceManager.defenderService.on(DefenderServiceEvent.READY, () => {
             this.logger.info('Defender service is ready, sending configurations');
             this.notifyDefenderAndWebContents();
+
+            // The defender compares every tools/list against these pins
+            serviceManager.defenderService.sendMessage(DefenderServiceEvent.UPDATE_TOOL_PINS, { pins: this.toolPins });
         });
 
         // Listen for settings updates to handle secure tools server changes
@@ -146,6 +161,24 @@ export class ConfigurationsService extends BaseService {
             this.discoveringTools.delete(key);
         });
 
+        // Listen for tool definition scan verdicts
+        serviceManager.defenderService.on(DefenderServiceEvent.TOOL_SCAN_RESULTS, (data) => {
+            this.handleToolScanResults(data);
+        });
+
+        // Persist tool definitions pinned by the defender
+        serviceManager.defenderService.on(DefenderServiceEvent.TOOL_PINS_UPDATE, (data) => {
+            const { appName, serverName, pinnedTools } = data;
+            this.logger.info(`Pinned ${Object.keys(pinnedTools).length} tool definitions for ${appName}/${serverName}`);
+            this.toolPins[`${appName}:${serverName}`] = pinnedTools;
+            this.saveToolPins();
+        });
+
+        // Listen for cross-server tool shadowing findings
+        serviceManager.defenderService.on(DefenderServiceEvent.TOOL_SHADOWING_RESULTS, (data) => {
+            this.handleToolShadowingResults(data);
+        });
+
         // No need to register IPC handlers here as they're handled in handlers.ts
     }
 
@@ -595,6 +628,90 @@ export class ConfigurationsService extends BaseService {
         this.notifyDefenderAndWebContents();
     }
 
+    /**
+     * Load the pinned tool definitions from disk
+     */
+    private loadToolPins(): void {
+        try {
+            if (fs.existsSync(TOOL_PINS_FILE)) {
+                this.toolPins = JSON.parse(fs.readFileSync(TOOL_PINS_FILE, 'utf8'));
+                this.logger.info(`Loaded tool pins for ${Object.keys(this.toolPins).length} servers from ${TOOL_PINS_FILE}`);
+            }
+        } catch (error) {
+            this.logger.error('Failed to load tool pins:', error);
+            this.toolPins = {};
+        }
+    }
+
+    /**
+     * Save the pinned tool definitions to disk
+     */
+    private saveToolPins(): void {
+        fs.writeFile(TOOL_PINS_FILE, JSON.stringify(this.toolPins, null, 2), 'utf8', (err) => {
+            if (err) {
+                this.logger.error('Error writing tool pins file:', err);
+            }
+        });
+    }
+
+    /**
+     * Handle tool definition scan verdicts from the defender
+     * Each verdict is attached to the matching tool so flagged tools can be shown in the UI
+     * @param scanData The app name, server name and verdicts by tool name
+     */
+    private handleToolScanResults(scanData: {
+        appName: string;
+        serverName: string;
+        verdicts: Record<string, ToolScanVerdict>;
+    }): void {
+        const { appName, serverName, verdicts } = scanData;
+
+        const server = this.applications.get(appName)?.servers.find(s => s.serverName === serverName);
+        if (!server || !server.tools) {
+            this.logger.warn(`Received tool scan results for unknown server ${appName}/${serverName}`);
+            return;
+        }
+
+        let updated = false;
+        for (const tool of server.tools) {
+            const verdict = verdicts[tool.name];
+            if (verdict) {
+                tool.scanVerdict = verdict;
+                updated = true;
+            }
+        }
+
+        const flaggedTools = Object.keys(verdicts).filter(toolName => !verdicts[toolName].allowed);
+        this.logger.info(`Tool scan results for ${appName}/${serverName}: ${flaggedTools.length} of ${Object.keys(verdicts).length} tools flagged`);
+
+        if (updated) {
+            this.notifyDefenderAndWebContents();
+        }
+    }
+
+    /**
+     * Handle cross-server tool shadowing findings from the defender
+     * The findings replace the previous ones of the application so they can be shown in the UI
+     * @param shadowingData The app name and its findings
+     */
+    private handleToolShadowingResults(shadowingData: {
+        appName: string;
+        findings: ToolShadowingFinding[];
+    }): void {
+        const { appName, findings } = shadowingData;
+
+        const app = this.applications.get(appName);
+        if (!app) {
+            this.logger.warn(`Received tool shadowing findings for unknown application ${appName}`);
+            return;
+        }
+
+        this.logger.info(`Tool shadowing findings for ${appName}: ${findings.length}`);
+        app.toolShadowing = findings;
+
+        this.notifyDefenderAndWebContents();
+    }
+
     /**
      * Start the configurations service
      * Initializes system applications and starts watching their configs
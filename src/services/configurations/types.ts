@@ -61,6 +61,72 @@ export const MCP_DEFENDER_CONSTANTS = {
  */
 export type StatusChangeCallback = (appName: string, app: MCPApplication) => void;
 
+/**
+ * Verdict of scanning a tool's name, description and input schema for tool poisoning
+ */
+export interface ToolScanVerdict {
+    /** Whether the tool definition passed every signature */
+    allowed: boolean;
+
+    /** Why the tool was flagged (empty when allowed) */
+    reason: string;
+
+    /** Names of the signatures that flagged the tool */
+    signatureNames: string[];
+
+    /** When the tool definition was scanned */
+    scannedAt: string;
+}
+
+/**
+ * A tool definition the user has accepted, used to detect later changes (rug pulls)
+ */
+export interface ToolPin {
+    /** SHA-256 of the canonical definition */
+    hash: string;
+
+    /** The pinned definition, kept to show what changed */
+    definition: {
+        name: string;
+        description: string | null;
+        inputSchema: any;
+    };
+
+    /** When the definition was pinned (ISO date) */
+    pinnedAt: string;
+}
+
+/**
+ * Ways a tool of one server can shadow the tools of another server in the same application
+ */
+export type ToolShadowingKind =
+    | 'name_collision'         // Both servers expose a tool with the same name
+    | 'homoglyph'              // The names only differ by look-alike characters
+    | 'similar_name'           // The names differ by a single character or separator
+    | 'description_reference'; // The description mentions the other server's tool
+
+/**
+ * A tool that may steer the model away from another server's tool
+ */
+export interface ToolShadowingFinding {
+    kind: ToolShadowingKind;
+
+    /** Server whose tool does the shadowing */
+    serverName: string;
+
+    /** Tool that does the shadowing */
+    toolName: string;
+
+    /** Server whose tool is shadowed */
+    shadowedServerName: string;
+
+    /** Tool that is shadowed */
+    shadowedToolName: string;
+
+    /** Readable explanation of the finding */
+    reason: string;
+}
+
 /**
  * Represents a tool available on an MCP server
  */
@@ -71,6 +137,8 @@ export interface ServerTool {
     parameters?: any;
     /** Alternative name for parameters in some MCP implementations */
     inputSchema?: any;
+    /** Result of scanning the tool definition for tool poisoning */
+    scanVerdict?: ToolScanVerdict;
     [key: string]: any;
 }
 
@@ -141,6 +209,9 @@ export interface MCPApplication {
 
     /** Configuration file path for this application */
     configurationPath: string;
+
+    /** Tools of one server that shadow the tools of another server */
+    toolShadowing?: ToolShadowingFinding[];
 }
 
 /**
@@ -15,6 +15,8 @@ import { showCriticalErrorDialog } from '../../ipc-handlers/ui-manager';
 import { ServiceManager } from '../service-manager';
 import * as crypto from 'crypto';
 import { ScanResult as ScanServiceResult } from '../scans/types';
+import { NotificationSettings } from '../settings/types';
+import { notification } from '../../utils/notification';
 
 /**
  * Defender Service
@@ -336,6 +338,24 @@ export class DefenderService extends BaseService {
                     this.emit(DefenderServiceEvent.TOOLS_DISCOVERY_COMPLETE, message.data);
                     break;
 
+                case DefenderServerEvent.TOOL_SCAN_RESULTS:
+                    // Forward tool definition verdicts
+                    this.logger.info(`Received tool scan results for ${message.data.appName}/${message.data.serverName}`);
+                    this.emit(DefenderServiceEvent.TOOL_SCAN_RESULTS, message.data);
+                    break;
+
+                case DefenderServerEvent.TOOL_PINS_UPDATE:
+                    // Forward pinned tool definitions to be persisted
+                    this.logger.info(`Received tool pins for ${message.data.appName}/${message.data.serverName}`);
+                    this.emit(DefenderServiceEvent.TOOL_PINS_UPDATE, message.data);
+                    break;
+
+                case DefenderServerEvent.TOOL_SHADOWING_RESULTS:
+                    // Forward cross-server tool shadowing findings
+                    this.logger.info(`Received tool shadowing findings for ${message.data.appName}: ${message.data.findings.length}`);
+                    this.emit(DefenderServiceEvent.TOOL_SHADOWING_RESULTS, message.data);
+                    break;
+
                 case DefenderServerEvent.STATUS:
                     const previousStatus = this.state.status;
                     this.updateState({
@@ -366,6 +386,14 @@ export class DefenderService extends BaseService {
                     // Add to scan service
                     const serviceManager = ServiceManager.getInstance();
                     serviceManager.scanService.addScanResult(defenderScanResult);
+
+                    // Content a warning signature flagged is allowed, so tell the user about it
+                    if (defenderScanResult.state === 'completed' &&
+                        defenderScanResult.allowed &&
+                        defenderScanResult.action === 'warn' &&
+                        serviceManager.settingsService.getSettings().notificationSettings & NotificationSettings.SIGNATURE_WARNINGS) {
+                        notification.signatureWarning(defenderScanResult);
+                    }
                     break;
 
                 case 'defender-process:tools-update':
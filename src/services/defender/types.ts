@@ -53,11 +53,15 @@ export enum DefenderServiceEvent {
     UPDATE_SIGNATURES = 'defender-service:update-signatures',
     UPDATE_CONFIGURATIONS = 'defender-service:update-configurations',
     UPDATE_APP_METADATA = 'defender-service:update-app-metadata',
+    UPDATE_TOOL_PINS = 'defender-service:update-tool-pins',
     STATUS = 'defender-service:status',
     READY = 'defender-service:ready',
     SECURITY_ALERT_RESPONSE = 'defender-service:security-alert-response',
     TOOLS_UPDATE = 'defender-service:tools-update',
-    TOOLS_DISCOVERY_COMPLETE = 'defender-service:tools-discovery-complete'
+    TOOLS_DISCOVERY_COMPLETE = 'defender-service:tools-discovery-complete',
+    TOOL_SCAN_RESULTS = 'defender-service:tool-scan-results',
+    TOOL_PINS_UPDATE = 'defender-service:tool-pins-update',
+    TOOL_SHADOWING_RESULTS = 'defender-service:tool-shadowing-results'
 }
 
 /**
@@ -68,5 +72,8 @@ export enum DefenderServerEvent {
     STATUS = 'defender-server:status',
     TOOLS_UPDATE = 'defender-server:tools-update',
     SHOW_SECURITY_ALERT = 'defender-server:security-alert',
-    TOOLS_DISCOVERY_COMPLETE = 'defender-server:tools-discovery-complete'
+    TOOLS_DISCOVERY_COMPLETE = 'defender-server:tools-discovery-complete',
+    TOOL_SCAN_RESULTS = 'defender-server:tool-scan-results',
+    TOOL_PINS_UPDATE = 'defender-server:tool-pins-update',
+    TOOL_SHADOWING_RESULTS = 'defender-server:tool-shadowing-results'
 }
\ No newline at end of file
@@ -0,0 +1,332 @@
+/**
+ * Scan History Export
+ *
+ * Writes scan results as CSV, JSON Lines or SARIF 2.1.0 for audits and code-scanning
+ * dashboards. In SARIF, the signatures that blocked scans are the rules, each blocked scan
+ * is a result, and the servers and their tools are logical locations. Scans are written
+ * as they are read, only SARIF results are kept until the rules are known.
+ */
+
+import { ScanExportFormat, ScanExportOptions, ScanResult, SignatureVerification } from './types';
+import { SignatureSeverity } from '../signatures/types';
+import { getFlaggingSignatureIds, getScanVerdict } from './store';
+
+// Written in place of tool arguments, and the reasons that may quote them, when they are redacted
+export const REDACTED_ARGUMENTS = '[redacted]';
+
+// File extensions of the export formats
+export const SCAN_EXPORT_EXTENSIONS: Record<ScanExportFormat, string> = {
+    csv: 'csv',
+    jsonl: 'jsonl',
+    sarif: 'sarif'
+};
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+// Rule of blocked scans no signature flagged, such as when verification failed
+const UNATTRIBUTED_RULE_ID = 'mcp-defender/blocked';
+
+const CSV_COLUMNS = [
+    'id',
+    'date',
+    'app',
+    'server',
+    'server_version',
+    'tool',
+    'scan_type',
+    'verdict',
+    'severity',
+    'action',
+    'signatures',
+    'reasons',
+    'scan_time_ms',
+    'arguments'
+];
+
+/**
+ * The tool that produced the export, for the SARIF driver
+ */
+export interface ScanExportTool {
+    name: string;
+    version: string;
+}
+
+/**
+ * A SARIF reporting descriptor, one per signature
+ */
+interface SarifRule {
+    id: string;
+    name: string;
+    shortDescription: { text: string };
+    defaultConfiguration: { level: SarifLevel };
+    properties?: { severity?: SignatureSeverity };
+}
+
+/**
+ * A SARIF logical location, a server or one of its tools
+ */
+interface SarifLogicalLocation {
+    name: string;
+    fullyQualifiedName: string;
+    kind: string;
+    parentIndex?: number;
+}
+
+type SarifLevel = 'error' | 'warning' | 'note';
+
+/**
+ * Get a scan result without its tool arguments and the evidence quoted from them
+ * Signatures often quote the arguments in their reasons too, so those are replaced.
+ */
+export function redactScanArguments(scan: ScanResult): ScanResult {
+    const signatureVerifications: ScanResult['signatureVerifications'] = {};
+    for (const [signatureId, models] of Object.entries(scan.signatureVerifications || {})) {
+        signatureVerifications[signatureId] = {};
+        for (const [model, verification] of Object.entries(models)) {
+            const redacted = { ...verification, reason: REDACTED_ARGUMENTS };
+            delete redacted.evidence;
+            signatureVerifications[signatureId][model] = redacted;
+        }
+    }
+
+    return { ...scan, toolArgs: REDACTED_ARGUMENTS, signatureVerifications };
+}
+
+/**
+ * Write scan results in an export format
+ *
+ * @param scans The scans to export
+ * @param options The format, and whether to redact tool arguments
+ * @param tool The tool named as the producer of a SARIF log
+ * @param write Called with each piece of the export, in order
+ * @returns The number of scans exported, for SARIF only the blocked scans
+ */
+export function writeScanExport(
+    scans: Iterable<ScanResult>,
+    options: ScanExportOptions,
+    tool: ScanExportTool,
+    write: (chunk: string) => void
+): number {
+    const prepare = (scan: ScanResult) => options.redactArguments ? redactScanArguments(scan) : scan;
+
+    switch (options.format) {
+        case 'csv':
+            return writeCsv(scans, prepare, write);
+        case 'jsonl':
+            return writeJsonLines(scans, prepare, write);
+        case 'sarif':
+            return writeSarif(scans, prepare, tool, write);
+        default:
+            throw new Error(`Unknown export format "${options.format}"`);
+    }
+}
+
+/**
+ * Write one CSV row per scan, with a header row
+ */
+function writeCsv(scans: Iterable<ScanResult>, prepare: (scan: ScanResult) => ScanResult, write: (chunk: string) => void): number {
+    write(`${CSV_COLUMNS.join(',')}\r\n`);
+
+    let count = 0;
+    for (const original of scans) {
+        const scan = prepare(original);
+        const flagging = getFlaggingVerifications(scan);
+        const row = [
+            scan.id || '',
+            new Date(scan.date).toISOString(),
+            scan.appName,
+            scan.serverName,
+            scan.serverVersion,
+            scan.toolName,
+            getScanType(scan),
+            getScanVerdict(scan),
+            scan.severity || '',
+            scan.action || '',
+            flagging.map(verification => verification.signatureId).join('; '),
+            flagging.map(verification => verification.reason).join('; '),
+            String(scan.scanTime ?? ''),
+            scan.toolArgs
+        ];
+        write(`${row.map(formatCsvField).join(',')}\r\n`);
+        count++;
+    }
+
+    return count;
+}
+
+/**
+ * Write one scan result per line
+ */
+function writeJsonLines(scans: Iterable<ScanResult>, prepare: (scan: ScanResult) => ScanResult, write: (chunk: string) => void): number {
+    let count = 0;
+    for (const scan of scans) {
+        write(`${JSON.stringify(prepare(scan))}\n`);
+        count++;
+    }
+    return count;
+}
+
+/**
+ * Write a SARIF log with one run, and a result for each blocked scan
+ */
+function writeSarif(
+    scans: Iterable<ScanResult>,
+    prepare: (scan: ScanResult) => ScanResult,
+    tool: ScanExportTool,
+    write: (chunk: string) => void
+): number {
+    const rules: SarifRule[] = [];
+    const ruleIndexes = new Map<string, number>();
+    const logicalLocations: SarifLogicalLocation[] = [];
+    const locationIndexes = new Map<string, number>();
+    const results: object[] = [];
+
+    // Add a rule the first time a signature blocks a scan
+    const getRuleIndex = (id: string, name: string, severity?: SignatureSeverity): number => {
+        if (!ruleIndexes.has(id)) {
+            ruleIndexes.set(id, rules.length);
+            rules.push({
+                id,
+                name,
+                shortDescription: { text: name },
+                defaultConfiguration: { level: getSarifLevel(severity) },
+                ...(severity ? { properties: { severity } } : {})
+            });
+        }
+        return ruleIndexes.get(id);
+    };
+
+    // Add a logical location the first time a server or tool appears
+    const getLocationIndex = (location: SarifLogicalLocation): number => {
+        if (!locationIndexes.has(location.fullyQualifiedName)) {
+            locationIndexes.set(location.fullyQualifiedName, logicalLocations.length);
+            logicalLocations.push(location);
+        }
+        return locationIndexes.get(location.fullyQualifiedName);
+    };
+
+    for (const original of scans) {
+        if (getScanVerdict(original) !== 'blocked') {
+            continue;
+        }
+
+        const scan = prepare(original);
+        const flagging = getFlaggingVerifications(scan);
+        const blocking = flagging.find(verification => !verification.allowed) || flagging[0];
+
+        const ruleIndex = blocking ?
+            getRuleIndex(blocking.signatureId, blocking.signatureName || blocking.signatureId, blocking.severity) :
+            getRuleIndex(UNATTRIBUTED_RULE_ID, 'Blocked without a signature');
+
+        const serverIndex = getLocationIndex({
+            name: scan.serverName,
+            fullyQualifiedName: scan.serverName,
+            kind: 'module'
+        });
+        const toolName = `${scan.serverName}/${scan.toolName}`;
+        const toolIndex = getLocationIndex({
+            name: scan.toolName,
+            fullyQualifiedName: toolName,
+            kind: getScanType(scan) === 'resource_read' ? 'resource' : 'function',
+            parentIndex: serverIndex
+        });
+
+        const reasons = flagging.map(verification => `${verification.signatureName || verification.signatureId}: ${verification.reason}`);
+        const properties: Record<string, unknown> = {
+            scanId: scan.id,
+            date: new Date(scan.date).toISOString(),
+            appName: scan.appName,
+            serverVersion: scan.serverVersion,
+            scanType: getScanType(scan),
+            signatureIds: flagging.map(verification => verification.signatureId),
+            toolArgs: scan.toolArgs
+        };
+        if (scan.severity) {
+            properties.severity = scan.severity;
+        }
+
+        results.push({
+            ruleId: rules[ruleIndex].id,
+            ruleIndex,
+            kind: 'fail',
+            level: getSarifLevel(scan.severity || blocking?.severity),
+            message: {
+                text: `${scan.appName} was blocked from using ${scan.toolName} on ${scan.serverName}` +
+                    (reasons.length > 0 ? `. ${reasons.join(' ')}` : '')
+            },
+            locations: [{
+                logicalLocations: [{
+                    index: toolIndex,
+                    name: scan.toolName,
+                    fullyQualifiedName: toolName,
+                    kind: logicalLocations[toolIndex].kind
+                }]
+            }],
+            properties
+        });
+    }
+
+    const log = {
+        $schema: SARIF_SCHEMA,
+        version: '2.1.0',
+        runs: [{
+            tool: {
+                driver: {
+                    name: tool.name,
+                    version: tool.version,
+                    rules
+                }
+            },
+            logicalLocations,
+            results
+        }]
+    };
+    write(`${JSON.stringify(log, null, 2)}\n`);
+
+    return results.length;
+}
+
+/**
+ * Get the verifications of the signatures that flagged or redacted the content of a scan
+ * The first model's verification stands for each signature.
+ */
+function getFlaggingVerifications(scan: ScanResult): SignatureVerification[] {
+    return getFlaggingSignatureIds(scan).map(signatureId => {
+        const verifications = Object.values(scan.signatureVerifications[signatureId]);
+        const verification = verifications.find(model => !model.allowed || model.redacted) || verifications[0];
+        return { ...verification, signatureId };
+    });
+}
+
+/**
+ * Get the kind of traffic scanned, older results only record whether it was a response
+ */
+function getScanType(scan: ScanResult): string {
+    return scan.scanType || (scan.isResponse ? 'tool_response' : 'tool_call');
+}
+
+/**
+ * Map a signature severity to a SARIF level, blocked scans without one are errors
+ */
+function getSarifLevel(severity?: SignatureSeverity): SarifLevel {
+    switch (severity) {
+        case 'low':
+            return 'note';
+        case 'medium':
+            return 'warning';
+        default:
+            return 'error';
+    }
+}
+
+/**
+ * Quote a CSV field when needed
+ * Fields a spreadsheet would run as a formula are prefixed with an apostrophe.
+ */
+function formatCsvField(value: string): string {
+    let field = value ?? '';
+    if (/^[=+\-@\t\r]/.test(field)) {
+        field = `'${field}`;
+    }
+    return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+}
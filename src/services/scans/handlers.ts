@@ -1,6 +1,7 @@
-import { ipcMain, BrowserWindow } from 'electron';
+import { ipcMain, BrowserWindow, dialog } from 'electron';
 import { ScanService } from './service';
-import { ScanEventType } from './types';
+import { ScanEventType, ScanExportOptions, ScanExportResult, ScanQuery, ScanResult } from './types';
+import { SCAN_EXPORT_EXTENSIONS } from './export';
 import { ServiceManager } from '../service-manager';
 
 /**
@@ -8,9 +9,44 @@ import { ServiceManager } from '../service-manager';
  * @param service The scan service instance
  */
 export function registerScanHandlers(service: ScanService): void {
-    // Get scan results
-    ipcMain.handle('scanAPI:getScanResults', async () => {
-        return service.getScanResults();
+    // Get a page of the scan history
+    ipcMain.handle('scanAPI:queryScans', async (event, query: ScanQuery) => {
+        return service.queryScans(query);
+    });
+
+    // Get the allowed and blocked scans over time
+    ipcMain.handle('scanAPI:getScanTimeline', async (event, query: ScanQuery, bucketMs: number) => {
+        return service.getScanTimeline(query, bucketMs);
+    });
+
+    // Get the values the scan history can be filtered on
+    ipcMain.handle('scanAPI:getScanFilterValues', async () => {
+        return service.getScanFilterValues();
+    });
+
+    // Export the scans matching a query to a file the user chooses
+    ipcMain.handle('scanAPI:exportScans', async (event, query: ScanQuery, options: ScanExportOptions): Promise<ScanExportResult> => {
+        const extension = SCAN_EXPORT_EXTENSIONS[options.format];
+        if (!extension) {
+            throw new Error(`Unknown export format "${options.format}"`);
+        }
+
+        const date = new Date().toISOString().slice(0, 10);
+        const dialogOptions = {
+            title: 'Export Scan History',
+            defaultPath: `mcp-defender-scans-${date}.${extension}`,
+            filters: [{ name: options.format.toUpperCase(), extensions: [extension] }]
+        };
+        const window = BrowserWindow.fromWebContents(event.sender);
+        const { canceled, filePath } = window ?
+            await dialog.showSaveDialog(window, dialogOptions) :
+            await dialog.showSaveDialog(dialogOptions);
+
+        if (canceled || !filePath) {
+            return { filePath: null, count: 0 };
+        }
+
+        return { filePath, count: service.exportScans(query, options, filePath) };
     });
 
     // Get scan by ID
@@ -25,29 +61,15 @@ export function registerScanHandlers(service: ScanService): void {
         return scanService.getTemporaryScanById(scanId);
     });
 
-    // Set up event listeners to forward scan events to renderer
-    service.on(ScanEventType.SCAN_RESULT_ADDED, (scanResult) => {
-        // Get all windows and send the updated results
-        const windows = BrowserWindow.getAllWindows();
-        const allResults = service.getScanResults();
-
-        for (const window of windows) {
+    // Forward new and updated scans to the renderer, which queries the page it shows again
+    const forwardScanResult = (scanResult: ScanResult) => {
+        for (const window of BrowserWindow.getAllWindows()) {
             if (window.webContents) {
-                window.webContents.send('scan:results-update', allResults);
+                window.webContents.send('scan:result-update', scanResult);
             }
         }
-    });
-
-    // Handle scan result updates the same way as new scans
-    service.on(ScanEventType.SCAN_RESULT_UPDATED, (scanResult) => {
-        // Get all windows and send the updated results
-        const windows = BrowserWindow.getAllWindows();
-        const allResults = service.getScanResults();
+    };
 
-        for (const window of windows) {
-            if (window.webContents) {
-                window.webContents.send('scan:results-update', allResults);
-            }
-        }
-    });
-} 
\ No newline at end of file
+    service.on(ScanEventType.SCAN_RESULT_ADDED, forwardScanResult);
+    service.on(ScanEventType.SCAN_RESULT_UPDATED, forwardScanResult);
+}
@@ -2,93 +2,184 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { app } from 'electron';
 import { BaseService, ServiceEvent } from '../base-service';
-import { ScanResult, ScanEventType } from './types';
+import { ServiceManager } from '../service-manager';
+import { Settings } from '../settings/types';
+import { ScanExportOptions, ScanFilterValues, ScanPage, ScanQuery, ScanResult, ScanEventType, ScanTimelineBucket } from './types';
+import { ScanStore } from './store';
+import { writeScanExport } from './export';
 
 // Constants
-const MAX_SCAN_RESULTS = 500;
-const SCAN_RESULTS_FILE = path.join(app.getPath('userData'), 'scan-results.json');
+const SCAN_HISTORY_DIRECTORY = path.join(app.getPath('userData'), 'scan-history');
+// Scan history of earlier versions, moved into the store on first start
+const LEGACY_SCAN_RESULTS_FILE = path.join(app.getPath('userData'), 'scan-results.json');
+// How often expired scans are dropped (ms)
+const RETENTION_INTERVAL = 60 * 60 * 1000;
 
 /**
  * Scan Service
- * 
+ *
  * Manages storage and retrieval of scan results, handling persistence to disk
  * and providing an API for accessing and adding scan results.
  */
 export class ScanService extends BaseService {
-    // In-memory cache of scan results
-    private scanResults: ScanResult[] = [];
+    // Scan history on disk
+    private store: ScanStore | null = null;
 
     // Storage for temporary scan results (e.g., for security alerts)
     private temporaryScans: Map<string, ScanResult> = new Map();
 
-    // Flag to track if scan results have been loaded
-    private isInitialized: boolean = false;
+    // Timer that drops scans past the retention limits
+    private retentionTimer: NodeJS.Timeout | null = null;
 
     /**
      * Create a new scan service
      */
     constructor() {
         super('ScanService');
+
+        // Apply changes to the retention limits
+        this.subscribeToEvent(ServiceEvent.SETTINGS_UPDATED, (settings: Partial<Settings>) => {
+            if (settings.scanHistory && this.store) {
+                this.store.setRetention(settings.scanHistory);
+            }
+        });
     }
 
     /**
      * Start the scan service
-     * Loads scan results from disk
+     * Opens the scan history on disk
      */
     start(): boolean {
         if (!super.start()) return false;
 
         this.logger.info('Starting scan service');
 
-        // Initialize scan results
-        this.initScanResults().catch(error => {
-            this.logger.error('Failed to initialize scan results', error);
-        });
+        try {
+            this.openStore();
+        } catch (error) {
+            this.logger.error('Failed to open scan history', error);
+        }
+
+        this.retentionTimer = setInterval(() => {
+            try {
+                const dropped = this.store?.applyRetention() || 0;
+                if (dropped > 0) {
+                    this.logger.info(`Dropped ${dropped} scans past the retention limits`);
+                }
+            } catch (error) {
+                this.logger.error('Failed to apply scan history retention', error);
+            }
+        }, RETENTION_INTERVAL);
 
         return true;
     }
 
     /**
-     * Initialize scan results by loading from disk
+     * Stop the scan service
      */
-    private async initScanResults(): Promise<void> {
-        if (this.isInitialized) {
+    stop(): boolean {
+        if (!super.stop()) return false;
+
+        if (this.retentionTimer) {
+            clearInterval(this.retentionTimer);
+            this.retentionTimer = null;
+        }
+
+        this.store?.close();
+        return true;
+    }
+
+    /**
+     * Open the scan history and move in the results of earlier versions
+     */
+    private openStore(): void {
+        const retention = ServiceManager.getInstance().settingsService.getSettings().scanHistory;
+        this.store = new ScanStore(SCAN_HISTORY_DIRECTORY, retention);
+        const count = this.store.open();
+        this.logger.info(`Opened scan history with ${count} scans at ${SCAN_HISTORY_DIRECTORY}`);
+
+        if (!fs.existsSync(LEGACY_SCAN_RESULTS_FILE)) {
             return;
         }
 
         try {
-            if (fs.existsSync(SCAN_RESULTS_FILE)) {
-                const data = fs.readFileSync(SCAN_RESULTS_FILE, 'utf8');
-                this.scanResults = JSON.parse(data);
-                this.logger.info(`Loaded ${this.scanResults.length} scan results from ${SCAN_RESULTS_FILE}`);
-
-                // Convert string dates back to Date objects
-                this.scanResults.forEach(result => {
-                    if (typeof result.date === 'string') {
-                        result.date = new Date(result.date);
-                    }
-                });
-            } else {
-                this.logger.info('No scan results file found. Starting with empty scan history.');
-                this.scanResults = [];
+            // The file is newest first, the store is written oldest first
+            const legacyResults = JSON.parse(fs.readFileSync(LEGACY_SCAN_RESULTS_FILE, 'utf8')) as ScanResult[];
+            for (const result of [...legacyResults].reverse()) {
+                if (!result.id || !this.store.has(result.id)) {
+                    this.store.put(result);
+                }
             }
+            fs.renameSync(LEGACY_SCAN_RESULTS_FILE, `${LEGACY_SCAN_RESULTS_FILE}.migrated`);
+            this.logger.info(`Moved ${legacyResults.length} scan results from ${LEGACY_SCAN_RESULTS_FILE} to the scan history`);
         } catch (error) {
-            this.logger.error('Failed to load scan results:', error);
-            this.scanResults = [];
+            this.logger.error('Failed to move scan results to the scan history:', error);
         }
+    }
+
+    /**
+     * Get a page of the scan history, newest first
+     * @param query Filters and the page to get
+     */
+    queryScans(query: ScanQuery = {}): ScanPage {
+        if (!this.store) {
+            return { scans: [], total: 0, offset: 0, limit: query.limit || 0 };
+        }
+        return this.store.query(query);
+    }
+
+    /**
+     * Count the allowed and blocked scans matching a query in periods of time
+     * @param query The scans to count
+     * @param bucketMs Length of a period, in milliseconds
+     */
+    getScanTimeline(query: ScanQuery, bucketMs: number): ScanTimelineBucket[] {
+        return this.store ? this.store.getTimeline(query, Math.max(1000, bucketMs)) : [];
+    }
 
-        this.isInitialized = true;
+    /**
+     * Get the apps, servers, tools and signatures the scan history can be filtered on
+     */
+    getScanFilterValues(): ScanFilterValues {
+        return this.store ?
+            this.store.getFilterValues() :
+            { appNames: [], serverNames: [], toolNames: [], signatureIds: [] };
     }
 
     /**
-     * Get the current scan results
+     * Export the scans matching a query to a file, newest first
+     * The export is written to a temporary file that replaces the file once complete.
+     *
+     * @param query The scans to export, pagination is ignored
+     * @param options The format, and whether to redact tool arguments
+     * @param filePath Where to save the export
+     * @returns The number of scans exported
      */
-    getScanResults(): ScanResult[] {
-        // Ensure results are initialized
-        if (!this.isInitialized) {
-            this.logger.warn('Accessing scan results before initialization. Results may be incomplete.');
+    exportScans(query: ScanQuery, options: ScanExportOptions, filePath: string): number {
+        if (!this.store) {
+            throw new Error('The scan history is not open');
+        }
+
+        const temporaryPath = `${filePath}.tmp`;
+        const file = fs.openSync(temporaryPath, 'w');
+        let count: number;
+        try {
+            count = writeScanExport(
+                this.store.iterate(query),
+                options,
+                { name: app.getName(), version: app.getVersion() },
+                chunk => fs.writeSync(file, chunk)
+            );
+        } catch (error) {
+            fs.closeSync(file);
+            fs.rmSync(temporaryPath, { force: true });
+            throw error;
         }
-        return [...this.scanResults]; // Return a copy to prevent direct modification
+        fs.closeSync(file);
+        fs.renameSync(temporaryPath, filePath);
+
+        this.logger.info(`Exported ${count} scans as ${options.format} to ${filePath}`);
+        return count;
     }
 
     /**
@@ -97,88 +188,41 @@ export class ScanService extends BaseService {
      * @returns The scan result or null if not found
      */
     getScanById(id: string): ScanResult | null {
-        // Ensure results are initialized
-        if (!this.isInitialized) {
-            this.logger.warn('Accessing scan by ID before initialization. Results may be incomplete.');
+        if (!this.store) {
+            this.logger.warn('Accessing scan by ID before the scan history was opened.');
+            return null;
         }
-        const scan = this.scanResults.find(scan => scan.id === id);
-        return scan || null;
+        return this.store.get(id);
     }
 
     /**
-     * Add a new scan result
+     * Add a new scan result, or update the result with the same ID
      * @param result The scan result to add
+     * @returns The stored result
      */
-    addScanResult(result: ScanResult): ScanResult[] {
-        // Ensure initialization
-        if (!this.isInitialized) {
-            this.logger.warn('Adding scan result before initialization.');
+    addScanResult(result: ScanResult): ScanResult {
+        if (!this.store) {
+            this.logger.warn('Adding scan result before the scan history was opened.');
+            return result;
         }
 
-        // If the result has an ID, check if it's an update to an existing result
-        if (result.id) {
-            const existingIndex = this.scanResults.findIndex(scan => scan.id === result.id);
-            if (existingIndex !== -1) {
-                // Update the existing scan result
-                this.logger.info(`Updating existing scan result with ID: ${result.id}`);
-                this.scanResults[existingIndex] = result;
-
-                // Emit update event
-                this.emit(ScanEventType.SCAN_RESULT_UPDATED, result);
+        const isUpdate = !!result.id && this.store.has(result.id);
 
-                // Save to disk asynchronously
-                this.saveScanResultsAsync().catch(error => {
-                    this.logger.error('Failed to save scan results:', error);
-                });
-
-                return [...this.scanResults]; // Return a copy of the updated results
-            }
+        let stored = result;
+        try {
+            stored = this.store.put(result);
+        } catch (error) {
+            this.logger.error('Failed to save scan result:', error);
         }
 
-        // Add new result at the beginning (most recent first)
-        this.scanResults.unshift(result);
-
-        // Emit add event
-        this.emit(ScanEventType.SCAN_RESULT_ADDED, result);
-
-        // Limit to MAX_SCAN_RESULTS
-        if (this.scanResults.length > MAX_SCAN_RESULTS) {
-            this.scanResults = this.scanResults.slice(0, MAX_SCAN_RESULTS);
+        if (isUpdate) {
+            this.logger.info(`Updating existing scan result with ID: ${result.id}`);
+            this.emit(ScanEventType.SCAN_RESULT_UPDATED, stored);
+        } else {
+            this.emit(ScanEventType.SCAN_RESULT_ADDED, stored);
         }
 
-        // Save to disk asynchronously
-        this.saveScanResultsAsync().catch(error => {
-            this.logger.error('Failed to save scan results:', error);
-        });
-
-        return [...this.scanResults]; // Return a copy of the updated results
-    }
-
-    /**
-     * Save scan results to disk asynchronously
-     */
-    private async saveScanResultsAsync(): Promise<void> {
-        return new Promise((resolve, reject) => {
-            try {
-                fs.writeFile(
-                    SCAN_RESULTS_FILE,
-                    JSON.stringify(this.scanResults, null, 2),
-                    'utf8',
-                    (err) => {
-                        if (err) {
-                            this.logger.error('Error writing scan results file:', err);
-                            reject(err);
-                        } else {
-                            this.logger.info(`Saved ${this.scanResults.length} scan results to file`);
-                            resolve();
-                        }
-                    }
-                );
-            } catch (error) {
-                this.logger.error('Failed to save scan results:', error);
-                reject(error);
-            }
-        });
+        return stored;
     }
 
     /**
@@ -208,4 +252,4 @@ export class ScanService extends BaseService {
         this.temporaryScans.delete(scanId);
         this.logger.info(`Removed temporary scan with ID: ${scanId}`);
     }
-}
\ No newline at end of file
+}
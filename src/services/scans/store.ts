@@ -0,0 +1,654 @@
+/**
+ * Scan History Store
+ *
+ * Scan results are appended to segment files as JSON lines. A scan that is written again,
+ * such as when it completes, is appended as a new line and the later line wins. The
+ * manifest lists the segments in order. Indexes on date, app, server, tool, verdict and
+ * signature are kept in memory and built when the store opens, so a query only reads the
+ * lines of the scans it returns.
+ *
+ * The space of replaced and expired lines is reclaimed by compaction, which copies the
+ * scans still kept to new segments and switches to them by replacing the manifest in one
+ * step. When the store opens, segments the manifest doesn't list are left over from an
+ * interrupted compaction and are deleted, and a line cut short by a crash is dropped.
+ */
+
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import { ScanFilterValues, ScanPage, ScanQuery, ScanResult, ScanTimelineBucket, ScanVerdict } from './types';
+import type { ScanHistorySettings } from '../settings/types';
+
+/**
+ * Where a scan is stored, and the values it is indexed on
+ */
+interface IndexedScan {
+    id: string;
+    time: number;             // Scan time, in milliseconds since the epoch
+    appName: string;
+    serverName: string;
+    toolName: string;
+    verdict: ScanVerdict;
+    allowed: boolean;
+    signatureIds: string[];   // Signatures that flagged or redacted the content
+    segment: number;
+    offset: number;           // Position of the line in the segment
+    length: number;           // Bytes of the line, without the line break
+}
+
+/**
+ * Fields scans are indexed on, besides the date
+ */
+type IndexedField = 'appName' | 'serverName' | 'toolName' | 'verdict' | 'signatureIds';
+
+const INDEXED_FIELDS: IndexedField[] = ['appName', 'serverName', 'toolName', 'verdict', 'signatureIds'];
+
+// File listing the segments in use, in order
+const MANIFEST_FILE = 'manifest.json';
+
+// Segment files are numbered, later segments hold later writes
+const SEGMENT_PATTERN = /^segment-(\d+)\.jsonl$/;
+
+// Size at which writes move to a new segment
+const SEGMENT_SIZE = 4 * 1024 * 1024;
+
+// Compaction runs once replaced and expired lines take this much space and more than the scans kept
+const MIN_COMPACTION_GARBAGE = SEGMENT_SIZE;
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Get the outcome of a scan as shown in the scan history
+ */
+export function getScanVerdict(scan: ScanResult): ScanVerdict {
+    if (scan.state === 'in_progress') {
+        return 'in_progress';
+    }
+
+    if (!scan.allowed) {
+        return 'blocked';
+    }
+
+    return scan.action === 'warn' ? 'warned' : 'allowed';
+}
+
+/**
+ * Get the signatures that flagged or redacted the content of a scan
+ */
+export function getFlaggingSignatureIds(scan: ScanResult): string[] {
+    return Object.entries(scan.signatureVerifications || {})
+        .filter(([, models]) => Object.values(models).some(verification => !verification.allowed || verification.redacted))
+        .map(([signatureId]) => signatureId);
+}
+
+/**
+ * Append-only store of scan results with indexed, paginated queries
+ */
+export class ScanStore {
+    private readonly directory: string;
+    private retention: ScanHistorySettings;
+
+    // Segments in use, the last one receives the writes
+    private segments: number[] = [];
+    private activeFile: number | null = null;
+    private activeSize = 0;
+
+    // Bytes of every segment, and of the lines of the scans kept
+    private totalBytes = 0;
+    private liveBytes = 0;
+
+    // Scans by ID, and the same scans oldest first
+    private scans = new Map<string, IndexedScan>();
+    private byDate: IndexedScan[] = [];
+
+    // IDs of the scans by indexed field and value
+    private indexes = new Map<IndexedField, Map<string, Set<string>>>(
+        INDEXED_FIELDS.map(field => [field, new Map()])
+    );
+
+    /**
+     * @param directory Directory of the segments and the manifest
+     * @param retention How long scans are kept
+     */
+    constructor(directory: string, retention: ScanHistorySettings) {
+        this.directory = directory;
+        this.retention = retention;
+    }
+
+    /**
+     * Open the store and build the indexes
+     * @returns The number of scans kept
+     */
+    open(): number {
+        fs.mkdirSync(this.directory, { recursive: true });
+        this.segments = this.readManifest();
+
+        // Segments of an interrupted compaction and unfinished manifests are not used
+        for (const file of fs.readdirSync(this.directory)) {
+            const match = SEGMENT_PATTERN.exec(file);
+            if ((match && !this.segments.includes(Number(match[1]))) || file.endsWith('.tmp')) {
+                fs.rmSync(path.join(this.directory, file), { force: true });
+            }
+        }
+
+        this.segments.forEach((segment, index) => this.loadSegment(segment, index === this.segments.length - 1));
+
+        if (this.segments.length === 0) {
+            this.startSegment();
+        } else {
+            this.activeFile = fs.openSync(this.getSegmentPath(this.segments[this.segments.length - 1]), 'a');
+        }
+
+        this.applyRetention();
+        this.compactIfNeeded();
+
+        return this.scans.size;
+    }
+
+    /**
+     * Close the segment receiving the writes
+     */
+    close(): void {
+        if (this.activeFile !== null) {
+            fs.closeSync(this.activeFile);
+            this.activeFile = null;
+        }
+    }
+
+    /**
+     * Number of scans kept
+     */
+    get size(): number {
+        return this.scans.size;
+    }
+
+    /**
+     * Add a scan, or replace the scan with the same ID
+     * @returns The stored scan, with an ID
+     */
+    put(scan: ScanResult): ScanResult {
+        const stored = { ...scan, id: scan.id || crypto.randomUUID() };
+        const line = Buffer.from(`${JSON.stringify(stored)}\n`);
+
+        if (this.activeSize > 0 && this.activeSize + line.length > SEGMENT_SIZE) {
+            this.startSegment();
+        }
+
+        fs.writeSync(this.activeFile, line);
+        this.indexScan(stored, this.segments[this.segments.length - 1], this.activeSize, line.length - 1);
+        this.activeSize += line.length;
+        this.totalBytes += line.length;
+
+        this.applyRetention();
+        this.compactIfNeeded();
+
+        return stored;
+    }
+
+    /**
+     * Whether a scan is kept
+     */
+    has(id: string): boolean {
+        return this.scans.has(id);
+    }
+
+    /**
+     * Get a scan by ID
+     * @returns The scan, or null if it's not kept
+     */
+    get(id: string): ScanResult | null {
+        const entry = this.scans.get(id);
+        return entry ? this.readScan(entry) : null;
+    }
+
+    /**
+     * Get a page of the scans matching a query, newest first
+     */
+    query(query: ScanQuery = {}): ScanPage {
+        const offset = Math.max(0, Math.floor(query.offset || 0));
+        const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, Math.floor(query.limit || DEFAULT_PAGE_SIZE)));
+        const matches = this.selectScans(query);
+
+        return {
+            scans: matches.slice(offset, offset + limit).map(entry => this.readScan(entry)),
+            total: matches.length,
+            offset,
+            limit
+        };
+    }
+
+    /**
+     * Read every scan matching a query, newest first
+     * Scans are read one at a time, so exports don't hold the whole history in memory.
+     *
+     * @param query The scans to read, pagination is ignored
+     */
+    *iterate(query: ScanQuery = {}): IterableIterator<ScanResult> {
+        for (const entry of this.selectScans(query)) {
+            yield this.readScan(entry);
+        }
+    }
+
+    /**
+     * Count the allowed and blocked scans matching a query in periods of time
+     *
+     * @param query The scans to count, pagination is ignored
+     * @param bucketMs Length of a period, in milliseconds
+     * @returns The periods that have scans, oldest first
+     */
+    getTimeline(query: ScanQuery, bucketMs: number): ScanTimelineBucket[] {
+        const buckets = new Map<number, ScanTimelineBucket>();
+
+        for (const entry of this.selectScans(query)) {
+            const timestamp = Math.floor(entry.time / bucketMs) * bucketMs;
+            const bucket = buckets.get(timestamp) || { timestamp, allowed: 0, blocked: 0 };
+            if (entry.allowed) {
+                bucket.allowed++;
+            } else {
+                bucket.blocked++;
+            }
+            buckets.set(timestamp, bucket);
+        }
+
+        return [...buckets.values()].sort((a, b) => a.timestamp - b.timestamp);
+    }
+
+    /**
+     * Get the values the kept scans can be filtered on
+     */
+    getFilterValues(): ScanFilterValues {
+        const values = (field: IndexedField) => [...this.indexes.get(field).keys()].sort((a, b) => a.localeCompare(b));
+
+        return {
+            appNames: values('appName'),
+            serverNames: values('serverName'),
+            toolNames: values('toolName'),
+            signatureIds: values('signatureIds')
+        };
+    }
+
+    /**
+     * Change how long scans are kept, dropping those past the new limits
+     */
+    setRetention(retention: ScanHistorySettings): void {
+        this.retention = retention;
+        this.applyRetention();
+        this.compactIfNeeded();
+    }
+
+    /**
+     * Drop the scans past the retention limits, oldest first
+     * @returns The number of scans dropped
+     */
+    applyRetention(): number {
+        let expired = 0;
+
+        if (this.retention.maxAgeDays > 0) {
+            const cutoff = Date.now() - this.retention.maxAgeDays * DAY;
+            while (expired < this.byDate.length && this.byDate[expired].time < cutoff) {
+                expired++;
+            }
+        }
+
+        if (this.retention.maxCount > 0) {
+            expired = Math.max(expired, this.byDate.length - this.retention.maxCount);
+        }
+
+        if (expired > 0) {
+            for (const entry of this.byDate.splice(0, expired)) {
+                this.unindexScan(entry, false);
+            }
+        }
+
+        return expired;
+    }
+
+    /**
+     * Copy the scans kept to new segments and delete the old ones
+     * The manifest switches to the new segments in one step, so an interruption leaves
+     * either the old segments or the new ones in use.
+     */
+    compact(): void {
+        const oldSegments = this.segments;
+        const newSegments: number[] = [];
+        const locations = new Map<IndexedScan, { segment: number; offset: number }>();
+        const readers = new Map<number, number>();
+        let writer: number | null = null;
+        let size = 0;
+
+        const startNewSegment = () => {
+            if (writer !== null) {
+                fs.fsyncSync(writer);
+                fs.closeSync(writer);
+            }
+            const segment = (newSegments[newSegments.length - 1] ?? oldSegments[oldSegments.length - 1] ?? 0) + 1;
+            newSegments.push(segment);
+            writer = fs.openSync(this.getSegmentPath(segment), 'w');
+            size = 0;
+        };
+
+        try {
+            startNewSegment();
+            for (const entry of this.byDate) {
+                if (!readers.has(entry.segment)) {
+                    readers.set(entry.segment, fs.openSync(this.getSegmentPath(entry.segment), 'r'));
+                }
+
+                const line = Buffer.alloc(entry.length + 1, '\n');
+                fs.readSync(readers.get(entry.segment), line, 0, entry.length, entry.offset);
+
+                if (size > 0 && size + line.length > SEGMENT_SIZE) {
+                    startNewSegment();
+                }
+
+                fs.writeSync(writer, line);
+                locations.set(entry, { segment: newSegments[newSegments.length - 1], offset: size });
+                size += line.length;
+            }
+
+            fs.fsyncSync(writer);
+            fs.closeSync(writer);
+            writer = null;
+
+            this.writeManifest(newSegments);
+        } catch (error) {
+            // The old segments are still listed in the manifest, so the new ones are discarded
+            if (writer !== null) {
+                fs.closeSync(writer);
+            }
+            for (const segment of newSegments) {
+                fs.rmSync(this.getSegmentPath(segment), { force: true });
+            }
+            throw error;
+        } finally {
+            for (const reader of readers.values()) {
+                fs.closeSync(reader);
+            }
+        }
+
+        for (const [entry, location] of locations) {
+            entry.segment = location.segment;
+            entry.offset = location.offset;
+        }
+
+        this.close();
+        for (const segment of oldSegments) {
+            fs.rmSync(this.getSegmentPath(segment), { force: true });
+        }
+
+        this.segments = newSegments;
+        this.activeFile = fs.openSync(this.getSegmentPath(newSegments[newSegments.length - 1]), 'a');
+        this.activeSize = size;
+        this.totalBytes = this.liveBytes;
+    }
+
+    /**
+     * Compact when replaced and expired lines take more space than the scans kept
+     */
+    private compactIfNeeded(): void {
+        const garbage = this.totalBytes - this.liveBytes;
+        if (garbage >= MIN_COMPACTION_GARBAGE && garbage > this.liveBytes) {
+            this.compact();
+        }
+    }
+
+    /**
+     * Get the scans matching the filters of a query, newest first
+     */
+    private selectScans(query: ScanQuery): IndexedScan[] {
+        const filters: [IndexedField, string][] = [
+            ['appName', query.appName],
+            ['serverName', query.serverName],
+            ['toolName', query.toolName],
+            ['verdict', query.verdict],
+            ['signatureIds', query.signatureId]
+        ];
+        const from = query.from ?? -Infinity;
+        const to = query.to ?? Infinity;
+
+        const candidates = filters
+            .filter(([, value]) => value !== undefined && value !== '')
+            .map(([field, value]) => this.indexes.get(field).get(value) || new Set<string>())
+            .sort((a, b) => a.size - b.size);
+
+        // Without filters, the date range is found in the date order directly
+        if (candidates.length === 0) {
+            const start = this.findFirstAtOrAfter(from);
+            let end = start;
+            while (end < this.byDate.length && this.byDate[end].time <= to) {
+                end++;
+            }
+            return this.byDate.slice(start, end).reverse();
+        }
+
+        const [smallest, ...others] = candidates;
+        return [...smallest]
+            .filter(id => others.every(ids => ids.has(id)))
+            .map(id => this.scans.get(id))
+            .filter(entry => entry.time >= from && entry.time <= to)
+            .sort((a, b) => b.time - a.time);
+    }
+
+    /**
+     * Get the position in the date order of the first scan at or after a time
+     */
+    private findFirstAtOrAfter(time: number): number {
+        let low = 0;
+        let high = this.byDate.length;
+        while (low < high) {
+            const middle = (low + high) >> 1;
+            if (this.byDate[middle].time < time) {
+                low = middle + 1;
+            } else {
+                high = middle;
+            }
+        }
+        return low;
+    }
+
+    /**
+     * Add a scan to the indexes, replacing the scan with the same ID
+     */
+    private indexScan(scan: ScanResult, segment: number, offset: number, length: number): void {
+        const existing = this.scans.get(scan.id);
+        if (existing) {
+            this.unindexScan(existing, true);
+        }
+
+        const time = new Date(scan.date).getTime();
+        const entry: IndexedScan = {
+            id: scan.id,
+            time: Number.isNaN(time) ? Date.now() : time,
+            appName: scan.appName || '',
+            serverName: scan.serverName || '',
+            toolName: scan.toolName || '',
+            verdict: getScanVerdict(scan),
+            allowed: !!scan.allowed,
+            signatureIds: getFlaggingSignatureIds(scan),
+            segment,
+            offset,
+            length
+        };
+
+        this.scans.set(entry.id, entry);
+
+        // Scans mostly arrive in date order, so the position is searched from the end
+        let position = this.byDate.length;
+        if (position > 0 && this.byDate[position - 1].time > entry.time) {
+            position = this.findFirstAtOrAfter(entry.time + 1);
+        }
+        this.byDate.splice(position, 0, entry);
+
+        for (const field of INDEXED_FIELDS) {
+            const values = field === 'signatureIds' ? entry.signatureIds : [entry[field]];
+            for (const value of values) {
+                const index = this.indexes.get(field);
+                index.set(value, (index.get(value) || new Set()).add(entry.id));
+            }
+        }
+
+        this.liveBytes += length + 1;
+    }
+
+    /**
+     * Remove a scan from the indexes
+     * @param fromDateOrder Whether to remove it from the date order too, which callers dropping the oldest scans do themselves
+     */
+    private unindexScan(entry: IndexedScan, fromDateOrder: boolean): void {
+        this.scans.delete(entry.id);
+
+        if (fromDateOrder) {
+            let position = this.findFirstAtOrAfter(entry.time);
+            while (position < this.byDate.length && this.byDate[position] !== entry) {
+                position++;
+            }
+            this.byDate.splice(position, 1);
+        }
+
+        for (const field of INDEXED_FIELDS) {
+            const values = field === 'signatureIds' ? entry.signatureIds : [entry[field]];
+            for (const value of values) {
+                const ids = this.indexes.get(field).get(value);
+                ids?.delete(entry.id);
+                if (ids?.size === 0) {
+                    this.indexes.get(field).delete(value);
+                }
+            }
+        }
+
+        this.liveBytes -= entry.length + 1;
+    }
+
+    /**
+     * Read the lines of a segment into the indexes
+     * A line the last segment ends with that was cut short by a crash is removed, so the
+     * next write starts on a new line.
+     */
+    private loadSegment(segment: number, isActive: boolean): void {
+        const segmentPath = this.getSegmentPath(segment);
+        let data: Buffer;
+        try {
+            data = fs.readFileSync(segmentPath);
+        } catch {
+            return;
+        }
+
+        let offset = 0;
+        while (offset < data.length) {
+            const end = data.indexOf(0x0a, offset);
+            if (end === -1) {
+                break;
+            }
+
+            try {
+                const scan = JSON.parse(data.subarray(offset, end).toString('utf8'));
+                if (scan && typeof scan.id === 'string') {
+                    this.indexScan(scan, segment, offset, end - offset);
+                }
+            } catch {
+                // A damaged line is skipped and reclaimed by the next compaction
+            }
+
+            offset = end + 1;
+        }
+
+        if (isActive) {
+            if (offset < data.length) {
+                fs.truncateSync(segmentPath, offset);
+            }
+            this.activeSize = offset;
+            this.totalBytes += offset;
+        } else {
+            this.totalBytes += data.length;
+        }
+    }
+
+    /**
+     * Read a scan from its segment
+     */
+    private readScan(entry: IndexedScan): ScanResult {
+        const line = Buffer.alloc(entry.length);
+        const file = fs.openSync(this.getSegmentPath(entry.segment), 'r');
+        try {
+            fs.readSync(file, line, 0, entry.length, entry.offset);
+        } finally {
+            fs.closeSync(file);
+        }
+
+        const scan = JSON.parse(line.toString('utf8')) as ScanResult;
+        scan.date = new Date(scan.date);
+        return scan;
+    }
+
+    /**
+     * Move the writes to a new segment
+     * The segment is created before the manifest lists it, so an interruption can only
+     * leave an empty file the manifest doesn't list.
+     */
+    private startSegment(): void {
+        const segment = (this.segments[this.segments.length - 1] ?? 0) + 1;
+        fs.writeFileSync(this.getSegmentPath(segment), '');
+        this.writeManifest([...this.segments, segment]);
+
+        this.close();
+        this.segments = [...this.segments, segment];
+        this.activeFile = fs.openSync(this.getSegmentPath(segment), 'a');
+        this.activeSize = 0;
+    }
+
+    /**
+     * Read the segments listed in the manifest
+     * Without a readable manifest every segment is used - scans stored twice by an
+     * interrupted compaction are identical, and the later line wins.
+     */
+    private readManifest(): number[] {
+        try {
+            const manifest = JSON.parse(fs.readFileSync(path.join(this.directory, MANIFEST_FILE), 'utf8'));
+            if (Array.isArray(manifest.segments) && manifest.segments.every(Number.isInteger)) {
+                return manifest.segments;
+            }
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT' && !this.hasSegmentFiles()) {
+                return [];
+            }
+        }
+
+        return fs.readdirSync(this.directory)
+            .map(file => SEGMENT_PATTERN.exec(file))
+            .filter(match => match !== null)
+            .map(match => Number(match[1]))
+            .sort((a, b) => a - b);
+    }
+
+    /**
+     * Whether the directory has segment files
+     */
+    private hasSegmentFiles(): boolean {
+        return fs.readdirSync(this.directory).some(file => SEGMENT_PATTERN.test(file));
+    }
+
+    /**
+     * Replace the manifest in one step
+     */
+    private writeManifest(segments: number[]): void {
+        const manifestPath = path.join(this.directory, MANIFEST_FILE);
+        const file = fs.openSync(`${manifestPath}.tmp`, 'w');
+        try {
+            fs.writeSync(file, JSON.stringify({ segments }));
+            fs.fsyncSync(file);
+        } finally {
+            fs.closeSync(file);
+        }
+        fs.renameSync(`${manifestPath}.tmp`, manifestPath);
+    }
+
+    /**
+     * Get the path of a segment file
+     */
+    private getSegmentPath(segment: number): string {
+        return path.join(this.directory, `segment-${String(segment).padStart(6, '0')}.jsonl`);
+    }
+}
@@ -1,4 +1,4 @@
-import { Signature } from '../signatures/types';
+import { Signature, SignatureAction, SignatureSeverity } from '../signatures/types';
 
 /**
  * Result of signature verification
@@ -9,6 +9,23 @@ export interface SignatureVerification {
     allowed: boolean;
     reason: string;
     modelName?: string; // The model that performed this verification
+    redacted?: boolean; // Whether the concern was resolved by masking part of the content
+    confidence?: number; // How certain the model is of its verdict, from 0 to 1
+    evidence?: string[]; // Excerpts of the content the model based its verdict on
+    error?: boolean;     // Whether the signature produced no valid verdict (blocked unless it fails open)
+    matches?: PatternMatch[]; // Where a pattern signature's rule matched
+    severity?: SignatureSeverity; // How serious a match of the signature is
+    action?: SignatureAction;     // What the signature does when it flags content
+}
+
+/**
+ * A place where a pattern signature's rule matched the content
+ */
+export interface PatternMatch {
+    path: string;  // JSONPath of the matched value, e.g. $.command
+    start: number; // Offset of the first matched character in the value
+    end: number;   // Offset after the last matched character
+    rule: 'regex' | 'keywords' | 'entropy' | 'length';
 }
 
 /**
@@ -16,6 +33,42 @@ export interface SignatureVerification {
  */
 export type SignatureVerificationMap = Record<string, Record<string, SignatureVerification>>;
 
+/**
+ * Kind of MCP traffic a scan was performed on
+ * - tool_call: tools/call arguments sent by the client
+ * - tool_response: tools/call result returned by the server
+ * - resource_read: resource contents returned for resources/read
+ * - prompt_get: prompt messages returned for prompts/get
+ * - completion: completion values returned for completion/complete
+ * - sampling: sampling/createMessage request sent by the server
+ * - elicitation: elicitation/create request sent by the server
+ * - roots_list: roots/list request sent by the server
+ * - tool_definition: tool name, description and input schema advertised by the server
+ * - tool_change: tool definitions that changed since the user accepted them
+ */
+export type ScanType =
+    | 'tool_call'
+    | 'tool_response'
+    | 'resource_read'
+    | 'prompt_get'
+    | 'completion'
+    | 'sampling'
+    | 'elicitation'
+    | 'roots_list'
+    | 'tool_definition'
+    | 'tool_change';
+
+/**
+ * Part of the scanned content that was masked before it was forwarded
+ * Only what was masked is recorded, never the masked value itself
+ */
+export interface Redaction {
+    signatureId: string;   // Signature that asked for the mask
+    signatureName: string; // Name of that signature
+    label: string;         // What was masked, e.g. "AWS access key"
+    count: number;         // How many occurrences were masked
+}
+
 /**
  * Scan result structure
  */
@@ -25,13 +78,93 @@ export interface ScanResult {
     appName: string;       // The application that made the request
     serverName: string;    // The MCP server that was used
     serverVersion: string; // Version of the MCP server
-    toolName: string;      // Name of the tool being called
+    toolName: string;      // Name of the tool being called (resource URI or prompt name for other scan types)
     toolArgs: string;      // Arguments to the tool (serialized to string)
     allowed: boolean;      // Whether the call was allowed
     signatureVerifications: SignatureVerificationMap; // Results of signature verification
     isResponse?: boolean;  // Whether this was a tool response (vs request)
+    scanType?: ScanType;   // Kind of traffic scanned (older results only have isResponse)
     scanTime: number;      // Time taken to scan (in ms)
     state: 'in_progress' | 'completed' | 'error'; // The current state of the scan
+    redactions?: Redaction[]; // Parts masked before forwarding (toolArgs then holds the redacted content)
+    cached?: boolean;         // Whether the verification of identical content was reused
+    cachedFromScanId?: string; // Scan whose verification was reused
+    severity?: SignatureSeverity; // Highest severity of the signatures that flagged the content
+    action?: SignatureAction;     // Strictest action of the signatures that flagged the content
+}
+
+/**
+ * Outcome of a scan as shown in the scan history
+ */
+export type ScanVerdict = 'allowed' | 'blocked' | 'warned' | 'in_progress';
+
+/**
+ * Scans to get from the scan history
+ * Every filter that is set must match, and results are returned newest first.
+ */
+export interface ScanQuery {
+    from?: number;         // Earliest scan time, in milliseconds since the epoch
+    to?: number;           // Latest scan time, in milliseconds since the epoch
+    appName?: string;
+    serverName?: string;
+    toolName?: string;
+    verdict?: ScanVerdict;
+    signatureId?: string;  // Signature that flagged or redacted the content
+    offset?: number;       // Matching scans to skip
+    limit?: number;        // Scans to return (default 50, at most 500)
+}
+
+/**
+ * A page of scans from the scan history
+ */
+export interface ScanPage {
+    scans: ScanResult[];
+    total: number;         // Scans matching the query
+    offset: number;
+    limit: number;
+}
+
+/**
+ * Allowed and blocked scans in a period, for the traffic chart
+ */
+export interface ScanTimelineBucket {
+    timestamp: number;     // Start of the period, in milliseconds since the epoch
+    allowed: number;
+    blocked: number;
+}
+
+/**
+ * Values the scan history can be filtered on
+ */
+export interface ScanFilterValues {
+    appNames: string[];
+    serverNames: string[];
+    toolNames: string[];
+    signatureIds: string[];
+}
+
+/**
+ * File formats the scan history can be exported to
+ * - csv: one row per scan
+ * - jsonl: JSON Lines, one scan result per line
+ * - sarif: SARIF 2.1.0, with signatures as rules and each blocked scan as a result
+ */
+export type ScanExportFormat = 'csv' | 'jsonl' | 'sarif';
+
+/**
+ * How to export the scan history
+ */
+export interface ScanExportOptions {
+    format: ScanExportFormat;
+    redactArguments?: boolean; // Leave out tool arguments and the evidence quoted from them
+}
+
+/**
+ * Outcome of an export of the scan history
+ */
+export interface ScanExportResult {
+    filePath: string | null; // Where the export was saved, null when no file was chosen
+    count: number;           // Scans exported
 }
 
 /**
@@ -8,6 +8,7 @@ import { ServiceManager } from '../service-manager';
 import { showMainWindow, createTray, showSettingsWindow } from '../../ipc-handlers/ui-manager';
 import { toast } from '../../utils/toast';
 import { createTestSecurityAlert } from '../../utils/security-alert-handler';
+import { LocalLLMSettings, LocalLLMTestResult, Settings } from './types';
 
 // The settings service instance
 let settingsService: SettingsService;
@@ -54,6 +55,76 @@ async function makeLoginRequest(email: string) {
     }
 }
 
+/**
+ * Test the connection to a local model server by listing its models
+ * Fails if the server can't be reached, rejects the auth header or doesn't serve the model
+ */
+async function testLocalLLMConnection(local: LocalLLMSettings): Promise<LocalLLMTestResult> {
+    try {
+        const headers: Record<string, string> = {};
+        if (local.authHeaderName) {
+            // The settings window only has the stored value, encrypted, until the user changes it
+            const storedValue = settingsService.getSettings().llm.local?.authHeaderValue;
+            headers[local.authHeaderName] = local.authHeaderValue === storedValue ?
+                settingsService.getDecryptedAuthHeaderValue() :
+                local.authHeaderValue;
+        }
+
+        const response = await fetch(`${local.baseUrl.replace(/\/+$/, '')}/models`, {
+            headers,
+            signal: AbortSignal.timeout(local.timeoutMs)
+        });
+
+        if (!response.ok) {
+            throw new Error(`Request failed with status: ${response.status}`);
+        }
+
+        const data = await response.json();
+        const models: string[] = Array.isArray(data?.data) ?
+            data.data.map((model: { id?: string }) => model?.id).filter(Boolean) :
+            [];
+
+        if (local.model && !models.includes(local.model)) {
+            return {
+                success: false,
+                models,
+                error: `The server does not serve model "${local.model}"`
+            };
+        }
+
+        return { success: true, models };
+    } catch (error) {
+        console.error('Error testing local model server:', error);
+        return {
+            success: false,
+            models: [],
+            error: error instanceof Error ? error.message : 'Unknown error occurred'
+        };
+    }
+}
+
+/**
+ * Get settings updated by a window to send to other services
+ * The window has the local model auth header as stored, encrypted, so the decrypted value
+ * is sent instead.
+ */
+function withDecryptedAuthHeader(settings: Partial<Settings>): Partial<Settings> {
+    if (!settings.llm?.local) {
+        return settings;
+    }
+
+    return {
+        ...settings,
+        llm: {
+            ...settings.llm,
+            local: {
+                ...settings.llm.local,
+                authHeaderValue: settingsService.getDecryptedAuthHeaderValue()
+            }
+        }
+    };
+}
+
 /**
  * Register all settings related IPC handlers
  * @param service The settings service instance
@@ -98,7 +169,7 @@ export function registerSettingsHandlers(service: SettingsService): void {
 
                     if (success) {
                         // Emit event AFTER settings are saved
-                        ServiceEventBus.emit(ServiceEvent.SETTINGS_UPDATED, updatedSettings);
+                        ServiceEventBus.emit(ServiceEvent.SETTINGS_UPDATED, withDecryptedAuthHeader(updatedSettings));
                     }
 
                     return success;
@@ -115,7 +186,7 @@ export function registerSettingsHandlers(service: SettingsService): void {
 
         if (success) {
             // Emit event AFTER settings are successfully saved
-            ServiceEventBus.emit(ServiceEvent.SETTINGS_UPDATED, settings);
+            ServiceEventBus.emit(ServiceEvent.SETTINGS_UPDATED, withDecryptedAuthHeader(settings));
         }
 
         return success;
@@ -511,6 +582,11 @@ export function registerSettingsHandlers(service: SettingsService): void {
         }
     });
 
+    // Test the connection to a local model server
+    ipcMain.handle('settingsAPI:testLocalLLM', async (_event, local: LocalLLMSettings) => {
+        return testLocalLLMConnection(local);
+    });
+
     // ============== Developer-related handlers ==============
 
     // Trigger test security alert
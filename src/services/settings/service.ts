@@ -3,7 +3,7 @@ import { app, ipcMain, safeStorage } from 'electron';
 import fs from 'node:fs';
 import crypto from 'crypto';
 import { BaseService, ServiceEvent, ServiceEventBus } from '../base-service';
-import { Settings, ScanMode, NotificationSettings } from './types';
+import { Settings, ScanMode, NotificationSettings, DecisionOverride } from './types';
 import { registerSettingsHandlers } from './handlers';
 import { DefenderServiceEvent } from '../defender/types';
 import { ServiceManager } from '../service-manager';
@@ -95,6 +95,23 @@ export class SettingsService extends BaseService {
                 this.setLoginItemSettings(newSettings.startOnLogin);
             }
 
+            // The local model auth header is stored encrypted like the API key
+            // Other windows send back the stored value when they didn't change it
+            const local = newSettings.llm?.local;
+            if (local?.authHeaderValue !== undefined &&
+                local.authHeaderValue !== this.settings.llm.local?.authHeaderValue) {
+                newSettings = {
+                    ...newSettings,
+                    llm: {
+                        ...newSettings.llm,
+                        local: {
+                            ...local,
+                            authHeaderValue: this.encryptSecret(local.authHeaderValue, 'local model auth header')
+                        }
+                    }
+                };
+            }
+
             // Merge new settings with existing settings
             this.settings = this.mergeSettings(this.settings, newSettings);
 
@@ -113,6 +130,15 @@ export class SettingsService extends BaseService {
                 };
                 this.logger.debug('Sending decrypted API key to services');
             }
+            if (settingsCopy.llm?.local?.authHeaderValue) {
+                settingsCopy.llm = {
+                    ...settingsCopy.llm,
+                    local: {
+                        ...settingsCopy.llm.local,
+                        authHeaderValue: this.getDecryptedAuthHeaderValue()
+                    }
+                };
+            }
 
             // Always include the login token if available
             if (this.settings.user && this.settings.user.loginToken) {
@@ -188,6 +214,20 @@ export class SettingsService extends BaseService {
         }
     }
 
+    /**
+     * Remember a decision made on a security alert
+     * Expired decisions are dropped while saving the new one
+     */
+    addDecisionOverride(override: DecisionOverride): boolean {
+        const now = Date.now();
+        const decisionOverrides = (this.settings.decisionOverrides || [])
+            .filter(existing => existing.expiresAt === null || existing.expiresAt > now);
+
+        return this.updateSettings({
+            decisionOverrides: [...decisionOverrides, override]
+        });
+    }
+
     /**
      * Check if onboarding has been completed
      * Criteria: User has email or auth token, or LLM settings are configured
@@ -273,15 +313,42 @@ export class SettingsService extends BaseService {
             llm: {
                 model: "gpt-5",
                 apiKey: "",
-                provider: "OpenAI"
+                provider: "OpenAI",
+                local: {
+                    baseUrl: "http://localhost:11434/v1",
+                    model: "",
+                    authHeaderName: "",
+                    authHeaderValue: "",
+                    timeoutMs: 60000
+                }
             },
             scanMode: ScanMode.REQUEST_ONLY,
-            notificationSettings: NotificationSettings.CONFIG_UPDATES, // Enable config update notifications by default
+            notificationSettings: NotificationSettings.ALL, // Enable config update and signature warning notifications by default
             onboardingCompleted: false,
             disabledSignatures: new Set<string>(),
             startOnLogin: true, // Enable start on login by default for security app
             enableSSEProxying: false, // SSE transport is unstable, disabled by default
-            useMCPDefenderSecureTools: false // MCP Defender Secure Tools enabled by default
+            useMCPDefenderSecureTools: false, // MCP Defender Secure Tools enabled by default
+            serverRequestPolicies: {}, // Servers without a policy use ServerRequestPolicy.ALLOW
+            hideFlaggedTools: false, // Flagged tools are reported but still listed by default
+            approvedTools: {},
+            blockShadowingServers: false, // Shadowing is reported in the app view but not blocked by default
+            trustedShadowingServers: {},
+            policyRules: [],
+            decisionOverrides: [],
+            verificationCache: {
+                enabled: true,
+                ttlSeconds: 300, // Repeated calls within a few minutes reuse the verdict
+                maxEntries: 500
+            },
+            signatureFeeds: {
+                feeds: [],
+                refreshMinutes: 360 // New signatures arrive within a few hours of publication
+            },
+            scanHistory: {
+                maxAgeDays: 90,
+                maxCount: 100000
+            }
         };
     }
 
@@ -390,7 +457,42 @@ export class SettingsService extends BaseService {
      * Returns decrypted API key if available
      */
     getDecryptedApiKey(): string {
-        if (!this.settings.llm.apiKey) {
+        return this.decryptSecret(this.settings.llm.apiKey, 'API key');
+    }
+
+    /**
+     * Set OpenAI API key
+     * Encrypts and stores the API key if possible
+     */
+    encryptApiKey(apiKey: string): boolean {
+        try {
+            // Update settings with the key (encrypted or not)
+            return this.updateSettings({
+                llm: {
+                    ...this.settings.llm,
+                    apiKey: this.encryptSecret(apiKey, 'API key')
+                }
+            });
+        } catch (error) {
+            this.logger.error('Failed to handle and store OpenAI API key:', error);
+            return false;
+        }
+    }
+
+    /**
+     * Get the value of the auth header sent to the local model server
+     * Returns the decrypted value if available
+     */
+    getDecryptedAuthHeaderValue(): string {
+        return this.decryptSecret(this.settings.llm.local?.authHeaderValue, 'local model auth header');
+    }
+
+    /**
+     * Decrypt a secret stored in the settings
+     * Secrets stored before encryption was available are returned as they are
+     */
+    private decryptSecret(storedValue: string | undefined, description: string): string {
+        if (!storedValue) {
             return '';
         }
 
@@ -399,51 +501,36 @@ export class SettingsService extends BaseService {
             // If this fails, it was probably not encrypted
             if (safeStorage.isEncryptionAvailable()) {
                 try {
-                    const buffer = Buffer.from(this.settings.llm.apiKey, 'base64');
+                    const buffer = Buffer.from(storedValue, 'base64');
                     return safeStorage.decryptString(buffer);
                 } catch (e) {
                     // If decryption fails, return as-is (wasn't encrypted)
-                    this.logger.debug('API key not encrypted or invalid format');
-                    return this.settings.llm.apiKey;
+                    this.logger.debug(`${description} not encrypted or invalid format`);
+                    return storedValue;
                 }
             }
 
             // No encryption available, return as-is
-            return this.settings.llm.apiKey;
+            return storedValue;
         } catch (error) {
-            this.logger.error('Failed to handle OpenAI API key:', error);
+            this.logger.error(`Failed to handle ${description}:`, error);
             return '';
         }
     }
 
     /**
-     * Set OpenAI API key
-     * Encrypts and stores the API key if possible
+     * Encrypt a secret to store in the settings
+     * Returns the secret as it is if safe storage isn't available
      */
-    encryptApiKey(apiKey: string): boolean {
-        try {
-            let storedValue = apiKey;
-
-            // Only encrypt if safe storage is available and we have a key
-            if (safeStorage.isEncryptionAvailable() && apiKey) {
-                this.logger.debug('Encrypting API key');
-                const encrypted = safeStorage.encryptString(apiKey);
-                storedValue = encrypted.toString('base64');
-            } else {
-                this.logger.debug('Storing API key without encryption');
-            }
-
-            // Update settings with the key (encrypted or not)
-            return this.updateSettings({
-                llm: {
-                    ...this.settings.llm,
-                    apiKey: storedValue
-                }
-            });
-        } catch (error) {
-            this.logger.error('Failed to handle and store OpenAI API key:', error);
-            return false;
+    private encryptSecret(value: string, description: string): string {
+        // Only encrypt if safe storage is available and we have a value
+        if (safeStorage.isEncryptionAvailable() && value) {
+            this.logger.debug(`Encrypting ${description}`);
+            return safeStorage.encryptString(value).toString('base64');
         }
+
+        this.logger.debug(`Storing ${description} without encryption`);
+        return value;
     }
 
     /**
@@ -1,3 +1,5 @@
+import type { ScanType } from '../scans/types';
+
 /**
  * Settings Events types
  */
@@ -19,13 +21,150 @@ export enum ScanMode {
     REQUEST_RESPONSE = 'request-response' // Verify both requests and responses
 }
 
+/**
+ * Policy for requests an MCP server sends to the client
+ * (sampling/createMessage, elicitation/create and roots/list)
+ */
+export enum ServerRequestPolicy {
+    ALLOW = 'allow',   // Forward the request if it passes signature verification
+    PROMPT = 'prompt', // Always ask the user before forwarding the request
+    BLOCK = 'block'    // Reject the request without forwarding it to the client
+}
+
+/**
+ * Action taken when a policy rule matches
+ */
+export enum PolicyAction {
+    ALLOW = 'allow',   // Allow without scanning
+    BLOCK = 'block',   // Block without scanning or asking the user
+    PROMPT = 'prompt', // Scan as usual, then always ask the user
+    SCAN = 'scan'      // Scan with the rule's signatures, whatever the scan mode
+}
+
+/**
+ * Traffic a policy rule applies to
+ */
+export type PolicyDirection = 'request' | 'response' | 'both';
+
+/**
+ * A rule that decides how matching traffic is verified
+ * Rules are evaluated in order before any signature, and the first enabled rule that
+ * matches applies. App, server and tool patterns are case-insensitive globs where * matches
+ * any text and ? a single character.
+ */
+export interface PolicyRule {
+    id: string;
+    name: string;              // Shown in the editor and in scan results
+    enabled: boolean;
+    appPattern: string;        // Application name glob
+    serverPattern: string;     // Server name glob
+    toolPattern: string;       // Tool name glob (resource URI or prompt name for other content)
+    argumentPattern: string;   // Regular expression tested against the serialized arguments or content, empty to match any
+    direction: PolicyDirection;
+    action: PolicyAction;
+    signatureIds: string[];    // Signatures to scan with for the SCAN action, empty for all enabled signatures
+}
+
+/**
+ * Traffic a remembered decision applies to
+ */
+export type DecisionOverrideScope =
+    | 'exact'   // The same tool with the same arguments or content
+    | 'tool'    // The same tool with any arguments or content
+    | 'server'; // Any traffic of the same kind from the server
+
+/**
+ * A decision the user asked to remember from a security alert
+ * Matching traffic gets the decision without showing the alert again
+ */
+export interface DecisionOverride {
+    id: string;
+    appName: string;
+    serverName: string;
+    toolName: string;          // Tool name (resource URI or prompt name for other content)
+    scanType: ScanType;        // Kind of traffic the decision was made on
+    toolArgs: string;          // Serialized arguments or content the decision was made on
+    scope: DecisionOverrideScope;
+    allowed: boolean;
+    createdAt: number;         // Time the decision was made, in milliseconds since the epoch
+    expiresAt: number | null;  // Time the decision expires, null to keep it until revoked
+}
+
+/**
+ * What a decision the user asks to remember applies to and for how long
+ */
+export interface RememberDecisionOptions {
+    scope: DecisionOverrideScope;
+    duration: number | null;   // Milliseconds the decision is kept, null to keep it until revoked
+}
+
+/**
+ * Connection to a model server on this machine or network with an OpenAI-compatible API
+ * (llama.cpp, vLLM, Ollama and similar), so verified content never leaves it
+ */
+export interface LocalLLMSettings {
+    baseUrl: string;           // API base URL, e.g. http://localhost:11434/v1
+    model: string;             // Model name as known to the server
+    authHeaderName: string;    // Header sent with every request (e.g. Authorization), empty for none
+    authHeaderValue: string;   // Stored encrypted like the API key, services get it decrypted
+    timeoutMs: number;         // Time a verification request may take before it fails
+}
+
+/**
+ * Result of testing the connection to a local model server
+ */
+export interface LocalLLMTestResult {
+    success: boolean;
+    models: string[];          // Models the server reports
+    error?: string;
+}
+
+/**
+ * Reuse of verification results for content that was already verified
+ */
+export interface VerificationCacheSettings {
+    enabled: boolean;
+    ttlSeconds: number;        // How long a result is reused
+    maxEntries: number;        // Results kept, the least recently used are dropped first
+}
+
+/**
+ * A signature feed the app subscribes to
+ * Feeds are signed with ed25519, and only documents signed with a pinned key are used.
+ */
+export interface SignatureFeed {
+    id: string;
+    name: string;
+    url: string;               // https:// URL, or file:// and http:// on this machine for testing
+    publicKeys: string[];      // Pinned ed25519 public keys, base64 of the 32 key bytes or PEM
+    enabled: boolean;
+}
+
+/**
+ * Subscriptions to signature feeds
+ */
+export interface SignatureFeedSettings {
+    feeds: SignatureFeed[];    // Earlier feeds override signatures with the same ID in later ones
+    refreshMinutes: number;    // How often feeds are fetched
+}
+
+/**
+ * How long scan results are kept
+ * The oldest scans are dropped first, and a limit of 0 keeps scans without that limit.
+ */
+export interface ScanHistorySettings {
+    maxAgeDays: number;        // Days a scan is kept
+    maxCount: number;          // Scans kept
+}
+
 /**
  * Notification settings enumeration
  */
 export enum NotificationSettings {
     NONE = 0,
     CONFIG_UPDATES = 1,
-    ALL = 3 // Reserved for future notification types
+    SIGNATURE_WARNINGS = 2, // Content allowed although a signature set to warn flagged it
+    ALL = 3
 }
 
 /**
@@ -49,6 +188,7 @@ export interface Settings {
         model: string;
         apiKey: string;
         provider: string;
+        local: LocalLLMSettings; // Used when provider is 'local'
     };
     scanMode: ScanMode;
     notificationSettings: NotificationSettings;
@@ -57,4 +197,14 @@ export interface Settings {
     startOnLogin: boolean; // Whether to start the app when user logs into their computer
     enableSSEProxying: boolean; // Whether to proxy SSE (Server-Sent Events) transport through our server
     useMCPDefenderSecureTools: boolean; // Whether to automatically include MCP Defender Secure Tools server
+    serverRequestPolicies: Record<string, ServerRequestPolicy>; // Policy for server-initiated requests by "app:server" key
+    hideFlaggedTools: boolean; // Whether to remove tools flagged for tool poisoning from tools/list responses
+    approvedTools: Record<string, string[]>; // Flagged tools the user approved anyway, by "app:server" key
+    blockShadowingServers: boolean; // Whether to block tool calls to servers that shadow another server's tools
+    trustedShadowingServers: Record<string, string[]>; // Servers the user allows to shadow other servers, by app name
+    policyRules: PolicyRule[]; // Ordered rules evaluated before signatures, first match applies
+    decisionOverrides: DecisionOverride[]; // Decisions remembered from security alerts
+    verificationCache: VerificationCacheSettings; // Reuse of results for identical content
+    signatureFeeds: SignatureFeedSettings; // Signed feeds signatures are fetched from
+    scanHistory: ScanHistorySettings; // Retention of the scan history
 }
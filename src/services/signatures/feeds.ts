@@ -0,0 +1,372 @@
+/**
+ * Signature Feeds
+ *
+ * A feed publishes signatures as a signed JSON document:
+ *
+ *   { "payload": "<base64 of the feed JSON>", "signature": "<base64 ed25519 signature of the payload bytes>" }
+ *
+ * The payload holds the feed version and its signatures. A document is only used when its
+ * signature verifies with one of the public keys pinned in the subscription, and verified
+ * documents are kept on disk so the app can roll back to the last good version. Feeds carry
+ * LLM and pattern signatures - deterministic signatures run code, which is only taken from
+ * the app and the user.
+ */
+
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { Signature, SignatureFeedRecord, SignatureSource, SignatureValidationError } from './types';
+import { validateSignatures } from './validation';
+
+/**
+ * Contents of a feed payload
+ */
+export interface SignatureFeedPayload {
+    version: string;
+    publishedAt?: string;
+    signatures: Signature[];
+}
+
+/**
+ * A feed document whose signature verified
+ */
+export interface VerifiedSignatureFeed {
+    version: string;
+    signatures: Signature[]; // Signatures a feed may carry
+    rejected: string[];      // IDs or positions of the signatures that were left out
+    errors: SignatureValidationError[]; // Why they were left out
+}
+
+/**
+ * Signatures from one source, for merging
+ */
+export interface SignatureLayer {
+    source: SignatureSource;
+    signatures: Signature[];
+}
+
+// Versions are used as file names, so only plain characters are accepted
+const FEED_VERSION_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]{0,63}$/;
+
+// DER prefix of an ed25519 public key in SubjectPublicKeyInfo form, followed by the 32 key bytes
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+// Time a feed may take to download (ms)
+const FETCH_TIMEOUT = 30000;
+
+// Largest feed document accepted
+const MAX_FEED_SIZE = 5 * 1024 * 1024;
+
+// Verified versions kept per feed for rollback
+const MAX_STORED_VERSIONS = 5;
+
+// File with the records of every feed in the feeds directory
+const FEED_RECORDS_FILE = 'feeds.json';
+
+/**
+ * Parse a pinned public key
+ * @param key Base64 of the 32 bytes of an ed25519 public key, or a PEM public key
+ * @throws Error if the key is not an ed25519 public key
+ */
+export function parseFeedPublicKey(key: string): crypto.KeyObject {
+    // PEM keys pasted in a single line lose their line breaks, so the body is decoded directly
+    const trimmed = key.trim();
+    const publicKey = crypto.createPublicKey({
+        key: trimmed.startsWith('-----BEGIN') ?
+            Buffer.from(trimmed.replace(/-----[^-]+-----/g, '').replace(/\s+/g, ''), 'base64') :
+            Buffer.concat([ED25519_SPKI_PREFIX, decodeRawKey(trimmed)]),
+        format: 'der',
+        type: 'spki'
+    });
+
+    if (publicKey.asymmetricKeyType !== 'ed25519') {
+        throw new Error(`Expected an ed25519 public key, got ${publicKey.asymmetricKeyType}`);
+    }
+
+    return publicKey;
+}
+
+/**
+ * Decode the base64 of a raw ed25519 public key
+ */
+function decodeRawKey(key: string): Buffer {
+    const bytes = Buffer.from(key, 'base64');
+    if (bytes.length !== 32) {
+        throw new Error('An ed25519 public key must be 32 bytes');
+    }
+    return bytes;
+}
+
+/**
+ * Verify a feed document against the pinned keys and read its signatures
+ *
+ * @param document The signed feed document
+ * @param publicKeys The pinned public keys, any of which may have signed the feed
+ * @param feedName The feed name shown with the errors of its signatures
+ * @returns The feed version and the signatures it may carry
+ * @throws Error if the document is malformed or not signed with a pinned key
+ */
+export function verifyFeedDocument(document: string, publicKeys: string[], feedName = 'feed'): VerifiedSignatureFeed {
+    let envelope: any;
+    try {
+        envelope = JSON.parse(document);
+    } catch {
+        throw new Error('Feed is not valid JSON');
+    }
+
+    if (!envelope || typeof envelope.payload !== 'string' || typeof envelope.signature !== 'string') {
+        throw new Error('Feed must have a payload and a signature');
+    }
+
+    if (publicKeys.length === 0) {
+        throw new Error('No public key pinned for the feed');
+    }
+
+    const payload = Buffer.from(envelope.payload, 'base64');
+    const signature = Buffer.from(envelope.signature, 'base64');
+    const verified = publicKeys.some(key => {
+        try {
+            return crypto.verify(null, payload, parseFeedPublicKey(key), signature);
+        } catch {
+            return false;
+        }
+    });
+
+    if (!verified) {
+        throw new Error('Feed signature does not match any pinned key');
+    }
+
+    let contents: SignatureFeedPayload;
+    try {
+        contents = JSON.parse(payload.toString('utf8'));
+    } catch {
+        throw new Error('Feed payload is not valid JSON');
+    }
+
+    if (!contents || typeof contents.version !== 'string' || !FEED_VERSION_PATTERN.test(contents.version)) {
+        throw new Error('Feed payload must have a version of letters, digits, dots, dashes and underscores');
+    }
+
+    if (!Array.isArray(contents.signatures)) {
+        throw new Error('Feed payload must have a signatures array');
+    }
+
+    const file = `${feedName} ${contents.version}`;
+    const validation = validateSignatures(contents.signatures, file);
+    const signatures: Signature[] = [];
+    const errors = [...validation.errors];
+    for (const signature of validation.signatures) {
+        if (signature.type === 'deterministic') {
+            errors.push({
+                file,
+                index: contents.signatures.indexOf(signature),
+                signatureId: signature.id,
+                message: 'Deterministic signatures run code and are not accepted from feeds'
+            });
+            continue;
+        }
+
+        // The source is set by the app, a feed can't claim another one
+        const published = { ...signature };
+        delete published.source;
+        signatures.push(published);
+    }
+
+    const rejected = [...new Set(errors.map(error => error.signatureId || `#${error.index + 1}`))];
+
+    return { version: contents.version, signatures, rejected, errors };
+}
+
+/**
+ * Download a feed document
+ * Plain HTTP is only used on this machine, other hosts must be reached with HTTPS.
+ *
+ * @param url The feed URL
+ * @returns The document
+ * @throws Error if the URL is not supported or the download fails
+ */
+export async function fetchFeedDocument(url: string): Promise<string> {
+    const parsed = new URL(url);
+
+    if (parsed.protocol === 'file:') {
+        const filePath = fileURLToPath(parsed);
+        if ((await fs.promises.stat(filePath)).size > MAX_FEED_SIZE) {
+            throw new Error('Feed is too large');
+        }
+        return fs.promises.readFile(filePath, 'utf8');
+    }
+
+    const isLocal = ['localhost', '127.0.0.1', '[::1]'].includes(parsed.hostname);
+    if (parsed.protocol !== 'https:' && !(parsed.protocol === 'http:' && isLocal)) {
+        throw new Error('Feeds must use https://, or file:// and http:// on this machine');
+    }
+
+    const response = await fetch(url, { signal: AbortSignal.timeout(FETCH_TIMEOUT) });
+    if (!response.ok) {
+        throw new Error(`Feed returned status ${response.status}`);
+    }
+
+    const document = await response.text();
+    if (document.length > MAX_FEED_SIZE) {
+        throw new Error('Feed is too large');
+    }
+
+    return document;
+}
+
+/**
+ * Compare feed versions part by part, numerically where both parts are numbers
+ * @returns A negative number if a is older than b, positive if newer, 0 if equal
+ */
+export function compareFeedVersions(a: string, b: string): number {
+    const partsA = a.split(/[.\-_]/);
+    const partsB = b.split(/[.\-_]/);
+
+    for (let index = 0; index < Math.max(partsA.length, partsB.length); index++) {
+        const partA = partsA[index] ?? '';
+        const partB = partsB[index] ?? '';
+        const difference = /^\d+$/.test(partA) && /^\d+$/.test(partB) ?
+            Number(partA) - Number(partB) :
+            partA.localeCompare(partB);
+
+        if (difference !== 0) {
+            return difference;
+        }
+    }
+
+    return 0;
+}
+
+/**
+ * Decide whether a fetched version replaces the active one
+ * Older versions are refused so a replayed feed can't bring back retired signatures, and
+ * the version the user rolled back from is not installed again.
+ *
+ * @param record The feed record
+ * @param version The fetched version
+ * @returns Whether to install it, and why not when it's not simply the active version
+ */
+export function checkFeedVersion(record: SignatureFeedRecord, version: string): { install: boolean; reason?: string } {
+    if (version === record.activeVersion) {
+        return { install: false };
+    }
+
+    if (version === record.rejectedVersion) {
+        return { install: false, reason: `Version ${version} was rolled back` };
+    }
+
+    if (record.activeVersion && compareFeedVersions(version, record.activeVersion) < 0) {
+        return { install: false, reason: `Version ${version} is older than the installed version ${record.activeVersion}` };
+    }
+
+    return { install: true };
+}
+
+/**
+ * Get the version a feed rolls back to - the newest kept version older than the active one
+ */
+export function getRollbackVersion(record: SignatureFeedRecord): string | undefined {
+    if (!record.activeVersion) {
+        return undefined;
+    }
+
+    return record.versions
+        .filter(version => compareFeedVersions(version, record.activeVersion) < 0)
+        .sort((a, b) => compareFeedVersions(b, a))[0];
+}
+
+/**
+ * Merge signatures from several sources
+ *
+ * @param layers The sources, from the highest precedence to the lowest
+ * @returns One signature per ID, taken from the first source that has it and marked with it
+ */
+export function mergeSignatureLayers(layers: SignatureLayer[]): Signature[] {
+    const merged = new Map<string, Signature>();
+
+    for (const layer of layers) {
+        for (const signature of layer.signatures) {
+            if (!merged.has(signature.id)) {
+                merged.set(signature.id, { ...signature, source: layer.source });
+            }
+        }
+    }
+
+    return [...merged.values()];
+}
+
+/**
+ * Get the directory of the kept versions of a feed
+ */
+function getFeedDirectory(feedsDirectory: string, feedId: string): string {
+    if (!FEED_VERSION_PATTERN.test(feedId)) {
+        throw new Error(`Invalid feed ID: ${feedId}`);
+    }
+    return path.join(feedsDirectory, feedId);
+}
+
+/**
+ * Read the records of every feed
+ * @returns The records by feed ID, empty if there are none yet
+ */
+export function readFeedRecords(feedsDirectory: string): Record<string, SignatureFeedRecord> {
+    try {
+        return JSON.parse(fs.readFileSync(path.join(feedsDirectory, FEED_RECORDS_FILE), 'utf8'));
+    } catch {
+        return {};
+    }
+}
+
+/**
+ * Save the records of every feed
+ * The file is replaced in one step, so a crash can't leave half of it
+ */
+export function writeFeedRecords(feedsDirectory: string, records: Record<string, SignatureFeedRecord>): void {
+    fs.mkdirSync(feedsDirectory, { recursive: true });
+    const filePath = path.join(feedsDirectory, FEED_RECORDS_FILE);
+    fs.writeFileSync(`${filePath}.tmp`, JSON.stringify(records, null, 2));
+    fs.renameSync(`${filePath}.tmp`, filePath);
+}
+
+/**
+ * Keep a verified feed document
+ *
+ * @param feedsDirectory The feeds directory
+ * @param feedId The feed
+ * @param version The version of the document
+ * @param document The signed document
+ * @param versions The versions already kept, newest first
+ * @returns The versions kept, newest first - the oldest are deleted past the limit
+ */
+export function storeFeedVersion(
+    feedsDirectory: string,
+    feedId: string,
+    version: string,
+    document: string,
+    versions: string[]
+): string[] {
+    const directory = getFeedDirectory(feedsDirectory, feedId);
+    fs.mkdirSync(directory, { recursive: true });
+    fs.writeFileSync(path.join(directory, `${version}.json`), document);
+
+    const kept = [version, ...versions.filter(existing => existing !== version)]
+        .sort((a, b) => compareFeedVersions(b, a));
+
+    for (const dropped of kept.slice(MAX_STORED_VERSIONS)) {
+        fs.rmSync(path.join(directory, `${dropped}.json`), { force: true });
+    }
+
+    return kept.slice(0, MAX_STORED_VERSIONS);
+}
+
+/**
+ * Read a kept feed document
+ * @throws Error if the version is not kept
+ */
+export function readFeedVersion(feedsDirectory: string, feedId: string, version: string): string {
+    if (!FEED_VERSION_PATTERN.test(version)) {
+        throw new Error(`Invalid feed version: ${version}`);
+    }
+    return fs.readFileSync(path.join(getFeedDirectory(feedsDirectory, feedId), `${version}.json`), 'utf8');
+}
@@ -21,4 +21,24 @@ export function registerSignatureHandlers(service: SignaturesService): void {
     ipcMain.handle('signaturesAPI:openSignaturesDirectory', async () => {
         return await signaturesService.openSignaturesDirectory();
     });
+
+    // Get the state of the subscribed feeds
+    ipcMain.handle('signaturesAPI:getFeedStatus', () => {
+        return signaturesService.getFeedStatus();
+    });
+
+    // Fetch the subscribed feeds now
+    ipcMain.handle('signaturesAPI:refreshFeeds', async () => {
+        return await signaturesService.refreshFeeds();
+    });
+
+    // Get the problems found in the signature files
+    ipcMain.handle('signaturesAPI:getValidationErrors', () => {
+        return signaturesService.getValidationErrors();
+    });
+
+    // Go back to the last good version of a feed
+    ipcMain.handle('signaturesAPI:rollbackFeed', async (_, feedId: string) => {
+        return await signaturesService.rollbackFeed(feedId);
+    });
 } 
\ No newline at end of file
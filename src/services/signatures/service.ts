@@ -2,9 +2,23 @@ import * as fs from 'node:fs';
 import * as path from 'node:path';
 import { app, shell, BrowserWindow } from 'electron';
 import { BaseService, ServiceEvent } from '../base-service';
-import { Signature, isLLMSignature, isDeterministicSignature } from './types';
+import { Signature, SignatureFeedRecord, SignatureFeedStatus, SignatureValidationError } from './types';
 import { DefenderServiceEvent } from '../defender/types';
 import { ServiceManager } from '../service-manager';
+import { Settings, SignatureFeed, SignatureFeedSettings } from '../settings/types';
+import {
+    checkFeedVersion,
+    fetchFeedDocument,
+    getRollbackVersion,
+    mergeSignatureLayers,
+    readFeedRecords,
+    readFeedVersion,
+    SignatureLayer,
+    storeFeedVersion,
+    verifyFeedDocument,
+    writeFeedRecords
+} from './feeds';
+import { parseSignatureFile } from './validation';
 
 /**
  * Constants for signature file locations
@@ -15,6 +29,8 @@ const USERS_SIGNATURES = path.join(app.getPath('userData'), SIGNATURES_DIRECTORY
 const BUNDLED_SIGNATURES = app.isPackaged
     ? path.join(process.resourcesPath, SIGNATURES_DIRECTORY)
     : path.join(app.getAppPath(), SIGNATURES_DIRECTORY);
+// Verified versions of the subscribed feeds
+const FEEDS_DIRECTORY = path.join(USERS_SIGNATURES, 'feeds');
 
 /**
  * Signatures Service
@@ -31,6 +47,22 @@ export class SignaturesService extends BaseService {
     private debounceTimer: NodeJS.Timeout | null = null;
     private readonly DEBOUNCE_DELAY = 2000; // 2 seconds
 
+    // Feed subscriptions, and the timer that fetches them
+    private feedSettings: SignatureFeedSettings = { feeds: [], refreshMinutes: 360 };
+    private feedTimer: NodeJS.Timeout | null = null;
+
+    // Signatures used from the active version of each feed, by feed ID
+    private feedSignatureCounts = new Map<string, number>();
+
+    // Feed refreshes and rollbacks run one at a time, as they change the same records
+    private feedQueue: Promise<unknown> = Promise.resolve();
+
+    // Problems found in the signature files and feeds at the last load
+    private validationErrors: SignatureValidationError[] = [];
+
+    // User signatures from the last signatures.json without problems, kept while an edit is invalid
+    private lastValidUserSignatures: Signature[] | null = null;
+
     /**
      * Create a new signatures service
      */
@@ -43,6 +75,11 @@ export class SignaturesService extends BaseService {
             this.logger.info('Defender service is ready, sending signatures');
             this.notifyDefenderAndWebContents();
         });
+
+        // Follow changes to the feed subscriptions
+        this.subscribeToEvent(ServiceEvent.SETTINGS_UPDATED, (settings) => {
+            this.handleSettingsUpdate(settings);
+        });
     }
 
     /**
@@ -72,8 +109,17 @@ export class SignaturesService extends BaseService {
             // Load built-in signatures and ensure directory exists
             await this.loadBundledSignatures();
 
+            // Installed feed versions are loaded with the signatures
+            this.feedSettings = ServiceManager.getInstance().settingsService.getSettings().signatureFeeds;
+
             // Start watching the users signatures directory
             await this.startWatchingSignaturesDirectory();
+
+            // Fetch the subscribed feeds now and on their schedule
+            this.scheduleFeedRefresh();
+            if (this.feedSettings.feeds.length > 0) {
+                await this.refreshFeeds();
+            }
         } catch (error) {
             this.logger.error('Error during async initialization', error);
             throw error;
@@ -92,6 +138,12 @@ export class SignaturesService extends BaseService {
         // Stop watching signatures directory
         this.stopWatchingSignaturesDirectory();
 
+        // Stop fetching feeds
+        if (this.feedTimer) {
+            clearInterval(this.feedTimer);
+            this.feedTimer = null;
+        }
+
         return true;
     }
 
@@ -140,7 +192,21 @@ export class SignaturesService extends BaseService {
     }
 
     /**
-     * Load signatures from the unified signatures.json file
+     * Read the signatures bundled with the app
+     * @returns The bundled signatures serialized, by ID
+     */
+    private async readBundledSignatures(): Promise<Map<string, string>> {
+        try {
+            const data = await fs.promises.readFile(path.join(BUNDLED_SIGNATURES, 'signatures.json'), 'utf8');
+            return new Map((JSON.parse(data) as Signature[]).map(sig => [sig.id, JSON.stringify(sig)]));
+        } catch (error) {
+            this.logger.warn('Could not read bundled signatures.json', error);
+            return new Map();
+        }
+    }
+
+    /**
+     * Load signatures from the unified signatures.json file and the subscribed feeds
      */
     private async processUsersSignaturesChanges(): Promise<Signature[]> {
         // Clear current signatures
@@ -150,48 +216,56 @@ export class SignaturesService extends BaseService {
             const signaturesFilePath = path.join(USERS_SIGNATURES, 'signatures.json');
 
             // Check if the unified signatures file exists
+            let validSignatures: Signature[] = [];
+            const errors: SignatureValidationError[] = [];
+            let hasSignaturesFile = true;
             try {
                 await fs.promises.access(signaturesFilePath);
             } catch (error) {
                 this.logger.warn('No signatures.json file found in user directory');
-                return this.signatures;
+                hasSignaturesFile = false;
             }
 
-            // Read and parse the unified signatures file
-            const data = await fs.promises.readFile(signaturesFilePath, 'utf8');
-            const allSignatures = JSON.parse(data) as Signature[];
-
-            this.logger.info(`Found ${allSignatures.length} signatures in signatures.json`);
-
-            // Validate each signature based on its type
-            const validSignatures = allSignatures.filter(sig => {
-                // Check base properties
-                if (!sig.id || !sig.name || !sig.description || !sig.category || !sig.type) {
-                    return false;
-                }
-
-                // Type-specific validation
-                if (sig.type === 'llm') {
-                    return !!(sig as any).prompt;
-                } else if (sig.type === 'deterministic') {
-                    return !!(sig as any).functionFile;
+            if (hasSignaturesFile) {
+                // Read the unified signatures file and validate it against the schema
+                const data = await fs.promises.readFile(signaturesFilePath, 'utf8');
+                const validation = parseSignatureFile(data, 'signatures.json');
+                errors.push(...validation.errors);
+
+                if (validation.errors.length === 0) {
+                    this.logger.info(`Found ${validation.signatures.length} signatures in signatures.json`);
+                    validSignatures = validation.signatures;
+                    this.lastValidUserSignatures = validSignatures;
+                } else if (this.lastValidUserSignatures) {
+                    // An invalid edit doesn't change the signatures in use until it's fixed
+                    this.logger.warn(`signatures.json has ${validation.errors.length} problems, keeping the last valid signatures`);
+                    validSignatures = this.lastValidUserSignatures;
+                } else {
+                    this.logger.warn(`signatures.json has ${validation.errors.length} problems, loading its ${validation.signatures.length} valid signatures`);
+                    validSignatures = validation.signatures;
                 }
+            }
 
-                // Unknown type
-                return false;
-            });
+            // Bundled signatures are copied to the user file, those the user changed or added are theirs
+            const bundled = await this.readBundledSignatures();
+            const isBundled = (sig: Signature) => bundled.get(sig.id) === JSON.stringify(sig);
 
-            if (validSignatures.length !== allSignatures.length) {
-                this.logger.warn(`signatures.json contained ${allSignatures.length - validSignatures.length} invalid signatures`);
-            }
+            // User signatures override feeds, which override the bundled signatures
+            this.signatures = mergeSignatureLayers([
+                { source: { kind: 'user' }, signatures: validSignatures.filter(sig => !isBundled(sig)) },
+                ...this.loadFeedLayers(errors),
+                { source: { kind: 'bundled' }, signatures: validSignatures.filter(isBundled) }
+            ]);
 
-            // Set our validated signatures
-            this.signatures = validSignatures;
-            this.logger.info(`Loaded ${validSignatures.length} valid signatures (${validSignatures.filter(s => s.type === 'llm').length} LLM, ${validSignatures.filter(s => s.type === 'deterministic').length} deterministic)`);
+            const feedCount = this.signatures.filter(s => s.source?.kind === 'feed').length;
+            this.logger.info(`Loaded ${this.signatures.length} valid signatures (${this.signatures.filter(s => s.type === 'llm').length} LLM, ${this.signatures.filter(s => s.type === 'deterministic').length} deterministic, ${this.signatures.filter(s => s.type === 'pattern').length} pattern, ${feedCount} from feeds)`);
 
             // Update the defender service with the new signatures
             this.notifyDefenderAndWebContents();
 
+            this.validationErrors = errors;
+            this.notifyValidationErrors();
+
             return this.signatures;
         } catch (error) {
             this.logger.error('Error processing signatures file:', error);
@@ -199,7 +273,225 @@ export class SignaturesService extends BaseService {
         }
     }
 
+    /**
+     * Get the signatures of the active version of each enabled feed, in subscription order
+     * Kept documents are verified again, so removing a pinned key stops its signatures
+     *
+     * @param errors Collects the problems found in the feed signatures
+     */
+    private loadFeedLayers(errors: SignatureValidationError[]): SignatureLayer[] {
+        const records = readFeedRecords(FEEDS_DIRECTORY);
+        const layers: SignatureLayer[] = [];
+        this.feedSignatureCounts.clear();
+
+        for (const feed of this.feedSettings.feeds) {
+            const version = records[feed.id]?.activeVersion;
+            if (!feed.enabled || !version) {
+                continue;
+            }
+
+            try {
+                const verified = verifyFeedDocument(readFeedVersion(FEEDS_DIRECTORY, feed.id, version), feed.publicKeys, feed.name);
+                errors.push(...verified.errors);
+                this.feedSignatureCounts.set(feed.id, verified.signatures.length);
+                layers.push({
+                    source: { kind: 'feed', feedId: feed.id, feedName: feed.name, version },
+                    signatures: verified.signatures
+                });
+            } catch (error) {
+                this.logger.error(`Could not load version ${version} of feed ${feed.name}:`, error);
+            }
+        }
+
+        return layers;
+    }
+
+    /**
+     * Apply changed feed subscriptions
+     */
+    private handleSettingsUpdate(settings: Partial<Settings>): void {
+        if (!settings.signatureFeeds || JSON.stringify(settings.signatureFeeds) === JSON.stringify(this.feedSettings)) {
+            return;
+        }
+
+        this.logger.info('Signature feed subscriptions changed');
+        this.feedSettings = settings.signatureFeeds;
+        this.scheduleFeedRefresh();
+        this.refreshFeeds().catch(error => {
+            this.logger.error('Error refreshing signature feeds', error);
+        });
+    }
+
+    /**
+     * Fetch the feeds on the configured schedule
+     */
+    private scheduleFeedRefresh(): void {
+        if (this.feedTimer) {
+            clearInterval(this.feedTimer);
+            this.feedTimer = null;
+        }
+
+        if (this.feedSettings.feeds.length === 0) {
+            return;
+        }
+
+        const interval = Math.max(1, this.feedSettings.refreshMinutes) * 60 * 1000;
+        this.feedTimer = setInterval(() => {
+            this.refreshFeeds().catch(error => {
+                this.logger.error('Error refreshing signature feeds', error);
+            });
+        }, interval);
+    }
+
+    /**
+     * Fetch and install one feed
+     * A feed that fails to download or verify keeps its last good version
+     */
+    private async refreshFeed(feed: SignatureFeed, record: SignatureFeedRecord): Promise<boolean> {
+        record.fetchedAt = Date.now();
+
+        try {
+            const document = await fetchFeedDocument(feed.url);
+            const verified = verifyFeedDocument(document, feed.publicKeys, feed.name);
+            const decision = checkFeedVersion(record, verified.version);
 
+            if (verified.rejected.length > 0) {
+                this.logger.warn(`Feed ${feed.name} ${verified.version} has signatures a feed can't carry: ${verified.rejected.join(', ')}`);
+            }
+
+            record.error = decision.reason;
+            if (!decision.install) {
+                return false;
+            }
+
+            record.versions = storeFeedVersion(FEEDS_DIRECTORY, feed.id, verified.version, document, record.versions);
+            record.activeVersion = verified.version;
+            record.rejectedVersion = undefined;
+            this.logger.info(`Installed version ${verified.version} of feed ${feed.name} with ${verified.signatures.length} signatures`);
+            return true;
+        } catch (error) {
+            record.error = error instanceof Error ? error.message : String(error);
+            this.logger.error(`Could not refresh feed ${feed.name}: ${record.error}`);
+            return false;
+        }
+    }
+
+    /**
+     * Run a feed task after the ones already started
+     */
+    private runFeedTask<T>(task: () => Promise<T>): Promise<T> {
+        const run = this.feedQueue.then(task, task);
+        this.feedQueue = run.catch(() => undefined);
+        return run;
+    }
+
+    /**
+     * Fetch every enabled feed and reload the signatures
+     * @returns The state of every feed
+     */
+    refreshFeeds(): Promise<SignatureFeedStatus[]> {
+        return this.runFeedTask(async () => {
+            const records = readFeedRecords(FEEDS_DIRECTORY);
+            let changed = false;
+
+            for (const feed of this.feedSettings.feeds.filter(feed => feed.enabled)) {
+                const record = records[feed.id] || { versions: [] };
+                records[feed.id] = record;
+                changed = await this.refreshFeed(feed, record) || changed;
+            }
+
+            writeFeedRecords(FEEDS_DIRECTORY, records);
+            if (changed) {
+                this.logger.info('Signature feeds updated');
+            }
+
+            // Signatures of feeds that were removed or disabled are dropped as well
+            await this.processUsersSignaturesChanges();
+            this.notifyFeedStatus();
+
+            return this.getFeedStatus();
+        });
+    }
+
+    /**
+     * Go back to the last good version of a feed
+     * The version rolled back from is not installed again, a newer one is
+     *
+     * @param feedId The feed
+     * @returns The state of every feed
+     * @throws Error if the feed has no older version
+     */
+    rollbackFeed(feedId: string): Promise<SignatureFeedStatus[]> {
+        return this.runFeedTask(async () => {
+            const records = readFeedRecords(FEEDS_DIRECTORY);
+            const record = records[feedId];
+            const version = record && getRollbackVersion(record);
+            if (!version) {
+                throw new Error('The feed has no older version to roll back to');
+            }
+
+            this.logger.info(`Rolling back feed ${feedId} from ${record.activeVersion} to ${version}`);
+            record.rejectedVersion = record.activeVersion;
+            record.activeVersion = version;
+            record.error = undefined;
+            writeFeedRecords(FEEDS_DIRECTORY, records);
+
+            await this.processUsersSignaturesChanges();
+            this.notifyFeedStatus();
+
+            return this.getFeedStatus();
+        });
+    }
+
+    /**
+     * Get the state of every subscribed feed
+     */
+    getFeedStatus(): SignatureFeedStatus[] {
+        const records = readFeedRecords(FEEDS_DIRECTORY);
+
+        return this.feedSettings.feeds.map(feed => {
+            const record = records[feed.id] || { versions: [] };
+            return {
+                ...record,
+                feedId: feed.id,
+                name: feed.name,
+                url: feed.url,
+                enabled: feed.enabled,
+                rollbackVersion: getRollbackVersion(record),
+                signatureCount: this.feedSignatureCounts.get(feed.id) || 0
+            };
+        });
+    }
+
+    /**
+     * Get the problems found in the signature files and feeds at the last load
+     */
+    getValidationErrors(): SignatureValidationError[] {
+        return [...this.validationErrors];
+    }
+
+    /**
+     * Send the problems found in the signature files to the windows
+     */
+    private notifyValidationErrors(): void {
+        for (const window of BrowserWindow.getAllWindows()) {
+            if (window.webContents) {
+                window.webContents.send('signatures:validation-update', this.validationErrors);
+            }
+        }
+    }
+
+    /**
+     * Send the state of the feeds to the windows
+     */
+    private notifyFeedStatus(): void {
+        const status = this.getFeedStatus();
+        for (const window of BrowserWindow.getAllWindows()) {
+            if (window.webContents) {
+                window.webContents.send('signatures:feeds-update', status);
+            }
+        }
+    }
 
     /**
      * Ensures the signatures directory exists and syncs bundled signatures
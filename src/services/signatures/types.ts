@@ -1,3 +1,57 @@
+/**
+ * Traffic a signature applies to - tool calls are requests, everything the server sends is a response
+ */
+export type SignatureDirection = 'request' | 'response' | 'both';
+
+/**
+ * Where a signature applies
+ * Patterns are case-insensitive globs where * matches any text and ? a single character.
+ * Traffic must match an include pattern when there are any, and no exclude pattern.
+ */
+export interface SignatureScope {
+    /** Traffic the signature applies to (default: both) */
+    direction?: SignatureDirection;
+
+    /** Tool name globs (resource URI or prompt name for other content) */
+    includeTools?: string[];
+    excludeTools?: string[];
+
+    /** Server name globs */
+    includeServers?: string[];
+    excludeServers?: string[];
+
+    /** Application name globs */
+    includeApps?: string[];
+    excludeApps?: string[];
+}
+
+/**
+ * How serious the threat a signature detects is
+ */
+export type SignatureSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+/**
+ * What happens when a signature flags content
+ * - block: blocked without asking the user
+ * - prompt: blocked unless the user allows it in a security alert
+ * - warn: allowed, recorded and shown in a notification
+ * - log: allowed and only recorded
+ */
+export type SignatureAction = 'block' | 'prompt' | 'warn' | 'log';
+
+/**
+ * Where a loaded signature comes from
+ * When several sources have a signature with the same ID, user signatures override feed
+ * signatures, which override the signatures bundled with the app. Earlier feeds in the
+ * subscription list override later ones.
+ */
+export interface SignatureSource {
+    kind: 'bundled' | 'user' | 'feed';
+    feedId?: string;
+    feedName?: string;
+    version?: string; // Feed version the signature was published in
+}
+
 /**
  * Base interface for all signature types
  */
@@ -14,6 +68,18 @@ interface BaseSignature {
     /** Category of the signature */
     category: string;
 
+    /** How serious a match is (default: medium) */
+    severity?: SignatureSeverity;
+
+    /** What happens when the signature flags content (default: prompt) */
+    action?: SignatureAction;
+
+    /** Where the signature applies, all traffic when not set */
+    scope?: SignatureScope;
+
+    /** Where the signature was loaded from, set by the app and not in signature files */
+    source?: SignatureSource;
+
     /** Optional metadata for the signature */
     metadata?: Record<string, any>;
 }
@@ -38,12 +104,47 @@ export interface DeterministicSignature extends BaseSignature {
 
     /** Reference to the JavaScript function file (e.g., "ssh-key-detector.js") */
     functionFile: string;
+
+    /**
+     * Whether content is allowed when the function can't produce a result (it times out,
+     * crashes or is missing). Content is blocked by default.
+     */
+    failOpen?: boolean;
+
+    /** Time until the function's result must resolve, in milliseconds (default: 1000) */
+    timeoutMs?: number;
+}
+
+/**
+ * A rule of a pattern signature
+ * Text rules look at the string, number and boolean values selected by their JSONPath
+ * (the whole content when not set), and match when they find what the signature looks for.
+ * The combinators match when all, any or none of their rules match.
+ */
+export type PatternRule =
+    | { kind: 'regex'; pattern: string; flags?: string; path?: string }     // Regular expression
+    | { kind: 'keywords'; keywords: string[]; caseSensitive?: boolean; path?: string } // Any of the keywords
+    | { kind: 'entropy'; minEntropy: number; minLength?: number; path?: string } // Random-looking tokens, in bits per character
+    | { kind: 'length'; maxLength: number; path?: string }                 // Values longer than the limit
+    | { kind: 'all'; rules: PatternRule[] }
+    | { kind: 'any'; rules: PatternRule[] }
+    | { kind: 'not'; rule: PatternRule };
+
+/**
+ * Declarative signature that flags content matching its rule, without writing JavaScript
+ */
+export interface PatternSignature extends BaseSignature {
+    /** Signature type discriminator */
+    type: 'pattern';
+
+    /** The rule that blocks the content when it matches */
+    rule: PatternRule;
 }
 
 /**
  * Union type representing all possible signature types
  */
-export type Signature = LLMSignature | DeterministicSignature;
+export type Signature = LLMSignature | DeterministicSignature | PatternSignature;
 
 /**
  * Type guard to check if a signature is an LLM signature
@@ -58,3 +159,43 @@ export function isLLMSignature(signature: Signature): signature is LLMSignature
 export function isDeterministicSignature(signature: Signature): signature is DeterministicSignature {
     return signature.type === 'deterministic';
 }
+
+/**
+ * Type guard to check if a signature is a pattern signature
+ */
+export function isPatternSignature(signature: Signature): signature is PatternSignature {
+    return signature.type === 'pattern';
+}
+
+/**
+ * What the app keeps about a subscribed feed
+ */
+export interface SignatureFeedRecord {
+    activeVersion?: string;   // Version whose signatures are used
+    versions: string[];       // Verified versions kept for rollback, newest first
+    rejectedVersion?: string; // Version rolled back from, not installed again
+    fetchedAt?: number;       // Time of the last fetch, in milliseconds since the epoch
+    error?: string;           // Why the last fetch failed or was not installed
+}
+
+/**
+ * State of a subscribed feed shown in the app
+ */
+export interface SignatureFeedStatus extends SignatureFeedRecord {
+    feedId: string;
+    name: string;
+    url: string;
+    enabled: boolean;
+    rollbackVersion?: string; // Last good version before the active one
+    signatureCount: number;   // Signatures of the active version that are used
+}
+
+/**
+ * A problem found in a signature file or feed
+ */
+export interface SignatureValidationError {
+    file: string;         // File or feed the entry was read from
+    index?: number;       // Position of the entry in the file, from 0 - not set when the whole file is invalid
+    signatureId?: string; // ID of the entry, when it has one
+    message: string;
+}
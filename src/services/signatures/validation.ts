@@ -0,0 +1,398 @@
+/**
+ * Signature File Validation
+ *
+ * Checks signature files against the schema published in
+ * signatures/deterministic/signatures.schema.json. Every problem is reported with the file
+ * and the entry it was found in, so a broken edit can be fixed without guessing. The
+ * checks the schema can't express - regular expressions that compile and can't backtrack
+ * catastrophically, JSONPaths the pattern rules support and IDs unique within the file -
+ * are made here as well.
+ */
+
+import { selectJsonPath } from '../../defender/utils/pattern-rules';
+import { Signature, SignatureValidationError } from './types';
+
+/**
+ * Result of validating a signature file
+ */
+export interface SignatureFileValidation {
+    signatures: Signature[]; // Entries that passed
+    errors: SignatureValidationError[];
+}
+
+const SIGNATURE_TYPES = ['llm', 'deterministic', 'pattern'];
+const SEVERITIES = ['low', 'medium', 'high', 'critical'];
+const ACTIONS = ['block', 'prompt', 'warn', 'log'];
+const DIRECTIONS = ['request', 'response', 'both'];
+const SCOPE_GLOBS = ['includeTools', 'excludeTools', 'includeServers', 'excludeServers', 'includeApps', 'excludeApps'];
+const REGEX_FLAGS = /^[dgimsuy]*$/;
+
+// Fields each pattern rule kind accepts
+const RULE_FIELDS: Record<string, string[]> = {
+    regex: ['pattern', 'flags', 'path'],
+    keywords: ['keywords', 'caseSensitive', 'path'],
+    entropy: ['minEntropy', 'minLength', 'path'],
+    length: ['maxLength', 'path'],
+    all: ['rules'],
+    any: ['rules'],
+    not: ['rule']
+};
+
+/**
+ * Whether a value is a plain object
+ */
+function isObject(value: unknown): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Whether a value is a non-empty string
+ */
+function isText(value: unknown): value is string {
+    return typeof value === 'string' && value.length > 0;
+}
+
+/**
+ * Format a list of allowed values for a message
+ */
+function oneOf(values: string[]): string {
+    return values.map(value => `"${value}"`).join(', ');
+}
+
+/**
+ * Read the quantifier at a position of a regular expression
+ * A lazy quantifier's trailing ? is part of it.
+ */
+function readQuantifier(pattern: string, index: number): { length: number; repeats: boolean; unbounded: boolean } | null {
+    let quantifier: { length: number; repeats: boolean; unbounded: boolean } | null = null;
+
+    if (pattern[index] === '*' || pattern[index] === '+') {
+        quantifier = { length: 1, repeats: true, unbounded: true };
+    } else if (pattern[index] === '?') {
+        quantifier = { length: 1, repeats: false, unbounded: false };
+    } else if (pattern[index] === '{') {
+        const range = /^\{(\d+)(,(\d*))?\}/.exec(pattern.slice(index));
+        if (range) {
+            const unbounded = range[2] !== undefined && range[3] === '';
+            const max = unbounded ? Infinity : Number(range[3] ?? range[1]);
+            quantifier = { length: range[0].length, repeats: max > 1, unbounded };
+        }
+    }
+
+    if (quantifier && pattern[index + quantifier.length] === '?') {
+        quantifier.length++;
+    }
+    return quantifier;
+}
+
+/**
+ * Whether a regular expression repeats a group without limit that repeats itself, like
+ * (a+)+ or (\w+\s?)*
+ * Pattern rules run on every tool call, and such patterns can take exponential time on
+ * input that almost matches.
+ */
+function hasNestedQuantifier(pattern: string): boolean {
+    // Whether each open group, and the whole pattern, repeats something
+    const groups: boolean[] = [false];
+    let index = 0;
+
+    while (index < pattern.length) {
+        const char = pattern[index];
+
+        if (char === '(') {
+            groups.push(false);
+            index++;
+            // Group modifiers like ?: and ?<name> aren't quantifiers
+            if (pattern[index] === '?') {
+                const modifier = /^\?(<=|<!|<[^>]*>|[:=!])?/.exec(pattern.slice(index));
+                index += modifier[0].length;
+            }
+            continue;
+        }
+
+        let atomRepeats = false;
+        if (char === ')') {
+            atomRepeats = groups.length > 1 ? groups.pop() : false;
+            index++;
+        } else if (char === '[') {
+            // Skip the character class, a ] right after [ or [^ is part of it
+            index += pattern[index + 1] === '^' ? 2 : 1;
+            if (pattern[index] === ']') {
+                index++;
+            }
+            while (index < pattern.length && pattern[index] !== ']') {
+                index += pattern[index] === '\\' ? 2 : 1;
+            }
+            index++;
+        } else {
+            index += char === '\\' ? 2 : 1;
+        }
+
+        const quantifier = readQuantifier(pattern, index);
+        if (quantifier) {
+            if (quantifier.unbounded && atomRepeats) {
+                return true;
+            }
+            index += quantifier.length;
+        }
+
+        if (atomRepeats || quantifier?.repeats) {
+            groups[groups.length - 1] = true;
+        }
+    }
+
+    return false;
+}
+
+/**
+ * Check the JSONPath of a pattern rule
+ */
+function checkJsonPath(path: unknown, location: string, problems: string[]): void {
+    if (path === undefined) {
+        return;
+    }
+
+    if (typeof path !== 'string') {
+        problems.push(`${location}.path must be a string`);
+        return;
+    }
+
+    try {
+        selectJsonPath(null, path);
+    } catch (error) {
+        problems.push(`${location}.path: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+/**
+ * Check a pattern rule and the rules nested in it
+ */
+function checkPatternRule(rule: unknown, location: string, problems: string[]): void {
+    if (!isObject(rule)) {
+        problems.push(`${location} must be an object`);
+        return;
+    }
+
+    const fields = RULE_FIELDS[rule.kind];
+    if (!fields) {
+        problems.push(`${location}.kind must be one of ${oneOf(Object.keys(RULE_FIELDS))}`);
+        return;
+    }
+
+    for (const key of Object.keys(rule)) {
+        if (key !== 'kind' && !fields.includes(key)) {
+            problems.push(`${location} has unknown field "${key}" for a ${rule.kind} rule`);
+        }
+    }
+
+    switch (rule.kind) {
+        case 'regex':
+            if (!isText(rule.pattern)) {
+                problems.push(`${location}.pattern must be a non-empty string`);
+            } else if (rule.flags !== undefined && (typeof rule.flags !== 'string' || !REGEX_FLAGS.test(rule.flags))) {
+                problems.push(`${location}.flags must only use the flags d, g, i, m, s, u and y`);
+            } else {
+                try {
+                    new RegExp(rule.pattern, rule.flags);
+                    if (hasNestedQuantifier(rule.pattern)) {
+                        problems.push(`${location}.pattern repeats a group that repeats itself, which can take exponential time`);
+                    }
+                } catch (error) {
+                    problems.push(`${location}.pattern: ${error instanceof Error ? error.message : String(error)}`);
+                }
+            }
+            checkJsonPath(rule.path, location, problems);
+            break;
+
+        case 'keywords':
+            if (!Array.isArray(rule.keywords) || rule.keywords.length === 0 || !rule.keywords.every(isText)) {
+                problems.push(`${location}.keywords must be a list of non-empty strings`);
+            }
+            if (rule.caseSensitive !== undefined && typeof rule.caseSensitive !== 'boolean') {
+                problems.push(`${location}.caseSensitive must be true or false`);
+            }
+            checkJsonPath(rule.path, location, problems);
+            break;
+
+        case 'entropy':
+            if (typeof rule.minEntropy !== 'number' || !(rule.minEntropy > 0)) {
+                problems.push(`${location}.minEntropy must be a number above 0`);
+            }
+            if (rule.minLength !== undefined && (!Number.isInteger(rule.minLength) || rule.minLength < 1)) {
+                problems.push(`${location}.minLength must be a whole number of at least 1`);
+            }
+            checkJsonPath(rule.path, location, problems);
+            break;
+
+        case 'length':
+            if (!Number.isInteger(rule.maxLength) || rule.maxLength < 0) {
+                problems.push(`${location}.maxLength must be a whole number of at least 0`);
+            }
+            checkJsonPath(rule.path, location, problems);
+            break;
+
+        case 'all':
+        case 'any':
+            if (!Array.isArray(rule.rules) || rule.rules.length === 0) {
+                problems.push(`${location}.rules must be a non-empty list of rules`);
+            } else {
+                rule.rules.forEach((child: unknown, index: number) => checkPatternRule(child, `${location}.rules[${index}]`, problems));
+            }
+            break;
+
+        case 'not':
+            checkPatternRule(rule.rule, `${location}.rule`, problems);
+            break;
+    }
+}
+
+/**
+ * Check the scope of a signature
+ */
+function checkScope(scope: unknown, problems: string[]): void {
+    if (!isObject(scope)) {
+        problems.push('scope must be an object');
+        return;
+    }
+
+    for (const [key, value] of Object.entries(scope)) {
+        if (key === 'direction') {
+            if (!DIRECTIONS.includes(value)) {
+                problems.push(`scope.direction must be one of ${oneOf(DIRECTIONS)}`);
+            }
+        } else if (SCOPE_GLOBS.includes(key)) {
+            if (!Array.isArray(value) || !value.every(glob => typeof glob === 'string')) {
+                problems.push(`scope.${key} must be a list of strings`);
+            }
+        } else {
+            problems.push(`scope has unknown field "${key}"`);
+        }
+    }
+}
+
+/**
+ * Check a single signature entry
+ * @returns The problems found, empty when the entry is valid
+ */
+function checkSignatureEntry(entry: unknown): string[] {
+    if (!isObject(entry)) {
+        return ['Entry must be an object'];
+    }
+
+    const problems: string[] = [];
+    for (const field of ['id', 'name', 'description', 'category']) {
+        if (!isText(entry[field])) {
+            problems.push(`${field} must be a non-empty string`);
+        }
+    }
+
+    if (entry.severity !== undefined && !SEVERITIES.includes(entry.severity)) {
+        problems.push(`severity must be one of ${oneOf(SEVERITIES)}`);
+    }
+
+    if (entry.action !== undefined && !ACTIONS.includes(entry.action)) {
+        problems.push(`action must be one of ${oneOf(ACTIONS)}`);
+    }
+
+    if (entry.scope !== undefined) {
+        checkScope(entry.scope, problems);
+    }
+
+    if (entry.metadata !== undefined && !isObject(entry.metadata)) {
+        problems.push('metadata must be an object');
+    }
+
+    switch (entry.type) {
+        case 'llm':
+            if (!isText(entry.prompt)) {
+                problems.push('prompt must be a non-empty string');
+            }
+            break;
+
+        case 'deterministic':
+            if (!isText(entry.functionFile)) {
+                problems.push('functionFile must name a JavaScript file in the deterministic directory');
+            } else if (!entry.functionFile.endsWith('.js') || entry.functionFile.startsWith('/') ||
+                entry.functionFile.includes('\\') || entry.functionFile.split('/').includes('..')) {
+                problems.push(`functionFile "${entry.functionFile}" must be a .js file inside the deterministic directory`);
+            }
+            if (entry.failOpen !== undefined && typeof entry.failOpen !== 'boolean') {
+                problems.push('failOpen must be true or false');
+            }
+            if (entry.timeoutMs !== undefined && (typeof entry.timeoutMs !== 'number' || !(entry.timeoutMs > 0))) {
+                problems.push('timeoutMs must be a number of milliseconds above 0');
+            }
+            break;
+
+        case 'pattern':
+            checkPatternRule(entry.rule, 'rule', problems);
+            break;
+
+        default:
+            problems.push(entry.type === undefined ?
+                `type is required, one of ${oneOf(SIGNATURE_TYPES)}` :
+                `Unknown type "${entry.type}", expected one of ${oneOf(SIGNATURE_TYPES)}`);
+    }
+
+    return problems;
+}
+
+/**
+ * Validate the entries of a signature file
+ * Entries with problems are left out, and an ID used again is an error on the later entry.
+ *
+ * @param entries The parsed contents of the file
+ * @param file The file name shown with the errors
+ * @returns The valid signatures and the problems found
+ */
+export function validateSignatures(entries: unknown, file: string): SignatureFileValidation {
+    if (!Array.isArray(entries)) {
+        return { signatures: [], errors: [{ file, message: 'The file must contain a list of signatures' }] };
+    }
+
+    const signatures: Signature[] = [];
+    const errors: SignatureValidationError[] = [];
+    const positions = new Map<string, number>();
+
+    entries.forEach((entry: any, index: number) => {
+        const signatureId = isObject(entry) && isText(entry.id) ? entry.id : undefined;
+        const problems = checkSignatureEntry(entry);
+
+        if (signatureId !== undefined) {
+            if (positions.has(signatureId)) {
+                problems.push(`Duplicate id "${signatureId}", already used by entry ${positions.get(signatureId) + 1}`);
+            } else {
+                positions.set(signatureId, index);
+            }
+        }
+
+        if (problems.length > 0) {
+            errors.push(...problems.map(message => ({ file, index, signatureId, message })));
+        } else {
+            signatures.push(entry as Signature);
+        }
+    });
+
+    return { signatures, errors };
+}
+
+/**
+ * Parse and validate a signature file
+ *
+ * @param text The contents of the file
+ * @param file The file name shown with the errors
+ * @returns The valid signatures and the problems found
+ */
+export function parseSignatureFile(text: string, file: string): SignatureFileValidation {
+    let entries: unknown;
+    try {
+        entries = JSON.parse(text);
+    } catch (error) {
+        return {
+            signatures: [],
+            errors: [{ file, message: `Not valid JSON: ${error instanceof Error ? error.message : String(error)}` }]
+        };
+    }
+
+    return validateSignatures(entries, file);
+}
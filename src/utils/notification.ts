@@ -2,6 +2,7 @@ import { Notification, app, ipcMain } from 'electron';
 import path from 'path';
 import { createLogger } from './logger';
 import { showMainWindow, MainWindowTabs } from '../ipc-handlers/ui-manager';
+import type { ScanResult } from '../services/scans/types';
 
 const logger = createLogger('Notification');
 
@@ -17,6 +18,8 @@ function registerNotificationClickHandler() {
                 data?.type === 'tool_discovery' ||
                 data?.type === 'tool_discovery_complete') {
                 showMainWindow(MainWindowTabs.Apps);
+            } else if (data?.type === 'signature_warning') {
+                showMainWindow(MainWindowTabs.Threats);
             }
         });
         isHandlerRegistered = true;
@@ -141,5 +144,22 @@ export const notification = {
         }
 
         this.show(title, body, 'config_update');
+    },
+
+    /**
+     * Show a notification for content that was allowed although signatures set to warn flagged it
+     * @param scanResult The completed scan
+     */
+    signatureWarning(scanResult: ScanResult): void {
+        const warnings = Object.values(scanResult.signatureVerifications)
+            .flatMap(models => Object.values(models))
+            .filter(verification => !verification.allowed && verification.action === 'warn');
+        const names = [...new Set(warnings.map(verification => verification.signatureName))];
+
+        const severity = scanResult.severity ? `${scanResult.severity.charAt(0).toUpperCase()}${scanResult.severity.slice(1)} severity: ` : '';
+        const title = `${severity}${names.length > 0 ? names.join(', ') : 'Signature warning'}`;
+        const body = `${scanResult.toolName} on ${scanResult.serverName} (${scanResult.appName}) was allowed, but flagged: ${warnings[0]?.reason || 'see the scan for details'}`;
+
+        this.show(title, body, 'signature_warning');
     }
 }; 
\ No newline at end of file
@@ -4,13 +4,11 @@ import { SignatureVerification, SignatureVerificationMap, ScanResult } from '../
 import { createLogger, LogLevel } from './logger';
 import { v4 as uuidv4 } from 'uuid';
 import { ServiceManager } from '../services/service-manager';
+import { RememberDecisionOptions } from '../services/settings/types';
 
 // Create a logger for security alerts
 const logger = createLogger('SecurityAlert', LogLevel.INFO);
 
-// Store allowed overrides to avoid showing the same alert repeatedly
-const userOverrides: Map<string, boolean> = new Map();
-
 // Track active security alerts by scanId
 const activeSecurityAlerts: Map<string, {
     resolve: (allowed: boolean) => void,
@@ -19,7 +17,7 @@ const activeSecurityAlerts: Map<string, {
     timerId: NodeJS.Timeout | null
 }> = new Map();
 
-// Generate a unique key for a verification result to use for overrides
+// Generate a key identifying the tool a verification result is for, used in logs
 function generateOverrideKey(scanResult: ScanResult): string {
     return `${scanResult.appName}:${scanResult.serverName}:${scanResult.toolName}`;
 }
@@ -49,16 +47,9 @@ function getFailedVerifications(verificationMap: SignatureVerificationMap): Sign
  * @returns Promise resolving to true if allowed by user, false otherwise
  */
 export async function showSecurityViolationAlert(scanResult: ScanResult): Promise<boolean> {
-    // Generate override key based on the scan info
+    // Remembered decisions are applied by the defender before it asks for an alert
     const overrideKey = generateOverrideKey(scanResult);
 
-    // Check if user already made a decision for this type of alert
-    if (userOverrides.has(overrideKey)) {
-        const isAllowed = userOverrides.get(overrideKey) || false;
-        logger.info(`Using existing override for ${overrideKey}: ${isAllowed ? 'ALLOWED' : 'BLOCKED'}`);
-        return isAllowed;
-    }
-
     logger.info(`Showing security alert for ${overrideKey}`, {
         app: scanResult.appName,
         server: scanResult.serverName,
@@ -93,9 +84,9 @@ export async function showSecurityViolationAlert(scanResult: ScanResult): Promis
 
         // Register IPC handlers for user decisions if not already registered
         if (!ipcMain.listenerCount('security-alert-decision')) {
-            ipcMain.on('security-alert-decision', (event, { scanId, allowed, remember }) => {
+            ipcMain.on('security-alert-decision', (event, { scanId, allowed, remember, rememberOptions }) => {
                 // Handle the user's decision
-                handleUserDecision(scanId, allowed, remember);
+                handleUserDecision(scanId, allowed, remember, rememberOptions);
             });
         }
     });
@@ -104,19 +95,44 @@ export async function showSecurityViolationAlert(scanResult: ScanResult): Promis
 /**
  * Handles the user's decision from the security alert window
  */
-function handleUserDecision(scanId: string, allowed: boolean, remember: boolean): void {
+function handleUserDecision(
+    scanId: string,
+    allowed: boolean,
+    remember: boolean,
+    rememberOptions?: RememberDecisionOptions
+): void {
     const alert = activeSecurityAlerts.get(scanId);
     if (!alert) return;
 
-    const { scanResult, resolve } = alert;
+    const { scanResult } = alert;
     const overrideKey = generateOverrideKey(scanResult);
 
     // Log the decision
     logger.info(`User ${allowed ? 'allowed' : 'blocked'} operation ${remember ? 'permanently' : 'once'}: ${overrideKey}`);
 
-    // Store the decision if requested
-    if (remember) {
-        userOverrides.set(overrideKey, allowed);
+    // Store the decision if requested, the defender applies it to matching traffic
+    // Changed tool definitions are always reviewed, so those decisions aren't stored
+    const scanType = scanResult.scanType || (scanResult.isResponse ? 'tool_response' : 'tool_call');
+    if (remember && scanType === 'tool_change') {
+        logger.info(`Not remembering decision on changed tool definitions: ${overrideKey}`);
+    } else if (remember) {
+        const scope = rememberOptions?.scope || 'tool';
+        const duration = rememberOptions?.duration ?? null;
+        const createdAt = Date.now();
+
+        ServiceManager.getInstance().settingsService.addDecisionOverride({
+            id: uuidv4(),
+            appName: scanResult.appName,
+            serverName: scanResult.serverName,
+            toolName: scanResult.toolName,
+            scanType,
+            toolArgs: scanResult.toolArgs,
+            scope,
+            allowed,
+            createdAt,
+            expiresAt: duration === null ? null : createdAt + duration
+        });
+        logger.info(`Remembered ${scope} decision for ${overrideKey}`);
     }
 
     // Resolve the promise with the user's decision
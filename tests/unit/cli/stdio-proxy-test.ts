@@ -0,0 +1,222 @@
+/**
+ * Unit tests for the STDIO proxy CLI
+ *
+ * These tests run the built CLI between the test, acting as the MCP client, and a small
+ * stub MCP server, with a stub of the defender's verification API, and verify that:
+ * 1. Messages are written in arrival order, but a call waiting on verification doesn't hold up later messages
+ * 2. Only responses to tracked calls are verified, and 1 and "1" are different calls
+ * 3. A call cancelled while it's being verified never reaches the server, nor does its cancellation
+ * 4. Blocked calls are answered by the proxy and blocked responses are replaced
+ * 5. Every tools/list response is registered with the defender, even while another listing is pending
+ *
+ * The CLI talks to the defender on its fixed port, so the app must not be running.
+ * Run `npm run build:cli` first.
+ */
+
+import * as os from 'os';
+import * as path from 'path';
+import * as http from 'http';
+import { spawn, ChildProcessWithoutNullStreams } from 'child_process';
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+
+const CLI_PATH = path.join(__dirname, '../../../dist/bin/cli.js');
+const DEFENDER_PORT = 28173;
+
+// Stub MCP server - answers tool calls with the path they read, pings with every message it received
+// and listings with one tool
+const STUB_SERVER = `
+const seen = [];
+require('readline').createInterface({ input: process.stdin }).on('line', line => {
+    const message = JSON.parse(line);
+    seen.push(message);
+    if (message.id === undefined) return;
+    const result = message.method === 'ping'
+        ? { seen }
+        : message.method === 'tools/list'
+        ? { tools: [{ name: 'read_file', description: 'Read a file' }] }
+        : { content: [{ type: 'text', text: 'contents of ' + message.params.arguments.path }] };
+    process.stdout.write(JSON.stringify({ jsonrpc: '2.0', id: message.id, result }) + '\\n');
+});
+`;
+
+// Calls to this path wait on verification until released
+const SLOW_PATH = '/tmp/slow.txt';
+
+let cli: ChildProcessWithoutNullStreams;
+
+// Messages the CLI wrote to the client
+const clientMessages: any[] = [];
+
+// Responses the CLI sent for verification
+const verifiedResponses: any[] = [];
+
+// Tool listings the CLI registered
+const registrations: any[] = [];
+
+// Verifications of slow calls waiting to be answered
+const heldVerifications: (() => void)[] = [];
+
+// The listener is added separately, older TypeScript can't read the createServer typings of @types/node
+const defenderServer = http.createServer();
+defenderServer.on('request', (req: http.IncomingMessage, res: http.ServerResponse) => {
+    let body = '';
+    req.on('data', (chunk: Buffer) => body += chunk);
+    req.on('end', () => {
+        const data = JSON.parse(body || '{}');
+        const answer = (verdict: any) => {
+            res.writeHead(200, { 'content-type': 'application/json' });
+            res.end(JSON.stringify(verdict));
+        };
+
+        if (req.url === '/verify/request') {
+            const filePath: string = data.message.params.arguments.path;
+            if (filePath === SLOW_PATH) {
+                heldVerifications.push(() => answer({ blocked: false }));
+            } else {
+                answer(filePath.includes('.ssh') ? { blocked: true, reason: 'Reads SSH keys' } : { blocked: false });
+            }
+        } else if (req.url === '/verify/response') {
+            verifiedResponses.push(data.message);
+            answer(JSON.stringify(data.message.result).includes('.pem') ? { blocked: true, reason: 'Contains a key' } : { blocked: false });
+        } else if (req.url === '/register-tools') {
+            registrations.push(data);
+            answer({ hiddenTools: [] });
+        } else {
+            answer({});
+        }
+    });
+});
+
+before(async () => {
+    await new Promise<void>(resolve => defenderServer.listen(DEFENDER_PORT, '127.0.0.1', resolve));
+
+    cli = spawn(process.execPath, [CLI_PATH, process.execPath, '-e', STUB_SERVER], {
+        env: { ...process.env, MCP_DEFENDER_LOG_DIR: path.join(os.tmpdir(), 'mcp-defender-cli-tests') }
+    });
+    cli.stderr.resume();
+
+    let output = '';
+    cli.stdout.on('data', (chunk: Buffer) => {
+        output += chunk;
+        const lines = output.split('\n');
+        output = lines.pop();
+        clientMessages.push(...lines.filter(Boolean).map(line => JSON.parse(line)));
+    });
+});
+
+after(async () => {
+    cli.stdin.end();
+    await new Promise(resolve => cli.once('exit', resolve));
+    defenderServer.closeAllConnections();
+    defenderServer.close();
+});
+
+// Send a message to the CLI as the client would
+function send(message: any): void {
+    cli.stdin.write(JSON.stringify(message) + '\n');
+}
+
+// Wait until a condition holds
+async function waitFor(condition: () => boolean, timeout = 10000): Promise<void> {
+    const start = Date.now();
+    while (!condition()) {
+        if (Date.now() - start > timeout) {
+            throw new Error('Timed out waiting for the CLI');
+        }
+        await new Promise(resolve => setTimeout(resolve, 10));
+    }
+}
+
+// Wait for the message the CLI wrote to the client for a request
+async function responseTo(id: string | number): Promise<any> {
+    await waitFor(() => clientMessages.some(message => message.id === id));
+    return clientMessages.find(message => message.id === id);
+}
+
+// Get the messages the stub server received, by asking it
+async function serverMessages(pingId: string): Promise<any[]> {
+    send({ jsonrpc: '2.0', id: pingId, method: 'ping' });
+    return (await responseTo(pingId)).result.seen;
+}
+
+// Build a tools/call request
+function toolCall(id: string | number, filePath: string) {
+    return { jsonrpc: '2.0', id, method: 'tools/call', params: { name: 'read_file', arguments: { path: filePath, user_intent: 'Read a file' } } };
+}
+
+describe('Message order', () => {
+    it('should write later messages while a call waits on verification, and the call once verified', async () => {
+        send(toolCall(1, SLOW_PATH));
+        await waitFor(() => heldVerifications.length === 1);
+        send({ jsonrpc: '2.0', id: 2, method: 'ping' });
+        send({ jsonrpc: '2.0', id: 3, method: 'ping' });
+
+        await responseTo(3);
+        assert.deepStrictEqual(clientMessages.map(message => message.id), [2, 3]);
+
+        heldVerifications.shift()();
+        const response = await responseTo(1);
+
+        assert.strictEqual(response.result.content[0].text, `contents of ${SLOW_PATH}`);
+        assert.deepStrictEqual(clientMessages.map(message => message.id), [2, 3, 1]);
+    });
+});
+
+describe('Pending calls', () => {
+    it('should only verify the response to the tracked call of the same ID', async () => {
+        verifiedResponses.length = 0;
+        send(toolCall(4, '/tmp/a.txt'));
+        send({ jsonrpc: '2.0', id: '4', method: 'ping' });
+
+        await responseTo('4');
+        await responseTo(4);
+
+        assert.deepStrictEqual(verifiedResponses.map(message => message.id), [4]);
+    });
+
+    it('should drop a call cancelled while it is being verified', async () => {
+        send(toolCall(5, SLOW_PATH));
+        await waitFor(() => heldVerifications.length === 1);
+        send({ jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: 5, reason: 'User cancelled' } });
+        heldVerifications.shift()();
+
+        const seen = await serverMessages('after-cancel');
+
+        assert.ok(!seen.some(message => message.id === 5 || message.method === 'notifications/cancelled'));
+        assert.ok(!clientMessages.some(message => message.id === 5));
+    });
+});
+
+describe('Blocking', () => {
+    it('should answer blocked calls without forwarding them', async () => {
+        send(toolCall(6, '/home/user/.ssh/id_rsa'));
+        const response = await responseTo(6);
+        const seen = await serverMessages('after-block');
+
+        assert.strictEqual(response.result.content[0].text, 'MCP Defender blocked tool call to read_file - Reads SSH keys');
+        assert.ok(!seen.some(message => message.id === 6));
+        assert.ok(seen.every(message => message.params?.arguments?.user_intent === undefined), 'user_intent is stripped');
+    });
+
+    it('should replace blocked responses', async () => {
+        send(toolCall(7, '/tmp/key.pem'));
+        const response = await responseTo(7);
+
+        assert.strictEqual(response.result.content[0].text, 'MCP Defender blocked response from tool read_file - Contains a key');
+    });
+});
+
+describe('Tool listings', () => {
+    it('should register and extend every listing when the client lists tools twice', async () => {
+        send({ jsonrpc: '2.0', id: 'list-1', method: 'tools/list' });
+        send({ jsonrpc: '2.0', id: 'list-2', method: 'tools/list' });
+
+        const listings = [await responseTo('list-1'), await responseTo('list-2')];
+
+        for (const listing of listings) {
+            assert.ok(listing.result.tools[0].inputSchema.properties.user_intent, 'The tools ask for the user intent');
+        }
+        assert.strictEqual(registrations.length, 2);
+    });
+});
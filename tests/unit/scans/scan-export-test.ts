@@ -0,0 +1,189 @@
+/**
+ * Unit tests for scan history export
+ *
+ * These tests verify that:
+ * 1. CSV rows are quoted, and fields a spreadsheet would run as formulas are escaped
+ * 2. JSON Lines hold one scan result per line
+ * 3. SARIF logs have the blocking signatures as rules, each blocked scan as a result and
+ *    the servers and tools as logical locations
+ * 4. Redaction leaves out tool arguments, and the evidence and reasons quoting them, in every format
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { REDACTED_ARGUMENTS, writeScanExport } from '../../../src/services/scans/export';
+import { ScanExportOptions, ScanResult } from '../../../src/services/scans/types';
+
+const TOOL = { name: 'MCP Defender', version: '1.1.2' };
+
+const SECRET_ARGS = '{"command":"cat ~/.ssh/id_rsa"}';
+
+const allowedScan: ScanResult = {
+    id: 'allowed-1',
+    date: new Date('2026-10-01T12:00:00.000Z'),
+    appName: 'Cursor',
+    serverName: 'filesystem',
+    serverVersion: '1.0.0',
+    toolName: 'read_file',
+    toolArgs: '=HYPERLINK("http://example.com"), "quoted"',
+    allowed: true,
+    signatureVerifications: {},
+    scanTime: 12,
+    state: 'completed'
+};
+
+const blockedScan: ScanResult = {
+    id: 'blocked-1',
+    date: new Date('2026-10-01T12:05:00.000Z'),
+    appName: 'Claude Desktop',
+    serverName: 'shell',
+    serverVersion: '2.0.0',
+    toolName: 'run_command',
+    toolArgs: SECRET_ARGS,
+    allowed: false,
+    signatureVerifications: {
+        'ssh-keys': {
+            'gpt-4o': {
+                signatureId: 'ssh-keys',
+                signatureName: 'SSH Key Access',
+                allowed: false,
+                reason: 'Reads a private key',
+                evidence: ['cat ~/.ssh/id_rsa'],
+                severity: 'critical'
+            }
+        },
+        'shell-usage': {
+            'gpt-4o': { signatureId: 'shell-usage', signatureName: 'Shell Usage', allowed: true, reason: 'Fine' }
+        }
+    },
+    scanTime: 80,
+    state: 'completed',
+    severity: 'critical',
+    action: 'block'
+};
+
+// A blocked scan whose signature quoted the arguments in its reason
+const quotingScan: ScanResult = {
+    ...blockedScan,
+    id: 'quoting-1',
+    signatureVerifications: {
+        'ssh-keys': {
+            'gpt-4o': {
+                ...blockedScan.signatureVerifications['ssh-keys']['gpt-4o'],
+                reason: 'The command "cat ~/.ssh/id_rsa" reads a private key'
+            }
+        }
+    }
+};
+
+// A scan blocked without any signature flagging it
+const failedScan: ScanResult = {
+    ...allowedScan,
+    id: 'failed-1',
+    date: new Date('2026-10-01T12:10:00.000Z'),
+    serverName: 'shell',
+    toolName: 'run_command',
+    allowed: false,
+    state: 'error'
+};
+
+// Run an export and join its pieces
+function runExport(scans: ScanResult[], options: ScanExportOptions): { output: string; count: number } {
+    const chunks: string[] = [];
+    const count = writeScanExport(scans, options, TOOL, chunk => chunks.push(chunk));
+    return { output: chunks.join(''), count };
+}
+
+describe('CSV export', () => {
+    it('should write a header and one quoted row per scan', () => {
+        const { output, count } = runExport([blockedScan, allowedScan], { format: 'csv' });
+        const rows = output.split('\r\n');
+
+        assert.strictEqual(count, 2);
+        assert.strictEqual(rows[0], 'id,date,app,server,server_version,tool,scan_type,verdict,severity,action,signatures,reasons,scan_time_ms,arguments');
+        assert.strictEqual(
+            rows[1],
+            'blocked-1,2026-10-01T12:05:00.000Z,Claude Desktop,shell,2.0.0,run_command,tool_call,blocked,critical,block,ssh-keys,Reads a private key,80,' +
+            '"{""command"":""cat ~/.ssh/id_rsa""}"'
+        );
+        assert.ok(rows[2].endsWith(',"\'=HYPERLINK(""http://example.com""), ""quoted"""'));
+        assert.strictEqual(rows[3], '');
+    });
+
+    it('should leave out tool arguments and the reasons quoting them when redacting', () => {
+        const { output } = runExport([quotingScan], { format: 'csv', redactArguments: true });
+        const row = output.split('\r\n')[1].split(',');
+
+        assert.ok(!output.includes('id_rsa'));
+        assert.strictEqual(row[11], REDACTED_ARGUMENTS);
+        assert.strictEqual(row[13], REDACTED_ARGUMENTS);
+    });
+});
+
+describe('JSON Lines export', () => {
+    it('should write one scan result per line', () => {
+        const { output, count } = runExport([blockedScan, allowedScan], { format: 'jsonl' });
+        const lines = output.trim().split('\n').map(line => JSON.parse(line));
+
+        assert.strictEqual(count, 2);
+        assert.deepStrictEqual(lines.map(line => line.id), ['blocked-1', 'allowed-1']);
+        assert.strictEqual(lines[0].toolArgs, SECRET_ARGS);
+    });
+
+    it('should leave out tool arguments, evidence and reasons when redacting', () => {
+        const { output } = runExport([quotingScan], { format: 'jsonl', redactArguments: true });
+        const line = JSON.parse(output);
+
+        assert.ok(!output.includes('id_rsa'));
+        assert.strictEqual(line.toolArgs, REDACTED_ARGUMENTS);
+        assert.strictEqual(line.signatureVerifications['ssh-keys']['gpt-4o'].reason, REDACTED_ARGUMENTS);
+        assert.strictEqual(line.signatureVerifications['ssh-keys']['gpt-4o'].evidence, undefined);
+        assert.strictEqual(quotingScan.signatureVerifications['ssh-keys']['gpt-4o'].evidence.length, 1);
+    });
+});
+
+describe('SARIF export', () => {
+    it('should report blocked scans as results of the signatures that blocked them', () => {
+        const { output, count } = runExport([failedScan, blockedScan, allowedScan], { format: 'sarif' });
+        const log = JSON.parse(output);
+        const [run] = log.runs;
+
+        assert.strictEqual(count, 2);
+        assert.strictEqual(log.version, '2.1.0');
+        assert.deepStrictEqual(run.tool.driver.name, 'MCP Defender');
+        assert.deepStrictEqual(run.tool.driver.rules.map((rule: { id: string }) => rule.id), ['mcp-defender/blocked', 'ssh-keys']);
+        assert.strictEqual(run.tool.driver.rules[1].name, 'SSH Key Access');
+        assert.strictEqual(run.tool.driver.rules[1].defaultConfiguration.level, 'error');
+
+        const result = run.results[1];
+        assert.strictEqual(result.ruleId, 'ssh-keys');
+        assert.strictEqual(result.ruleIndex, 1);
+        assert.strictEqual(result.kind, 'fail');
+        assert.match(result.message.text, /Claude Desktop was blocked from using run_command on shell\. SSH Key Access: Reads a private key/);
+        assert.strictEqual(result.properties.scanId, 'blocked-1');
+        assert.strictEqual(result.properties.toolArgs, SECRET_ARGS);
+    });
+
+    it('should record servers and their tools as logical locations', () => {
+        const { output } = runExport([blockedScan, failedScan], { format: 'sarif' });
+        const [run] = JSON.parse(output).runs;
+
+        assert.deepStrictEqual(run.logicalLocations, [
+            { name: 'shell', fullyQualifiedName: 'shell', kind: 'module' },
+            { name: 'run_command', fullyQualifiedName: 'shell/run_command', kind: 'function', parentIndex: 0 }
+        ]);
+        for (const result of run.results) {
+            assert.strictEqual(result.locations[0].logicalLocations[0].index, 1);
+            assert.strictEqual(result.locations[0].logicalLocations[0].fullyQualifiedName, 'shell/run_command');
+        }
+    });
+
+    it('should leave out tool arguments and the reasons quoting them when redacting', () => {
+        const { output } = runExport([quotingScan], { format: 'sarif', redactArguments: true });
+        const [result] = JSON.parse(output).runs[0].results;
+
+        assert.ok(!output.includes('id_rsa'));
+        assert.strictEqual(result.properties.toolArgs, REDACTED_ARGUMENTS);
+        assert.strictEqual(result.message.text, `Claude Desktop was blocked from using run_command on shell. SSH Key Access: ${REDACTED_ARGUMENTS}`);
+    });
+});
@@ -0,0 +1,231 @@
+/**
+ * Unit tests for the scan history store
+ *
+ * These tests verify that:
+ * 1. Scans are appended, replaced by later writes and found again when the store reopens
+ * 2. Queries filter on the indexed fields and return pages newest first
+ * 3. Scans past the age and count limits are dropped
+ * 4. Crashes during a write or a compaction leave a usable store, and compaction keeps every scan
+ */
+
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { ScanStore } from '../../../src/services/scans/store';
+import { ScanResult } from '../../../src/services/scans/types';
+
+const NO_LIMITS = { maxAgeDays: 0, maxCount: 0 };
+
+let directory: string;
+
+// Build a completed scan at a number of minutes after a fixed time
+function makeScan(id: string, minute: number, overrides: Partial<ScanResult> = {}): ScanResult {
+    return {
+        id,
+        date: new Date(Date.UTC(2026, 9, 1, 12, minute)),
+        appName: 'Cursor',
+        serverName: 'filesystem',
+        serverVersion: '1.0.0',
+        toolName: 'read_file',
+        toolArgs: '{"path":"/tmp/a"}',
+        allowed: true,
+        signatureVerifications: {},
+        scanTime: 12,
+        state: 'completed',
+        ...overrides
+    };
+}
+
+// A scan a signature blocked
+function makeBlockedScan(id: string, minute: number, signatureId: string): ScanResult {
+    return makeScan(id, minute, {
+        allowed: false,
+        signatureVerifications: {
+            [signatureId]: { model: { signatureId, signatureName: signatureId, allowed: false, reason: 'Flagged' } }
+        }
+    });
+}
+
+// Open a store on the test directory
+function openStore(retention = NO_LIMITS): ScanStore {
+    const store = new ScanStore(directory, retention);
+    store.open();
+    return store;
+}
+
+// Get the segment files of the test directory, oldest first
+function segmentFiles(): string[] {
+    return fs.readdirSync(directory).filter(file => file.startsWith('segment-')).sort();
+}
+
+beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'scan-store-'));
+});
+
+afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+});
+
+describe('Scan storage', () => {
+    it('should keep the latest write of a scan across restarts', () => {
+        const store = openStore();
+        store.put(makeScan('a', 1, { state: 'in_progress' }));
+        store.put(makeScan('b', 2));
+        store.put(makeScan('a', 1, { allowed: false }));
+        store.close();
+
+        const reopened = openStore();
+        const scan = reopened.get('a');
+
+        assert.strictEqual(reopened.size, 2);
+        assert.strictEqual(scan.allowed, false);
+        assert.strictEqual(scan.state, 'completed');
+        assert.ok(scan.date instanceof Date);
+        assert.strictEqual(reopened.get('missing'), null);
+        reopened.close();
+    });
+
+    it('should give an ID to scans without one', () => {
+        const store = openStore();
+        const stored = store.put({ ...makeScan('', 1), id: undefined });
+
+        assert.ok(stored.id);
+        assert.strictEqual(store.get(stored.id).toolName, 'read_file');
+        store.close();
+    });
+});
+
+describe('Scan queries', () => {
+    it('should filter on the indexed fields and return pages newest first', () => {
+        const store = openStore();
+        for (let minute = 0; minute < 10; minute++) {
+            store.put(makeScan(`scan-${minute}`, minute, { appName: minute % 2 === 0 ? 'Cursor' : 'Claude Desktop' }));
+        }
+        store.put(makeBlockedScan('blocked', 20, 'ssh-keys'));
+        store.put(makeScan('warned', 21, { action: 'warn' }));
+
+        const firstPage = store.query({ limit: 5 });
+        assert.strictEqual(firstPage.total, 12);
+        assert.deepStrictEqual(firstPage.scans.map(scan => scan.id), ['warned', 'blocked', 'scan-9', 'scan-8', 'scan-7']);
+        assert.deepStrictEqual(store.query({ offset: 10, limit: 5 }).scans.map(scan => scan.id), ['scan-1', 'scan-0']);
+
+        assert.deepStrictEqual(store.query({ appName: 'Claude Desktop', limit: 2 }).scans.map(scan => scan.id), ['scan-9', 'scan-7']);
+        assert.deepStrictEqual(store.query({ verdict: 'blocked' }).scans.map(scan => scan.id), ['blocked']);
+        assert.deepStrictEqual(store.query({ verdict: 'warned' }).scans.map(scan => scan.id), ['warned']);
+        assert.deepStrictEqual(store.query({ signatureId: 'ssh-keys', appName: 'Cursor' }).scans.map(scan => scan.id), ['blocked']);
+        assert.strictEqual(store.query({ toolName: 'write_file' }).total, 0);
+        assert.strictEqual([...store.iterate({ appName: 'Cursor', limit: 1 })].length, 7);
+
+        const from = Date.UTC(2026, 9, 1, 12, 3);
+        const to = Date.UTC(2026, 9, 1, 12, 5);
+        assert.deepStrictEqual(store.query({ from, to }).scans.map(scan => scan.id), ['scan-5', 'scan-4', 'scan-3']);
+        assert.deepStrictEqual(store.query({ from, to, appName: 'Cursor' }).scans.map(scan => scan.id), ['scan-4']);
+        store.close();
+    });
+
+    it('should count allowed and blocked scans over time and list the filter values', () => {
+        const store = openStore();
+        store.put(makeScan('a', 1));
+        store.put(makeBlockedScan('b', 2, 'ssh-keys'));
+        store.put(makeScan('c', 20, { serverName: 'github' }));
+
+        assert.deepStrictEqual(store.getTimeline({}, 15 * 60 * 1000), [
+            { timestamp: Date.UTC(2026, 9, 1, 12, 0), allowed: 1, blocked: 1 },
+            { timestamp: Date.UTC(2026, 9, 1, 12, 15), allowed: 1, blocked: 0 }
+        ]);
+        assert.deepStrictEqual(store.getFilterValues(), {
+            appNames: ['Cursor'],
+            serverNames: ['filesystem', 'github'],
+            toolNames: ['read_file'],
+            signatureIds: ['ssh-keys']
+        });
+        store.close();
+    });
+});
+
+describe('Scan retention', () => {
+    it('should drop the oldest scans past the count limit', () => {
+        const store = openStore({ maxAgeDays: 0, maxCount: 3 });
+        for (let minute = 0; minute < 5; minute++) {
+            store.put(makeBlockedScan(`scan-${minute}`, minute, `signature-${minute}`));
+        }
+
+        assert.deepStrictEqual(store.query().scans.map(scan => scan.id), ['scan-4', 'scan-3', 'scan-2']);
+        assert.deepStrictEqual(store.getFilterValues().signatureIds, ['signature-2', 'signature-3', 'signature-4']);
+        store.close();
+    });
+
+    it('should drop scans older than the age limit', () => {
+        const store = openStore();
+        store.put(makeScan('old', 0, { date: new Date(Date.now() - 10 * 24 * 60 * 60 * 1000) }));
+        store.put(makeScan('recent', 0, { date: new Date(Date.now() - 60 * 60 * 1000) }));
+
+        store.setRetention({ maxAgeDays: 7, maxCount: 0 });
+
+        assert.deepStrictEqual(store.query().scans.map(scan => scan.id), ['recent']);
+        store.close();
+    });
+});
+
+describe('Crash safety and compaction', () => {
+    it('should drop a line cut short and keep appending after it', () => {
+        const store = openStore();
+        store.put(makeScan('a', 1));
+        store.close();
+
+        const [segment] = segmentFiles();
+        fs.appendFileSync(path.join(directory, segment), '{"id":"b","date":"2026-');
+
+        const reopened = openStore();
+        reopened.put(makeScan('c', 3));
+        reopened.close();
+
+        const lines = fs.readFileSync(path.join(directory, segment), 'utf8').trim().split('\n');
+        assert.deepStrictEqual(lines.map(line => JSON.parse(line).id), ['a', 'c']);
+        assert.deepStrictEqual(openStore().query().scans.map(scan => scan.id), ['c', 'a']);
+    });
+
+    it('should keep every scan through a compaction and move to new segments', () => {
+        const store = openStore();
+        const largeArgs = 'x'.repeat(200 * 1024);
+        for (let index = 0; index < 30; index++) {
+            store.put(makeScan(`scan-${index}`, index, { state: 'in_progress', toolArgs: largeArgs }));
+            store.put(makeScan(`scan-${index}`, index, { toolArgs: largeArgs }));
+        }
+        const before = segmentFiles();
+        assert.ok(before.length > 1, 'writes should move to a new segment once one is full');
+
+        store.compact();
+        const after = segmentFiles();
+        const size = after.reduce((total, file) => total + fs.statSync(path.join(directory, file)).size, 0);
+        assert.ok(after.every(file => !before.includes(file)));
+        assert.ok(size < 30 * (largeArgs.length + 1024), 'only the latest write of each scan should be kept');
+
+        store.put(makeScan('new', 40));
+        store.close();
+
+        const reopened = openStore();
+        assert.strictEqual(reopened.size, 31);
+        assert.strictEqual(reopened.get('scan-12').state, 'completed');
+        assert.strictEqual(reopened.get('scan-12').toolArgs.length, largeArgs.length);
+        reopened.close();
+    });
+
+    it('should discard the segments of a compaction interrupted before the manifest changed', () => {
+        const store = openStore();
+        store.put(makeScan('a', 1));
+        store.close();
+
+        // Copied scans of a compaction that didn't finish
+        fs.writeFileSync(path.join(directory, 'segment-000009.jsonl'), `${JSON.stringify(makeScan('a', 1, { allowed: false }))}\n`);
+        fs.writeFileSync(path.join(directory, 'manifest.json.tmp'), '{"segm');
+
+        const reopened = openStore();
+        assert.strictEqual(reopened.get('a').allowed, true);
+        assert.ok(!segmentFiles().includes('segment-000009.jsonl'));
+        assert.ok(!fs.existsSync(path.join(directory, 'manifest.json.tmp')));
+        reopened.close();
+    });
+});
@@ -0,0 +1,155 @@
+/**
+ * Unit tests for signature feeds
+ *
+ * These tests verify that:
+ * 1. Feeds are only accepted when signed with a pinned ed25519 key, and carry no code
+ * 2. Older and rolled back versions are not installed, and rollback finds the last good version
+ * 3. User signatures override feeds, which override bundled signatures
+ * 4. Feeds are read from file:// URLs, plain HTTP is refused for other hosts, and few versions are kept
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import {
+    checkFeedVersion,
+    compareFeedVersions,
+    fetchFeedDocument,
+    getRollbackVersion,
+    mergeSignatureLayers,
+    storeFeedVersion,
+    verifyFeedDocument
+} from '../../../src/services/signatures/feeds';
+import { Signature } from '../../../src/services/signatures/types';
+
+const { publicKey, privateKey } = crypto.generateKeyPairSync('ed25519');
+
+// The pinned key as base64 of the raw 32 bytes, the end of its SPKI encoding
+const rawPublicKey = publicKey.export({ format: 'der', type: 'spki' }).subarray(-32).toString('base64');
+
+const llmSignature = {
+    id: 'feed-injection',
+    name: 'Feed Injection',
+    description: 'Flags hidden instructions',
+    category: 'prompt_injection',
+    type: 'llm',
+    prompt: 'Block hidden instructions'
+} as Signature;
+
+// Sign a feed payload with a key
+function signFeed(payload: object, key = privateKey): string {
+    const bytes = Buffer.from(JSON.stringify(payload));
+    return JSON.stringify({
+        payload: bytes.toString('base64'),
+        signature: crypto.sign(null, bytes, key).toString('base64')
+    });
+}
+
+describe('Feed verification', () => {
+    it('should accept a feed signed with a pinned key in base64 or PEM form', () => {
+        const document = signFeed({ version: '2026.10.1', signatures: [llmSignature] });
+        const pem = publicKey.export({ format: 'pem', type: 'spki' }).toString().replace(/\n/g, ' ');
+
+        for (const key of [rawPublicKey, pem]) {
+            const feed = verifyFeedDocument(document, [key]);
+            assert.strictEqual(feed.version, '2026.10.1');
+            assert.deepStrictEqual(feed.signatures, [llmSignature]);
+        }
+    });
+
+    it('should refuse a tampered feed or one signed with another key', () => {
+        const document = JSON.parse(signFeed({ version: '1', signatures: [llmSignature] }));
+        const tampered = JSON.stringify({
+            ...document,
+            payload: Buffer.from(JSON.stringify({ version: '1', signatures: [] })).toString('base64')
+        });
+        const otherKey = crypto.generateKeyPairSync('ed25519').privateKey;
+
+        assert.throws(() => verifyFeedDocument(tampered, [rawPublicKey]), /does not match any pinned key/);
+        assert.throws(() => verifyFeedDocument(signFeed({ version: '1', signatures: [] }, otherKey), [rawPublicKey]), /does not match any pinned key/);
+        assert.throws(() => verifyFeedDocument(JSON.stringify(document), []), /No public key pinned/);
+    });
+
+    it('should leave out deterministic signatures and the source claimed by the feed', () => {
+        const deterministic = { ...llmSignature, id: 'feed-code', type: 'deterministic', functionFile: 'code.js' };
+        const claimed = { ...llmSignature, source: { kind: 'user' } };
+
+        const feed = verifyFeedDocument(signFeed({ version: '1', signatures: [claimed, deterministic] }), [rawPublicKey]);
+
+        assert.deepStrictEqual(feed.signatures, [llmSignature]);
+        assert.deepStrictEqual(feed.rejected, ['feed-code']);
+    });
+
+    it('should refuse versions that are not plain file names', () => {
+        assert.throws(() => verifyFeedDocument(signFeed({ version: '../1', signatures: [] }), [rawPublicKey]), /must have a version/);
+    });
+});
+
+describe('Feed versions', () => {
+    it('should compare numeric parts as numbers', () => {
+        assert.ok(compareFeedVersions('2026.10.2', '2026.9.30') > 0);
+        assert.ok(compareFeedVersions('1.2', '1.2.1') < 0);
+        assert.strictEqual(compareFeedVersions('1.0', '1.0'), 0);
+    });
+
+    it('should only install newer versions that were not rolled back', () => {
+        const record = { activeVersion: '2', versions: ['2', '1'], rejectedVersion: '3' };
+
+        assert.deepStrictEqual(checkFeedVersion(record, '2'), { install: false });
+        assert.match(checkFeedVersion(record, '1').reason, /older than the installed version 2/);
+        assert.match(checkFeedVersion(record, '3').reason, /was rolled back/);
+        assert.deepStrictEqual(checkFeedVersion(record, '4'), { install: true });
+    });
+
+    it('should roll back to the newest kept version older than the active one', () => {
+        assert.strictEqual(getRollbackVersion({ activeVersion: '3', versions: ['4', '3', '1', '2'] }), '2');
+        assert.strictEqual(getRollbackVersion({ activeVersion: '1', versions: ['1'] }), undefined);
+    });
+});
+
+describe('Signature precedence', () => {
+    it('should take each signature from the first source that has it', () => {
+        const edited = { ...llmSignature, prompt: 'Edited by the user' } as Signature;
+        const bundledOnly = { ...llmSignature, id: 'bundled-only' } as Signature;
+
+        const merged = mergeSignatureLayers([
+            { source: { kind: 'user' }, signatures: [edited] },
+            { source: { kind: 'feed', feedId: 'feed-1', feedName: 'Feed', version: '2' }, signatures: [llmSignature] },
+            { source: { kind: 'bundled' }, signatures: [llmSignature, bundledOnly] }
+        ]);
+
+        assert.deepStrictEqual(merged.map(signature => [signature.id, signature.source.kind]), [
+            ['feed-injection', 'user'],
+            ['bundled-only', 'bundled']
+        ]);
+        assert.strictEqual((merged[0] as { prompt: string }).prompt, 'Edited by the user');
+    });
+});
+
+describe('Feed storage', () => {
+    it('should read file URLs, refuse remote plain HTTP and keep the newest versions', async () => {
+        const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'signature-feeds-'));
+        try {
+            const document = signFeed({ version: '1', signatures: [] });
+            const filePath = path.join(directory, 'feed.json');
+            fs.writeFileSync(filePath, document);
+
+            assert.strictEqual(await fetchFeedDocument(pathToFileURL(filePath).href), document);
+            await assert.rejects(fetchFeedDocument('http://feeds.example.com/feed.json'), /must use https/);
+
+            let versions: string[] = [];
+            for (let version = 1; version <= 7; version++) {
+                versions = storeFeedVersion(directory, 'feed-1', String(version), document, versions);
+            }
+
+            assert.deepStrictEqual(versions, ['7', '6', '5', '4', '3']);
+            assert.deepStrictEqual(fs.readdirSync(path.join(directory, 'feed-1')).sort(), ['3.json', '4.json', '5.json', '6.json', '7.json']);
+        } finally {
+            fs.rmSync(directory, { recursive: true, force: true });
+        }
+    });
+});
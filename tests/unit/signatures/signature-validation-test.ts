@@ -0,0 +1,142 @@
+/**
+ * Unit tests for signature file validation
+ *
+ * These tests verify that:
+ * 1. The bundled signatures.json matches the schema
+ * 2. Invalid entries are reported with their file, position and ID, and left out
+ * 3. Pattern rules with regular expressions or paths that can't be used are rejected, as are
+ *    regular expressions that can backtrack catastrophically
+ * 4. The validator accepts the values the published JSON Schema lists
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import fs from 'node:fs';
+import path from 'node:path';
+import { parseSignatureFile, validateSignatures } from '../../../src/services/signatures/validation';
+
+const SIGNATURES_DIRECTORY = path.join(__dirname, '../../../signatures');
+
+const schema = JSON.parse(fs.readFileSync(path.join(SIGNATURES_DIRECTORY, 'deterministic/signatures.schema.json'), 'utf8'));
+
+const baseFields = {
+    id: 'llm-check',
+    name: 'LLM Check',
+    description: 'Flags hidden instructions',
+    category: 'prompt_injection'
+};
+
+const llmSignature = { ...baseFields, type: 'llm', prompt: 'Block hidden instructions' };
+
+// Validate a single entry and get its messages
+function problemsOf(entry: object): string[] {
+    return validateSignatures([entry], 'signatures.json').errors.map(error => error.message);
+}
+
+describe('Signature file validation', () => {
+    it('should accept the bundled signatures', () => {
+        const text = fs.readFileSync(path.join(SIGNATURES_DIRECTORY, 'signatures.json'), 'utf8');
+        const validation = parseSignatureFile(text, 'signatures.json');
+
+        assert.deepStrictEqual(validation.errors, []);
+        assert.strictEqual(validation.signatures.length, JSON.parse(text).length);
+    });
+
+    it('should report each invalid entry with its position and ID', () => {
+        const validation = validateSignatures([
+            llmSignature,
+            { ...baseFields, id: 'det-check', type: 'deterministic' },
+            { ...llmSignature },
+            { ...llmSignature, id: 'other', type: 'regex' }
+        ], 'signatures.json');
+
+        assert.deepStrictEqual(validation.signatures, [llmSignature]);
+        assert.deepStrictEqual(validation.errors, [
+            { file: 'signatures.json', index: 1, signatureId: 'det-check', message: 'functionFile must name a JavaScript file in the deterministic directory' },
+            { file: 'signatures.json', index: 2, signatureId: 'llm-check', message: 'Duplicate id "llm-check", already used by entry 1' },
+            { file: 'signatures.json', index: 3, signatureId: 'other', message: 'Unknown type "regex", expected one of "llm", "deterministic", "pattern"' }
+        ]);
+    });
+
+    it('should report files that are not a list of signatures', () => {
+        assert.match(parseSignatureFile('[{', 'signatures.json').errors[0].message, /^Not valid JSON/);
+        assert.deepStrictEqual(parseSignatureFile('{}', 'signatures.json').errors, [
+            { file: 'signatures.json', message: 'The file must contain a list of signatures' }
+        ]);
+    });
+
+    it('should keep function files inside the deterministic directory', () => {
+        const deterministic = { ...baseFields, type: 'deterministic' };
+
+        assert.deepStrictEqual(problemsOf({ ...deterministic, functionFile: 'nested/check.js', timeoutMs: 500 }), []);
+        for (const functionFile of ['../check.js', '/tmp/check.js', 'check.ts']) {
+            assert.match(problemsOf({ ...deterministic, functionFile })[0], /must be a \.js file inside the deterministic directory/);
+        }
+        assert.deepStrictEqual(problemsOf({ ...deterministic, functionFile: 'check.js', timeoutMs: 0 }), [
+            'timeoutMs must be a number of milliseconds above 0'
+        ]);
+    });
+});
+
+describe('Pattern rule validation', () => {
+    const withRule = (rule: object) => ({ ...baseFields, type: 'pattern', rule });
+
+    it('should check nested rules down to their regular expressions and paths', () => {
+        const problems = problemsOf(withRule({
+            kind: 'any',
+            rules: [
+                { kind: 'regex', pattern: '([a-z]', path: '$..token' },
+                { kind: 'not', rule: { kind: 'keywords', keywords: ['secret'], path: '$.a b[' } },
+                { kind: 'length', maxLength: 100, extra: true }
+            ]
+        }));
+
+        assert.strictEqual(problems.length, 3);
+        assert.match(problems[0], /^rule\.rules\[0\]\.pattern: Invalid regular expression/);
+        assert.match(problems[1], /^rule\.rules\[1\]\.rule\.path: Unsupported JSONPath/);
+        assert.strictEqual(problems[2], 'rule.rules[2] has unknown field "extra" for a length rule');
+    });
+
+    it('should reject regular expressions that repeat a repeating group', () => {
+        for (const pattern of ['(a+)+$', '(\\w+\\s?)*$', '(?:x*y)*', '((ab)+c)*', '(?<word>[a-z]{1,5}){2,}']) {
+            assert.deepStrictEqual(problemsOf(withRule({ kind: 'regex', pattern })), [
+                'rule.pattern repeats a group that repeats itself, which can take exponential time'
+            ], pattern);
+        }
+        for (const pattern of ['AKIA[0-9A-Z]{16}', '(\\d{1,3}\\.){3}\\d{1,3}', '(foo|bar)+', '\\(a+\\)+', '[(a+)]+', '(a?)+']) {
+            assert.deepStrictEqual(problemsOf(withRule({ kind: 'regex', pattern })), [], pattern);
+        }
+    });
+
+    it('should reject unknown kinds and flags', () => {
+        assert.deepStrictEqual(problemsOf(withRule({ kind: 'glob', pattern: '*' })), [
+            'rule.kind must be one of "regex", "keywords", "entropy", "length", "all", "any", "not"'
+        ]);
+        assert.deepStrictEqual(problemsOf(withRule({ kind: 'regex', pattern: 'a', flags: 'x' })), [
+            'rule.flags must only use the flags d, g, i, m, s, u and y'
+        ]);
+    });
+});
+
+describe('Published schema', () => {
+    it('should list the values the validator accepts', () => {
+        const signature = schema.$defs.signature.properties;
+
+        assert.deepStrictEqual(signature.type.enum, ['llm', 'deterministic', 'pattern']);
+        for (const severity of signature.severity.enum) {
+            assert.deepStrictEqual(problemsOf({ ...llmSignature, severity }), []);
+        }
+        for (const action of signature.action.enum) {
+            assert.deepStrictEqual(problemsOf({ ...llmSignature, action }), []);
+        }
+        for (const direction of schema.$defs.scope.properties.direction.enum) {
+            assert.deepStrictEqual(problemsOf({ ...llmSignature, scope: { direction } }), []);
+        }
+
+        const ruleKinds = schema.$defs.rule.oneOf.flatMap((rule: any) => rule.properties.kind.enum || [rule.properties.kind.const]);
+        assert.deepStrictEqual(ruleKinds, ['regex', 'keywords', 'entropy', 'length', 'all', 'any', 'not']);
+        assert.deepStrictEqual(Object.keys(schema.$defs.scope.properties), [
+            'direction', 'includeTools', 'excludeTools', 'includeServers', 'excludeServers', 'includeApps', 'excludeApps'
+        ]);
+    });
+});
@@ -0,0 +1,256 @@
+/**
+ * Unit tests for the Streamable HTTP transport proxy
+ *
+ * These tests run the proxy between a client and a local stub MCP server and verify that:
+ * 1. The session the server assigns on initialize is tracked and passed through both ways
+ * 2. Blocked tool calls of a batch are answered by the proxy and never forwarded
+ * 3. SSE responses are verified event by event, only blocked responses are replaced, whatever their line endings
+ * 4. DELETE ends the session on the server and closes the session's open streams
+ *
+ * Tool calls and responses are checked with a pattern signature, so no model is needed.
+ */
+
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import type { DefenderState } from '../../../src/defender/common/types';
+import type * as Transport from '../../../src/defender/transports/streamable-http-transport';
+import { PatternSignature } from '../../../src/services/signatures/types';
+
+// The defender talks to the app through the parent port of its utility process
+const parentMessages: any[] = [];
+(process as any).parentPort = {
+    on: () => undefined,
+    postMessage: (message: any) => parentMessages.push(message)
+};
+
+// Blocks anything mentioning an SSH key, in calls and responses
+const SSH_KEY_SIGNATURE: PatternSignature = {
+    id: 'ssh-keys',
+    name: 'SSH Keys',
+    description: 'Blocks access to SSH keys',
+    category: 'credentials',
+    type: 'pattern',
+    action: 'block',
+    rule: { kind: 'keywords', keywords: ['id_rsa'] }
+};
+
+const APP_NAME = 'Cursor';
+const SERVER_NAME = 'files';
+
+let transport: typeof Transport;
+let state: DefenderState;
+
+// Requests the stub server received
+let targetRequests: { method: string; headers: http.IncomingHttpHeaders; body: any }[] = [];
+
+// How the stub server answers the next requests
+let answerTarget: (req: http.IncomingMessage, res: http.ServerResponse, body: any) => void;
+
+// The listeners are added separately, older TypeScript can't read the createServer typings of @types/node
+const targetServer = http.createServer();
+targetServer.on('request', (req: http.IncomingMessage, res: http.ServerResponse) => {
+    let body = '';
+    req.on('data', (chunk: Buffer) => body += chunk);
+    req.on('end', () => {
+        const parsed = body ? JSON.parse(body) : null;
+        targetRequests.push({ method: req.method || '', headers: req.headers, body: parsed });
+        answerTarget(req, res, parsed);
+    });
+});
+
+// Proxy routing each method to its handler like the defender does
+const proxyServer = http.createServer();
+proxyServer.on('request', (req: http.IncomingMessage, res: http.ServerResponse) => {
+    if (req.method === 'GET') {
+        transport.handleStreamableHttpConnection(req, res, SERVER_NAME, state);
+    } else if (req.method === 'DELETE') {
+        transport.handleStreamableHttpDelete(req, res, SERVER_NAME, state);
+    } else {
+        transport.handleStreamableHttpMessage(req, res, SERVER_NAME, state);
+    }
+});
+
+let targetUrl = '';
+let proxyUrl = '';
+
+before(async () => {
+    transport = await import('../../../src/defender/transports/streamable-http-transport');
+    state = (await import('../../../src/defender/defender-controller')).state;
+    state.signatures = [SSH_KEY_SIGNATURE];
+
+    await new Promise<void>(resolve => targetServer.listen(0, '127.0.0.1', resolve));
+    await new Promise<void>(resolve => proxyServer.listen(0, '127.0.0.1', resolve));
+    targetUrl = `http://127.0.0.1:${(targetServer.address() as AddressInfo).port}/mcp`;
+    proxyUrl = `http://127.0.0.1:${(proxyServer.address() as AddressInfo).port}/${APP_NAME}/${SERVER_NAME}`;
+});
+
+after(() => {
+    targetServer.closeAllConnections();
+    targetServer.close();
+    proxyServer.closeAllConnections();
+    proxyServer.close();
+});
+
+beforeEach(() => {
+    targetRequests = [];
+    state.streamableSessions.clear();
+    state.pendingToolCalls.clear();
+});
+
+// Send a request to the proxy as the app would
+function sendToProxy(method: string, body?: any, headers: Record<string, string> = {}): Promise<Response> {
+    return fetch(proxyUrl, {
+        method,
+        headers: {
+            'mcp_defender_app_name': APP_NAME,
+            'mcp_defender_original_url': targetUrl,
+            'accept': 'application/json, text/event-stream',
+            'content-type': 'application/json',
+            ...headers
+        },
+        body: body === undefined ? undefined : JSON.stringify(body)
+    });
+}
+
+// Answer every tools/call of a message or batch with text
+function toolResults(body: any, text: (call: any) => string): any[] {
+    return (Array.isArray(body) ? body : [body]).map(call => ({
+        jsonrpc: '2.0',
+        id: call.id,
+        result: { content: [{ type: 'text', text: text(call) }] }
+    }));
+}
+
+// Build a tools/call request
+function toolCall(id: number, path: string) {
+    return { jsonrpc: '2.0', id, method: 'tools/call', params: { name: 'read_file', arguments: { path } } };
+}
+
+describe('Sessions', () => {
+    it('should track the session assigned on initialize and forward it on later requests', async () => {
+        answerTarget = (req, res, body) => {
+            if (body.method === 'initialize') {
+                res.writeHead(200, { 'content-type': 'application/json', 'mcp-session-id': 'session-1' });
+                res.end(JSON.stringify({ jsonrpc: '2.0', id: body.id, result: { protocolVersion: '2025-03-26' } }));
+            } else {
+                res.writeHead(202);
+                res.end();
+            }
+        };
+
+        const initialized = await sendToProxy('POST', { jsonrpc: '2.0', id: 1, method: 'initialize', params: {} });
+        assert.strictEqual(initialized.headers.get('mcp-session-id'), 'session-1');
+        assert.deepStrictEqual(await initialized.json(), { jsonrpc: '2.0', id: 1, result: { protocolVersion: '2025-03-26' } });
+        assert.strictEqual(state.streamableSessions.get('session-1')?.targetUrl, targetUrl);
+
+        const notified = await sendToProxy('POST', { jsonrpc: '2.0', method: 'notifications/initialized' }, { 'mcp-session-id': 'session-1' });
+        assert.strictEqual(notified.status, 202);
+        assert.strictEqual(targetRequests[1].headers['mcp-session-id'], 'session-1');
+    });
+});
+
+describe('Tool calls', () => {
+    it('should answer blocked calls of a batch and only forward the others', async () => {
+        answerTarget = (req, res, body) => {
+            res.writeHead(200, { 'content-type': 'application/json' });
+            res.end(JSON.stringify(toolResults(body, () => 'contents')));
+        };
+
+        const response = await sendToProxy('POST', [toolCall(1, '/home/user/.ssh/id_rsa'), toolCall(2, '/tmp/notes.txt')]);
+        const messages = await response.json();
+
+        assert.deepStrictEqual(targetRequests[0].body, [toolCall(2, '/tmp/notes.txt')]);
+        assert.deepStrictEqual(messages.map((message: any) => message.id), [1, 2]);
+        assert.strictEqual(messages[0].error.message, 'Tool call not allowed: Security policy violation');
+        assert.strictEqual(messages[1].result.content[0].text, 'contents');
+        assert.strictEqual(state.pendingToolCalls.size, 0);
+        assert.ok(parentMessages.some(message => message.data?.scanType === 'tool_call' && message.data.allowed === false && message.data.state === 'completed'));
+    });
+
+    it('should answer a single blocked call without contacting the server', async () => {
+        const response = await sendToProxy('POST', toolCall(3, '/home/user/.ssh/id_rsa'));
+
+        assert.strictEqual(response.status, 200);
+        assert.strictEqual((await response.json()).error.code, -32000);
+        assert.strictEqual(targetRequests.length, 0);
+    });
+});
+
+describe('SSE responses', () => {
+    it('should verify each event and only replace the blocked responses', async () => {
+        const allowedEvent = `id: e1\nevent: message\ndata: ${JSON.stringify(toolResults(toolCall(4, ''), () => 'notes')[0])}`;
+        answerTarget = (req, res) => {
+            res.writeHead(200, { 'content-type': 'text/event-stream' });
+            res.write(`${allowedEvent}\n\n: keepalive\n\n`);
+            res.end(`id: e2\nevent: message\ndata: ${JSON.stringify(toolResults(toolCall(5, ''), () => 'ssh-rsa ... from id_rsa')[0])}\n\n`);
+        };
+
+        const response = await sendToProxy('POST', [toolCall(4, '/tmp/notes.txt'), toolCall(5, '/tmp/keys.txt')]);
+        const events = (await response.text()).split('\n\n');
+
+        assert.strictEqual(response.headers.get('content-type'), 'text/event-stream');
+        assert.strictEqual(events[0], allowedEvent, 'Allowed events are forwarded unchanged');
+        assert.strictEqual(events[1], ': keepalive');
+        assert.deepStrictEqual(events[2].split('\n').slice(0, 2), ['id: e2', 'event: message']);
+        assert.deepStrictEqual(JSON.parse(events[2].split('\n')[2].replace(/^data: /, '')), {
+            jsonrpc: '2.0',
+            id: 5,
+            error: { code: -32000, message: 'Tool response not allowed: Security policy violation' }
+        });
+        assert.strictEqual(events[3], '');
+    });
+
+    it('should read CRLF line endings split across chunks', async () => {
+        const result = JSON.stringify(toolResults(toolCall(6, ''), () => 'notes')[0]);
+        answerTarget = (req, res) => {
+            res.writeHead(200, { 'content-type': 'text/event-stream' });
+            res.write(`id: e1\r\nevent: message\r\ndata: ${result}\r\n\r`);
+            setTimeout(() => res.end(`\n: keepalive\r\n\r\n`), 50);
+        };
+
+        const response = await sendToProxy('POST', toolCall(6, '/tmp/notes.txt'));
+        const events = (await response.text()).split('\n\n');
+
+        assert.deepStrictEqual(events, [`id: e1\nevent: message\ndata: ${result}`, ': keepalive', '']);
+    });
+});
+
+describe('Session termination', () => {
+    it('should end the session on the server and close its open streams', async () => {
+        answerTarget = (req, res, body) => {
+            if (req.method === 'GET') {
+                res.writeHead(200, { 'content-type': 'text/event-stream' });
+                res.write(': open\n\n');
+            } else if (req.method === 'DELETE') {
+                res.writeHead(200);
+                res.end();
+            } else {
+                res.writeHead(200, { 'content-type': 'application/json', 'mcp-session-id': 'session-2' });
+                res.end(JSON.stringify({ jsonrpc: '2.0', id: body.id, result: {} }));
+            }
+        };
+
+        await (await sendToProxy('POST', { jsonrpc: '2.0', id: 1, method: 'initialize', params: {} })).json();
+        const stream = await sendToProxy('GET', undefined, { 'accept': 'text/event-stream', 'mcp-session-id': 'session-2' });
+        const reader = stream.body.getReader();
+        await reader.read();
+        assert.strictEqual(state.streamableSessions.get('session-2')?.streams.size, 1);
+
+        const deleted = await sendToProxy('DELETE', undefined, { 'mcp-session-id': 'session-2' });
+
+        assert.strictEqual(deleted.status, 200);
+        assert.strictEqual(targetRequests[targetRequests.length - 1].method, 'DELETE');
+        assert.strictEqual(targetRequests[targetRequests.length - 1].headers['mcp-session-id'], 'session-2');
+        assert.ok(!state.streamableSessions.has('session-2'));
+        assert.strictEqual((await reader.read()).done, true, 'The open stream is closed');
+    });
+
+    it('should reject DELETE without a session', async () => {
+        const response = await sendToProxy('DELETE');
+
+        assert.strictEqual(response.status, 400);
+        assert.strictEqual(targetRequests.length, 0);
+    });
+});
@@ -0,0 +1,170 @@
+/**
+ * Unit tests for the Anthropic verification provider
+ *
+ * These tests run the Messages API client against a local stub server and verify that it:
+ * 1. Sends the verification instructions as the system prompt and the input as the user message
+ * 2. Authenticates with the API key and API version headers
+ * 3. Returns the text of the reply, or the input of the forced tool call
+ * 4. Reports API errors with their message
+ */
+
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { createAnthropicMessage } from '../../../src/defender/utils/anthropic';
+
+// Requests received by the stub server
+let receivedRequests: { headers: http.IncomingHttpHeaders; url: string; body: any }[] = [];
+
+// Reply the stub server sends for the next request
+let nextReply: { status: number; body: any } = { status: 200, body: {} };
+
+// The listener is added separately, older TypeScript can't read the createServer typings of @types/node
+const stubServer = http.createServer();
+stubServer.on('request', (req: http.IncomingMessage, res: http.ServerResponse) => {
+    let body = '';
+    req.on('data', (chunk: Buffer) => body += chunk);
+    req.on('end', () => {
+        receivedRequests.push({
+            headers: req.headers,
+            url: req.url || '',
+            body: JSON.parse(body)
+        });
+
+        res.writeHead(nextReply.status, { 'content-type': 'application/json' });
+        res.end(JSON.stringify(nextReply.body));
+    });
+});
+
+let baseUrl = '';
+
+before(async () => {
+    await new Promise<void>(resolve => stubServer.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(stubServer.address() as AddressInfo).port}`;
+});
+
+after(() => {
+    stubServer.close();
+});
+
+beforeEach(() => {
+    receivedRequests = [];
+});
+
+// Build a reply in the Messages API format
+function messageReply(text: string) {
+    return {
+        id: 'msg_test',
+        type: 'message',
+        role: 'assistant',
+        model: 'claude-sonnet-4-5',
+        content: [{ type: 'text', text }],
+        stop_reason: 'end_turn',
+        usage: { input_tokens: 10, output_tokens: 10 }
+    };
+}
+
+describe('Anthropic Messages API client', () => {
+    it('should send the instructions and input in the Messages API format', async () => {
+        nextReply = { status: 200, body: messageReply('SIGNATURE ID: sig-1\nALLOWED: true\nREASON:') };
+
+        await createAnthropicMessage({
+            apiKey: 'sk-ant-test',
+            model: 'claude-sonnet-4-5',
+            system: '# Identity\nYou are a security validator',
+            input: '# Tool Call\nread_file',
+            baseUrl
+        });
+
+        assert.strictEqual(receivedRequests.length, 1, 'Should have sent one request');
+        const [request] = receivedRequests;
+
+        assert.strictEqual(request.url, '/v1/messages', 'Should call the messages endpoint');
+        assert.strictEqual(request.headers['x-api-key'], 'sk-ant-test', 'Should send the API key');
+        assert.strictEqual(request.headers['anthropic-version'], '2023-06-01', 'Should send the API version');
+        assert.strictEqual(request.body.model, 'claude-sonnet-4-5', 'Should use the selected model');
+        assert.strictEqual(request.body.system, '# Identity\nYou are a security validator', 'Instructions should be the system prompt');
+        assert.deepStrictEqual(
+            request.body.messages,
+            [{ role: 'user', content: '# Tool Call\nread_file' }],
+            'Input should be the only user message'
+        );
+        assert.ok(request.body.max_tokens > 0, 'Should limit the reply length');
+    });
+
+    it('should return the text of the reply', async () => {
+        nextReply = {
+            status: 200,
+            body: {
+                ...messageReply(''),
+                content: [
+                    { type: 'text', text: 'SIGNATURE ID: sig-1\n' },
+                    { type: 'text', text: 'ALLOWED: false\nREASON: Reads a private key' }
+                ]
+            }
+        };
+
+        const reply = await createAnthropicMessage({
+            apiKey: 'sk-ant-test',
+            model: 'claude-sonnet-4-5',
+            system: 'instructions',
+            input: 'input',
+            baseUrl
+        });
+
+        assert.strictEqual(reply, 'SIGNATURE ID: sig-1\nALLOWED: false\nREASON: Reads a private key', 'Should join the text blocks');
+    });
+
+    it('should force the tool call and return its input as JSON', async () => {
+        const verdicts = {
+            verdicts: [{ signatureId: 'sig-1', allowed: true, confidence: 0.9, reason: 'Harmless', evidence: [] as string[] }]
+        };
+        nextReply = {
+            status: 200,
+            body: {
+                ...messageReply(''),
+                content: [{ type: 'tool_use', id: 'toolu_test', name: 'verification_verdicts', input: verdicts }],
+                stop_reason: 'tool_use'
+            }
+        };
+
+        const inputSchema = { type: 'object', properties: { verdicts: { type: 'array' } }, required: ['verdicts'] };
+        const reply = await createAnthropicMessage({
+            apiKey: 'sk-ant-test',
+            model: 'claude-sonnet-4-5',
+            system: 'instructions',
+            input: 'input',
+            tool: { name: 'verification_verdicts', description: 'Report the verdicts', inputSchema },
+            baseUrl
+        });
+
+        const [request] = receivedRequests;
+        assert.deepStrictEqual(
+            request.body.tools,
+            [{ name: 'verification_verdicts', description: 'Report the verdicts', input_schema: inputSchema }],
+            'Should offer the tool with its schema'
+        );
+        assert.deepStrictEqual(request.body.tool_choice, { type: 'tool', name: 'verification_verdicts' }, 'Should force the tool call');
+        assert.deepStrictEqual(JSON.parse(reply), verdicts, 'Should return the tool input');
+    });
+
+    it('should report API errors with their message', async () => {
+        nextReply = {
+            status: 401,
+            body: { type: 'error', error: { type: 'authentication_error', message: 'invalid x-api-key' } }
+        };
+
+        await assert.rejects(
+            createAnthropicMessage({
+                apiKey: 'sk-ant-wrong',
+                model: 'claude-sonnet-4-5',
+                system: 'instructions',
+                input: 'input',
+                baseUrl
+            }),
+            /401.*invalid x-api-key/,
+            'Should reject with the status and the error message'
+        );
+    });
+});
@@ -0,0 +1,97 @@
+/**
+ * Unit tests for remembered decisions
+ *
+ * These tests verify that:
+ * 1. Decisions apply to the same arguments, the same tool or the same server, by scope
+ * 2. Decisions only apply to the kind of traffic they were made on
+ * 3. Changed tool definitions never get a remembered decision
+ * 4. The most specific unexpired decision wins, and the newest among equals
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { findDecisionOverride } from '../../../src/defender/utils/decision-overrides';
+import { ScanResult } from '../../../src/services/scans/types';
+import { DecisionOverride } from '../../../src/services/settings/types';
+
+const NOW = Date.UTC(2026, 9, 1, 12, 0);
+
+// Build a tool call scan of the filesystem server
+function makeScan(overrides: Partial<ScanResult> = {}): ScanResult {
+    return {
+        date: new Date(NOW),
+        appName: 'Cursor',
+        serverName: 'filesystem',
+        serverVersion: '1.0.0',
+        toolName: 'read_file',
+        toolArgs: '{"path":"/tmp/a"}',
+        allowed: false,
+        signatureVerifications: {},
+        ...overrides
+    };
+}
+
+// Build a decision remembered from a tool call of the filesystem server
+function makeOverride(id: string, overrides: Partial<DecisionOverride> = {}): DecisionOverride {
+    return {
+        id,
+        appName: 'Cursor',
+        serverName: 'filesystem',
+        toolName: 'read_file',
+        scanType: 'tool_call',
+        toolArgs: '{"path":"/tmp/a"}',
+        scope: 'tool',
+        allowed: true,
+        createdAt: NOW - 1000,
+        expiresAt: null,
+        ...overrides
+    };
+}
+
+describe('Decision scopes', () => {
+    it('should match the same arguments, the same tool or the same server', () => {
+        const exact = makeOverride('exact', { scope: 'exact' });
+        const tool = makeOverride('tool', { scope: 'tool' });
+        const server = makeOverride('server', { scope: 'server' });
+
+        assert.strictEqual(findDecisionOverride([exact], makeScan(), NOW)?.id, 'exact');
+        assert.strictEqual(findDecisionOverride([exact], makeScan({ toolArgs: '{"path":"/tmp/b"}' }), NOW), null);
+        assert.strictEqual(findDecisionOverride([tool], makeScan({ toolArgs: '{"path":"/tmp/b"}' }), NOW)?.id, 'tool');
+        assert.strictEqual(findDecisionOverride([tool], makeScan({ toolName: 'write_file' }), NOW), null);
+        assert.strictEqual(findDecisionOverride([server], makeScan({ toolName: 'write_file' }), NOW)?.id, 'server');
+        assert.strictEqual(findDecisionOverride([server], makeScan({ serverName: 'github' }), NOW), null);
+        assert.strictEqual(findDecisionOverride([server], makeScan({ appName: 'Claude Desktop' }), NOW), null);
+    });
+
+    it('should only match the kind of traffic the decision was made on', () => {
+        const server = makeOverride('server', { scope: 'server' });
+        const responses = makeOverride('responses', { scope: 'server', scanType: 'tool_response' });
+
+        assert.strictEqual(findDecisionOverride([server], makeScan({ scanType: 'sampling', toolName: 'sampling' }), NOW), null);
+        assert.strictEqual(findDecisionOverride([server], makeScan({ isResponse: true }), NOW), null);
+        assert.strictEqual(findDecisionOverride([responses], makeScan({ isResponse: true }), NOW)?.id, 'responses');
+        assert.strictEqual(findDecisionOverride([server], makeScan({ scanType: 'tool_call' }), NOW)?.id, 'server');
+    });
+
+    it('should never match changed tool definitions', () => {
+        const change = makeScan({ scanType: 'tool_change', toolName: 'read_file', toolArgs: '{"description":"changed"}' });
+
+        assert.strictEqual(findDecisionOverride([makeOverride('server', { scope: 'server', scanType: 'tool_change' })], change, NOW), null);
+        assert.strictEqual(findDecisionOverride([makeOverride('exact', { scope: 'exact', scanType: 'tool_change', toolArgs: change.toolArgs })], change, NOW), null);
+    });
+});
+
+describe('Decision precedence', () => {
+    it('should pick the most specific unexpired decision, the newest among equals', () => {
+        const overrides = [
+            makeOverride('server', { scope: 'server', allowed: false, createdAt: NOW - 10 }),
+            makeOverride('old-tool', { scope: 'tool', createdAt: NOW - 500 }),
+            makeOverride('new-tool', { scope: 'tool', allowed: false, createdAt: NOW - 100 }),
+            makeOverride('expired', { scope: 'exact', expiresAt: NOW })
+        ];
+
+        assert.strictEqual(findDecisionOverride(overrides, makeScan(), NOW)?.id, 'new-tool');
+        assert.strictEqual(findDecisionOverride(overrides, makeScan(), NOW - 1)?.id, 'expired');
+        assert.strictEqual(findDecisionOverride(undefined, makeScan(), NOW), null);
+    });
+});
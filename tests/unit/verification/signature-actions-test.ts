@@ -0,0 +1,96 @@
+/**
+ * Unit tests for signature severities and actions
+ *
+ * These tests verify that:
+ * 1. Signatures without a valid severity or action get medium and prompt
+ * 2. The strictest action and highest severity of the flagging signatures decide
+ * 3. Only content flagged by signatures that warn or log is allowed
+ * 4. Signatures that produced no verdict hold the content for the user whatever their action
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import {
+    aggregateSignatureDecision,
+    getFlaggedSignatures,
+    getSignatureAction,
+    getSignatureSeverity
+} from '../../../src/defender/utils/signature-actions';
+import { Signature } from '../../../src/services/signatures/types';
+
+const signature = {
+    id: 'sig-1',
+    name: 'File Path Validator',
+    description: 'Flags paths outside the project',
+    category: 'file_access',
+    type: 'llm',
+    prompt: 'Block paths outside the project'
+} as Signature;
+
+describe('Signature defaults', () => {
+    it('should default to medium severity and prompting the user', () => {
+        assert.strictEqual(getSignatureSeverity(signature), 'medium');
+        assert.strictEqual(getSignatureAction(signature), 'prompt');
+        assert.strictEqual(getSignatureAction(undefined), 'prompt', 'Signature no longer loaded');
+        assert.strictEqual(getSignatureAction({ ...signature, action: 'ignore' } as unknown as Signature), 'prompt', 'Invalid action');
+    });
+
+    it('should use the severity and action of the signature', () => {
+        const warning = { ...signature, severity: 'low', action: 'warn' } as Signature;
+
+        assert.strictEqual(getSignatureSeverity(warning), 'low');
+        assert.strictEqual(getSignatureAction(warning), 'warn');
+    });
+});
+
+describe('Signature decisions', () => {
+    it('should allow content no signature flagged', () => {
+        assert.deepStrictEqual(aggregateSignatureDecision([]), { allowed: true });
+    });
+
+    it('should allow content flagged only by signatures that warn or log', () => {
+        assert.deepStrictEqual(
+            aggregateSignatureDecision([{ severity: 'low', action: 'log' }, { severity: 'medium', action: 'warn' }]),
+            { allowed: true, action: 'warn', severity: 'medium' }
+        );
+    });
+
+    it('should let the strictest action and highest severity decide', () => {
+        assert.deepStrictEqual(
+            aggregateSignatureDecision([
+                { severity: 'critical', action: 'warn' },
+                { severity: 'low', action: 'block' },
+                { severity: 'high', action: 'prompt' }
+            ]),
+            { allowed: false, action: 'block', severity: 'critical' }
+        );
+    });
+});
+
+describe('Signature errors', () => {
+    it('should hold content for the user when a signature that warns or logs fails', () => {
+        assert.deepStrictEqual(
+            aggregateSignatureDecision([{ severity: 'low', action: 'log', error: true }, { severity: 'low', action: 'warn' }]),
+            { allowed: false, action: 'prompt', severity: 'low' }
+        );
+        assert.deepStrictEqual(
+            aggregateSignatureDecision([{ severity: 'high', action: 'block', error: true }]),
+            { allowed: false, action: 'block', severity: 'high' },
+            'Stricter actions still apply'
+        );
+    });
+
+    it('should only let failing signatures that fail open through', () => {
+        const flagged = getFlaggedSignatures({
+            'closed-check': {
+                deterministic: { signatureId: 'closed-check', signatureName: 'Closed', allowed: false, reason: 'Signature error: timed out', action: 'warn', error: true }
+            },
+            'open-check': {
+                deterministic: { signatureId: 'open-check', signatureName: 'Open', allowed: true, reason: 'Signature error: timed out (allowed, the signature fails open)', action: 'warn', error: true }
+            }
+        });
+
+        assert.deepStrictEqual(flagged, [{ severity: 'medium', action: 'warn', error: true }]);
+        assert.strictEqual(aggregateSignatureDecision(flagged).allowed, false);
+    });
+});
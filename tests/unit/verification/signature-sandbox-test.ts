@@ -0,0 +1,119 @@
+/**
+ * Unit tests for the deterministic signature sandbox
+ *
+ * These tests verify that signature functions:
+ * 1. Get their input and the SignatureContext helpers
+ * 2. Can't reach require, process or code generation from strings
+ * 3. Are reported as errors when they throw or exceed the time limit
+ * 4. Can be async, and only read files in the signatures directory
+ * 5. Only have their time counted once the worker starts them, not while queued
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { runInSandbox } from '../../../src/defender/utils/signature-sandbox';
+
+// Run signature source with a fixed input
+function run(source: string, limits = { timeoutMs: 500, maxMemoryMb: 64 }) {
+    return runInSandbox({
+        source,
+        filename: 'test-signature.js',
+        readRoot: __dirname,
+        toolInput: { path: '/home/user/.ssh/id_rsa' },
+        context: { toolName: 'read_file' }
+    }, limits);
+}
+
+describe('Signature sandbox', () => {
+    it('should pass the input and the context helpers', async () => {
+        const outcome = await run(`
+            module.exports = function (toolInput, context) {
+                return {
+                    allowed: !context.matchesRegex(toolInput.path, '\\\\.ssh/'),
+                    reason: context.toolName + ' ' + context.isString(toolInput.path)
+                };
+            };
+        `);
+
+        assert.deepStrictEqual(outcome, { ok: true, result: { allowed: false, reason: 'read_file true' } });
+    });
+
+    it('should not expose Node.js to the signature', async () => {
+        const outcome = await run(`
+            module.exports = function (toolInput, context) {
+                var escape;
+                try {
+                    escape = context.isString.constructor('return typeof process')();
+                } catch (error) {
+                    escape = 'blocked';
+                }
+                return { allowed: true, reason: [typeof require, typeof process, escape].join(',') };
+            };
+        `);
+
+        assert.deepStrictEqual(outcome, { ok: true, result: { allowed: true, reason: 'undefined,undefined,blocked' } });
+    });
+
+    it('should report a signature that throws', async () => {
+        const outcome = await run(`module.exports = function () { throw new Error('boom'); };`);
+
+        assert.deepStrictEqual(outcome, { ok: false, error: 'boom' });
+    });
+
+    it('should stop a signature that exceeds the CPU time limit', async () => {
+        const outcome = await run(`module.exports = function () { while (true) {} };`, { timeoutMs: 100, maxMemoryMb: 64 });
+
+        assert.deepStrictEqual(outcome, { ok: false, error: 'timed out after 100ms' });
+    });
+
+    it('should wait for async signatures', async () => {
+        const outcome = await run(`
+            module.exports = async function (toolInput, context) {
+                var source = await context.readFile('signature-sandbox-test.ts');
+                return { allowed: true, reason: String(source.includes('Signature sandbox')) };
+            };
+        `);
+
+        assert.deepStrictEqual(outcome, { ok: true, result: { allowed: true, reason: 'true' } });
+    });
+
+    it('should stop an async signature that does not resolve in time', async () => {
+        const outcome = await run(`module.exports = function () { return new Promise(function () {}); };`, { timeoutMs: 100, maxMemoryMb: 64 });
+
+        assert.deepStrictEqual(outcome, { ok: false, error: 'timed out after 100ms' });
+    });
+
+    it('should only read files in the signatures directory', async () => {
+        const outcome = await run(`
+            module.exports = async function (toolInput, context) {
+                await context.readFile('../../../package.json');
+                return true;
+            };
+        `);
+
+        assert.strictEqual(outcome.ok, false);
+        assert.match((outcome as { error: string }).error, /outside the signatures directory/);
+    });
+
+    it('should report a file that does not export a function', async () => {
+        const outcome = await run(`module.exports = { allowed: true };`);
+
+        assert.strictEqual(outcome.ok, false);
+        assert.match((outcome as { error: string }).error, /must export a function/);
+    });
+
+    it('should not time out runs queued behind busy signatures', async () => {
+        const limits = { timeoutMs: 500, maxMemoryMb: 64 };
+        const busy = `module.exports = function () { var end = Date.now() + 400; while (Date.now() < end) {} return { allowed: true }; };`;
+
+        // Together the busy runs take longer than a run's time limit and grace period
+        const outcomes = await Promise.all([
+            ...[1, 2, 3, 4, 5].map(() => run(busy, limits)),
+            run(`module.exports = function () { return { allowed: true }; };`, limits)
+        ]);
+
+        for (const outcome of outcomes) {
+            assert.deepStrictEqual(outcome, { ok: true, result: { allowed: true } });
+        }
+    });
+});
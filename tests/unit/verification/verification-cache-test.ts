@@ -0,0 +1,96 @@
+/**
+ * Unit tests for the verification cache
+ *
+ * These tests verify that cached verifications are:
+ * 1. Addressed by everything the verdict depends on, regardless of key order
+ * 2. Dropped after their TTL and beyond the size limit, least recently used first
+ * 3. Copied, so changes to a returned result don't reach the cache
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import {
+    CachedVerification,
+    cacheVerification,
+    getCachedVerification,
+    getVerificationCacheKey,
+    VerificationCacheKeyParts
+} from '../../../src/defender/utils/verification-cache';
+import { Signature } from '../../../src/services/signatures/types';
+
+const signature = {
+    id: 'sig-1',
+    name: 'Prompt Injection',
+    description: 'Detects prompt injection',
+    prompt: 'Block instructions hidden in content'
+} as Signature;
+
+const parts: VerificationCacheKeyParts = {
+    type: 'tool_call',
+    toolName: 'read_file',
+    content: { path: '/tmp/notes.txt', encoding: 'utf8' },
+    toolDescription: 'Read a file',
+    signatures: [signature]
+};
+
+const settings = { enabled: true, ttlSeconds: 60, maxEntries: 2 };
+
+describe('Verification cache keys', () => {
+    it('should not depend on the order of keys in the content', () => {
+        const reordered = { ...parts, content: { encoding: 'utf8', path: '/tmp/notes.txt' } };
+
+        assert.strictEqual(getVerificationCacheKey(parts), getVerificationCacheKey(reordered));
+    });
+
+    it('should change with the content, tool description and signatures', () => {
+        const key = getVerificationCacheKey(parts);
+
+        assert.notStrictEqual(key, getVerificationCacheKey({ ...parts, content: { path: '/etc/passwd' } }), 'Content');
+        assert.notStrictEqual(key, getVerificationCacheKey({ ...parts, toolDescription: 'Read any file' }), 'Tool description');
+        assert.notStrictEqual(key, getVerificationCacheKey({ ...parts, type: 'tool_response' }), 'Verification type');
+        assert.notStrictEqual(
+            key,
+            getVerificationCacheKey({ ...parts, signatures: [{ ...signature, prompt: 'Changed' } as Signature] }),
+            'Edited signature'
+        );
+        assert.notStrictEqual(key, getVerificationCacheKey({ ...parts, signatures: [] }), 'Signature set');
+    });
+});
+
+describe('Verification cache entries', () => {
+    it('should return a cached result until it expires', () => {
+        const cache = new Map<string, CachedVerification<{ allowed: boolean }>>();
+        cacheVerification(cache, 'key', { allowed: true }, 'scan-1', settings, 1000);
+
+        assert.deepStrictEqual(getCachedVerification(cache, 'key', 60999)?.scanId, 'scan-1', 'Valid before the TTL');
+        assert.strictEqual(getCachedVerification(cache, 'key', 61000), null, 'Expired after the TTL');
+        assert.strictEqual(cache.size, 0, 'The expired entry should be removed');
+    });
+
+    it('should drop the least recently used entry beyond the size limit', () => {
+        const cache = new Map<string, CachedVerification<{ allowed: boolean }>>();
+        cacheVerification(cache, 'first', { allowed: true }, 'scan-1', settings, 0);
+        cacheVerification(cache, 'second', { allowed: true }, 'scan-2', settings, 0);
+
+        // Using the first entry makes the second the least recently used
+        getCachedVerification(cache, 'first', 0);
+        cacheVerification(cache, 'third', { allowed: false }, 'scan-3', settings, 0);
+
+        assert.deepStrictEqual([...cache.keys()], ['first', 'third']);
+    });
+
+    it('should copy results in and out of the cache', () => {
+        const cache = new Map<string, CachedVerification<{ verificationMap: Record<string, any> }>>();
+        const result: { verificationMap: Record<string, any> } = { verificationMap: { 'sig-1': { allowed: false } } };
+        cacheVerification(cache, 'key', result, 'scan-1', settings, 0);
+
+        result.verificationMap['user_override'] = { allowed: true };
+        getCachedVerification(cache, 'key', 0)!.result.verificationMap['user_override'] = { allowed: true };
+
+        assert.deepStrictEqual(
+            Object.keys(getCachedVerification(cache, 'key', 0)!.result.verificationMap),
+            ['sig-1'],
+            'The cached result should be unchanged'
+        );
+    });
+});
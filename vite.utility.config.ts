@@ -35,6 +35,8 @@ export default defineConfig({
                 'node:child_process',
                 'node:readline',
                 'node:zlib',
+                'node:worker_threads',
+                'node:vm',
                 'http',
                 'https',
                 'url',
@@ -51,6 +53,8 @@ export default defineConfig({
                 'child_process',
                 'readline',
                 'zlib',
+                'worker_threads',
+                'vm',
                 'electron'
             ]
         }